@@ -0,0 +1,4 @@
+-- Vault password change: owner re-wraps every DEK under a new KEK
+-- Salt, params and wrapped DEKs are swapped in one transaction; only the audit enum changes here
+
+ALTER TYPE "AuditEventType" ADD VALUE 'vault_password_changed';
@@ -0,0 +1,16 @@
+-- Offline recovery kit: second wrapping of every DEK under a key derived from a recovery code
+-- The recovery wrapping key is also stored wrapped under the KEK so new uploads can add their recovery wrap
+
+-- AlterTable
+ALTER TABLE "vaults" ADD COLUMN "recoverySalt" TEXT,
+ADD COLUMN "encryptedRecoveryKeyForOwner" TEXT,
+ADD COLUMN "recoveryKeyNonce" TEXT,
+ADD COLUMN "recoveryEnabledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "encryptedDekForRecovery" TEXT,
+ADD COLUMN "dekForRecoveryNonce" TEXT;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'recovery_kit_created';
+ALTER TYPE "AuditEventType" ADD VALUE 'vault_recovered';
@@ -0,0 +1,5 @@
+-- Key-check value so a wrong vault password is rejected at unlock time
+-- Existing vaults keep NULL until their next successful unlock sets it
+
+-- AlterTable
+ALTER TABLE "vaults" ADD COLUMN "kekVerifier" TEXT;
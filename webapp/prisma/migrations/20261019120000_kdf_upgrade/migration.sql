@@ -0,0 +1,5 @@
+-- Versioned KDF descriptors: Vault.kdfParams JSON gains algorithm and version
+-- Existing rows keep their bare costs and are read as argon2id, policy version 1
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'vault_kdf_upgraded';
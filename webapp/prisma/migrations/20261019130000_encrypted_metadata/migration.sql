@@ -0,0 +1,7 @@
+-- Encrypted document metadata: filename and MIME type are sealed under the DEK client-side
+-- Existing rows keep their plaintext filename until the owner's next unlock encrypts it,
+-- after which the filename column is cleared
+
+-- AlterTable
+ALTER TABLE "documents" ALTER COLUMN "filename" DROP NOT NULL,
+ADD COLUMN "encryptedMetadata" TEXT;
@@ -0,0 +1,29 @@
+-- Passkey unlock: per-credential copies of the KEK wrapped under a WebAuthn PRF-derived key
+-- The vault password stays the primary secret; passkey copies are dropped whenever the KEK changes
+
+-- CreateTable
+CREATE TABLE "vault_passkeys" (
+    "id" TEXT NOT NULL,
+    "vaultId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "prfSalt" TEXT NOT NULL,
+    "encryptedKek" TEXT NOT NULL,
+    "kdfSalt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vault_passkeys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_passkeys_credentialId_key" ON "vault_passkeys"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "vault_passkeys_vaultId_idx" ON "vault_passkeys"("vaultId");
+
+-- AddForeignKey
+ALTER TABLE "vault_passkeys" ADD CONSTRAINT "vault_passkeys_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'passkey_enrolled';
+ALTER TYPE "AuditEventType" ADD VALUE 'passkey_removed';
@@ -0,0 +1,39 @@
+-- Co-owner vaults: owner-role memberships carry their own key material, and every
+-- co-owner holds their own wrapped copy of each document DEK
+
+-- AlterTable
+ALTER TABLE "team_memberships" ADD COLUMN "kdfSalt" TEXT,
+ADD COLUMN "kdfParams" JSONB,
+ADD COLUMN "kekVerifier" TEXT,
+ADD COLUMN "publicKey" TEXT,
+ADD COLUMN "encryptedPrivateKey" TEXT,
+ADD COLUMN "accessGrantedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "document_owner_keys" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+    "encryptedDekForOwner" TEXT NOT NULL,
+    "dekNonce" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_owner_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_owner_keys_documentId_membershipId_key" ON "document_owner_keys"("documentId", "membershipId");
+
+-- CreateIndex
+CREATE INDEX "document_owner_keys_membershipId_idx" ON "document_owner_keys"("membershipId");
+
+-- AddForeignKey
+ALTER TABLE "document_owner_keys" ADD CONSTRAINT "document_owner_keys_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_owner_keys" ADD CONSTRAINT "document_owner_keys_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "team_memberships"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'co_owner_keys_created';
+ALTER TYPE "AuditEventType" ADD VALUE 'co_owner_access_granted';
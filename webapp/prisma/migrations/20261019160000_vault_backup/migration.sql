@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'vault_exported';
+ALTER TYPE "AuditEventType" ADD VALUE 'vault_imported';
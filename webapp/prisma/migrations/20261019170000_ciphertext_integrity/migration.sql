@@ -0,0 +1,12 @@
+-- Ciphertext integrity: a DEK-bound tag on each checksum, and scrub job bookkeeping
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "ciphertextChecksumTag" TEXT,
+ADD COLUMN "integrityCheckedAt" TIMESTAMP(3),
+ADD COLUMN "integrityFailedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "documents_integrityCheckedAt_idx" ON "documents"("integrityCheckedAt");
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'integrity_check_failed';
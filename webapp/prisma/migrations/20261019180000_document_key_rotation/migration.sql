@@ -0,0 +1,8 @@
+-- Per-document DEK rotation: an owner-held copy of each link's LSK, and audit events
+
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN "encryptedLskForOwner" TEXT;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'document_key_rotated';
+ALTER TYPE "AuditEventType" ADD VALUE 'link_rekeyed';
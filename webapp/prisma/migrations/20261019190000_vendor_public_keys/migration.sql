@@ -0,0 +1,26 @@
+-- Vendor public keys: repeat vendors register an ECDH key once, and later links seal the LSK
+-- to it instead of emailing a vendor secret
+
+-- CreateTable
+CREATE TABLE "vendor_keys" (
+    "id" TEXT NOT NULL,
+    "vaultId" TEXT NOT NULL,
+    "vendorEmail" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vendor_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_keys_vaultId_vendorEmail_key" ON "vendor_keys"("vaultId", "vendorEmail");
+
+-- AddForeignKey
+ALTER TABLE "vendor_keys" ADD CONSTRAINT "vendor_keys_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN "vendorPublicKey" TEXT;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'vendor_key_registered';
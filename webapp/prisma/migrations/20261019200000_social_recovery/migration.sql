@@ -0,0 +1,80 @@
+-- Social recovery: the recovery wrapping key split K-of-N (Shamir) among trusted contacts,
+-- each share sealed to a key held in the contact's browser
+
+-- AlterEnum
+ALTER TYPE "AuditActorType" ADD VALUE 'recovery_contact';
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'recovery_contact_added';
+ALTER TYPE "AuditEventType" ADD VALUE 'recovery_contact_removed';
+ALTER TYPE "AuditEventType" ADD VALUE 'recovery_contact_key_registered';
+ALTER TYPE "AuditEventType" ADD VALUE 'social_recovery_configured';
+ALTER TYPE "AuditEventType" ADD VALUE 'social_recovery_requested';
+ALTER TYPE "AuditEventType" ADD VALUE 'social_recovery_approved';
+
+-- AlterTable
+ALTER TABLE "vaults" ADD COLUMN "socialRecoveryThreshold" INTEGER,
+ADD COLUMN "socialRecoveryVerifier" TEXT;
+
+-- CreateTable
+CREATE TABLE "recovery_contacts" (
+    "id" TEXT NOT NULL,
+    "vaultId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "publicKey" TEXT,
+    "sealedShare" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recovery_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recovery_requests" (
+    "id" TEXT NOT NULL,
+    "vaultId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recovery_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recovery_approvals" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "resealedShare" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recovery_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recovery_contacts_tokenHash_key" ON "recovery_contacts"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "recovery_contacts_vaultId_idx" ON "recovery_contacts"("vaultId");
+
+-- CreateIndex
+CREATE INDEX "recovery_requests_vaultId_idx" ON "recovery_requests"("vaultId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recovery_approvals_requestId_contactId_key" ON "recovery_approvals"("requestId", "contactId");
+
+-- AddForeignKey
+ALTER TABLE "recovery_contacts" ADD CONSTRAINT "recovery_contacts_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recovery_requests" ADD CONSTRAINT "recovery_requests_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recovery_approvals" ADD CONSTRAINT "recovery_approvals_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "recovery_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recovery_approvals" ADD CONSTRAINT "recovery_approvals_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "recovery_contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- Document type catalog: document types become keys of a per-vault catalog (system types plus
+-- the vault's own) instead of a fixed enum. Existing values are kept as keys.
+
+-- AlterTable
+ALTER TABLE "documents" ALTER COLUMN "docType" SET DATA TYPE TEXT USING "docType"::TEXT;
+
+-- AlterTable
+ALTER TABLE "share_requests" ALTER COLUMN "requestedDocTypes" SET DATA TYPE TEXT[] USING "requestedDocTypes"::TEXT[];
+
+-- AlterTable
+ALTER TABLE "share_link_documents" ALTER COLUMN "docType" SET DATA TYPE TEXT USING "docType"::TEXT;
+
+-- AlterTable
+ALTER TABLE "audit_events" ALTER COLUMN "docType" SET DATA TYPE TEXT USING "docType"::TEXT;
+
+-- DropEnum
+DROP TYPE "DocumentType";
+
+-- CreateTable
+CREATE TABLE "document_types" (
+    "id" TEXT NOT NULL,
+    "vaultId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_types_vaultId_key_key" ON "document_types"("vaultId", "key");
+
+-- AddForeignKey
+ALTER TABLE "document_types" ADD CONSTRAINT "document_types_vaultId_fkey" FOREIGN KEY ("vaultId") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'document_type_added';
+ALTER TYPE "AuditEventType" ADD VALUE 'document_type_updated';
+ALTER TYPE "AuditEventType" ADD VALUE 'document_type_removed';
@@ -0,0 +1,18 @@
+-- Document versions: replacing a document adds a new immutable row instead of overwriting the
+-- old one. Existing documents become version 1 and stay current.
+
+-- DropIndex
+DROP INDEX "documents_vaultId_docType_key";
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "current" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "documents_vaultId_docType_version_key" ON "documents"("vaultId", "docType", "version");
+
+-- CreateIndex (partial: Prisma can't express it, so it lives only here)
+CREATE UNIQUE INDEX "documents_vaultId_docType_current_key" ON "documents"("vaultId", "docType") WHERE "current";
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'document_version_restored';
@@ -0,0 +1,47 @@
+-- Document parts: a document becomes an ordered group of files encrypted under its DEK.
+-- Each existing document becomes a single part that keeps the document's id, which its
+-- ciphertext and metadata are already bound to.
+
+-- CreateTable
+CREATE TABLE "document_parts" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "ciphertextChecksum" TEXT NOT NULL,
+    "ciphertextChecksumTag" TEXT,
+    "integrityCheckedAt" TIMESTAMP(3),
+    "size" INTEGER NOT NULL,
+    "filename" TEXT,
+    "encryptedMetadata" TEXT,
+
+    CONSTRAINT "document_parts_pkey" PRIMARY KEY ("id")
+);
+
+-- MoveData
+INSERT INTO "document_parts" ("id", "documentId", "position", "storagePath", "ciphertextChecksum", "ciphertextChecksumTag", "integrityCheckedAt", "size", "filename", "encryptedMetadata")
+SELECT "id", "id", 0, "storagePath", "ciphertextChecksum", "ciphertextChecksumTag", "integrityCheckedAt", "size", "filename", "encryptedMetadata"
+FROM "documents";
+
+-- DropIndex
+DROP INDEX "documents_integrityCheckedAt_idx";
+
+-- AlterTable
+ALTER TABLE "documents" DROP COLUMN "storagePath",
+DROP COLUMN "ciphertextChecksum",
+DROP COLUMN "ciphertextChecksumTag",
+DROP COLUMN "integrityCheckedAt",
+DROP COLUMN "filename",
+DROP COLUMN "encryptedMetadata";
+
+-- AlterTable
+ALTER TABLE "audit_events" ADD COLUMN "partPosition" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_parts_documentId_position_key" ON "document_parts"("documentId", "position");
+
+-- CreateIndex
+CREATE INDEX "document_parts_integrityCheckedAt_idx" ON "document_parts"("integrityCheckedAt");
+
+-- AddForeignKey
+ALTER TABLE "document_parts" ADD CONSTRAINT "document_parts_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
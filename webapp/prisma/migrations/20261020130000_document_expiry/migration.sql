@@ -0,0 +1,17 @@
+-- Document expiry tracking: owners record an issue and expiry date per document, in plaintext
+-- or sealed under the document's DEK, and a scheduled job emails reminders.
+
+-- CreateEnum
+CREATE TYPE "DocumentExpiryStatus" AS ENUM ('expiring_soon', 'stale');
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "issuedOn" DATE,
+ADD COLUMN "expiresOn" DATE,
+ADD COLUMN "encryptedDates" TEXT,
+ADD COLUMN "expiryReminderSentFor" "DocumentExpiryStatus";
+
+-- CreateIndex
+CREATE INDEX "documents_current_expiresOn_idx" ON "documents"("current", "expiresOn");
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'document_dates_updated';
@@ -0,0 +1,8 @@
+-- Owner document deletion: links left without documents are revoked, links that keep others
+-- are flagged.
+
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN "documentRemovedAt" TIMESTAMP(3);
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'document_deleted';
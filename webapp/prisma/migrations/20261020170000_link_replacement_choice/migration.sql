@@ -0,0 +1,13 @@
+-- Share link re-wrap on replace: when an owner uploads a new version of a document, each
+-- active link that shares an earlier one keeps it, moves to the new version or is revoked.
+
+-- CreateEnum
+CREATE TYPE "LinkReplacementChoice" AS ENUM ('kept', 'rewrapped', 'revoked');
+
+-- AlterTable
+ALTER TABLE "share_link_documents" ADD COLUMN "replacementChoice" "LinkReplacementChoice",
+ADD COLUMN "replacementChosenAt" TIMESTAMP(3),
+ADD COLUMN "replacedVersion" INTEGER;
+
+-- AlterEnum
+ALTER TYPE "AuditEventType" ADD VALUE 'link_document_updated';
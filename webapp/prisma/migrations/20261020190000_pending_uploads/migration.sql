@@ -0,0 +1,22 @@
+-- Orphan upload reconciliation: every storage path handed out for an upload is recorded until
+-- the upload is committed, so blobs of abandoned uploads can be found and deleted.
+
+-- CreateTable
+CREATE TABLE "pending_uploads" (
+    "id" TEXT NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pending_uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_uploads_storagePath_key" ON "pending_uploads"("storagePath");
+
+-- CreateIndex
+CREATE INDEX "pending_uploads_expiresAt_idx" ON "pending_uploads"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "document_parts_storagePath_idx" ON "document_parts"("storagePath");
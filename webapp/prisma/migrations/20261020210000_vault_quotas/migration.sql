@@ -0,0 +1,7 @@
+-- Per-vault storage quotas: optional overrides of the deployment-wide limits on total stored
+-- bytes, file size and versions per document type.
+
+-- AlterTable
+ALTER TABLE "vaults" ADD COLUMN "storageQuotaBytes" BIGINT,
+ADD COLUMN "maxFileBytes" INTEGER,
+ADD COLUMN "maxDocumentVersions" INTEGER;
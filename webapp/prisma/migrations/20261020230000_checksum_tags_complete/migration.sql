@@ -0,0 +1,14 @@
+-- Mandatory checksum tags: once every part of a vault has one, a part without a tag fails the
+-- integrity check instead of being trusted as legacy. Vaults that still have untagged parts
+-- start incomplete; the owner's next unlock tags them.
+
+-- AlterTable
+ALTER TABLE "vaults" ADD COLUMN "checksumTagsComplete" BOOLEAN NOT NULL DEFAULT true;
+
+-- Backfill
+UPDATE "vaults" SET "checksumTagsComplete" = false
+WHERE EXISTS (
+  SELECT 1 FROM "document_parts" p
+  JOIN "documents" d ON d."id" = p."documentId"
+  WHERE d."vaultId" = "vaults"."id" AND p."ciphertextChecksumTag" IS NULL
+);
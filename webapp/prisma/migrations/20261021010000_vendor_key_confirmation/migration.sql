@@ -0,0 +1,5 @@
+-- Vendor key confirmation: a new or replaced vendor key is only used for a link once an owner
+-- checked its fingerprint. Keys registered so far are treated as unconfirmed.
+
+-- AlterTable
+ALTER TABLE "vendor_keys" ADD COLUMN "confirmedAt" TIMESTAMP(3);
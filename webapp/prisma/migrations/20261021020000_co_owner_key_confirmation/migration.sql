@@ -0,0 +1,8 @@
+-- Co-owner key confirmation: DEKs are only sealed to the public key an owner checked the
+-- fingerprint of when granting access. Co-owners granted so far keep the key they were granted
+-- with, which the app never changes once set.
+
+-- AlterTable
+ALTER TABLE "team_memberships" ADD COLUMN "confirmedPublicKey" TEXT;
+
+UPDATE "team_memberships" SET "confirmedPublicKey" = "publicKey" WHERE "accessGrantedAt" IS NOT NULL;
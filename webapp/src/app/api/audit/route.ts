@@ -26,6 +26,13 @@ export async function GET(request: NextRequest) {
     // Require access to vault (owner or delegate)
     await requireVaultAccess(vaultId, user.id)
 
+    const [vault, userProfile, recoveryContacts] = await Promise.all([
+      prisma.vault.findUnique({ where: { id: vaultId }, select: { ownerId: true } }),
+      prisma.userProfile.findUnique({ where: { userId: user.id }, select: { id: true } }),
+      prisma.recoveryContact.findMany({ where: { vaultId }, select: { id: true, label: true } }),
+    ])
+    const contactLabels = new Map(recoveryContacts.map((c) => [c.id, c.label]))
+
     // Get audit events
     const events = await prisma.auditEvent.findMany({
       where: { vaultId },
@@ -39,6 +46,14 @@ export async function GET(request: NextRequest) {
         vaultId: event.vaultId,
         actorType: event.actorType,
         actorId: event.actorId,
+        // Tells the vault's creating owner and co-owners apart; both act as 'owner'
+        coOwner: event.actorType === 'owner' && event.actorId !== vault?.ownerId,
+        isCurrentUser: !!event.actorId && event.actorId === userProfile?.id,
+        // Which recovery contact approved, while they are still a contact
+        contactLabel:
+          event.actorType === 'recovery_contact' && event.actorId
+            ? (contactLabels.get(event.actorId) ?? null)
+            : null,
         eventType: event.eventType,
         linkId: event.linkId,
         docType: event.docType,
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedScheduler } from '@/lib/auth/scheduler'
+import { sendExpiryReminders } from '@/lib/vault/expiry-reminders'
+
+// Documents per run
+const REMINDER_BATCH_SIZE = parseInt(process.env.REMINDER_BATCH_SIZE || '200', 10)
+
+/**
+ * GET /api/cron/expiry-reminders
+ * Background job: emails owners whose current documents are expiring soon or have gone stale.
+ * Meant to be called daily with `Authorization: Bearer $CRON_SECRET`; each document is
+ * reminded about once per status.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedScheduler(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await sendExpiryReminders(REMINDER_BATCH_SIZE)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error sending expiry reminders:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
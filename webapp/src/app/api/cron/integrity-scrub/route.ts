@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedScheduler } from '@/lib/auth/scheduler'
+import { scrubStoredCiphertexts } from '@/lib/vault/integrity'
+
+const SCRUB_BATCH_SIZE = parseInt(process.env.SCRUB_BATCH_SIZE || '50', 10) // Documents per run
+
+/**
+ * GET /api/cron/integrity-scrub
+ * Background job: re-hashes a batch of stored ciphertexts against their checksums and flags
+ * drift. Meant to be called on a schedule with `Authorization: Bearer $CRON_SECRET`; each
+ * run picks up the documents checked longest ago.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedScheduler(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await scrubStoredCiphertexts(SCRUB_BATCH_SIZE)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running integrity scrub:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedScheduler } from '@/lib/auth/scheduler'
+import { reconcileStorage } from '@/lib/vault/storage-reconciliation'
+
+// Blobs deleted per run
+const RECONCILE_BATCH_SIZE = parseInt(process.env.RECONCILE_BATCH_SIZE || '500', 10)
+
+/**
+ * GET /api/cron/storage-reconciliation
+ * Background job: deletes the blobs of abandoned uploads and any other ciphertext no document
+ * refers to. Meant to be called daily with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedScheduler(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await reconcileStorage(RECONCILE_BATCH_SIZE)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error reconciling storage:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { generateSignedCiphertextUrl } from '@/lib/storage/ciphertext-store'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { selectDocumentPart } from '@/lib/vault/document-parts'
+
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.SIGNED_URL_TTL_SECONDS || '300', 10) // Default: 5 minutes
+
+/**
+ * Short-lived signed URL for the owner to stream a document part's ciphertext
+ * directly from storage (no base64 round trip through the API)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // Get document
+    const document = await prisma.document.findUnique({
+      where: { id },
+      include: { parts: true },
+    })
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Require owner role - delegates cannot access ciphertext
+    await requireVaultAccess(document.vaultId, user.id, 'owner')
+
+    // ?partId= picks one part of a multi-part document; the first part by default
+    const { searchParams } = new URL(request.url)
+    const part = selectDocumentPart(document.parts, searchParams.get('partId'))
+    if (!part) {
+      return NextResponse.json({ error: 'Document part not found' }, { status: 404 })
+    }
+
+    const signedUrl = await generateSignedCiphertextUrl(
+      part.storagePath,
+      SIGNED_URL_TTL_SECONDS,
+    )
+    const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000)
+
+    return NextResponse.json({
+      signedUrl,
+      expiresAt: expiresAt.toISOString(),
+    })
+  } catch (error) {
+    console.error('Error generating ciphertext URL:', error)
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Only owners can access ciphertext' },
+        { status: 403 },
+      )
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
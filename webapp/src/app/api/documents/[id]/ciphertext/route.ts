@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
-import { downloadCiphertext } from '@/lib/storage/supabase-storage'
+import { downloadCiphertext } from '@/lib/storage/ciphertext-store'
 import { requireVaultAccess } from '@/lib/auth/authorization'
+import { selectDocumentPart } from '@/lib/vault/document-parts'
+import { computeStoredChecksum, recordIntegrityFailure } from '@/lib/vault/integrity'
 
 export async function GET(
   request: NextRequest,
@@ -24,6 +26,7 @@ export async function GET(
     // Get document
     const document = await prisma.document.findUnique({
       where: { id },
+      include: { parts: true },
     })
 
     if (!document) {
@@ -33,8 +36,24 @@ export async function GET(
     // Require owner role - delegates cannot access ciphertext
     await requireVaultAccess(document.vaultId, user.id, 'owner')
 
+    // ?partId= picks one part of a multi-part document; the first part by default
+    const { searchParams } = new URL(request.url)
+    const part = selectDocumentPart(document.parts, searchParams.get('partId'))
+    if (!part) {
+      return NextResponse.json({ error: 'Document part not found' }, { status: 404 })
+    }
+
     // Download ciphertext from storage
-    const ciphertext = await downloadCiphertext(document.storagePath)
+    const ciphertext = await downloadCiphertext(part.storagePath)
+
+    // Never hand out bytes that don't match what was uploaded
+    if (computeStoredChecksum(ciphertext) !== part.ciphertextChecksum) {
+      await recordIntegrityFailure(document, { actorType: 'system' }, part.position)
+      return NextResponse.json(
+        { error: 'Stored ciphertext failed its integrity check' },
+        { status: 502 }
+      )
+    }
 
     // Return as base64 for JSON response
     const base64 = Buffer.from(ciphertext).toString('base64')
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { documentDatesColumns, storedDocumentDatesSchema } from '@/lib/vault/document-expiry'
+import { z } from 'zod'
+
+/**
+ * PUT /api/documents/[id]/dates
+ * Records a document version's issue and expiry dates, in plaintext or sealed under its DEK.
+ * Plaintext dates drive renewal reminders and the warning delegates see; sealed ones only
+ * the owner's badges.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validated = storedDocumentDatesSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const document = await prisma.document.findUnique({ where: { id } })
+    if (!document || document.vaultId !== userProfile.vault.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // New dates mean a new status, which deserves its own reminder
+    await prisma.document.update({
+      where: { id },
+      data: { ...documentDatesColumns(validated), expiryReminderSentFor: null },
+    })
+
+    await logAuditEvent({
+      vaultId: document.vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'document_dates_updated',
+      docType: document.docType,
+    })
+
+    return NextResponse.json({ id, ...validated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error updating document dates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess } from '@/lib/auth/authorization'
+import { getCoOwnerDekWraps } from '@/lib/vault/co-owners'
 
 export async function GET(
   request: NextRequest,
@@ -23,6 +24,10 @@ export async function GET(
     // Get document
     const document = await prisma.document.findUnique({
       where: { id },
+      include: {
+        parts: { orderBy: { position: 'asc' } },
+        vault: { select: { checksumTagsComplete: true } },
+      },
     })
 
     if (!document) {
@@ -30,14 +35,32 @@ export async function GET(
     }
 
     // Require owner role - delegates cannot access download info
-    await requireVaultAccess(document.vaultId, user.id, 'owner')
+    const access = await requireVaultAccess(document.vaultId, user.id, 'owner')
+
+    // Co-owners unwrap their own copy of the DEK
+    const wrap = access.membershipId
+      ? (await getCoOwnerDekWraps(access.membershipId)).get(document.id)
+      : document
+
+    if (!wrap) {
+      return NextResponse.json(
+        { error: 'No key for this document yet; unlock the vault again' },
+        { status: 409 }
+      )
+    }
 
     // Return download info for client-side decryption (owners only)
     return NextResponse.json({
-      storagePath: document.storagePath,
-      encryptedDekForOwner: document.encryptedDekForOwner,
-      dekNonce: document.dekNonce,
-      ciphertextChecksum: document.ciphertextChecksum,
+      encryptedDekForOwner: wrap.encryptedDekForOwner,
+      dekNonce: wrap.dekNonce,
+      parts: document.parts.map((part) => ({
+        id: part.id,
+        position: part.position,
+        size: part.size,
+        ciphertextChecksum: part.ciphertextChecksum,
+        ciphertextChecksumTag: part.ciphertextChecksumTag, // Checked client-side under the DEK
+        checksumTagRequired: document.vault.checksumTagsComplete,
+      })),
     })
   } catch (error: any) {
     console.error('Error fetching download info:', error)
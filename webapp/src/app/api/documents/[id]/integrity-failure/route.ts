@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { recordIntegrityFailure } from '@/lib/vault/integrity'
+import { selectDocumentPart } from '@/lib/vault/document-parts'
+
+/**
+ * POST /api/documents/[id]/integrity-failure
+ * Reported by an owner's client when downloaded ciphertext didn't match its checksum, or the
+ * checksum didn't match its DEK-bound tag. Flags the document and logs an audit event.
+ * ?partId= names the part that failed, for the audit log.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      include: { parts: { select: { id: true, position: true } } },
+    })
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Only owners fetch ciphertext, so only they can report on it
+    await requireVaultAccess(document.vaultId, user.id, 'owner')
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+    })
+
+    const { searchParams } = new URL(request.url)
+    const partId = searchParams.get('partId')
+    const part = partId ? selectDocumentPart(document.parts, partId) : undefined
+
+    await recordIntegrityFailure(
+      document,
+      { actorType: 'owner', actorId: userProfile?.id },
+      part?.position
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error reporting integrity failure:', error)
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized: Only owners can report integrity failures' }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
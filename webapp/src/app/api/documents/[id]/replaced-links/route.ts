@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { z } from 'zod'
+
+const replacedLinksSchema = z.object({
+  keptLinkIds: z.array(z.string().uuid()), // Keep serving the version they were approved with
+  // Move to the new version: its DEK wrapped with each link's LSK
+  linkDeks: z.array(
+    z.object({
+      shareLinkId: z.string().uuid(),
+      encryptedDekForLink: z.string(), // Base64
+      dekForLinkNonce: z.string(), // Base64
+    })
+  ),
+  revokedLinkIds: z.array(z.string().uuid()),
+})
+
+// A link's row for an earlier version of the replaced document
+interface ReplacedLinkDocument {
+  id: string
+  shareLinkId: string
+  document: { version: number }
+  shareLink: {
+    id: string
+    vendorLabel: string
+    expiresAt: Date
+    approvedById: string | null
+    encryptedLskForOwner: string | null
+  }
+}
+
+/**
+ * Load the document if it is the current version in the signed-in user's own vault
+ * Like uploads, deciding what links get after a replacement is left to the vault's owner
+ */
+async function getOwnCurrentDocument(id: string, userId: string) {
+  const userProfile = await prisma.userProfile.findUnique({
+    where: { userId },
+    include: { vault: true },
+  })
+  if (!userProfile?.vault) return null
+
+  const document = await prisma.document.findUnique({ where: { id } })
+  if (!document || document.vaultId !== userProfile.vault.id || !document.current) return null
+
+  return { userProfile, vault: userProfile.vault, document }
+}
+
+/**
+ * Active share links still on an earlier version of the document's type, with nothing chosen
+ * for them since this version was uploaded
+ */
+async function getReplacedLinkDocuments(document: {
+  id: string
+  vaultId: string
+  docType: string
+  uploadedAt: Date
+}): Promise<ReplacedLinkDocument[]> {
+  return prisma.shareLinkDocument.findMany({
+    where: {
+      documentId: { not: document.id },
+      document: { vaultId: document.vaultId, docType: document.docType },
+      shareLink: { status: 'approved', revokedAt: null, expiresAt: { gt: new Date() } },
+      OR: [
+        { replacementChosenAt: null },
+        { replacementChosenAt: { lt: document.uploadedAt } },
+      ],
+    },
+    select: {
+      id: true,
+      shareLinkId: true,
+      document: { select: { version: true } },
+      shareLink: {
+        select: {
+          id: true,
+          vendorLabel: true,
+          expiresAt: true,
+          approvedById: true,
+          encryptedLskForOwner: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * GET /api/documents/[id]/replaced-links
+ * Lists the active share links that still serve an earlier version of a newly uploaded
+ * document. encryptedLskForOwner is set for links whose LSK the caller can recover; only those
+ * can move to the new version.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const own = await getOwnCurrentDocument(id, user.id)
+    if (!own) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const rows = await getReplacedLinkDocuments(own.document)
+
+    return NextResponse.json({
+      links: rows.map((row) => ({
+        id: row.shareLink.id,
+        vendorLabel: row.shareLink.vendorLabel,
+        expiresAt: row.shareLink.expiresAt,
+        version: row.document.version, // The version the link serves now
+        encryptedLskForOwner:
+          row.shareLink.approvedById === own.userProfile.id
+            ? row.shareLink.encryptedLskForOwner
+            : null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching replaced document links:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/documents/[id]/replaced-links
+ * Records what each active link on an earlier version gets: it keeps that version, moves to
+ * this one under a DEK wrapped with its LSK, or is revoked
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validated = replacedLinksSchema.parse(body)
+
+    const own = await getOwnCurrentDocument(id, user.id)
+    if (!own) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    const { userProfile, vault, document } = own
+
+    // Each affected link must be accounted for exactly once
+    const rows = new Map(
+      (await getReplacedLinkDocuments(document)).map((row) => [row.shareLinkId, row])
+    )
+    const submittedLinkIds = [
+      ...validated.keptLinkIds,
+      ...validated.linkDeks.map((link) => link.shareLinkId),
+      ...validated.revokedLinkIds,
+    ]
+    if (
+      new Set(submittedLinkIds).size !== submittedLinkIds.length ||
+      submittedLinkIds.length !== rows.size ||
+      !submittedLinkIds.every((linkId) => rows.has(linkId))
+    ) {
+      return NextResponse.json(
+        { error: 'Share links changed since they were listed; choose again' },
+        { status: 409 }
+      )
+    }
+
+    // Only the approver holds a copy of a link's LSK; nobody else can have wrapped the DEK
+    const unrecoverable = validated.linkDeks.some((link) => {
+      const { shareLink } = rows.get(link.shareLinkId)!
+      return shareLink.approvedById !== userProfile.id || !shareLink.encryptedLskForOwner
+    })
+    if (unrecoverable) {
+      return NextResponse.json(
+        { error: "A link whose key can't be recovered can only be kept or revoked" },
+        { status: 400 }
+      )
+    }
+
+    const rowIds = (linkIds: string[]) => linkIds.map((linkId) => rows.get(linkId)!.id)
+    const now = new Date()
+    await prisma.$transaction([
+      prisma.shareLinkDocument.updateMany({
+        where: { id: { in: rowIds(validated.keptLinkIds) } },
+        data: { replacementChoice: 'kept', replacementChosenAt: now },
+      }),
+      ...validated.linkDeks.map((link) => {
+        const row = rows.get(link.shareLinkId)!
+        return prisma.shareLinkDocument.update({
+          where: { id: row.id },
+          data: {
+            documentId: id,
+            encryptedDekForLink: link.encryptedDekForLink,
+            dekForLinkNonce: link.dekForLinkNonce,
+            replacementChoice: 'rewrapped',
+            replacementChosenAt: now,
+            replacedVersion: row.document.version,
+          },
+        })
+      }),
+      prisma.shareLink.updateMany({
+        where: { id: { in: validated.revokedLinkIds }, vaultId: vault.id },
+        data: { status: 'revoked', revokedAt: now },
+      }),
+      prisma.shareLinkDocument.updateMany({
+        where: { id: { in: rowIds(validated.revokedLinkIds) } },
+        data: { replacementChoice: 'revoked', replacementChosenAt: now },
+      }),
+    ])
+
+    for (const link of validated.linkDeks) {
+      await logAuditEvent({
+        vaultId: vault.id,
+        actorType: 'owner',
+        actorId: userProfile.id,
+        eventType: 'link_document_updated',
+        linkId: link.shareLinkId,
+        docType: document.docType,
+      })
+    }
+    for (const linkId of validated.revokedLinkIds) {
+      await logAuditEvent({
+        vaultId: vault.id,
+        actorType: 'owner',
+        actorId: userProfile.id,
+        eventType: 'link_revoked',
+        linkId,
+      })
+    }
+
+    return NextResponse.json({
+      id,
+      linksKept: validated.keptLinkIds.length,
+      linksUpdated: validated.linkDeks.length,
+      linksRevoked: validated.revokedLinkIds.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error updating replaced document links:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { isUniqueConstraintError } from '@/lib/db/errors'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+/**
+ * POST /api/documents/[id]/restore
+ * Makes an earlier version of a document the current one again. No version is changed or
+ * deleted, so share links keep the version they were approved with.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // Like uploads, choosing the current version is left to the vault's owner
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const document = await prisma.document.findUnique({ where: { id } })
+    if (!document || document.vaultId !== userProfile.vault.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    if (document.current) {
+      return NextResponse.json({ error: 'This version is already current' }, { status: 400 })
+    }
+
+    await prisma.$transaction([
+      prisma.document.updateMany({
+        where: { vaultId: document.vaultId, docType: document.docType, current: true },
+        data: { current: false },
+      }),
+      prisma.document.update({
+        where: { id },
+        data: { current: true },
+      }),
+    ])
+
+    await logAuditEvent({
+      vaultId: document.vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'document_version_restored',
+      docType: document.docType,
+    })
+
+    return NextResponse.json({ id, version: document.version })
+  } catch (error) {
+    // A concurrent restore or upload made another version current first
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'Another version was made current at the same time; reload and try again' },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring document version:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,341 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { deleteCiphertext } from '@/lib/storage/ciphertext-store'
+import { coversCoOwners, getGrantedCoOwners } from '@/lib/vault/co-owners'
+import { documentPartUploadsSchema } from '@/lib/vault/document-parts'
+import { claimPendingUploads } from '@/lib/vault/pending-uploads'
+import { checkStoredSizes } from '@/lib/vault/storage-quotas'
+import { z } from 'zod'
+
+const rotateKeySchema = z.object({
+  // Every existing part under its own id, each uploaded to a fresh object from prepare-upload
+  // (the old objects are deleted) and sealed under the new DEK
+  parts: documentPartUploadsSchema,
+  encryptedDekForOwner: z.string(), // Base64
+  dekNonce: z.string(), // Base64
+  encryptedDekForRecovery: z.string().optional(), // Base64 (required when the vault has a recovery kit)
+  dekForRecoveryNonce: z.string().optional(), // Base64
+  coOwnerDeks: z
+    .array(
+      z.object({
+        membershipId: z.string().uuid(),
+        sealedDek: z.string(), // Base64, new DEK sealed to the co-owner's public key
+      })
+    )
+    .default([]),
+  // Active links that keep the document: the new DEK wrapped with each link's LSK
+  linkDeks: z.array(
+    z.object({
+      shareLinkId: z.string().uuid(),
+      encryptedDekForLink: z.string(), // Base64
+      dekForLinkNonce: z.string(), // Base64
+    })
+  ),
+  revokedLinkIds: z.array(z.string().uuid()), // Every other active link that includes the document
+  encryptedDates: z.string().optional(), // Base64, private dates re-sealed under the new DEK
+})
+
+/**
+ * Load the document if it belongs to the signed-in user's own vault
+ * Key rotation re-uploads the document, so like uploads it is left to the vault's owner
+ */
+async function getOwnDocument(id: string, userId: string) {
+  const userProfile = await prisma.userProfile.findUnique({
+    where: { userId },
+    include: { vault: true },
+  })
+  if (!userProfile?.vault) return null
+
+  const document = await prisma.document.findUnique({
+    where: { id },
+    include: { parts: true },
+  })
+  if (!document || document.vaultId !== userProfile.vault.id) return null
+
+  return { userProfile, vault: userProfile.vault, document }
+}
+
+/**
+ * Share links a vendor can still open that include the document
+ */
+async function getActiveLinks(documentId: string) {
+  return prisma.shareLink.findMany({
+    where: {
+      status: 'approved',
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      documents: { some: { documentId } },
+    },
+    select: {
+      id: true,
+      vendorLabel: true,
+      expiresAt: true,
+      approvedById: true,
+      encryptedLskForOwner: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * GET /api/documents/[id]/rotate-key
+ * Lists the active share links that include the document. encryptedLskForOwner is set for
+ * links whose LSK the caller can recover; the others can only be revoked by a rotation.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const own = await getOwnDocument(id, user.id)
+    if (!own) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const links = await getActiveLinks(id)
+
+    return NextResponse.json({
+      links: links.map((link) => ({
+        id: link.id,
+        vendorLabel: link.vendorLabel,
+        expiresAt: link.expiresAt,
+        encryptedLskForOwner:
+          link.approvedById === own.userProfile.id ? link.encryptedLskForOwner : null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching key rotation info:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/documents/[id]/rotate-key
+ * Commits a document re-encrypted under a fresh DEK. Every active link that includes it is
+ * either re-keyed with the new DEK or revoked; the old part ciphertexts are then deleted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validated = rotateKeySchema.parse(body)
+
+    const own = await getOwnDocument(id, user.id)
+    if (!own) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    const { userProfile, vault, document } = own
+
+    // The parts stay as they are, only re-encrypted: each one exactly once, under its own id
+    const existingParts = new Map(document.parts.map((part) => [part.id, part]))
+    if (
+      validated.parts.length !== existingParts.size ||
+      !validated.parts.every((part) => existingParts.has(part.id))
+    ) {
+      return NextResponse.json(
+        { error: 'Every part of the document must be re-encrypted' },
+        { status: 400 }
+      )
+    }
+
+    const oldStoragePaths = new Set(document.parts.map((part) => part.storagePath))
+    if (validated.parts.some((part) => oldStoragePaths.has(part.storagePath))) {
+      return NextResponse.json(
+        { error: 'The rotated ciphertext must be uploaded to a new storage path' },
+        { status: 400 }
+      )
+    }
+
+    // Private dates sealed under the old DEK would be unreadable after the rotation
+    if (!!document.encryptedDates !== !!validated.encryptedDates) {
+      return NextResponse.json(
+        { error: 'Private dates must be re-encrypted with the document' },
+        { status: 400 }
+      )
+    }
+
+    // Documents without a recovery wrap would be lost if the owner recovers the vault
+    if (
+      vault.recoverySalt &&
+      (!validated.encryptedDekForRecovery || !validated.dekForRecoveryNonce)
+    ) {
+      return NextResponse.json(
+        { error: 'Vault has a recovery kit: DEK must also be wrapped with the recovery key' },
+        { status: 400 }
+      )
+    }
+
+    const coOwners = await getGrantedCoOwners(vault.id)
+    if (!coversCoOwners(coOwners, validated.coOwnerDeks)) {
+      return NextResponse.json(
+        { error: 'Co-owners changed during key rotation; start again' },
+        { status: 409 }
+      )
+    }
+
+    // Each active link must be accounted for exactly once: a link left out would keep a
+    // wrap of the old DEK, which no longer opens anything
+    const activeLinkIds = new Set((await getActiveLinks(id)).map((link) => link.id))
+    const submittedLinkIds = [
+      ...validated.linkDeks.map((link) => link.shareLinkId),
+      ...validated.revokedLinkIds,
+    ]
+    if (
+      new Set(submittedLinkIds).size !== submittedLinkIds.length ||
+      submittedLinkIds.length !== activeLinkIds.size ||
+      !submittedLinkIds.every((linkId) => activeLinkIds.has(linkId))
+    ) {
+      return NextResponse.json(
+        { error: 'Share links changed during key rotation; start again' },
+        { status: 409 }
+      )
+    }
+
+    // Re-encrypted files keep their sizes, so the vault's usage stays as it was
+    const rotatedSizes = new Map(validated.parts.map((part) => [part.id, part.size]))
+    if (document.parts.some((part) => rotatedSizes.get(part.id) !== part.size)) {
+      return NextResponse.json(
+        { error: 'Re-encrypted parts must keep their sizes' },
+        { status: 400 }
+      )
+    }
+    const violation = await checkStoredSizes(validated.parts)
+    if (violation) {
+      return NextResponse.json(violation, { status: 413 })
+    }
+
+    if (!(await claimPendingUploads(user.id, validated.parts.map((part) => part.storagePath)))) {
+      return NextResponse.json(
+        { error: 'Upload expired or unknown; start the key rotation again' },
+        { status: 409 }
+      )
+    }
+
+    const revokedAt = new Date()
+    await prisma.$transaction([
+      prisma.document.update({
+        where: { id },
+        data: {
+          integrityFailedAt: null,
+          size: validated.parts.reduce((total, part) => total + part.size, 0),
+          lastUpdatedBy: userProfile.id,
+          encryptedDekForOwner: validated.encryptedDekForOwner,
+          dekNonce: validated.dekNonce,
+          encryptedDekForRecovery: validated.encryptedDekForRecovery ?? null,
+          dekForRecoveryNonce: validated.dekForRecoveryNonce ?? null,
+          encryptedDates: validated.encryptedDates ?? null,
+        },
+      }),
+      ...validated.parts.map((part) =>
+        prisma.documentPart.update({
+          where: { id: part.id },
+          data: {
+            storagePath: part.storagePath,
+            ciphertextChecksum: part.ciphertextChecksum,
+            ciphertextChecksumTag: part.ciphertextChecksumTag,
+            integrityCheckedAt: null,
+            size: part.size,
+            filename: null,
+            encryptedMetadata: part.encryptedMetadata,
+          },
+        })
+      ),
+      prisma.documentOwnerKey.deleteMany({ where: { documentId: id } }),
+      prisma.documentOwnerKey.createMany({
+        data: validated.coOwnerDeks.map((key) => ({
+          documentId: id,
+          membershipId: key.membershipId,
+          encryptedDekForOwner: key.sealedDek,
+          dekNonce: null, // Sealed until the co-owner's next unlock
+        })),
+      }),
+      ...validated.linkDeks.map((link) =>
+        prisma.shareLinkDocument.update({
+          where: { shareLinkId_documentId: { shareLinkId: link.shareLinkId, documentId: id } },
+          data: {
+            encryptedDekForLink: link.encryptedDekForLink,
+            dekForLinkNonce: link.dekForLinkNonce,
+          },
+        })
+      ),
+      prisma.shareLink.updateMany({
+        where: { id: { in: validated.revokedLinkIds }, vaultId: vault.id },
+        data: { status: 'revoked', revokedAt },
+      }),
+    ])
+
+    // The old ciphertexts are under the DEK being retired; don't leave them readable in storage
+    for (const storagePath of oldStoragePaths) {
+      try {
+        await deleteCiphertext(storagePath)
+      } catch (error) {
+        console.error('Failed to delete ciphertext after key rotation:', error)
+      }
+    }
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'document_key_rotated',
+      docType: document.docType,
+    })
+    for (const link of validated.linkDeks) {
+      await logAuditEvent({
+        vaultId: vault.id,
+        actorType: 'owner',
+        actorId: userProfile.id,
+        eventType: 'link_rekeyed',
+        linkId: link.shareLinkId,
+        docType: document.docType,
+      })
+    }
+    for (const linkId of validated.revokedLinkIds) {
+      await logAuditEvent({
+        vaultId: vault.id,
+        actorType: 'owner',
+        actorId: userProfile.id,
+        eventType: 'link_revoked',
+        linkId,
+      })
+    }
+
+    return NextResponse.json({
+      id,
+      linksRekeyed: validated.linkDeks.length,
+      linksRevoked: validated.revokedLinkIds.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error rotating document key:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
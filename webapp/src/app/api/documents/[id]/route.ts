@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { deleteCiphertext } from '@/lib/storage/ciphertext-store'
+import type { DocumentType } from '@/types/documents'
+
+interface DeletedDocument {
+  id: string
+  vaultId: string
+  docType: DocumentType
+  current: boolean
+}
+
+/**
+ * The versions deleting a document takes with it: every version of its type when it is the
+ * current one, since earlier versions only exist as its history; otherwise just that version
+ */
+async function getDeletedVersions(document: DeletedDocument) {
+  return prisma.document.findMany({
+    where: document.current
+      ? { vaultId: document.vaultId, docType: document.docType }
+      : { id: document.id },
+    select: { id: true, parts: { select: { storagePath: true } } },
+  })
+}
+
+/**
+ * Share links a vendor can still open that include any of the versions, and what deleting
+ * them does to each: a link left without documents is revoked, one that keeps others is flagged
+ */
+async function getAffectedLinks(versionIds: string[]) {
+  const links = await prisma.shareLink.findMany({
+    where: {
+      status: 'approved',
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      documents: { some: { documentId: { in: versionIds } } },
+    },
+    select: {
+      id: true,
+      vendorLabel: true,
+      expiresAt: true,
+      documents: { select: { documentId: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const deleted = new Set(versionIds)
+  return links.map((link) => ({
+    id: link.id,
+    vendorLabel: link.vendorLabel,
+    expiresAt: link.expiresAt,
+    outcome: link.documents.every((d) => deleted.has(d.documentId))
+      ? ('revoked' as const)
+      : ('flagged' as const),
+  }))
+}
+
+/**
+ * GET /api/documents/[id]
+ * What deleting the document would take with it, for the owner to confirm: how many versions
+ * and which active share links, revoked or flagged
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const document = await prisma.document.findUnique({ where: { id } })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    await requireVaultAccess(document.vaultId, user.id, 'owner')
+
+    const versions = await getDeletedVersions(document)
+    const links = await getAffectedLinks(versions.map((version) => version.id))
+
+    return NextResponse.json({ versions: versions.length, links })
+  } catch (error: any) {
+    console.error('Error fetching document deletion info:', error)
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized: Only owners can delete documents' }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ * Deletes a document with its version history, or a single earlier version, and shreds the
+ * stored ciphertexts. Active share links that included it are revoked, or flagged when they
+ * still hold other documents.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const document = await prisma.document.findUnique({ where: { id } })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    await requireVaultAccess(document.vaultId, user.id, 'owner')
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+    })
+
+    const versions = await getDeletedVersions(document)
+    const versionIds = versions.map((version) => version.id)
+    const links = await getAffectedLinks(versionIds)
+    const revokedLinkIds = links.filter((l) => l.outcome === 'revoked').map((l) => l.id)
+    const flaggedLinkIds = links.filter((l) => l.outcome === 'flagged').map((l) => l.id)
+
+    // Rows go first: a blob left behind by a failed storage delete is unreachable, while a
+    // row left without its blob would still be offered for download
+    const now = new Date()
+    await prisma.$transaction([
+      prisma.shareLink.updateMany({
+        where: { id: { in: revokedLinkIds }, vaultId: document.vaultId },
+        data: { status: 'revoked', revokedAt: now },
+      }),
+      prisma.shareLink.updateMany({
+        where: { id: { in: flaggedLinkIds }, vaultId: document.vaultId },
+        data: { documentRemovedAt: now },
+      }),
+      // Parts, co-owner DEK copies and link DEK wraps go with the rows
+      prisma.document.deleteMany({ where: { id: { in: versionIds } } }),
+    ])
+
+    for (const part of versions.flatMap((version) => version.parts)) {
+      try {
+        await deleteCiphertext(part.storagePath)
+      } catch (error) {
+        console.error('Failed to delete ciphertext of a deleted document:', error)
+      }
+    }
+
+    await logAuditEvent({
+      vaultId: document.vaultId,
+      actorType: 'owner',
+      actorId: userProfile?.id,
+      eventType: 'document_deleted',
+      docType: document.docType,
+    })
+    for (const linkId of revokedLinkIds) {
+      await logAuditEvent({
+        vaultId: document.vaultId,
+        actorType: 'owner',
+        actorId: userProfile?.id,
+        eventType: 'link_revoked',
+        linkId,
+      })
+    }
+
+    return NextResponse.json({
+      id,
+      versionsDeleted: versionIds.length,
+      linksRevoked: revokedLinkIds.length,
+      linksFlagged: flaggedLinkIds.length,
+    })
+  } catch (error: any) {
+    console.error('Error deleting document:', error)
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized: Only owners can delete documents' }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+const checksumTagsSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        id: z.string().uuid(), // Part id; the tag is bound to it
+        ciphertextChecksumTag: z.string(), // Base64 HMAC of the stored checksum (see integrity.ts)
+      })
+    )
+    .min(1),
+})
+
+/**
+ * POST /api/documents/checksum-tags
+ * Migrates parts uploaded before checksum tags: the owner's client tags each part's stored
+ * checksum under the document's DEK. Only parts that still lack a tag are touched; once none
+ * are left, the vault requires a tag on every part (Vault.checksumTagsComplete).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = checksumTagsSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vaultId = userProfile.vault.id
+    const result = await prisma.$transaction(async (tx) => {
+      let partsUpdated = 0
+      for (const part of validated.parts) {
+        const { count } = await tx.documentPart.updateMany({
+          where: { id: part.id, document: { vaultId }, ciphertextChecksumTag: null },
+          data: { ciphertextChecksumTag: part.ciphertextChecksumTag },
+        })
+        partsUpdated += count
+      }
+
+      const untagged = await tx.documentPart.count({
+        where: { document: { vaultId }, ciphertextChecksumTag: null },
+      })
+
+      if (untagged === 0) {
+        await tx.vault.update({ where: { id: vaultId }, data: { checksumTagsComplete: true } })
+      }
+
+      return { partsUpdated, checksumTagsComplete: untagged === 0 }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error storing checksum tags:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
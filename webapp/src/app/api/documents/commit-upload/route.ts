@@ -1,18 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
+import { isUniqueConstraintError } from '@/lib/db/errors'
+import { coversCoOwners, getGrantedCoOwners } from '@/lib/vault/co-owners'
+import { documentTypeKeySchema } from '@/lib/vault/document-types'
+import { inDocumentTypeCatalog } from '@/lib/vault/document-type-catalog'
+import { documentPartUploadsSchema } from '@/lib/vault/document-parts'
+import { documentDatesColumns, storedDocumentDatesSchema } from '@/lib/vault/document-expiry'
+import { claimPendingUploads } from '@/lib/vault/pending-uploads'
+import { checkNewVersion, checkStoredSizes, vaultQuotas } from '@/lib/vault/storage-quotas'
 import { z } from 'zod'
-import { uploadCiphertext, replaceCiphertext } from '@/lib/storage/supabase-storage'
 
 const commitUploadSchema = z.object({
   docId: z.string().uuid(),
-  docType: z.enum(['ID', 'ProofOfAddress', 'SourceOfWealth']),
-  storagePath: z.string(),
-  filename: z.string().min(1),
-  size: z.number().int().positive(),
-  ciphertextChecksum: z.string(),
+  docType: documentTypeKeySchema,
+  parts: documentPartUploadsSchema, // In order, each with the part id prepare-upload handed out
   encryptedDekForOwner: z.string(), // Base64
   dekNonce: z.string(), // Base64
+  encryptedDekForRecovery: z.string().optional(), // Base64 (required when the vault has a recovery kit)
+  dekForRecoveryNonce: z.string().optional(), // Base64
+  coOwnerDeks: z
+    .array(
+      z.object({
+        membershipId: z.string().uuid(),
+        sealedDek: z.string(), // Base64, DEK sealed to the co-owner's public key
+      })
+    )
+    .default([]),
+  dates: storedDocumentDatesSchema.optional(), // Issue and expiry dates, plaintext or sealed
 })
 
 export async function POST(request: NextRequest) {
@@ -40,58 +55,136 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
     }
 
-    // Check if document already exists for this doc type
+    if (!(await inDocumentTypeCatalog(userProfile.vault.id, [validated.docType]))) {
+      return NextResponse.json({ error: 'Unknown document type' }, { status: 400 })
+    }
+
+    // Documents without a recovery wrap would be lost if the owner recovers the vault
+    if (
+      userProfile.vault.recoverySalt &&
+      (!validated.encryptedDekForRecovery || !validated.dekForRecoveryNonce)
+    ) {
+      return NextResponse.json(
+        { error: 'Vault has a recovery kit: DEK must also be wrapped with the recovery key' },
+        { status: 400 }
+      )
+    }
+
+    // Every co-owner needs a copy of the DEK, or they couldn't open the new version
+    const coOwners = await getGrantedCoOwners(userProfile.vault.id)
+    if (!coversCoOwners(coOwners, validated.coOwnerDeks)) {
+      return NextResponse.json(
+        { error: 'Co-owners changed during upload; prepare the upload again' },
+        { status: 409 }
+      )
+    }
+
+    // The ciphertexts are bound to the fresh ids handed out by prepare-upload
     const existingDoc = await prisma.document.findUnique({
-      where: {
-        vaultId_docType: {
-          vaultId: userProfile.vault.id,
-          docType: validated.docType,
-        },
-      },
+      where: { id: validated.docId },
+      select: { id: true },
     })
+    const existingPart = await prisma.documentPart.findFirst({
+      where: { id: { in: validated.parts.map((part) => part.id) } },
+      select: { id: true },
+    })
+    if (existingDoc || existingPart) {
+      return NextResponse.json(
+        { error: 'Document id is already in use; prepare the upload again' },
+        { status: 409 }
+      )
+    }
 
-    if (existingDoc) {
-      // Replace existing document
-      await replaceCiphertext(validated.storagePath, new Uint8Array(0)) // Storage will be updated by client
-      
-      await prisma.document.update({
-        where: { id: existingDoc.id },
-        data: {
-          storagePath: validated.storagePath,
-          ciphertextChecksum: validated.ciphertextChecksum,
-          size: validated.size,
-          filename: validated.filename,
-          lastUpdatedBy: userProfile.id,
-          encryptedDekForOwner: validated.encryptedDekForOwner,
-          dekNonce: validated.dekNonce,
-          uploadedAt: new Date(),
-        },
-      })
+    // Quotas again, as the vault may have filled up since prepare-upload, and the declared
+    // sizes they count must match what was actually stored
+    const violation =
+      (await checkNewVersion(
+        userProfile.vault.id,
+        vaultQuotas(userProfile.vault),
+        validated.docType,
+        validated.parts.map((part) => part.size)
+      )) ?? (await checkStoredSizes(validated.parts))
+    if (violation) {
+      return NextResponse.json(violation, { status: 413 })
+    }
 
-      return NextResponse.json({ id: existingDoc.id, replaced: true })
-    } else {
-      // Create new document
-      const document = await prisma.document.create({
+    // Only paths handed out to this user and not yet expired or committed; a replacement
+    // never writes over the blob of a version that is already committed
+    if (!(await claimPendingUploads(user.id, validated.parts.map((part) => part.storagePath)))) {
+      return NextResponse.json(
+        { error: 'Upload expired or unknown; prepare the upload again' },
+        { status: 409 }
+      )
+    }
+
+    // Each upload is a new version; earlier ones stay, with their own ciphertext and DEK, for
+    // the version history and for share links approved with them
+    const vaultId = userProfile.vault.id
+    const document = await prisma.$transaction(async (tx) => {
+      const latest = await tx.document.findFirst({
+        where: { vaultId: vaultId, docType: validated.docType },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+      await tx.document.updateMany({
+        where: { vaultId: vaultId, docType: validated.docType, current: true },
+        data: { current: false },
+      })
+      const created = await tx.document.create({
         data: {
           id: validated.docId,
-          vaultId: userProfile.vault.id,
+          vaultId,
           docType: validated.docType,
-          storagePath: validated.storagePath,
-          ciphertextChecksum: validated.ciphertextChecksum,
-          size: validated.size,
-          filename: validated.filename,
+          version: (latest?.version ?? 0) + 1,
+          current: true,
+          size: validated.parts.reduce((total, part) => total + part.size, 0),
+          parts: {
+            create: validated.parts.map((part, position) => ({
+              id: part.id,
+              position,
+              storagePath: part.storagePath,
+              ciphertextChecksum: part.ciphertextChecksum,
+              ciphertextChecksumTag: part.ciphertextChecksumTag,
+              size: part.size,
+              encryptedMetadata: part.encryptedMetadata,
+            })),
+          },
           lastUpdatedBy: userProfile.id,
           encryptedDekForOwner: validated.encryptedDekForOwner,
           dekNonce: validated.dekNonce,
+          encryptedDekForRecovery: validated.encryptedDekForRecovery ?? null,
+          dekForRecoveryNonce: validated.dekForRecoveryNonce ?? null,
+          ...(validated.dates && documentDatesColumns(validated.dates)),
         },
       })
+      await tx.documentOwnerKey.createMany({
+        data: validated.coOwnerDeks.map((key) => ({
+          documentId: created.id,
+          membershipId: key.membershipId,
+          encryptedDekForOwner: key.sealedDek,
+          dekNonce: null, // Sealed until the co-owner's next unlock
+        })),
+      })
+      return created
+    })
 
-      return NextResponse.json({ id: document.id, replaced: false })
-    }
+    return NextResponse.json({
+      id: document.id,
+      version: document.version,
+      replaced: document.version > 1,
+    })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
     }
+    // A concurrent commit took the version number or the current slot; the paths are already
+    // claimed, so their blobs are left to reconciliation
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        { error: 'Another version was committed at the same time; prepare the upload again' },
+        { status: 409 }
+      )
+    }
     console.error('Error committing upload:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
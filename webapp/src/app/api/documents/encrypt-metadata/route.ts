@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+const encryptMetadataSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        id: z.string().uuid(), // Part id; the envelope is bound to it
+        encryptedMetadata: z.string(), // Base64 envelope sealed under the document's DEK
+      })
+    )
+    .min(1),
+})
+
+/**
+ * POST /api/documents/encrypt-metadata
+ * Migrates documents uploaded before metadata encryption: the owner's client seals each
+ * part's plaintext filename under the document's DEK and the server clears the plaintext
+ * column. Only parts that still lack encrypted metadata are touched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = encryptMetadataSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vaultId = userProfile.vault.id
+    const results = await prisma.$transaction(
+      validated.parts.map((part) =>
+        prisma.documentPart.updateMany({
+          where: { id: part.id, document: { vaultId }, encryptedMetadata: null },
+          data: { encryptedMetadata: part.encryptedMetadata, filename: null },
+        })
+      )
+    )
+
+    return NextResponse.json({
+      partsUpdated: results.reduce((total, result) => total + result.count, 0),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error encrypting document metadata:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,12 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { z } from 'zod'
-import { getStoragePath } from '@/lib/storage/supabase-storage'
+import { getStoragePath, generateSignedUploadUrl } from '@/lib/storage/ciphertext-store'
+import { getGrantedCoOwners } from '@/lib/vault/co-owners'
+import { documentTypeKeySchema } from '@/lib/vault/document-types'
+import { inDocumentTypeCatalog } from '@/lib/vault/document-type-catalog'
+import { MAX_DOCUMENT_PARTS } from '@/lib/vault/document-parts'
+import { reservePendingUploads } from '@/lib/vault/pending-uploads'
+import { checkNewVersion, maxCiphertextSize, vaultQuotas } from '@/lib/vault/storage-quotas'
 
 const prepareUploadSchema = z.object({
-  docType: z.enum(['ID', 'ProofOfAddress', 'SourceOfWealth']),
-  filename: z.string().min(1),
-  size: z.number().int().positive(),
+  docType: documentTypeKeySchema,
+  partSizes: z.array(z.number().int().positive()).min(1).max(MAX_DOCUMENT_PARTS), // In order
+  documentId: z.string().uuid().optional(), // Key rotation re-encrypts this version in place
 })
 
 export async function POST(request: NextRequest) {
@@ -35,13 +41,77 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
     }
 
-    // Generate document ID
-    const docId = crypto.randomUUID()
-    const storagePath = getStoragePath(userProfile.vault.id, validated.docType, docId)
+    if (!(await inDocumentTypeCatalog(userProfile.vault.id, [validated.docType]))) {
+      return NextResponse.json({ error: 'Unknown document type' }, { status: 400 })
+    }
+
+    // An upload is a new version with an id of its own, and each of its parts has one too,
+    // which the client binds into that part's ciphertext AAD. Key rotation re-encrypts an
+    // existing version in place, so it keeps the version's id and its part ids.
+    let docId: string = crypto.randomUUID()
+    let partIds = validated.partSizes.map(() => crypto.randomUUID())
+    if (validated.documentId) {
+      const existingDoc = await prisma.document.findUnique({
+        where: { id: validated.documentId },
+        select: {
+          id: true,
+          vaultId: true,
+          docType: true,
+          parts: { select: { id: true }, orderBy: { position: 'asc' } },
+        },
+      })
+      if (
+        !existingDoc ||
+        existingDoc.vaultId !== userProfile.vault.id ||
+        existingDoc.docType !== validated.docType
+      ) {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+      }
+      if (existingDoc.parts.length !== validated.partSizes.length) {
+        return NextResponse.json(
+          { error: `This document has ${existingDoc.parts.length} parts` },
+          { status: 400 }
+        )
+      }
+      docId = existingDoc.id
+      partIds = existingDoc.parts.map((part) => part.id)
+    }
+
+    const vaultId = userProfile.vault.id
+    const quotas = vaultQuotas(userProfile.vault)
+
+    // A new version has to fit the vault's quotas; key rotation only replaces ciphertexts
+    if (!validated.documentId) {
+      const violation = await checkNewVersion(
+        vaultId,
+        quotas,
+        validated.docType,
+        validated.partSizes
+      )
+      if (violation) {
+        return NextResponse.json(violation, { status: 413 })
+      }
+    }
+
+    const parts = await Promise.all(
+      partIds.map(async (partId) => {
+        const storagePath = getStoragePath(vaultId, validated.docType, crypto.randomUUID())
+        return {
+          partId,
+          storagePath,
+          // Client PUTs the part here
+          uploadUrl: await generateSignedUploadUrl(storagePath, maxCiphertextSize(quotas)),
+        }
+      })
+    )
+    // Until committed, the paths are pending; abandoned ones are cleaned up by reconciliation
+    await reservePendingUploads(user.id, parts.map((part) => part.storagePath))
+    const coOwners = await getGrantedCoOwners(vaultId)
 
     return NextResponse.json({
       docId,
-      storagePath,
+      parts, // In the order of partSizes
+      coOwners, // Client seals the new DEK to each co-owner's public key
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { getUserVaultAccess } from '@/lib/auth/authorization'
+import { getCoOwnerDekWraps } from '@/lib/vault/co-owners'
+import { toCalendarDate } from '@/lib/vault/document-expiry'
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,28 +35,60 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Vault not found or access denied' }, { status: 404 })
     }
 
-    // Get documents for this vault
+    // Get documents for this vault. Owners get every version, since re-keying the vault
+    // covers them all; delegates only see the current version of each type
     const documents = await prisma.document.findMany({
-      where: { vaultId: targetVaultId },
+      where: {
+        vaultId: targetVaultId,
+        ...(access.role !== 'owner' && { current: true }),
+      },
+      orderBy: [{ docType: 'asc' }, { version: 'desc' }],
+      include: { parts: { orderBy: { position: 'asc' } } },
     })
 
+    // Co-owners get their own DEK wraps in place of the creating owner's
+    const coOwnerWraps =
+      access.role === 'owner' && access.membershipId
+        ? await getCoOwnerDekWraps(access.membershipId)
+        : null
+
     // Return document metadata (no plaintext, no encryptedDekForOwner for delegates)
+    // Delegates see only doc type, size, part count and plaintext dates; filenames are
+    // encrypted under the DEK
     const documentList = documents.map((doc) => {
       const baseDoc = {
         id: doc.id,
         docType: doc.docType,
-        filename: doc.filename,
         size: doc.size,
         uploadedAt: doc.uploadedAt,
         lastUpdatedBy: doc.lastUpdatedBy,
+        version: doc.version,
+        current: doc.current,
+        partCount: doc.parts.length,
+        issuedOn: doc.issuedOn ? toCalendarDate(doc.issuedOn) : null,
+        expiresOn: doc.expiresOn ? toCalendarDate(doc.expiresOn) : null,
       }
 
-      // Only owners can see encryptedDekForOwner
+      // Only owners can see encryptedDekForOwner and each part's encrypted metadata
+      // (filename is only still set on parts not yet migrated, which the owner encrypts on unlock,
+      // as are parts without a checksum tag)
       if (access.role === 'owner') {
+        const wrap = coOwnerWraps ? coOwnerWraps.get(doc.id) : doc
         return {
           ...baseDoc,
-          encryptedDekForOwner: doc.encryptedDekForOwner,
-          dekNonce: doc.dekNonce,
+          encryptedDekForOwner: wrap?.encryptedDekForOwner,
+          dekNonce: wrap?.dekNonce,
+          parts: doc.parts.map((part) => ({
+            id: part.id,
+            position: part.position,
+            size: part.size,
+            encryptedMetadata: part.encryptedMetadata,
+            filename: part.filename,
+            ciphertextChecksum: part.ciphertextChecksum,
+            ciphertextChecksumTag: part.ciphertextChecksumTag, // Null until the owner tags it
+          })),
+          integrityFailedAt: doc.integrityFailedAt,
+          encryptedDates: doc.encryptedDates,
         }
       }
 
@@ -4,6 +4,16 @@ import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess } from '@/lib/auth/authorization'
 import { hashToken } from '@/lib/crypto/token-hash'
 
+// A link's document row, with the version the link was approved with
+interface PinnedDocument {
+  documentId: string
+  docType: string
+  document: { size: number; version: number; current: boolean }
+  replacementChoice: 'kept' | 'rewrapped' | 'revoked' | null
+  replacementChosenAt: Date | null
+  replacedVersion: number | null
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -37,8 +47,9 @@ export async function GET(
                 select: {
                   id: true,
                   docType: true,
-                  filename: true,
                   size: true,
+                  version: true,
+                  current: true,
                 },
               },
             },
@@ -115,16 +126,22 @@ export async function GET(
         status: shareLink.status,
         expiresAt: shareLink.expiresAt,
         revokedAt: shareLink.revokedAt,
+        documentRemovedAt: shareLink.documentRemovedAt, // An owner deleted one of its documents
         approvedAt: shareLink.approvedAt,
         createdAt: shareLink.createdAt,
         createdBy: creatorEmail,
         userRole: access.role, // 'owner' | 'delegate'
         canRevoke, // Whether this user can revoke the link
-        documents: shareLink.documents.map((d: { documentId: string; docType: string; document: { filename: string; size: number } }) => ({
+        documents: shareLink.documents.map((d: PinnedDocument) => ({
           documentId: d.documentId,
           docType: d.docType,
-          filename: d.document.filename,
           size: d.document.size,
+          version: d.document.version, // The version the link was approved with
+          current: d.document.current, // False once the owner uploaded or restored another
+          // What the owner chose for the link when the document was last replaced
+          replacementChoice: d.replacementChoice,
+          replacementChosenAt: d.replacementChosenAt,
+          replacedVersion: d.replacedVersion,
         })),
         // Never return: VS, encryptedLskForVendor, lskSalt, lskNonce, tokenHash
       })
@@ -142,7 +159,6 @@ export async function GET(
                 select: {
                   id: true,
                   docType: true,
-                  filename: true,
                   size: true,
                 },
               },
@@ -178,10 +194,9 @@ export async function GET(
         approvedAt: shareLink.approvedAt,
         createdAt: shareLink.createdAt,
         userRole: null, // Vendors have no role
-        documents: shareLink.documents.map((d: { documentId: string; docType: string; document: { filename: string; size: number } }) => ({
+        documents: shareLink.documents.map((d: { documentId: string; docType: string; document: { size: number } }) => ({
           documentId: d.documentId,
           docType: d.docType,
-          filename: d.document.filename,
           size: d.document.size,
         })),
         // Never return: vendorEmail, VS, encryptedLskForVendor, lskSalt, lskNonce, tokenHash
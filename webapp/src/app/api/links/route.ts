@@ -49,7 +49,8 @@ export async function GET(request: NextRequest) {
               select: {
                 id: true,
                 docType: true,
-                filename: true,
+                version: true,
+                current: true,
               },
             },
           },
@@ -91,8 +92,12 @@ export async function GET(request: NextRequest) {
           documents: link.documents.map((d) => ({
             documentId: d.documentId,
             docType: d.docType,
-            filename: d.document.filename,
+            version: d.document.version, // The version the link was approved with
+            current: d.document.current,
           })),
+          // The approver's own KEK-wrapped LSK, for re-wraps on password change and key rotation
+          encryptedLskForOwner:
+            link.approvedById === userProfile.id ? link.encryptedLskForOwner : null,
           // Never return VS, encryptedLskForVendor, lskSalt, lskNonce, or tokenHash
         }
       })
@@ -0,0 +1,86 @@
+/**
+ * Recovery Approval API - POST /api/recovery-contacts/[token]/approve
+ *
+ * Records a contact's approval of a vault recovery: their share, opened in their browser
+ * and re-sealed to the recovery request's key. The server can't open it, and the owner's
+ * browser needs threshold approvals to rebuild the recovery wrapping key.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { hashToken } from '@/lib/crypto/token-hash'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { getOpenRecoveryRequest } from '@/lib/vault/social-recovery'
+import { z } from 'zod'
+
+const RecoveryApprovalRequestSchema = z.object({
+  requestId: z.string().uuid(),
+  resealedShare: z.string().min(1), // Base64, ephemeral public key || envelope
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    const body = await request.json()
+    const parseResult = RecoveryApprovalRequestSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parseResult.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const contact = await prisma.recoveryContact.findUnique({
+      where: { tokenHash: hashToken(token) },
+    })
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Recovery contact not found' }, { status: 404 })
+    }
+
+    if (!contact.sealedShare) {
+      return NextResponse.json(
+        { error: "You don't hold a share of this vault's recovery key" },
+        { status: 403 }
+      )
+    }
+
+    const { requestId, resealedShare } = parseResult.data
+    const recoveryRequest = await getOpenRecoveryRequest(contact.vaultId)
+
+    if (!recoveryRequest || recoveryRequest.id !== requestId) {
+      return NextResponse.json(
+        { error: 'This recovery request is no longer open' },
+        { status: 410 }
+      )
+    }
+
+    const existing = await prisma.recoveryApproval.findUnique({
+      where: { requestId_contactId: { requestId, contactId: contact.id } },
+    })
+
+    if (existing) {
+      return NextResponse.json({ error: 'Recovery already approved' }, { status: 409 })
+    }
+
+    const approval = await prisma.recoveryApproval.create({
+      data: { requestId, contactId: contact.id, resealedShare },
+    })
+
+    await logAuditEvent({
+      vaultId: contact.vaultId,
+      actorType: 'recovery_contact',
+      actorId: contact.id,
+      eventType: 'social_recovery_approved',
+    })
+
+    return NextResponse.json({ id: approval.id, createdAt: approval.createdAt })
+  } catch (error: any) {
+    console.error('Error approving recovery request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
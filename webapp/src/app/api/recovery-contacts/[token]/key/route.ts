@@ -0,0 +1,60 @@
+/**
+ * Recovery Contact Key API - POST /api/recovery-contacts/[token]/key
+ *
+ * Registers the public key the contact's share is sealed to, replacing any earlier one.
+ * A share sealed to the earlier key can't be opened any more, so it is dropped and the
+ * owner seals a new split. The private key stays in the contact's browser.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { hashToken } from '@/lib/crypto/token-hash'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { z } from 'zod'
+
+const RecoveryContactKeyRequestSchema = z.object({
+  publicKey: z.string().min(1), // Base64 SPKI, ECDH P-256
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    const body = await request.json()
+    const parseResult = RecoveryContactKeyRequestSchema.safeParse(body)
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parseResult.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const contact = await prisma.recoveryContact.findUnique({
+      where: { tokenHash: hashToken(token) },
+    })
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Recovery contact not found' }, { status: 404 })
+    }
+
+    const updated = await prisma.recoveryContact.update({
+      where: { id: contact.id },
+      data: { publicKey: parseResult.data.publicKey, sealedShare: null },
+    })
+
+    await logAuditEvent({
+      vaultId: contact.vaultId,
+      actorType: 'recovery_contact',
+      actorId: contact.id,
+      eventType: 'recovery_contact_key_registered',
+    })
+
+    return NextResponse.json({ id: updated.id, updatedAt: updated.updatedAt })
+  } catch (error: any) {
+    console.error('Error registering recovery contact key:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Recovery Contact API - GET /api/recovery-contacts/[token]
+ *
+ * Returns what a recovery contact's browser needs: their sealed share and the vault's open
+ * recovery request, if any. The link token from the invite email identifies the contact;
+ * the share only opens with the private key kept in their browser.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { hashToken } from '@/lib/crypto/token-hash'
+import { getOpenRecoveryRequest } from '@/lib/vault/social-recovery'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    const contact = await prisma.recoveryContact.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { vault: true },
+    })
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Recovery contact not found' }, { status: 404 })
+    }
+
+    // Only contacts holding a share of the current split take part in a recovery
+    const recoveryRequest = contact.sealedShare
+      ? await getOpenRecoveryRequest(contact.vaultId)
+      : null
+    const approval = recoveryRequest
+      ? await prisma.recoveryApproval.findUnique({
+          where: { requestId_contactId: { requestId: recoveryRequest.id, contactId: contact.id } },
+        })
+      : null
+
+    return NextResponse.json({
+      id: contact.id,
+      label: contact.label,
+      publicKey: contact.publicKey,
+      sealedShare: contact.sealedShare,
+      recoverySalt: contact.vault.recoverySalt,
+      threshold: contact.vault.socialRecoveryThreshold,
+      request: recoveryRequest && {
+        id: recoveryRequest.id,
+        publicKey: recoveryRequest.publicKey,
+        createdAt: recoveryRequest.createdAt,
+        expiresAt: recoveryRequest.expiresAt,
+        approved: approval !== null,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error fetching recovery contact:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -4,8 +4,8 @@ import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess } from '@/lib/auth/authorization'
 import { logAuditEvent } from '@/lib/audit/audit-log'
 import { generateToken, hashToken } from '@/lib/crypto/token-hash'
-import { sendVendorSecretEmail } from '@/lib/email/mailtrap'
-import type { DocumentType } from '@prisma/client'
+import { sendVendorSecretEmail, sendVendorLinkEmail } from '@/lib/email/mailtrap'
+import { getVendorKey } from '@/lib/vault/vendor-keys'
 
 const appUrl = process.env.APP_URL || 'http://localhost:3000'
 
@@ -74,20 +74,59 @@ export async function POST(
       encryptedDekForLink, // Array of { documentId, encryptedDek, nonce } per document
       encryptedLskForVendor, // Base64-encoded encrypted LSK
       lskNonce, // Base64-encoded nonce for LSK wrapping
+      encryptedLskForOwner, // Base64-encoded LSK encrypted with the approver's KEK (for key rotation)
       vendorSecret, // VS in formatted form (for email only, never stored)
+      vendorPublicKey, // Base64 SPKI the LSK was sealed to, in place of a VS
+      vendorKeyConfirmed, // True once the approver checked the fingerprint of an unconfirmed key
     } = body
 
     // Validate required crypto artifacts
-    if (!lskSalt || !encryptedDekForLink || !encryptedLskForVendor || !lskNonce || !vendorSecret) {
+    if (!lskSalt || !encryptedDekForLink || !encryptedLskForVendor || !lskNonce) {
       return NextResponse.json(
         {
           error:
-            'Missing required crypto artifacts: lskSalt, encryptedDekForLink, encryptedLskForVendor, lskNonce, vendorSecret',
+            'Missing required crypto artifacts: lskSalt, encryptedDekForLink, encryptedLskForVendor, lskNonce',
         },
         { status: 400 }
       )
     }
 
+    // The LSK is either wrapped with a VS that gets emailed, or sealed to the vendor's key
+    if (!vendorSecret === !vendorPublicKey) {
+      return NextResponse.json(
+        { error: 'Exactly one of vendorSecret or vendorPublicKey is required' },
+        { status: 400 }
+      )
+    }
+
+    const vendorKey = vendorPublicKey
+      ? await getVendorKey(shareRequest.vaultId, shareRequest.vendorEmail)
+      : null
+
+    if (vendorPublicKey) {
+      if (!vendorKey || vendorKey.publicKey !== vendorPublicKey) {
+        return NextResponse.json(
+          { error: "The vendor's registered key has changed; reload and check it again" },
+          { status: 409 }
+        )
+      }
+
+      // A new or replaced key could be anyone's until an owner checks it with the vendor
+      if (!vendorKey.confirmedAt && vendorKeyConfirmed !== true) {
+        return NextResponse.json(
+          { error: "Check the vendor's new key fingerprint with them before using it" },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (encryptedLskForOwner !== undefined && typeof encryptedLskForOwner !== 'string') {
+      return NextResponse.json(
+        { error: 'encryptedLskForOwner must be a string' },
+        { status: 400 }
+      )
+    }
+
     // Validate encryptedDekForLink is an array matching requested doc types
     if (!Array.isArray(encryptedDekForLink)) {
       return NextResponse.json(
@@ -96,11 +135,12 @@ export async function POST(
       )
     }
 
-    // Get documents for requested doc types
+    // Get the current version of each requested doc type; the link stays pinned to it
     const documents = await prisma.document.findMany({
       where: {
         vaultId: shareRequest.vaultId,
         docType: { in: shareRequest.requestedDocTypes },
+        current: true,
       },
     })
 
@@ -156,6 +196,8 @@ export async function POST(
         encryptedLskForVendor,
         lskSalt,
         lskNonce,
+        encryptedLskForOwner: encryptedLskForOwner ?? null,
+        vendorPublicKey: vendorPublicKey ?? null,
       },
     })
 
@@ -170,6 +212,13 @@ export async function POST(
       })),
     })
 
+    if (vendorKey && !vendorKey.confirmedAt) {
+      await prisma.vendorKey.updateMany({
+        where: { id: vendorKey.id, publicKey: vendorPublicKey, confirmedAt: null },
+        data: { confirmedAt: new Date() },
+      })
+    }
+
     // Update share request status
     await prisma.shareRequest.update({
       where: { id: shareRequest.id },
@@ -179,15 +228,24 @@ export async function POST(
     // Construct share link URL (vendor access route)
     const linkUrl = `${appUrl}/v/${linkToken}`
 
-    // Send vendor secret email (VS never stored, only emailed)
+    // Send vendor secret email (VS never stored, only emailed); a sealed link needs no VS
     try {
-      await sendVendorSecretEmail({
-        to: shareRequest.vendorEmail,
-        vendorLabel: shareRequest.vendorLabel,
-        linkUrl,
-        vendorSecret, // VS in formatted form
-        expiresAt: shareRequest.expiresAt,
-      })
+      if (vendorPublicKey) {
+        await sendVendorLinkEmail({
+          to: shareRequest.vendorEmail,
+          vendorLabel: shareRequest.vendorLabel,
+          linkUrl,
+          expiresAt: shareRequest.expiresAt,
+        })
+      } else {
+        await sendVendorSecretEmail({
+          to: shareRequest.vendorEmail,
+          vendorLabel: shareRequest.vendorLabel,
+          linkUrl,
+          vendorSecret, // VS in formatted form
+          expiresAt: shareRequest.expiresAt,
+        })
+      }
     } catch (emailError) {
       console.error('Failed to send vendor secret email:', emailError)
       // Don't fail the request if email fails, but log it
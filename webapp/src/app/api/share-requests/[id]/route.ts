@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient, createAdminClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess } from '@/lib/auth/authorization'
+import { getVendorKey } from '@/lib/vault/vendor-keys'
 
 export async function GET(
   request: NextRequest,
@@ -66,6 +67,12 @@ export async function GET(
         (access.role === 'delegate' && shareRequest.createdById === userProfile.id)
       : false
 
+    // Owners approving a request can seal the LSK to the vendor's registered key
+    const vendorKey =
+      access.role === 'owner' && shareRequest.status === 'pending' && shareRequest.vendorEmail
+        ? await getVendorKey(shareRequest.vaultId, shareRequest.vendorEmail)
+        : null
+
     // Get creator's email from Supabase Auth
     let creatorEmail: string | null = null
     if (shareRequest.creator?.userId) {
@@ -90,6 +97,13 @@ export async function GET(
       createdAt: shareRequest.createdAt,
       updatedAt: shareRequest.updatedAt,
       createdBy: creatorEmail,
+      vendorKey: vendorKey
+        ? {
+            publicKey: vendorKey.publicKey,
+            updatedAt: vendorKey.updatedAt,
+            confirmed: vendorKey.confirmedAt !== null,
+          }
+        : null,
       shareLink: shareRequest.shareLink
         ? {
             id: shareRequest.shareLink.id,
@@ -3,7 +3,7 @@ import { createServerClient, createAdminClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess, canAccessDocType } from '@/lib/auth/authorization'
 import { logAuditEvent } from '@/lib/audit/audit-log'
-import type { DocumentType } from '@prisma/client'
+import { getDocumentTypeCatalog } from '@/lib/vault/document-type-catalog'
 
 export async function POST(request: NextRequest) {
   try {
@@ -44,9 +44,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
     }
 
-    // Validate doc types
-    const validDocTypes: DocumentType[] = ['ID', 'ProofOfAddress', 'SourceOfWealth']
-    const docTypes = requestedDocTypes.filter((dt: string) => validDocTypes.includes(dt as DocumentType))
+    // Validate doc types against the vault's catalog
+    const validDocTypes = (await getDocumentTypeCatalog(vaultId)).map((t) => t.key)
+    const docTypes = requestedDocTypes.filter((dt: string) => validDocTypes.includes(dt))
     if (docTypes.length === 0) {
       return NextResponse.json({ error: 'At least one valid document type must be requested' }, { status: 400 })
     }
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { downloadCiphertext, uploadCiphertext } from '@/lib/storage/ciphertext-store'
+import { localUrlMaxBytes, verifyLocalUrl, type LocalUrlMethod } from '@/lib/storage/local-store'
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+// The storage path a request is for, if the local driver is active and its signed URL is valid
+async function authorizedPath(
+  request: NextRequest,
+  method: LocalUrlMethod,
+  params: RouteContext['params']
+): Promise<string | null> {
+  if (process.env.STORAGE_DRIVER !== 'local') return null
+
+  const path = (await params).path.join('/')
+  return verifyLocalUrl(method, path, request.nextUrl.searchParams) ? path : null
+}
+
+// The request body, or null once it runs past maxBytes; no more than that is ever buffered
+async function readBody(request: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  if (request.body) {
+    const reader = request.body.getReader()
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      length += chunk.value.length
+      if (length > maxBytes) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(chunk.value)
+    }
+  }
+
+  const body = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.length
+  }
+  return body
+}
+
+/**
+ * GET /api/storage/local/[...path]
+ * Serve a ciphertext blob from the local storage driver through a signed download URL
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const path = await authorizedPath(request, 'GET', params)
+    if (!path) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const ciphertext = await downloadCiphertext(path)
+
+    return new NextResponse(Buffer.from(ciphertext), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    console.error('Error serving local ciphertext:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/storage/local/[...path]
+ * Write a ciphertext blob to the local storage driver through a signed upload URL
+ * The URL carries the largest ciphertext the vault's file size limit allows; a larger body is
+ * refused by its Content-Length, or cut off once it passes the limit.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const path = await authorizedPath(request, 'PUT', params)
+    if (!path) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    // Verified URLs for uploads always carry a limit
+    const maxBytes = localUrlMaxBytes(request.nextUrl.searchParams)!
+    const tooLarge = NextResponse.json(
+      { error: `Uploads to this URL can be at most ${maxBytes} bytes` },
+      { status: 413 }
+    )
+    if (Number(request.headers.get('content-length')) > maxBytes) {
+      return tooLarge
+    }
+
+    const ciphertext = await readBody(request, maxBytes)
+    if (!ciphertext) {
+      return tooLarge
+    }
+
+    await uploadCiphertext(path, ciphertext)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    // Paths are written once
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return NextResponse.json({ error: 'Already uploaded' }, { status: 409 })
+    }
+    console.error('Error storing local ciphertext:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
-import { uploadCiphertext, replaceCiphertext } from '@/lib/storage/supabase-storage'
+import { prisma } from '@/lib/db/prisma'
+import { uploadCiphertext } from '@/lib/storage/ciphertext-store'
+import { holdsPendingUploads } from '@/lib/vault/pending-uploads'
+import { checkCiphertextSize, vaultQuotas } from '@/lib/vault/storage-quotas'
 import { z } from 'zod'
 
 const uploadSchema = z.object({
@@ -23,17 +26,30 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validated = uploadSchema.parse(body)
 
+    // Only a path prepare-upload handed to this user, not yet committed
+    if (!(await holdsPendingUploads(user.id, [validated.path]))) {
+      return NextResponse.json({ error: 'Upload expired or unknown' }, { status: 403 })
+    }
+
     // Convert base64 string to Uint8Array
     const ciphertext = new Uint8Array(Buffer.from(validated.ciphertext, 'base64'))
 
-    // Try to upload (will fail if exists), then replace if needed
-    try {
-      await uploadCiphertext(validated.path, ciphertext)
-    } catch (error) {
-      // If upload fails, try replace
-      await replaceCiphertext(validated.path, ciphertext)
+    // No file larger than the vault allows; a restore has no vault yet, so the defaults apply
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+    const violation = checkCiphertextSize(
+      vaultQuotas(userProfile?.vault ?? null),
+      ciphertext.length
+    )
+    if (violation) {
+      return NextResponse.json(violation, { status: 413 })
     }
 
+    // Never overwrites: a path is written once, and a replacement gets a fresh one
+    await uploadCiphertext(validated.path, ciphertext)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -43,4 +59,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
-
@@ -54,14 +54,37 @@ async function acceptInvite(token: string) {
     // Get or create user profile
     let userProfile = await db.userProfile.findUnique({
       where: { userId: user.id },
+      include: { vault: true, teamMemberships: { where: { role: 'owner' } } },
     })
 
     if (!userProfile) {
       userProfile = await db.userProfile.create({
         data: { userId: user.id },
+        include: { vault: true, teamMemberships: { where: { role: 'owner' } } },
       })
     }
 
+    // The app works on one vault per owner; co-owning a second one would hide it
+    if (invite.role === 'owner' && userProfile.vault) {
+      return {
+        success: false,
+        error: 'You already own a vault. Accept the co-owner invite with another account.',
+        status: 409,
+      }
+    }
+
+    // The co-owner routes act on a user's only owner membership, so there may be just one
+    if (
+      invite.role === 'owner' &&
+      userProfile.teamMemberships.some((m) => m.vaultId !== invite.vaultId)
+    ) {
+      return {
+        success: false,
+        error: 'You already co-own a vault. Accept the co-owner invite with another account.',
+        status: 409,
+      }
+    }
+
     // Check if already a member
     const existingMembership = await db.teamMembership.findUnique({
       where: {
@@ -98,7 +121,7 @@ async function acceptInvite(token: string) {
     // Log audit event
     await logAuditEvent({
       vaultId: invite.vaultId,
-      actorType: 'delegate',
+      actorType: invite.role === 'owner' ? 'owner' : 'delegate',
       actorId: userProfile.id,
       eventType: 'invite_accepted',
     })
@@ -5,7 +5,6 @@ import { requireVaultAccess } from '@/lib/auth/authorization'
 import { sendInviteEmail } from '@/lib/email/mailtrap'
 import { generateToken, hashToken } from '@/lib/crypto/token-hash'
 import { logAuditEvent } from '@/lib/audit/audit-log'
-import type { DocumentType } from '@prisma/client'
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,7 +21,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { vaultId, invitedEmail, role, allowedDocTypes } = body
 
-    if (!vaultId || !invitedEmail || !role || !allowedDocTypes) {
+    if (!vaultId || !invitedEmail || !role || (role === 'delegate' && !allowedDocTypes)) {
       return NextResponse.json(
         { error: 'Missing required fields: vaultId, invitedEmail, role, allowedDocTypes' },
         { status: 400 }
@@ -30,7 +29,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Require owner role to create invites
-    await requireVaultAccess(vaultId, user.id, 'owner')
+    const access = await requireVaultAccess(vaultId, user.id, 'owner')
 
     // Get user profile for audit logging
     const userProfile = await prisma.userProfile.findUnique({
@@ -41,14 +40,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
     }
 
-    // Validate role
-    if (role !== 'delegate') {
-      return NextResponse.json({ error: 'Only delegate role can be invited' }, { status: 400 })
+    // Validate role (owner invites a co-owner)
+    if (role !== 'delegate' && role !== 'owner') {
+      return NextResponse.json({ error: 'Role must be delegate or owner' }, { status: 400 })
     }
 
-    // Validate doc types
-    const validDocTypes: DocumentType[] = ['ID', 'ProofOfAddress', 'SourceOfWealth']
-    const docTypes = allowedDocTypes.filter((dt: string) => validDocTypes.includes(dt as DocumentType))
+    // Validate doc types against the vault's catalog (co-owners always have every doc type)
+    const validDocTypes = access.permissions.allowedDocTypes
+    const docTypes =
+      role === 'owner'
+        ? validDocTypes
+        : allowedDocTypes.filter((dt: string) => validDocTypes.includes(dt))
     if (docTypes.length === 0) {
       return NextResponse.json({ error: 'At least one valid document type must be allowed' }, { status: 400 })
     }
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { applyCoOwnerGrant, coOwnerGrantSchema } from '@/lib/vault/co-owners'
+import { RewrapConflictError } from '@/lib/vault/rewrap'
+import { z } from 'zod'
+
+/**
+ * POST /api/team/members/[id]/grant
+ * Grants a co-owner access to the documents. The calling owner's client unwrapped every
+ * DEK with their own KEK and sealed it to the co-owner's public key, after checking its
+ * fingerprint with them; that key is pinned for every later DEK. [id] is the co-owner's
+ * membership id.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validated = coOwnerGrantSchema.parse(body)
+
+    const membership = await prisma.teamMembership.findUnique({
+      where: { id },
+    })
+
+    if (!membership || membership.role !== 'owner') {
+      return NextResponse.json({ error: 'Co-owner not found' }, { status: 404 })
+    }
+
+    // Any owner holding the DEKs can grant, co-owners included
+    await requireVaultAccess(membership.vaultId, user.id, 'owner')
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+    })
+
+    if (!userProfile) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
+    }
+
+    if (membership.userId === userProfile.id) {
+      return NextResponse.json({ error: 'Another owner has to grant you access' }, { status: 403 })
+    }
+
+    if (!membership.publicKey) {
+      return NextResponse.json(
+        { error: 'Co-owner has not set their vault password yet' },
+        { status: 409 }
+      )
+    }
+
+    if (membership.accessGrantedAt) {
+      return NextResponse.json({ error: 'Co-owner already has access' }, { status: 409 })
+    }
+
+    if (validated.publicKey !== membership.publicKey) {
+      return NextResponse.json(
+        { error: "The co-owner's key has changed; reload and check it again" },
+        { status: 409 }
+      )
+    }
+
+    // Whoever can write the key would get every DEK, unless an owner checks it with the co-owner
+    if (validated.publicKeyConfirmed !== true) {
+      return NextResponse.json(
+        { error: "Check the co-owner's key fingerprint with them before granting access" },
+        { status: 409 }
+      )
+    }
+
+    await applyCoOwnerGrant({ id: membership.id, vaultId: membership.vaultId }, validated)
+
+    await logAuditEvent({
+      vaultId: membership.vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'co_owner_access_granted',
+    })
+
+    return NextResponse.json({ documentsGranted: validated.documents.length })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RewrapConflictError) {
+      return NextResponse.json(
+        { error: 'Vault changed while granting access. Reload and retry.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error granting co-owner access:', error)
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
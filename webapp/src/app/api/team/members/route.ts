@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
 import { requireVaultAccess } from '@/lib/auth/authorization'
+import { buildDocumentTypeCatalog } from '@/lib/vault/document-types'
 
 export async function GET(request: NextRequest) {
   try {
@@ -39,6 +40,7 @@ export async function GET(request: NextRequest) {
       where: { id: vaultId },
       include: {
         owner: true,
+        documentTypes: true,
       },
     })
 
@@ -56,16 +58,26 @@ export async function GET(request: NextRequest) {
 
     // Format response
     // Note: We don't expose emails for privacy. Only return user IDs and roles.
+    // Co-owners also come with their public key, so an unlocked owner can grant them access
     const members = [
       {
         userId: vault.owner.id,
         role: 'owner' as const,
-        permissions: { allowedDocTypes: ['ID', 'ProofOfAddress', 'SourceOfWealth'] },
+        permissions: {
+          allowedDocTypes: buildDocumentTypeCatalog(vault.documentTypes).map((t) => t.key),
+        },
       },
       ...memberships.map((m) => ({
         userId: m.user.id,
         role: m.role,
         permissions: m.permissionsJson as { allowedDocTypes: string[] },
+        ...(m.role === 'owner' && {
+          coOwner: {
+            membershipId: m.id,
+            publicKey: m.publicKey,
+            accessGranted: m.accessGrantedAt !== null,
+          },
+        }),
       })),
     ]
 
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { applyOwnerRewrap, ownerRewrapSchema, RewrapConflictError } from '@/lib/vault/rewrap'
+import { applyCoOwnerRewrap } from '@/lib/vault/co-owners'
+import { isKdfDowngrade } from '@/lib/vault/kdf-params'
+import { z } from 'zod'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = ownerRewrapSchema.parse(body)
+
+    // Get user profile with the vault it owns or its co-owner membership
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true, teamMemberships: { where: { role: 'owner' } } },
+    })
+
+    // The creating owner's keys are on the vault; a co-owner's are on their membership
+    const vault = userProfile?.vault
+    const membership = vault ? null : userProfile?.teamMemberships[0]
+    const keys = vault ?? (membership?.kdfSalt ? membership : null)
+
+    if (!userProfile || !keys) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    if (keys.kdfSalt !== validated.currentKdfSalt) {
+      return NextResponse.json(
+        { error: 'Vault password was changed by another session. Unlock again and retry.' },
+        { status: 409 }
+      )
+    }
+
+    // New parameters meet the current policy and never weaken the vault's
+    if (isKdfDowngrade(validated.kdfParams, keys.kdfParams)) {
+      return NextResponse.json({ error: 'KDF parameters would be downgraded' }, { status: 400 })
+    }
+
+    if (vault?.recoverySalt && (!validated.encryptedRecoveryKeyForOwner || !validated.recoveryKeyNonce)) {
+      return NextResponse.json(
+        { error: 'Recovery key must be re-wrapped with the new password' },
+        { status: 400 }
+      )
+    }
+
+    if (!vault && !validated.encryptedPrivateKey) {
+      return NextResponse.json(
+        { error: 'Private key must be re-wrapped with the new password' },
+        { status: 400 }
+      )
+    }
+
+    if (vault) {
+      await applyOwnerRewrap(vault, validated)
+    } else {
+      await applyCoOwnerRewrap(membership!, validated)
+    }
+
+    const vaultId = vault ? vault.id : membership!.vaultId
+
+    await logAuditEvent({
+      vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'vault_password_changed',
+    })
+
+    return NextResponse.json({
+      id: vaultId,
+      kdfSalt: validated.kdfSalt,
+      kdfParams: validated.kdfParams,
+      documentsRewrapped: validated.documents.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RewrapConflictError) {
+      return NextResponse.json(
+        { error: 'Vault changed while re-wrapping keys. Reload the vault and retry.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error changing vault password:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
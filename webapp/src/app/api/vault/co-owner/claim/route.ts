@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+const claimSchema = z.object({
+  keys: z
+    .array(
+      z.object({
+        keyId: z.string().uuid(), // DocumentOwnerKey id; a replaced document gets a new one
+        encryptedDekForOwner: z.string(), // Base64, wrapped with the co-owner's KEK
+        dekNonce: z.string(), // Base64
+      })
+    )
+    .min(1),
+})
+
+/**
+ * POST /api/vault/co-owner/claim
+ * Replaces DEKs sealed to the current co-owner with the copies their client re-wrapped
+ * under their KEK. Only still-sealed copies are touched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = claimSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { teamMemberships: { where: { role: 'owner' } } },
+    })
+    const membership = userProfile?.teamMemberships[0]
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Co-owner membership not found' }, { status: 404 })
+    }
+
+    const results = await prisma.$transaction(
+      validated.keys.map((key) =>
+        prisma.documentOwnerKey.updateMany({
+          where: { id: key.keyId, membershipId: membership.id, dekNonce: null },
+          data: { encryptedDekForOwner: key.encryptedDekForOwner, dekNonce: key.dekNonce },
+        })
+      )
+    )
+
+    return NextResponse.json({
+      keysClaimed: results.reduce((total, result) => total + result.count, 0),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error claiming sealed DEKs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { kdfParamsSchema } from '@/lib/vault/kdf-params'
+import { z } from 'zod'
+
+const coOwnerKeysSchema = z.object({
+  kdfSalt: z.string(),
+  kdfParams: kdfParamsSchema,
+  kekVerifier: z.string(), // Base64, constant encrypted with the co-owner's KEK
+  publicKey: z.string(), // Base64 SPKI, ECDH P-256
+  encryptedPrivateKey: z.string(), // Base64 envelope, PKCS#8 private key under the co-owner's KEK
+})
+
+/**
+ * GET /api/vault/co-owner
+ * Lists the DEKs other owners sealed to the current co-owner that are not yet
+ * re-wrapped under their KEK (see /api/vault/co-owner/claim)
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { teamMemberships: { where: { role: 'owner' } } },
+    })
+    const membership = userProfile?.teamMemberships[0]
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Co-owner membership not found' }, { status: 404 })
+    }
+
+    const sealed = await prisma.documentOwnerKey.findMany({
+      where: { membershipId: membership.id, dekNonce: null },
+      include: { document: { select: { docType: true } } },
+    })
+
+    return NextResponse.json({
+      sealedDeks: sealed.map((key) => ({
+        keyId: key.id,
+        documentId: key.documentId,
+        docType: key.document.docType,
+        sealedDek: key.encryptedDekForOwner,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching sealed DEKs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/co-owner
+ * Stores a co-owner's own key material after they chose their vault password.
+ * Set once; an existing owner then grants access by sealing every DEK to the public key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = coOwnerKeysSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { teamMemberships: { where: { role: 'owner' } } },
+    })
+    const membership = userProfile?.teamMemberships[0]
+
+    if (!userProfile || !membership) {
+      return NextResponse.json({ error: 'Co-owner membership not found' }, { status: 404 })
+    }
+
+    // Only fills keys that aren't set; DEKs may already be sealed to an existing public key
+    const { count } = await prisma.teamMembership.updateMany({
+      where: { id: membership.id, publicKey: null },
+      data: {
+        kdfSalt: validated.kdfSalt,
+        kdfParams: validated.kdfParams,
+        kekVerifier: validated.kekVerifier,
+        publicKey: validated.publicKey,
+        encryptedPrivateKey: validated.encryptedPrivateKey,
+      },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Co-owner vault password is already set' }, { status: 409 })
+    }
+
+    await logAuditEvent({
+      vaultId: membership.vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'co_owner_keys_created',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error storing co-owner keys:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
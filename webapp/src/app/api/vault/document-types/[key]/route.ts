@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { Prisma } from '@prisma/client'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { SYSTEM_DOCUMENT_TYPES, documentTypeLabelSchema } from '@/lib/vault/document-types'
+import { z } from 'zod'
+
+const updateDocumentTypeSchema = z.object({
+  label: documentTypeLabelSchema,
+})
+
+function isSystemType(key: string): boolean {
+  return SYSTEM_DOCUMENT_TYPES.some((t) => t.key === key)
+}
+
+function withoutDocType(permissionsJson: Prisma.JsonValue, key: string): Prisma.InputJsonValue {
+  const permissions = permissionsJson as { allowedDocTypes: string[] }
+  return { ...permissions, allowedDocTypes: permissions.allowedDocTypes.filter((k) => k !== key) }
+}
+
+/**
+ * PATCH /api/vault/document-types/[key]
+ * Relabels a document type; for a system type this stores the owner's label for their vault
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { key } = await params
+    const body = await request.json()
+    const validated = updateDocumentTypeSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vaultId = userProfile.vault.id
+
+    if (isSystemType(key)) {
+      await prisma.documentTypeDefinition.upsert({
+        where: { vaultId_key: { vaultId, key } },
+        create: { vaultId, key, label: validated.label },
+        update: { label: validated.label },
+      })
+    } else {
+      const { count } = await prisma.documentTypeDefinition.updateMany({
+        where: { vaultId, key },
+        data: { label: validated.label },
+      })
+
+      if (count === 0) {
+        return NextResponse.json({ error: 'Document type not found' }, { status: 404 })
+      }
+    }
+
+    await logAuditEvent({
+      vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'document_type_updated',
+      docType: key,
+    })
+
+    return NextResponse.json({ key, label: validated.label, system: isSystemType(key) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error updating document type:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/vault/document-types/[key]
+ * Removes a custom document type no document uses, along with it from delegates' permissions,
+ * pending invites and pending share requests. For a system type, restores its default label
+ * instead; system types can't be removed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { key } = await params
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vaultId = userProfile.vault.id
+
+    if (!isSystemType(key)) {
+      const documentCount = await prisma.document.count({ where: { vaultId, docType: key } })
+      if (documentCount > 0) {
+        return NextResponse.json(
+          { error: 'The vault holds a document of this type' },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Delegates, invites and pending share requests lose the type with it; a type added
+    // again under the same key later must not be open to them without being granted again
+    const { count } = await prisma.$transaction(async (tx) => {
+      const removed = await tx.documentTypeDefinition.deleteMany({ where: { vaultId, key } })
+      if (removed.count > 0 && !isSystemType(key)) {
+        const allowsType = { path: ['allowedDocTypes'], array_contains: [key] }
+        const delegates = await tx.teamMembership.findMany({
+          where: { vaultId, role: 'delegate', permissionsJson: allowsType },
+          select: { id: true, permissionsJson: true },
+        })
+        for (const delegate of delegates) {
+          await tx.teamMembership.update({
+            where: { id: delegate.id },
+            data: { permissionsJson: withoutDocType(delegate.permissionsJson, key) },
+          })
+        }
+
+        const invites = await tx.teamInvite.findMany({
+          where: { vaultId, acceptedAt: null, permissionsJson: allowsType },
+          select: { id: true, permissionsJson: true },
+        })
+        for (const invite of invites) {
+          await tx.teamInvite.update({
+            where: { id: invite.id },
+            data: { permissionsJson: withoutDocType(invite.permissionsJson, key) },
+          })
+        }
+
+        // A request left with no type has nothing to approve
+        const shareRequests = await tx.shareRequest.findMany({
+          where: { vaultId, status: 'pending', requestedDocTypes: { has: key } },
+          select: { id: true, requestedDocTypes: true },
+        })
+        for (const shareRequest of shareRequests) {
+          const requestedDocTypes = shareRequest.requestedDocTypes.filter((k) => k !== key)
+          await tx.shareRequest.update({
+            where: { id: shareRequest.id },
+            data: requestedDocTypes.length > 0 ? { requestedDocTypes } : { status: 'cancelled' },
+          })
+        }
+      }
+
+      return removed
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Document type not found' }, { status: 404 })
+    }
+
+    await logAuditEvent({
+      vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: isSystemType(key) ? 'document_type_updated' : 'document_type_removed',
+      docType: key,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing document type:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
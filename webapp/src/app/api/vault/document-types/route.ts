@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import {
+  MAX_CUSTOM_DOCUMENT_TYPES,
+  SYSTEM_DOCUMENT_TYPES,
+  documentTypeKeyFromLabel,
+  documentTypeKeySchema,
+  documentTypeLabelSchema,
+} from '@/lib/vault/document-types'
+import { getDocumentTypeCatalog } from '@/lib/vault/document-type-catalog'
+import { z } from 'zod'
+
+const addDocumentTypeSchema = z.object({
+  label: documentTypeLabelSchema, // e.g. "Board resolution"
+  key: documentTypeKeySchema.optional(), // Derived from the label when omitted
+})
+
+/**
+ * GET /api/vault/document-types?vaultId=
+ * The vault's document type catalog, for anyone with access to the vault
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const vaultId = searchParams.get('vaultId')
+
+    if (!vaultId) {
+      return NextResponse.json({ error: 'vaultId query parameter is required' }, { status: 400 })
+    }
+
+    await requireVaultAccess(vaultId, user.id)
+
+    return NextResponse.json({ documentTypes: await getDocumentTypeCatalog(vaultId) })
+  } catch (error: any) {
+    console.error('Error fetching document types:', error)
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/document-types
+ * Adds a custom document type to the owner's vault. Its key can't change afterwards, since
+ * it is bound into the encryption context of every document of that type.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = addDocumentTypeSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: { include: { documentTypes: true } } },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+    const key = validated.key ?? documentTypeKeyFromLabel(validated.label)
+
+    if (
+      SYSTEM_DOCUMENT_TYPES.some((t) => t.key.toLowerCase() === key.toLowerCase()) ||
+      vault.documentTypes.some((t) => t.key.toLowerCase() === key.toLowerCase())
+    ) {
+      return NextResponse.json(
+        { error: `A document type with key ${key} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const systemKeys = new Set(SYSTEM_DOCUMENT_TYPES.map((t) => t.key))
+    const customCount = vault.documentTypes.filter((t) => !systemKeys.has(t.key)).length
+    if (customCount >= MAX_CUSTOM_DOCUMENT_TYPES) {
+      return NextResponse.json(
+        { error: `A vault can have at most ${MAX_CUSTOM_DOCUMENT_TYPES} custom document types` },
+        { status: 400 }
+      )
+    }
+
+    const documentType = await prisma.documentTypeDefinition.create({
+      data: { vaultId: vault.id, key, label: validated.label },
+    })
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'document_type_added',
+      docType: key,
+    })
+
+    return NextResponse.json({ key: documentType.key, label: documentType.label, system: false })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error adding document type:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
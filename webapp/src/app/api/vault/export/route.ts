@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { generateSignedCiphertextUrl } from '@/lib/storage/ciphertext-store'
+import { toCalendarDate } from '@/lib/vault/document-expiry'
+
+// Long enough to download every document of a large vault one after another
+const EXPORT_URL_EXPIRY_SECONDS = 60 * 60
+
+/**
+ * GET /api/vault/export
+ * Everything the owner's client needs to build an encrypted backup archive
+ * (see backup-archive.ts): the vault's KDF parameters and wrapped keys, per document its
+ * wrapped DEKs and its parts' encrypted metadata, and signed URLs for the stored part
+ * ciphertexts.
+ * Nothing here is decryptable without the vault password or recovery key.
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only the creating owner: the backup carries their password's wraps
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: {
+        vault: {
+          include: {
+            documents: {
+              orderBy: [{ docType: 'asc' }, { version: 'asc' }],
+              include: { parts: { orderBy: { position: 'asc' } } },
+            },
+            documentTypes: { orderBy: { createdAt: 'asc' } },
+          },
+        },
+      },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const { vault } = userProfile
+
+    const documents = vault.documents.map((doc) => ({
+      id: doc.id,
+      docType: doc.docType,
+      version: doc.version,
+      current: doc.current,
+      size: doc.size,
+      uploadedAt: doc.uploadedAt,
+      parts: doc.parts.map((part) => ({
+        id: part.id,
+        size: part.size,
+        ciphertextChecksum: part.ciphertextChecksum,
+        ciphertextChecksumTag: part.ciphertextChecksumTag,
+        encryptedMetadata: part.encryptedMetadata,
+      })),
+      encryptedDekForOwner: doc.encryptedDekForOwner,
+      dekNonce: doc.dekNonce,
+      encryptedDekForRecovery: doc.encryptedDekForRecovery,
+      dekForRecoveryNonce: doc.dekForRecoveryNonce,
+      issuedOn: doc.issuedOn ? toCalendarDate(doc.issuedOn) : null,
+      expiresOn: doc.expiresOn ? toCalendarDate(doc.expiresOn) : null,
+      encryptedDates: doc.encryptedDates,
+    }))
+
+    // Signed URLs for the stored ciphertexts, by part id (not part of the archive)
+    const ciphertextUrls = Object.fromEntries(
+      await Promise.all(
+        vault.documents
+          .flatMap((doc) => doc.parts)
+          .map(async (part) => [
+            part.id,
+            await generateSignedCiphertextUrl(part.storagePath, EXPORT_URL_EXPIRY_SECONDS),
+          ])
+      )
+    )
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'vault_exported',
+    })
+
+    return NextResponse.json({
+      vault: {
+        kdfSalt: vault.kdfSalt,
+        kdfParams: vault.kdfParams,
+        kekVerifier: vault.kekVerifier,
+        recoverySalt: vault.recoverySalt,
+        encryptedRecoveryKeyForOwner: vault.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: vault.recoveryKeyNonce,
+        documentTypes: vault.documentTypes.map((t) => ({ key: t.key, label: t.label })),
+      },
+      documents,
+      ciphertextUrls,
+    })
+  } catch (error) {
+    console.error('Error exporting vault:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
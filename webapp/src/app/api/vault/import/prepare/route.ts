@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { backupDocumentSchema, backupDocumentPartSchema } from '@/lib/crypto/backup-archive'
+import { MAX_DOCUMENT_PARTS } from '@/lib/vault/document-parts'
+import { getStoragePath, generateSignedUploadUrl } from '@/lib/storage/ciphertext-store'
+import { reservePendingUploads } from '@/lib/vault/pending-uploads'
+import { vaultQuotas } from '@/lib/vault/storage-quotas'
+import { archivedCiphertextSize } from '@/lib/crypto/chunked-aead'
+import { z } from 'zod'
+
+const prepareImportSchema = z.object({
+  documents: z
+    .array(
+      backupDocumentSchema.pick({ id: true, docType: true }).extend({
+        parts: z.array(backupDocumentPartSchema.pick({ id: true })).min(1).max(MAX_DOCUMENT_PARTS),
+      })
+    )
+    .refine((docs) => new Set(docs.map((d) => d.id)).size === docs.length, {
+      message: 'Duplicate document id',
+    })
+    .refine(
+      (docs) => {
+        const partIds = docs.flatMap((d) => d.parts.map((part) => part.id))
+        return new Set(partIds).size === partIds.length
+      },
+      { message: 'Duplicate part id' }
+    ),
+})
+
+/**
+ * POST /api/vault/import/prepare
+ * Reserves a vault id and hands out upload URLs for the part ciphertexts of a backup archive.
+ * The vault itself is only created by /api/vault/import once every ciphertext is uploaded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = prepareImportSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (userProfile?.vault) {
+      return NextResponse.json({ error: 'Vault already initialized' }, { status: 400 })
+    }
+
+    // Documents and parts keep their ids (the ciphertexts are bound to them), so the vault
+    // the backup was taken from can't still hold them on this server
+    const existing = await prisma.document.count({
+      where: { id: { in: validated.documents.map((d) => d.id) } },
+    })
+    const existingParts = await prisma.documentPart.count({
+      where: { id: { in: validated.documents.flatMap((d) => d.parts.map((part) => part.id)) } },
+    })
+
+    if (existing > 0 || existingParts > 0) {
+      return NextResponse.json(
+        { error: 'The documents in this backup already exist on this server' },
+        { status: 409 }
+      )
+    }
+
+    const vaultId = crypto.randomUUID()
+    // The vault doesn't exist yet, so the default file size limit applies, to any format a
+    // backup's ciphertexts may be in
+    const maxBytes = archivedCiphertextSize(vaultQuotas(null).maxFileBytes)
+    const documents = await Promise.all(
+      validated.documents.map(async (doc) => ({
+        id: doc.id,
+        parts: await Promise.all(
+          doc.parts.map(async (part) => {
+            const storagePath = getStoragePath(vaultId, doc.docType, crypto.randomUUID())
+            return {
+              id: part.id,
+              storagePath,
+              uploadUrl: await generateSignedUploadUrl(storagePath, maxBytes), // Client PUTs here
+            }
+          })
+        ),
+      }))
+    )
+
+    await reservePendingUploads(
+      user.id,
+      documents.flatMap((doc) => doc.parts.map((part) => part.storagePath))
+    )
+
+    return NextResponse.json({ vaultId, documents })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error preparing vault import:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import {
+  backupDocumentSchema,
+  backupDocumentPartSchema,
+  backupVaultSchema,
+} from '@/lib/crypto/backup-archive'
+import { MAX_DOCUMENT_PARTS } from '@/lib/vault/document-parts'
+import { buildDocumentTypeCatalog } from '@/lib/vault/document-types'
+import { documentDatesColumns } from '@/lib/vault/document-expiry'
+import { claimPendingUploads } from '@/lib/vault/pending-uploads'
+import { checkImportedVault, checkStoredSizes, vaultQuotas } from '@/lib/vault/storage-quotas'
+import { archivedCiphertextSize } from '@/lib/crypto/chunked-aead'
+import { z } from 'zod'
+
+const importVaultSchema = z.object({
+  vaultId: z.string().uuid(), // Reserved by /api/vault/import/prepare
+  vault: backupVaultSchema.extend({ kekVerifier: z.string() }),
+  documents: z.array(
+    backupDocumentSchema.extend({
+      parts: z
+        .array(
+          backupDocumentPartSchema.extend({
+            storagePath: z.string(), // Where the client uploaded this part's ciphertext
+          })
+        )
+        .min(1)
+        .max(MAX_DOCUMENT_PARTS),
+    })
+  ),
+})
+
+/**
+ * POST /api/vault/import
+ * Creates a vault from a backup archive whose part ciphertexts the client already uploaded.
+ * The client verified each ciphertext against its checksum and opened every DEK with the
+ * vault password or recovery key before calling this; wraps are stored as sent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { vaultId, vault, documents } = importVaultSchema.parse(body)
+
+    let userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (userProfile?.vault) {
+      return NextResponse.json({ error: 'Vault already initialized' }, { status: 400 })
+    }
+
+    const parts = documents.flatMap((doc) => doc.parts.map((part) => ({ doc, part })))
+    if (new Set(parts.map(({ part }) => part.id)).size !== parts.length) {
+      return NextResponse.json({ error: 'Duplicate part id' }, { status: 400 })
+    }
+
+    // Quotas count a document's size, which must be that of its parts
+    if (documents.some((doc) => doc.size !== doc.parts.reduce((total, p) => total + p.size, 0))) {
+      return NextResponse.json(
+        { error: "A document's size must be the total of its parts" },
+        { status: 400 }
+      )
+    }
+
+    const currentDocuments = documents.filter((d) => d.current)
+    if (
+      new Set(documents.map((d) => `${d.docType}/${d.version}`)).size !== documents.length ||
+      new Set(currentDocuments.map((d) => d.docType)).size !== currentDocuments.length
+    ) {
+      return NextResponse.json(
+        { error: 'Only one document per type and version, and one current per type' },
+        { status: 400 }
+      )
+    }
+
+    const catalogKeys = new Set(buildDocumentTypeCatalog(vault.documentTypes).map((t) => t.key))
+    if (
+      new Set(vault.documentTypes.map((t) => t.key)).size !== vault.documentTypes.length ||
+      documents.some((doc) => !catalogKeys.has(doc.docType))
+    ) {
+      return NextResponse.json({ error: 'Invalid document types' }, { status: 400 })
+    }
+
+    // Ciphertexts must sit under the reserved vault (layout from getStoragePath)
+    if (
+      parts.some(
+        ({ doc, part }) => !part.storagePath.startsWith(`vaults/${vaultId}/${doc.docType}/`)
+      )
+    ) {
+      return NextResponse.json({ error: 'Invalid storage path' }, { status: 400 })
+    }
+
+    // Documents without a recovery wrap would be lost if the owner recovers the vault
+    if (
+      vault.recoverySalt &&
+      (!vault.encryptedRecoveryKeyForOwner ||
+        !vault.recoveryKeyNonce ||
+        documents.some((doc) => !doc.encryptedDekForRecovery || !doc.dekForRecoveryNonce))
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Backup has a recovery kit: every DEK must also be wrapped with the recovery key',
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.document.count({
+      where: { id: { in: documents.map((d) => d.id) } },
+    })
+    const existingParts = await prisma.documentPart.count({
+      where: { id: { in: parts.map(({ part }) => part.id) } },
+    })
+
+    if (existing > 0 || existingParts > 0) {
+      return NextResponse.json(
+        { error: 'The documents in this backup already exist on this server' },
+        { status: 409 }
+      )
+    }
+
+    // The same limits as uploads, the deployment's as the vault has none of its own yet, and
+    // the declared sizes they count must match what was actually stored
+    const violation =
+      checkImportedVault(vaultQuotas(null), documents) ??
+      (await checkStoredSizes(parts.map(({ part }) => part), archivedCiphertextSize))
+    if (violation) {
+      return NextResponse.json(violation, { status: 413 })
+    }
+
+    // The ciphertexts must be the ones uploaded to the paths prepare handed out
+    if (!(await claimPendingUploads(user.id, parts.map(({ part }) => part.storagePath)))) {
+      return NextResponse.json(
+        { error: 'Upload expired or unknown; start the import again' },
+        { status: 409 }
+      )
+    }
+
+    if (!userProfile) {
+      userProfile = await prisma.userProfile.create({
+        data: { userId: user.id },
+        include: { vault: true },
+      })
+    }
+
+    // Vault and documents are created together, so a failed import leaves no half vault
+    await prisma.vault.create({
+      data: {
+        id: vaultId,
+        ownerId: userProfile.id,
+        kdfSalt: vault.kdfSalt,
+        kdfParams: vault.kdfParams,
+        kekVerifier: vault.kekVerifier,
+        recoverySalt: vault.recoverySalt,
+        encryptedRecoveryKeyForOwner: vault.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: vault.recoveryKeyNonce,
+        recoveryEnabledAt: vault.recoverySalt ? new Date() : null,
+        // Parts from a backup made before checksum tags are tagged at the next unlock
+        checksumTagsComplete: parts.every(({ part }) => !!part.ciphertextChecksumTag),
+        documentTypes: { create: vault.documentTypes },
+        documents: {
+          create: documents.map((doc) => ({
+            id: doc.id,
+            docType: doc.docType,
+            version: doc.version,
+            current: doc.current,
+            size: doc.size,
+            parts: {
+              create: doc.parts.map((part, position) => ({
+                id: part.id,
+                position,
+                storagePath: part.storagePath,
+                ciphertextChecksum: part.ciphertextChecksum,
+                ciphertextChecksumTag: part.ciphertextChecksumTag ?? null,
+                size: part.size,
+                encryptedMetadata: part.encryptedMetadata,
+              })),
+            },
+            uploadedAt: new Date(doc.uploadedAt),
+            lastUpdatedBy: userProfile.id,
+            encryptedDekForOwner: doc.encryptedDekForOwner,
+            dekNonce: doc.dekNonce,
+            encryptedDekForRecovery: doc.encryptedDekForRecovery,
+            dekForRecoveryNonce: doc.dekForRecoveryNonce,
+            ...documentDatesColumns(doc),
+          })),
+        },
+      },
+    })
+
+    await logAuditEvent({
+      vaultId,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'vault_imported',
+    })
+
+    return NextResponse.json({ id: vaultId, documentsImported: documents.length })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error importing vault:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,15 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/db/prisma'
+import { kdfParamsSchema } from '@/lib/vault/kdf-params'
 import { z } from 'zod'
 
 const initVaultSchema = z.object({
   kdfSalt: z.string(),
-  kdfParams: z.object({
-    memory: z.number().int().positive(),
-    time: z.number().int().positive(),
-    parallelism: z.number().int().positive(),
-  }),
+  kdfParams: kdfParamsSchema,
+  kekVerifier: z.string().optional(), // Base64, constant encrypted with the KEK
 })
 
 export async function POST(request: NextRequest) {
@@ -54,6 +52,7 @@ export async function POST(request: NextRequest) {
         ownerId: userProfile.id,
         kdfSalt: validated.kdfSalt,
         kdfParams: validated.kdfParams,
+        kekVerifier: validated.kekVerifier ?? null,
       },
     })
 
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { z } from 'zod'
+
+const enrolPasskeySchema = z.object({
+  credentialId: z.string().min(1), // Base64url WebAuthn credential id
+  label: z.string().trim().min(1).max(100),
+  prfSalt: z.string(), // Base64 PRF input
+  encryptedKek: z.string(), // Base64, KEK wrapped with the PRF-derived key
+  kdfSalt: z.string(), // Vault salt the client unlocked with (guards against concurrent password changes)
+})
+
+/**
+ * GET /api/vault/passkeys
+ * Lists the owner's enrolled passkeys with their wrapped KEK copies.
+ * The PRF output that unwraps them never leaves the authenticator and client,
+ * so returning the wrapped KEK to an authenticated owner session is safe.
+ * Copies wrapping an earlier KEK (from before a password change) are left out.
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const passkeys = await prisma.vaultPasskey.findMany({
+      where: { vaultId: userProfile.vault.id, kdfSalt: userProfile.vault.kdfSalt },
+      select: {
+        id: true,
+        credentialId: true,
+        label: true,
+        prfSalt: true,
+        encryptedKek: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({ passkeys })
+  } catch (error) {
+    console.error('Error fetching passkeys:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/passkeys
+ * Enrols a passkey: stores the KEK copy the client wrapped under the credential's PRF output
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = enrolPasskeySchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    // A copy of a KEK that was just replaced would never unlock anything
+    if (vault.kdfSalt !== validated.kdfSalt) {
+      return NextResponse.json(
+        { error: 'Vault password was changed by another session' },
+        { status: 409 }
+      )
+    }
+
+    const existing = await prisma.vaultPasskey.findUnique({
+      where: { credentialId: validated.credentialId },
+    })
+
+    if (existing) {
+      return NextResponse.json({ error: 'Passkey is already enrolled' }, { status: 409 })
+    }
+
+    const passkey = await prisma.vaultPasskey.create({
+      data: {
+        vaultId: vault.id,
+        credentialId: validated.credentialId,
+        label: validated.label,
+        prfSalt: validated.prfSalt,
+        encryptedKek: validated.encryptedKek,
+        kdfSalt: validated.kdfSalt,
+      },
+    })
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'passkey_enrolled',
+    })
+
+    return NextResponse.json({
+      id: passkey.id,
+      credentialId: passkey.credentialId,
+      label: passkey.label,
+      createdAt: passkey.createdAt,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error enrolling passkey:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
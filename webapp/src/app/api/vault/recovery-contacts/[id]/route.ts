@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+/**
+ * DELETE /api/vault/recovery-contacts/[id]
+ * Removes a recovery contact along with their sealed share and approvals.
+ * The rest of the split stays usable as long as threshold contacts still hold shares.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const { count } = await prisma.recoveryContact.deleteMany({
+      where: { id, vaultId: userProfile.vault.id },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Recovery contact not found' }, { status: 404 })
+    }
+
+    await logAuditEvent({
+      vaultId: userProfile.vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'recovery_contact_removed',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing recovery contact:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
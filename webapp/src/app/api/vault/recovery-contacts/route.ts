@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { generateToken, hashToken } from '@/lib/crypto/token-hash'
+import { sendRecoveryContactInviteEmail } from '@/lib/email/mailtrap'
+import { MAX_RECOVERY_CONTACTS } from '@/lib/vault/social-recovery'
+import { z } from 'zod'
+
+const appUrl = process.env.APP_URL || 'http://localhost:3000'
+
+const addRecoveryContactSchema = z.object({
+  label: z.string().min(1).max(100), // e.g. "Company lawyer"
+  email: z.string().email(),
+})
+
+/**
+ * GET /api/vault/recovery-contacts
+ * Lists the owner's recovery contacts and the current K-of-N split
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const contacts = await prisma.recoveryContact.findMany({
+      where: { vaultId: userProfile.vault.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      threshold: userProfile.vault.socialRecoveryThreshold,
+      contacts: contacts.map((contact) => ({
+        id: contact.id,
+        label: contact.label,
+        email: contact.email,
+        publicKey: contact.publicKey,
+        hasShare: contact.sealedShare !== null,
+        createdAt: contact.createdAt,
+        updatedAt: contact.updatedAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching recovery contacts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/recovery-contacts
+ * Invites a trusted contact. They register a key from their emailed link before the owner
+ * can seal a share to them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = addRecoveryContactSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    const contactCount = await prisma.recoveryContact.count({ where: { vaultId: vault.id } })
+    if (contactCount >= MAX_RECOVERY_CONTACTS) {
+      return NextResponse.json(
+        { error: `A vault can have at most ${MAX_RECOVERY_CONTACTS} recovery contacts` },
+        { status: 400 }
+      )
+    }
+
+    const contactToken = generateToken()
+    const contact = await prisma.recoveryContact.create({
+      data: {
+        vaultId: vault.id,
+        label: validated.label,
+        email: validated.email,
+        tokenHash: hashToken(contactToken),
+      },
+    })
+
+    // The link token is only ever in this email, so a contact who never gets it is useless
+    try {
+      await sendRecoveryContactInviteEmail({
+        to: validated.email,
+        ownerEmail: user.email || 'A vault owner',
+        contactUrl: `${appUrl}/recovery-contact/${contactToken}`,
+      })
+    } catch (emailError) {
+      console.error('Failed to send recovery contact invite email:', emailError)
+      await prisma.recoveryContact.delete({ where: { id: contact.id } })
+      return NextResponse.json({ error: 'Failed to send the invitation email' }, { status: 502 })
+    }
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'recovery_contact_added',
+    })
+
+    return NextResponse.json({
+      id: contact.id,
+      label: contact.label,
+      email: contact.email,
+      createdAt: contact.createdAt,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error adding recovery contact:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { coversAllVaultDocuments, RewrapConflictError } from '@/lib/vault/rewrap'
+import { isKdfDowngrade, kdfParamsSchema } from '@/lib/vault/kdf-params'
+import { z } from 'zod'
+
+const resetFromRecoverySchema = z.object({
+  recoverySalt: z.string(), // Salt the client derived the recovery key with (must match the vault)
+  kdfSalt: z.string(),
+  kdfParams: kdfParamsSchema,
+  kekVerifier: z.string(), // Base64, key-check value for the new KEK
+  encryptedRecoveryKeyForOwner: z.string(), // Base64, recovery wrapping key wrapped with the new KEK
+  recoveryKeyNonce: z.string(), // Base64
+  documents: z.array(
+    z.object({
+      id: z.string().uuid(),
+      encryptedDekForOwner: z.string(), // Base64, wrapped with the new KEK
+      dekNonce: z.string(), // Base64
+    })
+  ),
+})
+
+/**
+ * POST /api/vault/recovery/reset
+ * Resets the vault password from the recovery key, or from the recovery wrapping key
+ * rebuilt from recovery contacts' shares (social recovery).
+ * The client unwraps DEKs with the recovery key and re-wraps them under a new KEK;
+ * the server only swaps the wrapped values and never sees either secret.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = resetFromRecoverySchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    if (!vault.recoverySalt) {
+      return NextResponse.json({ error: 'No recovery kit configured for this vault' }, { status: 400 })
+    }
+
+    // New parameters meet the current policy and never weaken the vault's
+    if (isKdfDowngrade(validated.kdfParams, vault.kdfParams)) {
+      return NextResponse.json({ error: 'KDF parameters would be downgraded' }, { status: 400 })
+    }
+
+    if (vault.recoverySalt !== validated.recoverySalt) {
+      return NextResponse.json(
+        { error: 'Recovery kit was replaced. Use the most recent recovery key.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const allCovered = await coversAllVaultDocuments(
+        tx,
+        vault.id,
+        validated.documents.map((d) => d.id)
+      )
+
+      if (!allCovered) {
+        throw new RewrapConflictError('Documents changed during recovery')
+      }
+
+      const { count } = await tx.vault.updateMany({
+        where: { id: vault.id, recoverySalt: validated.recoverySalt },
+        data: {
+          kdfSalt: validated.kdfSalt,
+          kdfParams: validated.kdfParams,
+          kekVerifier: validated.kekVerifier,
+          encryptedRecoveryKeyForOwner: validated.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: validated.recoveryKeyNonce,
+        },
+      })
+
+      if (count !== 1) {
+        throw new RewrapConflictError('Recovery kit was replaced concurrently')
+      }
+
+      // Passkey copies wrap the old KEK; the owner re-enrols them after recovery
+      await tx.vaultPasskey.deleteMany({ where: { vaultId: vault.id } })
+
+      for (const doc of validated.documents) {
+        const { count: updated } = await tx.document.updateMany({
+          where: { id: doc.id, vaultId: vault.id },
+          data: {
+            encryptedDekForOwner: doc.encryptedDekForOwner,
+            dekNonce: doc.dekNonce,
+          },
+        })
+
+        if (updated !== 1) {
+          throw new RewrapConflictError(`Document ${doc.id} changed during recovery`)
+        }
+      }
+
+      // Share link LSK copies were under the lost KEK too; those links can't be re-keyed now
+      await tx.shareLink.updateMany({
+        where: { vaultId: vault.id, approvedById: userProfile.id },
+        data: { encryptedLskForOwner: null },
+      })
+
+      // The recovery wrapping key is unchanged, so a social recovery split stays valid
+      await tx.recoveryRequest.updateMany({
+        where: { vaultId: vault.id, completedAt: null, cancelledAt: null },
+        data: { completedAt: new Date() },
+      })
+    })
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'vault_recovered',
+    })
+
+    return NextResponse.json({
+      id: vault.id,
+      kdfSalt: validated.kdfSalt,
+      kdfParams: validated.kdfParams,
+      documentsRewrapped: validated.documents.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RewrapConflictError) {
+      return NextResponse.json(
+        { error: 'Vault changed during recovery. Reload and retry.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error resetting vault from recovery key:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { coversAllVaultDocuments, RewrapConflictError } from '@/lib/vault/rewrap'
+import { z } from 'zod'
+
+const createRecoveryKitSchema = z.object({
+  recoverySalt: z.string(), // Base64 HKDF salt (the recovery key itself never reaches the server)
+  encryptedRecoveryKeyForOwner: z.string(), // Base64, recovery wrapping key wrapped with KEK
+  recoveryKeyNonce: z.string(), // Base64
+  documents: z.array(
+    z.object({
+      id: z.string().uuid(),
+      encryptedDekForRecovery: z.string(), // Base64, DEK wrapped with recovery key
+      dekForRecoveryNonce: z.string(), // Base64
+    })
+  ),
+})
+
+/**
+ * GET /api/vault/recovery
+ * Returns recovery-wrapped DEKs so the owner can reset the password from the recovery key.
+ * Requires an authenticated owner session but not the vault password.
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    if (!vault.recoverySalt) {
+      return NextResponse.json({ recoveryEnabled: false })
+    }
+
+    const documents = await prisma.document.findMany({
+      where: { vaultId: vault.id },
+      select: { id: true, encryptedDekForRecovery: true, dekForRecoveryNonce: true },
+    })
+
+    return NextResponse.json({
+      recoveryEnabled: true,
+      recoveryEnabledAt: vault.recoveryEnabledAt,
+      recoverySalt: vault.recoverySalt,
+      documents,
+    })
+  } catch (error) {
+    console.error('Error fetching recovery data:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/recovery
+ * Creates (or replaces) the offline recovery kit: stores the second DEK wraps in one transaction.
+ * Replacing the kit drops any social recovery split of the old kit's wrapping key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = createRecoveryKitSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    const recoveryEnabledAt = new Date()
+
+    await prisma.$transaction(async (tx) => {
+      // Every document needs a recovery wrap, otherwise it would be lost on recovery
+      const allCovered = await coversAllVaultDocuments(
+        tx,
+        vault.id,
+        validated.documents.map((d) => d.id)
+      )
+
+      if (!allCovered) {
+        throw new RewrapConflictError('Documents changed while creating the recovery kit')
+      }
+
+      await tx.vault.update({
+        where: { id: vault.id },
+        data: {
+          recoverySalt: validated.recoverySalt,
+          encryptedRecoveryKeyForOwner: validated.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: validated.recoveryKeyNonce,
+          recoveryEnabledAt,
+          // Contacts' shares rebuild the old recovery wrapping key; the owner splits the new one
+          socialRecoveryThreshold: null,
+          socialRecoveryVerifier: null,
+        },
+      })
+      await tx.recoveryContact.updateMany({
+        where: { vaultId: vault.id },
+        data: { sealedShare: null },
+      })
+      await tx.recoveryRequest.updateMany({
+        where: { vaultId: vault.id, completedAt: null, cancelledAt: null },
+        data: { cancelledAt: recoveryEnabledAt },
+      })
+
+      for (const doc of validated.documents) {
+        const { count } = await tx.document.updateMany({
+          where: { id: doc.id, vaultId: vault.id },
+          data: {
+            encryptedDekForRecovery: doc.encryptedDekForRecovery,
+            dekForRecoveryNonce: doc.dekForRecoveryNonce,
+          },
+        })
+
+        if (count !== 1) {
+          throw new RewrapConflictError(`Document ${doc.id} changed during recovery kit creation`)
+        }
+      }
+    })
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'recovery_kit_created',
+    })
+
+    return NextResponse.json({
+      recoveryEnabled: true,
+      recoveryEnabledAt,
+      documentsWrapped: validated.documents.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RewrapConflictError) {
+      return NextResponse.json(
+        { error: 'Documents changed while creating the recovery kit. Reload the vault and retry.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error creating recovery kit:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
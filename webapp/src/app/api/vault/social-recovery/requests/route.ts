@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { sendRecoveryRequestEmail } from '@/lib/email/mailtrap'
+import { getOpenRecoveryRequest, RECOVERY_REQUEST_TTL_DAYS } from '@/lib/vault/social-recovery'
+import { z } from 'zod'
+
+const createRecoveryRequestSchema = z.object({
+  publicKey: z.string().min(1), // Base64 SPKI of the key this browser generated for the request
+})
+
+/**
+ * GET /api/vault/social-recovery/requests
+ * Returns the open recovery request with the shares contacts released to it so far, and what
+ * the owner's browser needs to rebuild and check the recovery wrapping key.
+ * Requires an authenticated owner session but not the vault password.
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    if (!vault.socialRecoveryThreshold) {
+      return NextResponse.json({ socialRecoveryEnabled: false })
+    }
+
+    const recoveryRequest = await getOpenRecoveryRequest(vault.id)
+    const approvals = recoveryRequest
+      ? await prisma.recoveryApproval.findMany({
+          where: { requestId: recoveryRequest.id },
+          select: { contactId: true, resealedShare: true, createdAt: true },
+        })
+      : []
+
+    return NextResponse.json({
+      socialRecoveryEnabled: true,
+      threshold: vault.socialRecoveryThreshold,
+      verifier: vault.socialRecoveryVerifier,
+      recoverySalt: vault.recoverySalt,
+      request: recoveryRequest && {
+        id: recoveryRequest.id,
+        publicKey: recoveryRequest.publicKey,
+        expiresAt: recoveryRequest.expiresAt,
+        approvals,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching recovery request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/vault/social-recovery/requests
+ * Opens a recovery request (replacing any open one) and asks every contact holding a share
+ * to approve it. Approvals are sealed to the request's key, which only this browser holds.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = createRecoveryRequestSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    if (!vault.socialRecoveryThreshold) {
+      return NextResponse.json(
+        { error: 'Social recovery is not set up for this vault' },
+        { status: 400 }
+      )
+    }
+
+    const contacts = await prisma.recoveryContact.findMany({
+      where: { vaultId: vault.id, sealedShare: { not: null } },
+      select: { email: true },
+    })
+
+    if (contacts.length < vault.socialRecoveryThreshold) {
+      return NextResponse.json(
+        { error: 'Too few recovery contacts still hold a share to recover the vault' },
+        { status: 400 }
+      )
+    }
+
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + RECOVERY_REQUEST_TTL_DAYS)
+
+    const recoveryRequest = await prisma.$transaction(async (tx) => {
+      await tx.recoveryRequest.updateMany({
+        where: { vaultId: vault.id, completedAt: null, cancelledAt: null },
+        data: { cancelledAt: new Date() },
+      })
+
+      return tx.recoveryRequest.create({
+        data: { vaultId: vault.id, publicKey: validated.publicKey, expiresAt },
+      })
+    })
+
+    for (const contact of contacts) {
+      try {
+        await sendRecoveryRequestEmail({
+          to: contact.email,
+          ownerEmail: user.email || 'A vault owner',
+          expiresAt,
+        })
+      } catch (emailError) {
+        console.error('Failed to send recovery request email:', emailError)
+        // Don't fail the request: the owner can also reach contacts directly
+      }
+    }
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'social_recovery_requested',
+    })
+
+    return NextResponse.json({
+      id: recoveryRequest.id,
+      expiresAt: recoveryRequest.expiresAt,
+      threshold: vault.socialRecoveryThreshold,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error creating recovery request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/vault/social-recovery/requests
+ * Cancels the open recovery request; shares already released to it can't be used
+ */
+export async function DELETE() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const { count } = await prisma.recoveryRequest.updateMany({
+      where: { vaultId: userProfile.vault.id, completedAt: null, cancelledAt: null },
+      data: { cancelledAt: new Date() },
+    })
+
+    return NextResponse.json({ cancelled: count })
+  } catch (error) {
+    console.error('Error cancelling recovery request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { RewrapConflictError } from '@/lib/vault/rewrap'
+import { MAX_RECOVERY_CONTACTS } from '@/lib/vault/social-recovery'
+import { z } from 'zod'
+
+const configureSocialRecoverySchema = z
+  .object({
+    recoverySalt: z.string(), // Salt of the recovery kit whose wrapping key was split (must match the vault)
+    threshold: z.number().int().min(2),
+    verifier: z.string(), // Base64, key-check value for the recovery wrapping key
+    shares: z
+      .array(
+        z.object({
+          contactId: z.string().uuid(),
+          publicKey: z.string(), // Contact key the share was sealed to (must still be registered)
+          sealedShare: z.string(), // Base64, ephemeral public key || envelope
+        })
+      )
+      .max(MAX_RECOVERY_CONTACTS),
+  })
+  .refine((data) => data.shares.length >= data.threshold, {
+    message: 'Threshold cannot exceed the number of shares',
+    path: ['threshold'],
+  })
+  .refine((data) => new Set(data.shares.map((s) => s.contactId)).size === data.shares.length, {
+    message: 'Each contact can hold only one share',
+    path: ['shares'],
+  })
+
+/**
+ * POST /api/vault/social-recovery
+ * Stores a new K-of-N split of the recovery wrapping key, replacing any earlier one.
+ * The owner's browser splits the key and seals each share to a contact; the server never
+ * sees a share in the clear. Open recovery requests are cancelled, as they collect old shares.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = configureSocialRecoverySchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    if (!vault.recoverySalt) {
+      return NextResponse.json(
+        { error: 'Create a recovery kit before setting up social recovery' },
+        { status: 400 }
+      )
+    }
+
+    if (vault.recoverySalt !== validated.recoverySalt) {
+      return NextResponse.json(
+        { error: 'Recovery kit was replaced. Reload and retry.' },
+        { status: 409 }
+      )
+    }
+
+    // Every share must go to this vault's contact under the key they registered
+    const contacts = await prisma.recoveryContact.findMany({
+      where: { vaultId: vault.id, id: { in: validated.shares.map((s) => s.contactId) } },
+      select: { id: true, publicKey: true },
+    })
+    const registeredKeys = new Map(contacts.map((c) => [c.id, c.publicKey]))
+    const keysMatch = validated.shares.every(
+      (s) => registeredKeys.get(s.contactId) === s.publicKey
+    )
+
+    if (!keysMatch) {
+      return NextResponse.json(
+        { error: 'A recovery contact changed their key. Reload and retry.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.vault.updateMany({
+        where: { id: vault.id, recoverySalt: validated.recoverySalt },
+        data: {
+          socialRecoveryThreshold: validated.threshold,
+          socialRecoveryVerifier: validated.verifier,
+        },
+      })
+
+      if (count !== 1) {
+        throw new RewrapConflictError('Recovery kit was replaced concurrently')
+      }
+
+      await tx.recoveryContact.updateMany({
+        where: { vaultId: vault.id },
+        data: { sealedShare: null },
+      })
+
+      for (const share of validated.shares) {
+        const { count: updated } = await tx.recoveryContact.updateMany({
+          where: { id: share.contactId, vaultId: vault.id, publicKey: share.publicKey },
+          data: { sealedShare: share.sealedShare },
+        })
+
+        if (updated !== 1) {
+          throw new RewrapConflictError(`Recovery contact ${share.contactId} changed`)
+        }
+      }
+
+      await tx.recoveryRequest.updateMany({
+        where: { vaultId: vault.id, completedAt: null, cancelledAt: null },
+        data: { cancelledAt: new Date() },
+      })
+    })
+
+    await logAuditEvent({
+      vaultId: vault.id,
+      actorType: 'owner',
+      actorId: userProfile.id,
+      eventType: 'social_recovery_configured',
+    })
+
+    return NextResponse.json({
+      threshold: validated.threshold,
+      shareCount: validated.shares.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RewrapConflictError) {
+      return NextResponse.json(
+        { error: 'Recovery contacts changed while splitting the key. Reload and retry.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error configuring social recovery:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
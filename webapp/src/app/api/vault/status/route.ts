@@ -39,12 +39,47 @@ export async function GET(request: NextRequest) {
     // Return vault data
     // Only owners can unlock (need kdfSalt/kdfParams)
     // Delegates get limited info
-    if (access.role === 'owner') {
+    if (access.role === 'owner' && access.membershipId) {
+      // Co-owners unlock with their own password; kdfSalt is null until they set it
+      const membership = await prisma.teamMembership.findUnique({
+        where: { id: access.membershipId },
+      })
+
+      if (!membership) {
+        return NextResponse.json({ error: 'Vault not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        id: vault.id,
+        role: 'owner',
+        coOwner: true,
+        kdfSalt: membership.kdfSalt,
+        kdfParams: membership.kdfParams,
+        kekVerifier: membership.kekVerifier,
+        encryptedPrivateKey: membership.encryptedPrivateKey,
+        publicKey: membership.publicKey, // For checking its fingerprint with the granting owner
+        accessGranted: membership.accessGrantedAt !== null,
+        recoveryEnabled: false,
+        passkeyCount: 0,
+        createdAt: vault.createdAt,
+        updatedAt: vault.updatedAt,
+      })
+    } else if (access.role === 'owner') {
+      // Passkeys wrapping the current KEK (older copies are stale after a password change)
+      const passkeyCount = await prisma.vaultPasskey.count({
+        where: { vaultId: vault.id, kdfSalt: vault.kdfSalt },
+      })
+
       return NextResponse.json({
         id: vault.id,
         role: 'owner',
         kdfSalt: vault.kdfSalt,
         kdfParams: vault.kdfParams,
+        kekVerifier: vault.kekVerifier,
+        recoveryEnabled: vault.recoverySalt !== null,
+        encryptedRecoveryKeyForOwner: vault.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: vault.recoveryKeyNonce,
+        passkeyCount,
         createdAt: vault.createdAt,
         updatedAt: vault.updatedAt,
       })
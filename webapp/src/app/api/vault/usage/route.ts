@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { getVaultUsage, vaultQuotas } from '@/lib/vault/storage-quotas'
+
+/**
+ * GET /api/vault/usage
+ * The owner's storage usage and the quotas uploads are held to
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      usedBytes: await getVaultUsage(userProfile.vault.id),
+      quotas: vaultQuotas(userProfile.vault),
+    })
+  } catch (error) {
+    console.error('Error fetching vault usage:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
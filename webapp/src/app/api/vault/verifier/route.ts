@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { z } from 'zod'
+
+const setVerifierSchema = z.object({
+  kdfSalt: z.string(), // Salt the client unlocked with (the verifier is only valid for that KEK)
+  kekVerifier: z.string(), // Base64, constant encrypted with the KEK
+})
+
+/**
+ * POST /api/vault/verifier
+ * Sets the key-check value for a vault created before verifiers existed.
+ * Called after the client proved its KEK against an existing wrap; never overwrites a verifier.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = setVerifierSchema.parse(body)
+
+    const userProfile = await prisma.userProfile.findUnique({
+      where: { userId: user.id },
+      include: { vault: true },
+    })
+
+    if (!userProfile || !userProfile.vault) {
+      return NextResponse.json({ error: 'Vault not initialized' }, { status: 404 })
+    }
+
+    const vault = userProfile.vault
+
+    // Guarded on salt and a missing verifier so a concurrent password change is not clobbered
+    const { count } = await prisma.vault.updateMany({
+      where: { id: vault.id, kdfSalt: validated.kdfSalt, kekVerifier: null },
+      data: { kekVerifier: validated.kekVerifier },
+    })
+
+    if (count !== 1) {
+      return NextResponse.json(
+        { error: 'Vault already has a key-check value or its password changed' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Error setting vault key-check value:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
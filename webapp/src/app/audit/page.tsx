@@ -8,7 +8,10 @@ import { AuditLog } from '@/components/audit/audit-log'
 
 interface AuditEvent {
   id: string
-  actorType: 'owner' | 'delegate' | 'system' | 'vendor'
+  actorType: 'owner' | 'delegate' | 'system' | 'vendor' | 'recovery_contact'
+  coOwner?: boolean
+  contactLabel?: string | null
+  isCurrentUser?: boolean
   eventType: string
   docType: string | null
   watermarkReferenceId: string | null
@@ -14,6 +14,7 @@ interface ShareLink {
   status: string
   expiresAt: string
   revokedAt: string | null
+  documentRemovedAt?: string | null // Set when an owner deleted one of the link's documents
   approvedAt: string | null
   createdAt: string
   createdBy: string | null
@@ -22,11 +23,30 @@ interface ShareLink {
   documents: Array<{
     documentId: string
     docType: string
-    filename: string
     size: number
+    version?: number // The version the link was approved with (not shown to vendors)
+    current?: boolean
+    // What the owner chose for the link when the document was last replaced
+    replacementChoice?: 'kept' | 'rewrapped' | 'revoked' | null
+    replacementChosenAt?: string | null
+    replacedVersion?: number | null // The version it served before it was moved
   }>
 }
 
+// How the link was settled when its document was replaced, for the owner and delegate
+function replacementSummary(doc: ShareLink['documents'][number]): string | null {
+  if (!doc.replacementChoice || !doc.replacementChosenAt) return null
+  const chosenOn = new Date(doc.replacementChosenAt).toLocaleString()
+  switch (doc.replacementChoice) {
+    case 'kept':
+      return `Kept on this version when the document was replaced (${chosenOn})`
+    case 'rewrapped':
+      return `Moved from version ${doc.replacedVersion} to this version (${chosenOn})`
+    case 'revoked':
+      return `Revoked when the document was replaced (${chosenOn})`
+  }
+}
+
 export default function LinkDetailPage() {
   const router = useRouter()
   const params = useParams()
@@ -201,6 +221,17 @@ export default function LinkDetailPage() {
               </div>
             )}
 
+            {link.documentRemovedAt && (
+              <div>
+                <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Documents Removed</label>
+                <p className="mt-1 text-black dark:text-zinc-50">
+                  An owner deleted a document from this link on{' '}
+                  {new Date(link.documentRemovedAt).toLocaleString()}; the vendor keeps access to
+                  the others
+                </p>
+              </div>
+            )}
+
             {link.createdBy && (
               <div>
                 <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Created By</label>
@@ -216,10 +247,17 @@ export default function LinkDetailPage() {
                     key={doc.documentId}
                     className="rounded-md border border-zinc-200 p-3 dark:border-zinc-700"
                   >
-                    <p className="font-medium text-black dark:text-zinc-50">{doc.filename}</p>
+                    <p className="font-medium text-black dark:text-zinc-50">{doc.docType}</p>
                     <p className="text-sm text-zinc-600 dark:text-zinc-400">
-                      {doc.docType} • {(doc.size / 1024).toFixed(2)} KB
+                      {(doc.size / 1024).toFixed(2)} KB
+                      {doc.version !== undefined && ` • Version ${doc.version}`}
+                      {doc.current === false && ' (a newer version is now current)'}
                     </p>
+                    {replacementSummary(doc) && (
+                      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                        {replacementSummary(doc)}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -20,7 +20,8 @@ interface ShareLink {
   documents: Array<{
     documentId: string
     docType: string
-    filename: string
+    version: number // The version the link was approved with
+    current: boolean
   }>
 }
 
@@ -155,6 +156,8 @@ export default function LinksPage() {
                     <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
                       {link.documents.length} document{link.documents.length !== 1 ? 's' : ''} •{' '}
                       Expires: {new Date(link.expiresAt).toLocaleDateString()}
+                      {link.documents.some((doc) => !doc.current) &&
+                        ' • Shares an earlier document version'}
                     </p>
                     {link.createdBy && (
                       <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-500">
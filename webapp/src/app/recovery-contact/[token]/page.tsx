@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { publicKeyFingerprint, resealRecoveryShare } from '@/lib/crypto/client-crypto'
+import { createBrowserKey, loadBrowserKey } from '@/lib/crypto/browser-key-store'
+
+interface ContactInfo {
+  id: string
+  label: string
+  publicKey: string | null
+  sealedShare: string | null
+  recoverySalt: string | null
+  threshold: number | null
+  request: {
+    id: string
+    publicKey: string
+    createdAt: string
+    expiresAt: string
+    approved: boolean
+  } | null
+}
+
+/**
+ * Page for a trusted contact holding a share of an owner's recovery key: registers this
+ * browser's key, and approves a recovery by re-sealing the share to the request's key
+ */
+export default function RecoveryContactPage({ params }: { params: Promise<{ token: string }> }) {
+  const [token, setToken] = useState('')
+  const [info, setInfo] = useState<ContactInfo | null>(null)
+  const [invalid, setInvalid] = useState(false)
+  const [localPublicKey, setLocalPublicKey] = useState<string | null>(null)
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null)
+  const [requestFingerprint, setRequestFingerprint] = useState<string | null>(null)
+  const [confirmed, setConfirmed] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadToken() {
+      const resolvedParams = await params
+      setToken(resolvedParams.token)
+      await loadContactInfo(resolvedParams.token)
+    }
+    loadToken()
+  }, [params])
+
+  async function loadContactInfo(token: string) {
+    try {
+      const response = await fetch(`/api/recovery-contacts/${token}`)
+      if (response.status === 404) {
+        setInvalid(true)
+        return
+      }
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load recovery contact')
+      }
+
+      const contactInfo: ContactInfo = await response.json()
+      setInfo(contactInfo)
+
+      const storedKey = await loadBrowserKey('recovery-contact')
+      setLocalPublicKey(storedKey?.publicKey ?? null)
+      setKeyFingerprint(storedKey ? await publicKeyFingerprint(storedKey.publicKey) : null)
+      setRequestFingerprint(
+        contactInfo.request ? await publicKeyFingerprint(contactInfo.request.publicKey) : null
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recovery contact')
+    }
+  }
+
+  async function handleRegister() {
+    if (
+      info?.sealedShare &&
+      !confirm(
+        'Registering this browser replaces the key your share is sealed to. The owner will have to give you a new share. Continue?'
+      )
+    ) {
+      return
+    }
+
+    setWorking(true)
+    setError(null)
+
+    try {
+      // Reuse this browser's key, so one browser can hold shares for several vaults
+      const storedKey =
+        (await loadBrowserKey('recovery-contact')) ?? (await createBrowserKey('recovery-contact'))
+
+      const response = await fetch(`/api/recovery-contacts/${token}/key`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicKey: storedKey.publicKey }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to register this browser')
+      }
+
+      await loadContactInfo(token)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to register this browser')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function handleApprove() {
+    if (!info?.sealedShare || !info.recoverySalt || !info.request) return
+
+    setWorking(true)
+    setError(null)
+
+    try {
+      const storedKey = await loadBrowserKey('recovery-contact')
+      if (!storedKey) throw new Error('This browser no longer holds your recovery contact key')
+
+      // Open the share here and re-seal it to the requesting browser's key (client-side)
+      const resealedShare = await resealRecoveryShare(
+        info.sealedShare,
+        info.id,
+        info.recoverySalt,
+        storedKey.privateKey,
+        info.request
+      )
+
+      const response = await fetch(`/api/recovery-contacts/${token}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: info.request.id, resealedShare }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to approve recovery')
+      }
+
+      await loadContactInfo(token)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve recovery')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (invalid) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg dark:bg-zinc-900">
+          <h1 className="mb-4 text-2xl font-semibold text-black dark:text-zinc-50">
+            Invalid Link
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400">
+            This recovery contact link is invalid, or the owner removed you as a contact.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!info) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+        <div className="text-center">
+          <p className="text-zinc-600 dark:text-zinc-400">{error || 'Loading...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const registeredHere = info.publicKey !== null && info.publicKey === localPublicKey
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg dark:bg-zinc-900">
+        <h1 className="mb-2 text-2xl font-semibold text-black dark:text-zinc-50">
+          Recovery Contact
+        </h1>
+        <p className="mb-6 text-sm text-zinc-600 dark:text-zinc-400">
+          You were added as &ldquo;{info.label}&rdquo;. You hold one share of the owner&apos;s
+          vault recovery key; no single share can open the vault.
+        </p>
+
+        {!registeredHere ? (
+          <>
+            <p className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">
+              {info.publicKey
+                ? 'Your share is sealed to a key in another browser. Open this link there, or register this browser instead.'
+                : 'Register this browser. Your share will be sealed to a key that never leaves it, so keep using this browser without clearing its site data.'}
+            </p>
+            <button
+              onClick={handleRegister}
+              disabled={working}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              {working ? 'Registering...' : 'Register this browser'}
+            </button>
+          </>
+        ) : !info.sealedShare ? (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            This browser is registered. If the owner asks, confirm this fingerprint:{' '}
+            <code className="font-mono">{keyFingerprint}</code>. They will then give you a share.
+          </p>
+        ) : !info.request ? (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            You hold a share, and no recovery has been requested. Keep this link: if the owner
+            loses access, you will approve their recovery here.
+          </p>
+        ) : info.request.approved ? (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            You approved the recovery requested on{' '}
+            {new Date(info.request.createdAt).toLocaleDateString()}. The owner needs{' '}
+            {info.threshold} approvals in total.
+          </p>
+        ) : (
+          <>
+            <div className="mb-4 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+              <p className="font-semibold">A recovery of the owner&apos;s vault was requested</p>
+              <p className="mt-1">
+                Call the owner or meet them, and only approve if they read you this request
+                code: <code className="font-mono">{requestFingerprint}</code>
+              </p>
+              <p className="mt-1">
+                Requested {new Date(info.request.createdAt).toLocaleString()}, expires{' '}
+                {new Date(info.request.expiresAt).toLocaleDateString()}.
+              </p>
+            </div>
+            <label className="mb-4 flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+              The owner confirmed this request code with me
+            </label>
+            <button
+              onClick={handleApprove}
+              disabled={working || !confirmed}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              {working ? 'Approving...' : 'Approve recovery'}
+            </button>
+          </>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </div>
+  )
+}
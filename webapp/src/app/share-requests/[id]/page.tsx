@@ -3,16 +3,17 @@
 import { useEffect, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
-import { useVault } from '@/contexts/vault-context'
+import { useVault, type VaultMetadata } from '@/contexts/vault-context'
+import { generateLsk, generateSalt, uint8ArrayToBase64 } from '@/lib/crypto/vault-crypto'
 import {
-  generateLsk,
-  wrapDekWithLsk,
-  wrapLskWithVendorSecret,
-  generateSalt,
-  decryptDek,
-  base64ToUint8Array,
-  uint8ArrayToBase64,
-} from '@/lib/crypto/vault-crypto'
+  unwrapDekForOwner,
+  wrapDekForLink,
+  wrapLskForVendor,
+  wrapLskForOwner,
+  sealLskForVendorKey,
+  publicKeyFingerprint,
+  WrongVaultPasswordError,
+} from '@/lib/crypto/client-crypto'
 import { generateVendorSecret, vendorSecretToBytes } from '@/lib/crypto/vendor-secret'
 
 interface ShareRequest {
@@ -27,6 +28,11 @@ interface ShareRequest {
   createdAt: string
   updatedAt: string
   createdBy: string | null
+  vendorKey: {
+    publicKey: string // Base64 SPKI the vendor registered from an earlier link
+    updatedAt: string
+    confirmed: boolean // False for a new or replaced key no owner has checked yet
+  } | null
   shareLink: {
     id: string
     status: string
@@ -39,6 +45,7 @@ interface ShareRequest {
 interface Document {
   id: string
   docType: string
+  current: boolean
   encryptedDekForOwner: string
   dekNonce: string
 }
@@ -46,13 +53,19 @@ interface Document {
 export default function ShareRequestDetailPage() {
   const router = useRouter()
   const params = useParams()
-  const { lock, kek, isUnlocked, vaultMetadata } = useVault()
+  const { lock, kek, isUnlocked, unlockWithPasskey, vaultMetadata } = useVault()
   const [request, setRequest] = useState<ShareRequest | null>(null)
   const [loading, setLoading] = useState(true)
   const [isOwner, setIsOwner] = useState(false)
+  const [ownerVault, setOwnerVault] = useState<VaultMetadata | null>(null)
+  const [passkeyCount, setPasskeyCount] = useState(0)
+  const [unlockingWithPasskey, setUnlockingWithPasskey] = useState(false)
   const [approving, setApproving] = useState(false)
   const [approvalError, setApprovalError] = useState<string | null>(null)
   const [revoking, setRevoking] = useState(false)
+  const [publicKeyFingerprintText, setVendorKeyFingerprintText] = useState<string | null>(null)
+  const [useVendorKey, setUseVendorKey] = useState(true)
+  const [vendorKeyChecked, setVendorKeyChecked] = useState(false)
 
   useEffect(() => {
     if (params.id) {
@@ -69,6 +82,18 @@ export default function ShareRequestDetailPage() {
       if (response.ok) {
         const data = await response.json()
         setIsOwner(data.role === 'owner')
+        if (data.role === 'owner') {
+          setOwnerVault({
+            vaultId: data.id,
+            kdfSalt: data.kdfSalt,
+            kdfParams: data.kdfParams,
+            kekVerifier: data.kekVerifier,
+            encryptedRecoveryKeyForOwner: data.encryptedRecoveryKeyForOwner,
+            recoveryKeyNonce: data.recoveryKeyNonce,
+            encryptedPrivateKey: data.encryptedPrivateKey,
+          })
+          setPasskeyCount(data.passkeyCount ?? 0)
+        }
       }
     } catch (error) {
       console.error('Error checking owner status:', error)
@@ -89,8 +114,11 @@ export default function ShareRequestDetailPage() {
         throw new Error('Failed to load share request')
       }
 
-      const data = await response.json()
+      const data: ShareRequest = await response.json()
       setRequest(data)
+      setVendorKeyFingerprintText(
+        data.vendorKey ? await publicKeyFingerprint(data.vendorKey.publicKey) : null
+      )
     } catch (error) {
       console.error('Error loading share request:', error)
     } finally {
@@ -131,6 +159,26 @@ export default function ShareRequestDetailPage() {
     }
   }
 
+  // Approving needs the KEK; a passkey saves typing the vault password
+  async function handlePasskeyUnlock() {
+    if (!ownerVault) return
+
+    setUnlockingWithPasskey(true)
+    setApprovalError(null)
+    try {
+      await unlockWithPasskey(ownerVault)
+    } catch (error) {
+      console.error('Passkey unlock error:', error)
+      setApprovalError(
+        error instanceof WrongVaultPasswordError
+          ? 'This passkey no longer matches the vault. Unlock with your password and re-enrol it.'
+          : 'Failed to unlock with passkey'
+      )
+    } finally {
+      setUnlockingWithPasskey(false)
+    }
+  }
+
   async function handleApprove() {
     if (!request || !kek || !vaultMetadata || !isUnlocked()) {
       setApprovalError('Vault must be unlocked to approve requests')
@@ -142,6 +190,14 @@ export default function ShareRequestDetailPage() {
       return
     }
 
+    const confirmingVendorKey = useVendorKey && !!request.vendorKey && !request.vendorKey.confirmed
+    if (confirmingVendorKey && !vendorKeyChecked) {
+      setApprovalError(
+        "Confirm that you checked the vendor's key fingerprint, or approve without their key"
+      )
+      return
+    }
+
     setApproving(true)
     setApprovalError(null)
 
@@ -156,18 +212,21 @@ export default function ShareRequestDetailPage() {
       }
 
       const docsData = await docsResponse.json()
-      const documents: Document[] = docsData.documents.filter((doc: Document) =>
-        request.requestedDocTypes.includes(doc.docType)
+      // The link gets the current version of each type. A co-owner's copy of a DEK may
+      // still be sealed until their next unlock.
+      const documents: Document[] = docsData.documents.filter(
+        (doc: Document) =>
+          doc.current &&
+          request.requestedDocTypes.includes(doc.docType) &&
+          doc.encryptedDekForOwner
       )
 
       if (documents.length !== request.requestedDocTypes.length) {
         throw new Error('Not all requested documents are available')
       }
 
-      // Generate LSK and VS
+      // Generate LSK
       const lsk = generateLsk()
-      const vs = generateVendorSecret()
-      const vsBytes = vendorSecretToBytes(vs)
 
       // Generate salt for HKDF
       const lskSalt = generateSalt()
@@ -175,52 +234,26 @@ export default function ShareRequestDetailPage() {
       // For each document: decrypt DEK with KEK, wrap with LSK
       const encryptedDekForLink = await Promise.all(
         documents.map(async (doc) => {
-          // Parse encryptedDekForOwner (it includes encrypted DEK + nonce + auth tag)
-          const dekData = base64ToUint8Array(doc.encryptedDekForOwner)
-          const nonceLength = 12
-          const authTagLength = 16
-          const encryptedDekLength = dekData.length - nonceLength - authTagLength
-
-          const encryptedDekData = {
-            encryptedDek: dekData.slice(0, encryptedDekLength),
-            nonce: dekData.slice(encryptedDekLength, encryptedDekLength + nonceLength),
-            authTag: dekData.slice(encryptedDekLength + nonceLength),
-          }
-
-          const dek = await decryptDek(encryptedDekData, kek)
+          const dek = await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, kek)
 
           // Wrap DEK with LSK
-          const wrapped = await wrapDekWithLsk(dek, lsk)
-
-          // Combine encrypted DEK + nonce + auth tag
-          const wrappedDekWithMetadata = new Uint8Array(
-            wrapped.encryptedDek.length + wrapped.nonce.length + wrapped.authTag.length
-          )
-          wrappedDekWithMetadata.set(wrapped.encryptedDek)
-          wrappedDekWithMetadata.set(wrapped.nonce, wrapped.encryptedDek.length)
-          wrappedDekWithMetadata.set(wrapped.authTag, wrapped.encryptedDek.length + wrapped.nonce.length)
+          const wrapped = await wrapDekForLink(dek, lsk)
 
           return {
             documentId: doc.id,
-            encryptedDek: uint8ArrayToBase64(wrappedDekWithMetadata),
-            nonce: uint8ArrayToBase64(wrapped.nonce),
+            ...wrapped,
           }
         })
       )
 
-      // Wrap LSK with VS-derived key
-      const wrappedLsk = await wrapLskWithVendorSecret(lsk, vsBytes, lskSalt)
-
-      // Combine encrypted LSK + nonce + auth tag
-      const wrappedLskWithMetadata = new Uint8Array(
-        wrappedLsk.encryptedDek.length + wrappedLsk.nonce.length + wrappedLsk.authTag.length
-      )
-      wrappedLskWithMetadata.set(wrappedLsk.encryptedDek)
-      wrappedLskWithMetadata.set(wrappedLsk.nonce, wrappedLsk.encryptedDek.length)
-      wrappedLskWithMetadata.set(
-        wrappedLsk.authTag,
-        wrappedLsk.encryptedDek.length + wrappedLsk.nonce.length
-      )
+      // Seal the LSK to the vendor's registered key, or wrap it with a fresh VS to be emailed;
+      // either way keep a copy under the KEK for later key rotations
+      const vendorPublicKey = useVendorKey ? request.vendorKey?.publicKey : undefined
+      const vs = vendorPublicKey ? undefined : generateVendorSecret()
+      const { encryptedLskForVendor, lskNonce } = vendorPublicKey
+        ? await sealLskForVendorKey(lsk, vendorPublicKey, lskSalt)
+        : await wrapLskForVendor(lsk, vendorSecretToBytes(vs!), lskSalt)
+      const encryptedLskForOwner = await wrapLskForOwner(lsk, kek)
 
       // Send approval request
       const approveResponse = await fetch(`/api/share-requests/${request.id}/approve`, {
@@ -230,9 +263,12 @@ export default function ShareRequestDetailPage() {
         body: JSON.stringify({
           lskSalt: uint8ArrayToBase64(lskSalt),
           encryptedDekForLink,
-          encryptedLskForVendor: uint8ArrayToBase64(wrappedLskWithMetadata),
-          lskNonce: uint8ArrayToBase64(wrappedLsk.nonce),
+          encryptedLskForVendor,
+          lskNonce,
+          encryptedLskForOwner,
           vendorSecret: vs, // VS in formatted form (for email only)
+          vendorPublicKey,
+          ...(confirmingVendorKey && { vendorKeyConfirmed: true }),
         }),
       })
 
@@ -410,6 +446,15 @@ export default function ShareRequestDetailPage() {
               {!isUnlocked() ? (
                 <div className="rounded-md bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
                   <p className="font-medium">Vault must be unlocked to approve this request</p>
+                  {passkeyCount > 0 && (
+                    <button
+                      onClick={handlePasskeyUnlock}
+                      disabled={unlockingWithPasskey}
+                      className="mt-2 mr-4 text-sm underline disabled:opacity-50"
+                    >
+                      {unlockingWithPasskey ? 'Waiting for passkey...' : 'Unlock with passkey'}
+                    </button>
+                  )}
                   <button
                     onClick={() => router.push('/vault')}
                     className="mt-2 text-sm underline"
@@ -418,13 +463,48 @@ export default function ShareRequestDetailPage() {
                   </button>
                 </div>
               ) : (
-                <button
-                  onClick={handleApprove}
-                  disabled={approving}
-                  className="w-full rounded-md bg-green-600 px-4 py-2 font-medium text-white transition-colors hover:bg-green-700 disabled:opacity-50 dark:bg-green-700 dark:hover:bg-green-800"
-                >
-                  {approving ? 'Approving...' : 'Approve Share Request'}
-                </button>
+                <>
+                  {request.vendorKey && (
+                    <div className="mb-4 rounded-md bg-zinc-50 p-4 text-sm dark:bg-zinc-800">
+                      <label className="flex items-center gap-2 font-medium text-zinc-800 dark:text-zinc-200">
+                        <input
+                          type="checkbox"
+                          checked={useVendorKey}
+                          disabled={approving}
+                          onChange={(e) => setUseVendorKey(e.target.checked)}
+                        />
+                        Encrypt to the vendor&apos;s registered key (no vendor secret is emailed)
+                      </label>
+                      <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                        Key fingerprint:{' '}
+                        <code className="font-mono">{publicKeyFingerprintText ?? '...'}</code>
+                        <br />
+                        Registered {new Date(request.vendorKey.updatedAt).toLocaleString()}. Check
+                        the fingerprint with the vendor by phone or in person before relying on a
+                        new or changed key.
+                      </p>
+                      {!request.vendorKey.confirmed && useVendorKey && (
+                        <label className="mt-3 flex items-center gap-2 font-medium text-yellow-800 dark:text-yellow-200">
+                          <input
+                            type="checkbox"
+                            checked={vendorKeyChecked}
+                            disabled={approving}
+                            onChange={(e) => setVendorKeyChecked(e.target.checked)}
+                          />
+                          This key is new or was replaced since a link last used it. I checked
+                          its fingerprint with the vendor.
+                        </label>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    onClick={handleApprove}
+                    disabled={approving}
+                    className="w-full rounded-md bg-green-600 px-4 py-2 font-medium text-white transition-colors hover:bg-green-700 disabled:opacity-50 dark:bg-green-700 dark:hover:bg-green-800"
+                  >
+                    {approving ? 'Approving...' : 'Approve Share Request'}
+                  </button>
+                </>
               )}
             </div>
           )}
@@ -6,20 +6,25 @@ import { supabase } from '@/lib/supabase/client'
 import { useVault } from '@/contexts/vault-context'
 import { InviteForm } from '@/components/team/invite-form'
 import { MemberList } from '@/components/team/member-list'
+import { publicKeyFingerprint, sealDeksForCoOwner } from '@/lib/crypto/client-crypto'
 
 interface Member {
   userId: string
   role: 'owner' | 'delegate'
   permissions: { allowedDocTypes: string[] }
+  coOwner?: { membershipId: string; publicKey: string | null; accessGranted: boolean }
 }
 
 export default function TeamPage() {
   const router = useRouter()
-  const { lock } = useVault()
+  const { kek, lock } = useVault()
   const [vaultId, setVaultId] = useState<string | null>(null)
   const [members, setMembers] = useState<Member[]>([])
+  const [fingerprints, setFingerprints] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
   const [isOwner, setIsOwner] = useState(false)
+  const [grantingId, setGrantingId] = useState<string | null>(null)
+  const [grantError, setGrantError] = useState<string | null>(null)
 
   useEffect(() => {
     checkAuthAndLoadTeam()
@@ -65,12 +70,69 @@ export default function TeamPage() {
       if (!response.ok) throw new Error('Failed to load members')
 
       const data = await response.json()
-      setMembers(data.members || [])
+      const loaded: Member[] = data.members || []
+      setMembers(loaded)
+
+      // For the granting owner to check with each co-owner waiting for access
+      const entries = await Promise.all(
+        loaded
+          .filter((m) => m.coOwner?.publicKey && !m.coOwner.accessGranted)
+          .map(
+            async (m) =>
+              [m.coOwner!.membershipId, await publicKeyFingerprint(m.coOwner!.publicKey!)] as const
+          )
+      )
+      setFingerprints(Object.fromEntries(entries))
     } catch (error) {
       console.error('Error loading members:', error)
     }
   }
 
+  // Seal every DEK to the co-owner's public key, whose fingerprint the owner checked in the
+  // member list; the server never sees a DEK and pins the key for later uploads
+  async function handleGrantAccess(coOwner: { membershipId: string; publicKey: string }) {
+    if (!vaultId) return
+    if (!kek) {
+      setGrantError('Unlock your vault first, then come back to grant access')
+      return
+    }
+
+    setGrantingId(coOwner.membershipId)
+    setGrantError(null)
+
+    try {
+      const docsResponse = await fetch(`/api/documents?vaultId=${vaultId}`, {
+        credentials: 'include',
+      })
+      if (!docsResponse.ok) throw new Error('Failed to load documents')
+      const { documents } = await docsResponse.json()
+
+      const sealed = await sealDeksForCoOwner(documents, kek, coOwner.publicKey)
+
+      const response = await fetch(`/api/team/members/${coOwner.membershipId}/grant`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          publicKey: coOwner.publicKey,
+          publicKeyConfirmed: true,
+          documents: sealed,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to grant access')
+      }
+
+      await loadMembers(vaultId)
+    } catch (error) {
+      setGrantError(error instanceof Error ? error.message : 'Failed to grant access')
+    } finally {
+      setGrantingId(null)
+    }
+  }
+
   async function handleSignOut() {
     lock() // Clear vault state
     await supabase.auth.signOut()
@@ -123,16 +185,26 @@ export default function TeamPage() {
 
         <div className="space-y-8">
           <div className="rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
-            <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">Invite Delegate</h2>
+            <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">Invite Member</h2>
             {vaultId && <InviteForm vaultId={vaultId} onInviteSent={() => loadMembers(vaultId)} />}
           </div>
 
           <div className="rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
             <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">Team Members</h2>
+            {grantError && (
+              <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                {grantError}
+              </div>
+            )}
             {members.length === 0 ? (
               <p className="text-zinc-600 dark:text-zinc-400">No team members yet.</p>
             ) : (
-              <MemberList members={members} />
+              <MemberList
+                members={members}
+                fingerprints={fingerprints}
+                grantingId={grantingId}
+                onGrantAccess={handleGrantAccess}
+              />
             )}
           </div>
         </div>
@@ -1,8 +1,10 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { OtpForm } from '@/components/vendor/otp-form'
 import { SecretForm } from '@/components/vendor/secret-form'
+import { VendorKeyUnlock } from '@/components/vendor/vendor-key-unlock'
+import { VendorKeyRegistration } from '@/components/vendor/vendor-key-registration'
 import { DocumentList } from '@/components/vendor/document-list'
 import { ProgressBar } from '@/components/vendor/progress-bar'
 
@@ -20,6 +22,7 @@ interface LinkInfo {
   encryptedLskForVendor: string | null
   lskSalt: string | null
   lskNonce: string | null
+  vendorPublicKey: string | null // Set when the LSK is sealed to the vendor's registered key
   hasValidSession?: boolean
 }
 
@@ -107,17 +110,21 @@ export default function VendorPage({ params }: { params: Promise<{ token: string
     setOtpVerified(true)
   }
 
-  function handleLskDecrypted(decryptedLsk: Uint8Array) {
-    setLsk(decryptedLsk)
-    // Store LSK in sessionStorage for persistence across page navigations
-    try {
-      const lskBase64 = btoa(String.fromCharCode(...decryptedLsk))
-      sessionStorage.setItem(`vendor_lsk_${token}`, lskBase64)
-    } catch (err) {
-      console.error('Failed to store LSK in sessionStorage:', err)
-      // Continue anyway - LSK is still in state
-    }
-  }
+  // Stable, as VendorKeyUnlock decrypts again whenever it changes
+  const handleLskDecrypted = useCallback(
+    (decryptedLsk: Uint8Array) => {
+      setLsk(decryptedLsk)
+      // Store LSK in sessionStorage for persistence across page navigations
+      try {
+        const lskBase64 = btoa(String.fromCharCode(...decryptedLsk))
+        sessionStorage.setItem(`vendor_lsk_${token}`, lskBase64)
+      } catch (err) {
+        console.error('Failed to store LSK in sessionStorage:', err)
+        // Continue anyway - LSK is still in state
+      }
+    },
+    [token]
+  )
 
   if (linkStatus === 'loading') {
     return (
@@ -234,12 +241,21 @@ export default function VendorPage({ params }: { params: Promise<{ token: string
               </p>
             )}
             <ProgressBar currentStep={3} />
-            <SecretForm
-              encryptedLskForVendor={linkInfo.encryptedLskForVendor}
-              lskSalt={linkInfo.lskSalt}
-              lskNonce={linkInfo.lskNonce}
-              onLskDecrypted={handleLskDecrypted}
-            />
+            {linkInfo.vendorPublicKey ? (
+              <VendorKeyUnlock
+                encryptedLskForVendor={linkInfo.encryptedLskForVendor}
+                lskSalt={linkInfo.lskSalt}
+                vendorPublicKey={linkInfo.vendorPublicKey}
+                onLskDecrypted={handleLskDecrypted}
+              />
+            ) : (
+              <SecretForm
+                encryptedLskForVendor={linkInfo.encryptedLskForVendor}
+                lskSalt={linkInfo.lskSalt}
+                lskNonce={linkInfo.lskNonce}
+                onLskDecrypted={handleLskDecrypted}
+              />
+            )}
           </div>
         )}
 
@@ -263,6 +279,7 @@ export default function VendorPage({ params }: { params: Promise<{ token: string
               vendorLabel={linkInfo.vendorLabel}
               purposeNotes={linkInfo.purposeNotes}
             />
+            {!linkInfo.vendorPublicKey && <VendorKeyRegistration token={token} />}
           </div>
         )}
       </div>
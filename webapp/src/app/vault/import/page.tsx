@@ -0,0 +1,301 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useVault } from '@/contexts/vault-context'
+import {
+  openBackupWithPassword,
+  openBackupWithRecoveryKey,
+  WrongVaultPasswordError,
+  type OpenedBackup,
+} from '@/lib/crypto/client-crypto'
+import {
+  readBackupArchive,
+  verifyBackupCiphertexts,
+  backupManifestParts,
+  InvalidBackupArchiveError,
+} from '@/lib/crypto/backup-archive'
+import { validateAndNormalizeRecoveryKey } from '@/lib/crypto/recovery-key'
+
+export default function VaultImportPage() {
+  const [archive, setArchive] = useState<File | null>(null)
+  const [mode, setMode] = useState<'password' | 'recovery'>('password')
+  const [password, setPassword] = useState('')
+  const [recoveryKey, setRecoveryKey] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [progress, setProgress] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const router = useRouter()
+  const { rekey } = useVault()
+
+  async function handleImport(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+
+    if (!archive) {
+      setError('Choose a backup file')
+      return
+    }
+
+    if (mode === 'recovery') {
+      try {
+        validateAndNormalizeRecoveryKey(recoveryKey)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid recovery key')
+        return
+      }
+      if (newPassword !== confirmPassword) {
+        setError('Passwords do not match')
+        return
+      }
+      if (newPassword.length < 12) {
+        setError('Password must be at least 12 characters')
+        return
+      }
+    }
+
+    try {
+      // Step 1: Read the archive and check every ciphertext against its checksum
+      setProgress('Checking backup...')
+      const { manifest, ciphertexts } = await readBackupArchive(archive)
+      await verifyBackupCiphertexts(manifest, ciphertexts)
+
+      // Step 2: Open it client-side; every DEK is checked against its document
+      setProgress('Opening backup...')
+      let opened: OpenedBackup
+      try {
+        opened =
+          mode === 'password'
+            ? await openBackupWithPassword(manifest, password)
+            : await openBackupWithRecoveryKey(manifest, recoveryKey, newPassword)
+      } catch (err) {
+        if (mode === 'recovery' && !(err instanceof InvalidBackupArchiveError)) {
+          throw new Error('Recovery key is incorrect')
+        }
+        throw err
+      }
+
+      // Step 3: Reserve the vault and upload the ciphertexts unchanged
+      const prepareResponse = await fetch('/api/vault/import/prepare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          documents: opened.documents.map((doc) => ({
+            id: doc.id,
+            docType: doc.docType,
+            parts: doc.parts.map((part) => ({ id: part.id })),
+          })),
+        }),
+      })
+      if (!prepareResponse.ok) {
+        const data = await prepareResponse.json()
+        throw new Error(data.error || 'Failed to prepare import')
+      }
+      const prepared = (await prepareResponse.json()) as {
+        vaultId: string
+        documents: { id: string; parts: { id: string; storagePath: string; uploadUrl: string }[] }[]
+      }
+
+      const archivedPartIds = backupManifestParts(manifest).map(({ part }) => part.id)
+      for (const [i, doc] of prepared.documents.entries()) {
+        setProgress(`Uploading document ${i + 1} of ${prepared.documents.length}...`)
+        for (const part of doc.parts) {
+          const uploadResponse = await fetch(part.uploadUrl, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: ciphertexts[archivedPartIds.indexOf(part.id)],
+          })
+          if (!uploadResponse.ok) throw new Error('Failed to upload ciphertext')
+        }
+      }
+
+      // Step 4: Create the vault with its documents
+      setProgress('Restoring vault...')
+      const storagePaths = new Map(
+        prepared.documents.flatMap((doc) => doc.parts.map((part) => [part.id, part.storagePath]))
+      )
+      const response = await fetch('/api/vault/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          vaultId: prepared.vaultId,
+          vault: opened.vault,
+          documents: opened.documents.map((doc) => ({
+            ...doc,
+            parts: doc.parts.map((part) => ({
+              ...part,
+              storagePath: storagePaths.get(part.id),
+            })),
+          })),
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to restore vault')
+      }
+
+      rekey(opened.kek, {
+        vaultId: prepared.vaultId,
+        kdfSalt: opened.vault.kdfSalt,
+        kdfParams: opened.vault.kdfParams,
+        kekVerifier: opened.vault.kekVerifier,
+        encryptedRecoveryKeyForOwner: opened.vault.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: opened.vault.recoveryKeyNonce,
+      })
+
+      setPassword('')
+      setRecoveryKey('')
+      setNewPassword('')
+      setConfirmPassword('')
+      router.push('/vault')
+    } catch (err) {
+      if (err instanceof WrongVaultPasswordError) {
+        setError('Wrong vault password for this backup')
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const inputClassName =
+    'mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50'
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg dark:bg-zinc-900">
+        <h1 className="mb-6 text-2xl font-semibold text-black dark:text-zinc-50">
+          Restore from Backup
+        </h1>
+        <p className="mb-6 text-sm text-zinc-600 dark:text-zinc-400">
+          Restore an encrypted backup into a new vault. The backup is opened in your browser
+          with its vault password, or with its recovery key and a new password.
+        </p>
+        <form onSubmit={handleImport} className="space-y-4">
+          <div>
+            <label
+              htmlFor="archive"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+            >
+              Backup File
+            </label>
+            <input
+              id="archive"
+              type="file"
+              accept=".ubgb,application/octet-stream"
+              onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+              required
+              className="mt-1 block w-full text-sm text-zinc-700 dark:text-zinc-300"
+            />
+          </div>
+          <div className="flex gap-4 text-sm text-zinc-700 dark:text-zinc-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={mode === 'password'}
+                onChange={() => setMode('password')}
+              />
+              Vault password
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={mode === 'recovery'}
+                onChange={() => setMode('recovery')}
+              />
+              Recovery key
+            </label>
+          </div>
+          {mode === 'password' ? (
+            <div>
+              <label
+                htmlFor="password"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                Vault Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className={inputClassName}
+                placeholder="The password of the backed-up vault"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label
+                  htmlFor="recoveryKey"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Recovery Key
+                </label>
+                <input
+                  id="recoveryKey"
+                  type="text"
+                  value={recoveryKey}
+                  onChange={(e) => setRecoveryKey(e.target.value.toUpperCase())}
+                  required
+                  autoComplete="off"
+                  className={`${inputClassName} font-mono`}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-X"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="newPassword"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  New Vault Password
+                </label>
+                <input
+                  id="newPassword"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  minLength={12}
+                  className={inputClassName}
+                  placeholder="At least 12 characters"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="confirmPassword"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={12}
+                  className={inputClassName}
+                  placeholder="Confirm your password"
+                />
+              </div>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={progress !== null}
+            className="w-full rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+          >
+            {progress ?? 'Restore Vault'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
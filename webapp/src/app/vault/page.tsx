@@ -1,25 +1,84 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
 import { useVault } from '@/contexts/vault-context'
 import { DocumentUploader } from '@/components/vault/document-uploader'
 import { DocumentList } from '@/components/vault/document-list'
-import type { DocumentMetadata } from '@/types/documents'
+import { ChangePasswordForm } from '@/components/vault/change-password-form'
+import { RecoveryKit } from '@/components/vault/recovery-kit'
+import { SocialRecovery } from '@/components/vault/social-recovery'
+import { Passkeys } from '@/components/vault/passkeys'
+import { BackupExport } from '@/components/vault/backup-export'
+import { DocumentTypeCatalog } from '@/components/vault/document-type-catalog'
+import { StorageUsage } from '@/components/vault/storage-usage'
+import { publicKeyFingerprint, WrongVaultPasswordError } from '@/lib/crypto/client-crypto'
+import type { KdfParams } from '@/lib/crypto/vault-crypto'
+import { documentTypeLabel } from '@/lib/vault/document-types'
+import type { DocumentMetadata, DocumentTypeEntry } from '@/types/documents'
 
 export default function VaultPage() {
   const [vaultStatus, setVaultStatus] = useState<'loading' | 'needs-setup' | 'needs-unlock' | 'unlocked' | 'delegate'>('loading')
   const [password, setPassword] = useState('')
   const [documents, setDocuments] = useState<DocumentMetadata[]>([])
-  const [vaultData, setVaultData] = useState<{ id: string; kdfSalt: string; kdfParams: any; role?: string } | null>(null)
+  const [documentTypes, setDocumentTypes] = useState<DocumentTypeEntry[]>([])
+  const [vaultData, setVaultData] = useState<{
+    id: string
+    kdfSalt: string
+    kdfParams: any
+    kekVerifier?: string | null
+    role?: string
+    recoveryEnabled?: boolean
+    encryptedRecoveryKeyForOwner?: string | null
+    recoveryKeyNonce?: string | null
+    passkeyCount?: number
+    coOwner?: boolean
+    accessGranted?: boolean
+    encryptedPrivateKey?: string | null
+    publicKey?: string | null
+  } | null>(null)
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null)
+  const [unlockProgress, setUnlockProgress] = useState<number | null>(null)
+  const unlockAbortRef = useRef<AbortController | null>(null)
   const router = useRouter()
-  const { kek, isUnlocked, unlock, lock } = useVault()
+  const { kek, isUnlocked, unlock, unlockWithPasskey, lock } = useVault()
+  const handlePasskeysChanged = useCallback(
+    (passkeyCount: number) => setVaultData((prev) => (prev ? { ...prev, passkeyCount } : prev)),
+    []
+  )
+
+  const handlePasswordChanged = ({
+    kdfSalt,
+    kdfParams,
+    kekVerifier,
+  }: {
+    kdfSalt: string
+    kdfParams: KdfParams
+    kekVerifier: string
+  }) =>
+    setVaultData((prev) =>
+      prev ? { ...prev, kdfSalt, kdfParams, kekVerifier, passkeyCount: 0 } : prev
+    )
 
   useEffect(() => {
     checkVaultStatus()
   }, [])
 
+  // A co-owner waiting for access reads this to the owner granting it
+  const waitingPublicKey =
+    vaultData?.coOwner && !vaultData.accessGranted ? (vaultData.publicKey ?? null) : null
+  useEffect(() => {
+    if (!waitingPublicKey) return
+    let cancelled = false
+    publicKeyFingerprint(waitingPublicKey).then((fingerprint) => {
+      if (!cancelled) setKeyFingerprint(fingerprint)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [waitingPublicKey])
+
   useEffect(() => {
     if (vaultStatus === 'needs-setup') {
       router.push('/vault/setup')
@@ -49,11 +108,15 @@ export default function VaultPage() {
 
       const data = await response.json()
       setVaultData(data)
+      await loadDocumentTypes(data.id)
       
       // Check if user is a delegate
       if (data.role === 'delegate') {
         setVaultStatus('delegate')
         await loadDocuments()
+      } else if (data.coOwner && !data.kdfSalt) {
+        // Co-owner who hasn't chosen their own vault password yet
+        setVaultStatus('needs-setup')
       } else {
         // Check if vault is already unlocked in context
         if (isUnlocked()) {
@@ -73,18 +136,90 @@ export default function VaultPage() {
     e.preventDefault()
     if (!vaultData || !password) return
 
+    // Key derivation runs in the crypto worker; keep a handle so the owner can cancel it
+    const controller = new AbortController()
+    unlockAbortRef.current = controller
+    setUnlockProgress(0)
+
     try {
-      await unlock(password, {
-        vaultId: vaultData.id,
-        kdfSalt: vaultData.kdfSalt,
-        kdfParams: vaultData.kdfParams,
-      })
+      await unlock(
+        password,
+        {
+          vaultId: vaultData.id,
+          kdfSalt: vaultData.kdfSalt,
+          kdfParams: vaultData.kdfParams,
+          kekVerifier: vaultData.kekVerifier,
+          encryptedRecoveryKeyForOwner: vaultData.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: vaultData.recoveryKeyNonce,
+          encryptedPrivateKey: vaultData.encryptedPrivateKey,
+          passkeyCount: vaultData.passkeyCount,
+        },
+        {
+          onProgress: setUnlockProgress,
+          signal: controller.signal,
+          confirmKdfUpgrade: (passkeyCount) =>
+            confirm(
+              "Your vault's password protection can be strengthened. This removes your " +
+                `${passkeyCount === 1 ? 'passkey' : `${passkeyCount} passkeys`}, which you ` +
+                'will need to add again. Upgrade now? If not, you will be asked again at your ' +
+                'next unlock.'
+            ),
+        }
+      )
       setVaultStatus('unlocked')
       setPassword('') // Clear password from memory
       await loadDocuments()
     } catch (error) {
+      if (controller.signal.aborted) {
+        return
+      }
+      if (error instanceof WrongVaultPasswordError) {
+        alert('Wrong vault password. Please try again.')
+        return
+      }
       alert('Failed to unlock vault. Please check your password.')
       console.error('Unlock error:', error)
+    } finally {
+      unlockAbortRef.current = null
+      setUnlockProgress(null)
+    }
+  }
+
+  async function handlePasskeyUnlock() {
+    if (!vaultData) return
+
+    const controller = new AbortController()
+    unlockAbortRef.current = controller
+    setUnlockProgress(0)
+
+    try {
+      await unlockWithPasskey(
+        {
+          vaultId: vaultData.id,
+          kdfSalt: vaultData.kdfSalt,
+          kdfParams: vaultData.kdfParams,
+          kekVerifier: vaultData.kekVerifier,
+          encryptedRecoveryKeyForOwner: vaultData.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: vaultData.recoveryKeyNonce,
+          encryptedPrivateKey: vaultData.encryptedPrivateKey,
+        },
+        { signal: controller.signal }
+      )
+      setVaultStatus('unlocked')
+      await loadDocuments()
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return
+      }
+      if (error instanceof WrongVaultPasswordError) {
+        alert('This passkey no longer matches the vault. Unlock with your password and re-enrol it.')
+        return
+      }
+      alert('Failed to unlock with passkey. You can still use your vault password.')
+      console.error('Passkey unlock error:', error)
+    } finally {
+      unlockAbortRef.current = null
+      setUnlockProgress(null)
     }
   }
 
@@ -101,6 +236,19 @@ export default function VaultPage() {
     }
   }
 
+  async function loadDocumentTypes(vaultId: string) {
+    try {
+      const response = await fetch(`/api/vault/document-types?vaultId=${vaultId}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load document types')
+      const data = await response.json()
+      setDocumentTypes(data.documentTypes || [])
+    } catch (error) {
+      console.error('Error loading document types:', error)
+    }
+  }
+
   async function handleSignOut() {
     lock() // Clear vault state
     await supabase.auth.signOut()
@@ -156,7 +304,8 @@ export default function VaultPage() {
                 <ul className="list-disc list-inside space-y-1 text-sm text-zinc-600 dark:text-zinc-400">
                   {documents.map((doc) => (
                     <li key={doc.id}>
-                      {doc.docType} - {doc.filename} ({(doc.size / 1024).toFixed(2)} KB)
+                      {documentTypeLabel(documentTypes, doc.docType)} (
+                      {(doc.size / 1024).toFixed(2)} KB)
                     </li>
                   ))}
                 </ul>
@@ -203,11 +352,37 @@ export default function VaultPage() {
             </div>
             <button
               type="submit"
-              className="w-full rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+              disabled={unlockProgress !== null}
+              className="w-full rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
             >
-              Unlock
+              {unlockProgress !== null ? `Unlocking... ${Math.round(unlockProgress * 100)}%` : 'Unlock'}
             </button>
+            {unlockProgress !== null && (
+              <button
+                type="button"
+                onClick={() => unlockAbortRef.current?.abort()}
+                className="w-full rounded-md bg-zinc-200 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-300 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
+              >
+                Cancel
+              </button>
+            )}
           </form>
+          {!!vaultData?.passkeyCount && unlockProgress === null && (
+            <button
+              onClick={handlePasskeyUnlock}
+              className="mt-4 w-full rounded-md border border-zinc-300 px-4 py-2 font-medium text-zinc-800 transition-colors hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-50 dark:hover:bg-zinc-800"
+            >
+              Unlock with passkey
+            </button>
+          )}
+          {vaultData?.recoveryEnabled && (
+            <button
+              onClick={() => router.push('/vault/recover')}
+              className="mt-4 text-sm text-zinc-600 underline dark:text-zinc-400"
+            >
+              Forgot your password? Use your recovery key
+            </button>
+          )}
         </div>
       </div>
     )
@@ -246,10 +421,71 @@ export default function VaultPage() {
           </div>
         </div>
 
-        {kek && (
+        {vaultData?.coOwner && !vaultData.accessGranted && (
+          <div className="mb-8 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+            You are a co-owner of this vault. Another owner has to grant you access from the Team
+            page before you can open documents; unlock again afterwards.
+            {waitingPublicKey && keyFingerprint && (
+              <p className="mt-2">
+                They will ask you for your key fingerprint; read it to them yourself, not through
+                this site: <code className="font-mono">{keyFingerprint}</code>
+              </p>
+            )}
+          </div>
+        )}
+
+        {kek && vaultData?.coOwner && (
+          <>
+            <DocumentList
+              documents={documents}
+              documentTypes={documentTypes}
+              kek={kek}
+              onDownloadComplete={loadDocuments}
+              canDelete
+            />
+            <ChangePasswordForm onPasswordChanged={handlePasswordChanged} />
+          </>
+        )}
+
+        {kek && !vaultData?.coOwner && (
           <>
-            <DocumentUploader kek={kek} onUploadComplete={loadDocuments} />
-            <DocumentList documents={documents} kek={kek} onDownloadComplete={loadDocuments} />
+            <StorageUsage documents={documents} />
+            <DocumentUploader
+              kek={kek}
+              documentTypes={documentTypes}
+              onUploadComplete={loadDocuments}
+            />
+            <DocumentList
+              documents={documents}
+              documentTypes={documentTypes}
+              kek={kek}
+              onDownloadComplete={loadDocuments}
+              canRotateKeys
+              canRestoreVersions
+              canEditDates
+              canDelete
+            />
+            {vaultData && (
+              <DocumentTypeCatalog
+                documentTypes={documentTypes}
+                documents={documents}
+                onChanged={() => loadDocumentTypes(vaultData.id)}
+              />
+            )}
+            <ChangePasswordForm
+              passkeyCount={vaultData?.passkeyCount}
+              onPasswordChanged={handlePasswordChanged}
+            />
+            <RecoveryKit
+              recoveryEnabled={!!vaultData?.recoveryEnabled}
+              onRecoveryKitCreated={() =>
+                setVaultData((prev) => (prev ? { ...prev, recoveryEnabled: true } : prev))
+              }
+            />
+            <SocialRecovery recoveryEnabled={!!vaultData?.recoveryEnabled} />
+            {/* Remounted after a password change, which removes every passkey */}
+            <Passkeys key={vaultData?.kdfSalt} onPasskeysChanged={handlePasskeysChanged} />
+            <BackupExport />
           </>
         )}
       </div>
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useVault } from '@/contexts/vault-context'
+import {
+  initializeVault,
+  unlockVault,
+  createKekVerifier,
+  rewrapDeksFromRecoveryKey,
+  rewrapDeksFromRecoveryWrapKey,
+  type RecoveryWrappedDek,
+} from '@/lib/crypto/client-crypto'
+import { validateAndNormalizeRecoveryKey } from '@/lib/crypto/recovery-key'
+import { deleteBrowserKey } from '@/lib/crypto/browser-key-store'
+import { SocialRecoveryRequest } from '@/components/vault/social-recovery-request'
+
+export default function VaultRecoverPage() {
+  const [recoveryKey, setRecoveryKey] = useState('')
+  // Set once recovery contacts' shares rebuilt the recovery wrapping key (social recovery)
+  const [recoveryWrapKey, setRecoveryWrapKey] = useState<Uint8Array | null>(null)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const router = useRouter()
+  const { rekey } = useVault()
+
+  async function handleRecover(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+
+    if (!recoveryWrapKey) {
+      try {
+        validateAndNormalizeRecoveryKey(recoveryKey)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid recovery key')
+        return
+      }
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 12) {
+      setError('Password must be at least 12 characters')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      // Step 1: Fetch recovery-wrapped DEKs
+      const recoveryResponse = await fetch('/api/vault/recovery', {
+        credentials: 'include',
+      })
+      if (!recoveryResponse.ok) throw new Error('Failed to load recovery data')
+      const recoveryData = (await recoveryResponse.json()) as {
+        recoveryEnabled: boolean
+        recoverySalt?: string
+        documents?: RecoveryWrappedDek[]
+      }
+      if (!recoveryData.recoveryEnabled || !recoveryData.recoverySalt) {
+        throw new Error('This vault has no recovery kit')
+      }
+
+      // Step 2: Derive the new KEK and re-wrap every DEK client-side
+      const { kdfSalt, kdfParams } = await initializeVault()
+      const newKek = await unlockVault(password, kdfSalt, kdfParams)
+      let rewrapped: Awaited<ReturnType<typeof rewrapDeksFromRecoveryKey>>
+      try {
+        rewrapped = recoveryWrapKey
+          ? await rewrapDeksFromRecoveryWrapKey(
+              recoveryWrapKey,
+              recoveryData.documents || [],
+              newKek
+            )
+          : await rewrapDeksFromRecoveryKey(
+              recoveryKey,
+              recoveryData.recoverySalt,
+              recoveryData.documents || [],
+              newKek
+            )
+      } catch {
+        throw new Error('Recovery key is incorrect')
+      }
+
+      const kekVerifier = await createKekVerifier(newKek)
+
+      // Step 3: Swap password params and wrapped DEKs on the server
+      const response = await fetch('/api/vault/recovery/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          recoverySalt: recoveryData.recoverySalt,
+          kdfSalt,
+          kdfParams,
+          kekVerifier,
+          ...rewrapped,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to reset vault password')
+      }
+
+      const { id } = await response.json()
+      rekey(newKek, {
+        vaultId: id,
+        kdfSalt,
+        kdfParams,
+        kekVerifier,
+        encryptedRecoveryKeyForOwner: rewrapped.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: rewrapped.recoveryKeyNonce,
+      })
+
+      if (recoveryWrapKey) {
+        await deleteBrowserKey('recovery-request')
+      }
+
+      setRecoveryKey('')
+      setRecoveryWrapKey(null)
+      setPassword('')
+      setConfirmPassword('')
+      router.push('/vault')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg dark:bg-zinc-900">
+        <h1 className="mb-6 text-2xl font-semibold text-black dark:text-zinc-50">
+          Recover Your Vault
+        </h1>
+        <p className="mb-6 text-sm text-zinc-600 dark:text-zinc-400">
+          {recoveryWrapKey
+            ? 'Your recovery contacts approved the reset. Choose a new vault password.'
+            : 'Enter the recovery key from your recovery kit and choose a new vault password. Your recovery key keeps working after the reset.'}
+        </p>
+        <form onSubmit={handleRecover} className="space-y-4">
+          {!recoveryWrapKey && (
+            <div>
+              <label
+                htmlFor="recoveryKey"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+              >
+                Recovery Key
+              </label>
+              <input
+                id="recoveryKey"
+                type="text"
+                value={recoveryKey}
+                onChange={(e) => setRecoveryKey(e.target.value.toUpperCase())}
+                required
+                autoComplete="off"
+                className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 font-mono text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-X"
+              />
+            </div>
+          )}
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+            >
+              New Vault Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={12}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+              placeholder="At least 12 characters"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="confirmPassword"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+            >
+              Confirm Password
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              minLength={12}
+              className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+              placeholder="Confirm your password"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+          >
+            {loading ? 'Recovering...' : 'Reset Vault Password'}
+          </button>
+        </form>
+        {!recoveryWrapKey && <SocialRecoveryRequest onRecoveryKeyRebuilt={setRecoveryWrapKey} />}
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,30 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { initializeVault } from '@/lib/crypto/client-crypto'
+import {
+  initializeVault,
+  unlockVault,
+  createKekVerifier,
+  createCoOwnerKeys,
+} from '@/lib/crypto/client-crypto'
 
 export default function VaultSetupPage() {
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [coOwner, setCoOwner] = useState(false)
   const router = useRouter()
 
+  // A co-owner joins an existing vault and only sets their own password here
+  useEffect(() => {
+    fetch('/api/vault/status', { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setCoOwner(!!data?.coOwner))
+      .catch(() => setCoOwner(false))
+  }, [])
+
   async function handleSetup(e: React.FormEvent) {
     e.preventDefault()
     setError('')
@@ -31,13 +45,29 @@ export default function VaultSetupPage() {
       // Initialize vault crypto params
       const { kdfSalt, kdfParams } = await initializeVault()
 
-      // Call API to create vault
-      const response = await fetch('/api/vault/init', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ kdfSalt, kdfParams }),
-      })
+      // Key-check value lets unlock reject a wrong password up front
+      const kek = await unlockVault(password, kdfSalt, kdfParams)
+      const kekVerifier = await createKekVerifier(kek)
+
+      // Co-owners also get a key pair: other owners seal DEKs to its public key
+      const response = coOwner
+        ? await fetch('/api/vault/co-owner', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({
+              kdfSalt,
+              kdfParams,
+              kekVerifier,
+              ...(await createCoOwnerKeys(kek)),
+            }),
+          })
+        : await fetch('/api/vault/init', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ kdfSalt, kdfParams, kekVerifier }),
+          })
 
       if (!response.ok) {
         const data = await response.json()
@@ -60,8 +90,14 @@ export default function VaultSetupPage() {
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
       <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg dark:bg-zinc-900">
         <h1 className="mb-6 text-2xl font-semibold text-black dark:text-zinc-50">
-          Set Up Your Vault
+          {coOwner ? 'Set Your Co-owner Password' : 'Set Up Your Vault'}
         </h1>
+        {coOwner && (
+          <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+            You were invited as a co-owner. Choose your own vault password; another owner then
+            grants you access to the documents.
+          </p>
+        )}
         <div className="mb-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
           <p className="font-semibold">⚠️ Important: No Password Recovery</p>
           <p className="mt-1">
@@ -112,9 +148,17 @@ export default function VaultSetupPage() {
             disabled={loading}
             className="w-full rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
           >
-            {loading ? 'Setting up...' : 'Create Vault'}
+            {loading ? 'Setting up...' : coOwner ? 'Set Password' : 'Create Vault'}
           </button>
         </form>
+        {!coOwner && (
+          <button
+            onClick={() => router.push('/vault/import')}
+            className="mt-4 text-sm text-zinc-600 underline dark:text-zinc-400"
+          >
+            Restore from an encrypted backup
+          </button>
+        )}
       </div>
     </div>
   )
@@ -2,7 +2,10 @@
 
 interface AuditEvent {
   id: string
-  actorType: 'owner' | 'delegate' | 'system' | 'vendor'
+  actorType: 'owner' | 'delegate' | 'system' | 'vendor' | 'recovery_contact'
+  coOwner?: boolean
+  contactLabel?: string | null
+  isCurrentUser?: boolean
   eventType: string
   docType: string | null
   watermarkReferenceId: string | null
@@ -50,11 +53,21 @@ export function AuditLog({ events }: AuditLogProps) {
         return '🤝'
       case 'system':
         return '⚙️'
+      case 'recovery_contact':
+        return '🔑'
       default:
         return '•'
     }
   }
 
+  function getActorLabel(event: AuditEvent): string {
+    if (event.actorType === 'recovery_contact') {
+      return event.contactLabel ? `recovery contact: ${event.contactLabel}` : 'recovery contact'
+    }
+    const label = event.coOwner ? 'co-owner' : event.actorType
+    return event.isCurrentUser ? `${label} (you)` : label
+  }
+
   function isDocumentAccessEvent(eventType: string): boolean {
     return DOCUMENT_ACCESS_EVENTS.includes(eventType)
   }
@@ -84,7 +97,7 @@ export function AuditLog({ events }: AuditLogProps) {
                     {formatEventType(event.eventType)}
                   </span>
                   <span className="text-sm text-zinc-500 dark:text-zinc-400">
-                    {getActorIcon(event.actorType)} {event.actorType}
+                    {getActorIcon(event.actorType)} {getActorLabel(event)}
                   </span>
                 </div>
                 <div className="mt-1 flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400 flex-wrap">
@@ -1,6 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { documentExpiryStatus, documentValidUntil } from '@/lib/vault/document-expiry'
+import type { DocumentMetadata, DocumentTypeEntry } from '@/types/documents'
 
 interface RequestFormProps {
   vaultId: string
@@ -23,7 +25,64 @@ export function RequestForm({ vaultId, onRequestCreated }: RequestFormProps) {
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const docTypes = ['ID', 'ProofOfAddress', 'SourceOfWealth']
+  const [docTypes, setDocTypes] = useState<DocumentTypeEntry[]>([])
+  const [documents, setDocuments] = useState<DocumentMetadata[]>([])
+
+  const loadDocTypes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/vault/document-types?vaultId=${vaultId}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load document types')
+      const data = await response.json()
+      setDocTypes(data.documentTypes || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load document types')
+    }
+  }, [vaultId])
+
+  // Only for the warnings below; a request can name types whatever their documents' dates
+  const loadDocuments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents?vaultId=${vaultId}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load documents')
+      const data = await response.json()
+      setDocuments(data.documents || [])
+    } catch (err) {
+      console.error('Failed to load documents:', err)
+    }
+  }, [vaultId])
+
+  useEffect(() => {
+    loadDocTypes()
+    loadDocuments()
+  }, [loadDocTypes, loadDocuments])
+
+  /**
+   * Warning for a type whose current document is expiring soon or stale, going by the dates
+   * the owner didn't keep private
+   */
+  function expiryWarning(docType: string): { stale: boolean; message: string } | null {
+    const doc = documents.find((d) => d.docType === docType && d.current)
+    if (!doc) return null
+
+    const dates = { issuedOn: doc.issuedOn, expiresOn: doc.expiresOn }
+    const status = documentExpiryStatus(docType, dates)
+    const validUntil = documentValidUntil(docType, dates)
+    if (!status || !validUntil) return null
+
+    const date = new Date(`${validUntil}T00:00:00Z`).toLocaleDateString(undefined, {
+      timeZone: 'UTC',
+    })
+    return status === 'stale'
+      ? {
+          stale: true,
+          message: `The vault's copy has been out of date since ${date}; vendors may reject it.`,
+        }
+      : { stale: false, message: `The vault's copy is only accepted until ${date}.` }
+  }
 
   function toggleDocType(docType: string) {
     if (requestedDocTypes.includes(docType)) {
@@ -57,6 +116,16 @@ export function RequestForm({ vaultId, onRequestCreated }: RequestFormProps) {
       return
     }
 
+    const staleLabels = docTypes
+      .filter((t) => requestedDocTypes.includes(t.key) && expiryWarning(t.key)?.stale)
+      .map((t) => t.label)
+    if (
+      staleLabels.length > 0 &&
+      !confirm(`${staleLabels.join(', ')} in the vault is out of date. Request it anyway?`)
+    ) {
+      return
+    }
+
     setSubmitting(true)
 
     try {
@@ -151,17 +220,33 @@ export function RequestForm({ vaultId, onRequestCreated }: RequestFormProps) {
           Requested Document Types
         </label>
         <div className="space-y-2">
-          {docTypes.map((docType) => (
-            <label key={docType} className="flex items-center">
-              <input
-                type="checkbox"
-                checked={requestedDocTypes.includes(docType)}
-                onChange={() => toggleDocType(docType)}
-                className="rounded border-zinc-300 text-black focus:ring-zinc-500 dark:border-zinc-700"
-              />
-              <span className="ml-2 text-sm text-zinc-700 dark:text-zinc-300">{docType}</span>
-            </label>
-          ))}
+          {docTypes.map(({ key, label }) => {
+            const warning = expiryWarning(key)
+            return (
+              <div key={key}>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={requestedDocTypes.includes(key)}
+                    onChange={() => toggleDocType(key)}
+                    className="rounded border-zinc-300 text-black focus:ring-zinc-500 dark:border-zinc-700"
+                  />
+                  <span className="ml-2 text-sm text-zinc-700 dark:text-zinc-300">{label}</span>
+                </label>
+                {warning && (
+                  <p
+                    className={`ml-6 text-xs ${
+                      warning.stale
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-amber-700 dark:text-amber-400'
+                    }`}
+                  >
+                    {warning.message}
+                  </p>
+                )}
+              </div>
+            )
+          })}
         </div>
       </div>
 
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import type { DocumentTypeEntry } from '@/types/documents'
 
 interface InviteFormProps {
   vaultId: string
@@ -9,11 +10,29 @@ interface InviteFormProps {
 
 export function InviteForm({ vaultId, onInviteSent }: InviteFormProps) {
   const [email, setEmail] = useState('')
+  const [role, setRole] = useState<'delegate' | 'owner'>('delegate')
   const [allowedDocTypes, setAllowedDocTypes] = useState<string[]>([])
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const docTypes = ['ID', 'ProofOfAddress', 'SourceOfWealth']
+  const [docTypes, setDocTypes] = useState<DocumentTypeEntry[]>([])
+
+  const loadDocTypes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/vault/document-types?vaultId=${vaultId}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load document types')
+      const data = await response.json()
+      setDocTypes(data.documentTypes || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load document types')
+    }
+  }, [vaultId])
+
+  useEffect(() => {
+    loadDocTypes()
+  }, [loadDocTypes])
 
   function toggleDocType(docType: string) {
     if (allowedDocTypes.includes(docType)) {
@@ -32,7 +51,7 @@ export function InviteForm({ vaultId, onInviteSent }: InviteFormProps) {
       return
     }
 
-    if (allowedDocTypes.length === 0) {
+    if (role === 'delegate' && allowedDocTypes.length === 0) {
       setError('At least one document type must be allowed')
       return
     }
@@ -47,8 +66,9 @@ export function InviteForm({ vaultId, onInviteSent }: InviteFormProps) {
         body: JSON.stringify({
           vaultId,
           invitedEmail: email,
-          role: 'delegate',
-          allowedDocTypes,
+          role,
+          // Co-owners see every document type
+          ...(role === 'delegate' && { allowedDocTypes }),
         }),
       })
 
@@ -58,6 +78,7 @@ export function InviteForm({ vaultId, onInviteSent }: InviteFormProps) {
       }
 
       setEmail('')
+      setRole('delegate')
       setAllowedDocTypes([])
       onInviteSent()
     } catch (err: any) {
@@ -91,24 +112,41 @@ export function InviteForm({ vaultId, onInviteSent }: InviteFormProps) {
       </div>
 
       <div>
-        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
-          Allowed Document Types
+        <label htmlFor="role" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Role
         </label>
-        <div className="space-y-2">
-          {docTypes.map((docType) => (
-            <label key={docType} className="flex items-center">
-              <input
-                type="checkbox"
-                checked={allowedDocTypes.includes(docType)}
-                onChange={() => toggleDocType(docType)}
-                className="rounded border-zinc-300 text-black focus:ring-zinc-500 dark:border-zinc-700"
-              />
-              <span className="ml-2 text-sm text-zinc-700 dark:text-zinc-300">{docType}</span>
-            </label>
-          ))}
-        </div>
+        <select
+          id="role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as 'delegate' | 'owner')}
+          className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+        >
+          <option value="delegate">Delegate (creates share requests)</option>
+          <option value="owner">Co-owner (approves shares, opens documents)</option>
+        </select>
       </div>
 
+      {role === 'delegate' && (
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            Allowed Document Types
+          </label>
+          <div className="space-y-2">
+            {docTypes.map(({ key, label }) => (
+              <label key={key} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={allowedDocTypes.includes(key)}
+                  onChange={() => toggleDocType(key)}
+                  className="rounded border-zinc-300 text-black focus:ring-zinc-500 dark:border-zinc-700"
+                />
+                <span className="ml-2 text-sm text-zinc-700 dark:text-zinc-300">{label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
       <button
         type="submit"
         disabled={submitting}
@@ -1,16 +1,36 @@
 'use client'
 
+import { useState } from 'react'
+
 interface Member {
   userId: string
   role: 'owner' | 'delegate'
   permissions: { allowedDocTypes: string[] }
+  coOwner?: { membershipId: string; publicKey: string | null; accessGranted: boolean }
 }
 
 interface MemberListProps {
   members: Member[]
+  fingerprints?: Record<string, string> // Of each waiting co-owner's public key, by membership id
+  grantingId?: string | null
+  onGrantAccess?: (coOwner: { membershipId: string; publicKey: string }) => void
 }
 
-export function MemberList({ members }: MemberListProps) {
+export function MemberList({
+  members,
+  fingerprints = {},
+  grantingId,
+  onGrantAccess,
+}: MemberListProps) {
+  // Co-owners whose fingerprint the owner has checked with them
+  const [checkedIds, setCheckedIds] = useState<string[]>([])
+
+  function describeCoOwner(coOwner: NonNullable<Member['coOwner']>): string {
+    if (coOwner.accessGranted) return 'Full access to all documents'
+    if (!coOwner.publicKey) return 'Waiting for them to set their vault password'
+    return 'Needs an owner to grant access to the documents'
+  }
+
   return (
     <div className="space-y-2">
       {members.map((member) => (
@@ -20,17 +40,60 @@ export function MemberList({ members }: MemberListProps) {
         >
           <div>
             <p className="font-medium text-black dark:text-zinc-50">
-              {member.role === 'owner' ? 'Owner' : 'Delegate'}
+              {member.coOwner ? 'Co-owner' : member.role === 'owner' ? 'Owner' : 'Delegate'}
             </p>
             <p className="text-sm text-zinc-600 dark:text-zinc-400">
-              {member.role === 'owner'
-                ? 'Full access to all documents'
-                : `Access to: ${member.permissions.allowedDocTypes.join(', ')}`}
+              {member.coOwner
+                ? describeCoOwner(member.coOwner)
+                : member.role === 'owner'
+                  ? 'Full access to all documents'
+                  : `Access to: ${member.permissions.allowedDocTypes.join(', ')}`}
             </p>
+            {member.coOwner?.publicKey && !member.coOwner.accessGranted && onGrantAccess && (
+              <div className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+                <p>
+                  Key fingerprint:{' '}
+                  <code className="font-mono">
+                    {fingerprints[member.coOwner.membershipId] ?? '...'}
+                  </code>
+                </p>
+                <label className="mt-1 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.includes(member.coOwner.membershipId)}
+                    onChange={(e) => {
+                      const id = member.coOwner!.membershipId
+                      setCheckedIds((ids) =>
+                        e.target.checked ? [...ids, id] : ids.filter((i) => i !== id)
+                      )
+                    }}
+                  />
+                  The co-owner read me the same fingerprint from their vault page
+                </label>
+              </div>
+            )}
           </div>
-          <span className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-medium text-zinc-800 dark:bg-zinc-800 dark:text-zinc-50">
-            {member.role}
-          </span>
+          {member.coOwner?.publicKey && !member.coOwner.accessGranted && onGrantAccess ? (
+            <button
+              onClick={() =>
+                onGrantAccess({
+                  membershipId: member.coOwner!.membershipId,
+                  publicKey: member.coOwner!.publicKey!,
+                })
+              }
+              disabled={
+                grantingId === member.coOwner.membershipId ||
+                !checkedIds.includes(member.coOwner.membershipId)
+              }
+              className="rounded-md bg-black px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              {grantingId === member.coOwner.membershipId ? 'Granting...' : 'Grant access'}
+            </button>
+          ) : (
+            <span className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-medium text-zinc-800 dark:bg-zinc-800 dark:text-zinc-50">
+              {member.coOwner ? 'co-owner' : member.role}
+            </span>
+          )}
         </div>
       ))}
     </div>
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  buildBackupArchive,
+  checksumBlob,
+  type BackupDocument,
+  type BackupManifest,
+  type BackupVault,
+} from '@/lib/crypto/backup-archive'
+
+export function BackupExport() {
+  const [progress, setProgress] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  async function handleExport() {
+    setError('')
+    setProgress('Preparing backup...')
+
+    try {
+      // Step 1: Fetch wrapped keys and signed ciphertext URLs
+      const response = await fetch('/api/vault/export', { credentials: 'include' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to export vault')
+      }
+      const { vault, documents, ciphertextUrls } = (await response.json()) as {
+        vault: BackupVault
+        documents: BackupDocument[]
+        ciphertextUrls: Record<string, string>
+      }
+
+      // Step 2: Download every part's ciphertext as stored and check it against its checksum
+      // Ciphertexts go into the archive in document and part order
+      const ciphertexts: Blob[] = []
+      const archivedDocuments: BackupManifest['documents'] = []
+      for (const [i, doc] of documents.entries()) {
+        setProgress(`Downloading document ${i + 1} of ${documents.length}...`)
+        const parts = []
+        for (const part of doc.parts) {
+          const ciphertextResponse = await fetch(ciphertextUrls[part.id])
+          if (!ciphertextResponse.ok) throw new Error(`Failed to download ${doc.docType}`)
+
+          const ciphertext = await ciphertextResponse.blob()
+          if ((await checksumBlob(ciphertext)) !== part.ciphertextChecksum) {
+            await fetch(`/api/documents/${doc.id}/integrity-failure`, {
+              method: 'POST',
+              credentials: 'include',
+            })
+            throw new Error(
+              `The stored ${doc.docType} document failed its integrity check and may have been ` +
+                'tampered with; the backup was not created'
+            )
+          }
+          ciphertexts.push(ciphertext)
+          parts.push({ ...part, ciphertextLength: ciphertext.size })
+        }
+        archivedDocuments.push({ ...doc, parts })
+      }
+
+      // Step 3: Bundle into one archive; nothing in it is decrypted
+      const manifest: BackupManifest = {
+        version: 2,
+        exportedAt: new Date().toISOString(),
+        vault,
+        documents: archivedDocuments,
+      }
+      const archive = buildBackupArchive(manifest, ciphertexts)
+
+      const url = URL.createObjectURL(archive)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `vault-backup-${manifest.exportedAt.slice(0, 10)}.ubgb`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export vault')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-2 text-xl font-semibold text-black dark:text-zinc-50">Encrypted Backup</h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Download every document in a single encrypted archive. It can be restored into a new
+        vault, here or on another server, and only opens with your vault password or recovery
+        key.
+      </p>
+      <button
+        onClick={handleExport}
+        disabled={progress !== null}
+        className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+      >
+        {progress ?? 'Download encrypted backup'}
+      </button>
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import { useVault, fetchOwnerWrappedDeks, fetchOwnerWrappedLsks } from '@/contexts/vault-context'
+import { initializeVault, unlockVault, rewrapVaultForNewKek } from '@/lib/crypto/client-crypto'
+import type { KdfParams } from '@/lib/crypto/vault-crypto'
+
+interface ChangePasswordFormProps {
+  passkeyCount?: number // Enrolled passkeys wrap the old KEK, so the change removes them
+  onPasswordChanged: (metadata: {
+    kdfSalt: string
+    kdfParams: KdfParams
+    kekVerifier: string
+  }) => void
+}
+
+function keysEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i]
+  }
+  return diff === 0
+}
+
+function passkeysLabel(passkeyCount: number): string {
+  return passkeyCount === 1 ? 'passkey' : `${passkeyCount} passkeys`
+}
+
+export function ChangePasswordForm({
+  passkeyCount = 0,
+  onPasswordChanged,
+}: ChangePasswordFormProps) {
+  const { kek, vaultMetadata, rekey } = useVault()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [changing, setChanging] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState(false)
+
+  async function handleChangePassword(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+    setSuccess(false)
+
+    if (!kek || !vaultMetadata) {
+      setError('Vault must be unlocked to change the password')
+      return
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (newPassword.length < 12) {
+      setError('Password must be at least 12 characters')
+      return
+    }
+
+    if (
+      passkeyCount > 0 &&
+      !confirm(
+        `Changing your vault password removes your ${passkeysLabel(passkeyCount)}, which you ` +
+          'will need to add again. Change it now?'
+      )
+    ) {
+      return
+    }
+
+    setChanging(true)
+
+    try {
+      // Step 1: Re-derive the current KEK to confirm the old password
+      const currentKek = await unlockVault(
+        currentPassword,
+        vaultMetadata.kdfSalt,
+        vaultMetadata.kdfParams
+      )
+      if (!keysEqual(currentKek, kek)) {
+        throw new Error('Current password is incorrect')
+      }
+
+      // Step 2: Fetch all wrapped DEKs and the owner's copies of share link LSKs
+      const documents = await fetchOwnerWrappedDeks(vaultMetadata.vaultId)
+      const shareLinks = await fetchOwnerWrappedLsks(vaultMetadata.vaultId)
+
+      // Step 3: Derive the new KEK from a fresh salt and re-wrap every DEK (and the owner's
+      // copies of share link LSKs) client-side
+      const { kdfSalt, kdfParams } = await initializeVault()
+      const newKek = await unlockVault(newPassword, kdfSalt, kdfParams)
+      const rewrap = await rewrapVaultForNewKek(
+        documents,
+        currentKek,
+        newKek,
+        vaultMetadata,
+        shareLinks
+      )
+
+      // Step 4: Swap salt, params and wrapped DEKs in one server-side transaction
+      const response = await fetch('/api/vault/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          currentKdfSalt: vaultMetadata.kdfSalt,
+          kdfSalt,
+          kdfParams,
+          ...rewrap,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to change vault password')
+      }
+
+      const { kekVerifier, encryptedRecoveryKeyForOwner, recoveryKeyNonce, encryptedPrivateKey } =
+        rewrap
+      rekey(newKek, {
+        ...vaultMetadata,
+        kdfSalt,
+        kdfParams,
+        kekVerifier,
+        ...(encryptedRecoveryKeyForOwner && { encryptedRecoveryKeyForOwner, recoveryKeyNonce }),
+        ...(encryptedPrivateKey && { encryptedPrivateKey }),
+      })
+      onPasswordChanged({ kdfSalt, kdfParams, kekVerifier })
+
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      setSuccess(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change vault password')
+    } finally {
+      setChanging(false)
+    }
+  }
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">
+        Change Vault Password
+      </h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Every document key is re-encrypted in your browser. If the change fails, your current
+        password keeps working.
+        {passkeyCount > 0 &&
+          ` Your ${passkeysLabel(passkeyCount)} will be removed and need to be added again.`}
+      </p>
+      <form onSubmit={handleChangePassword} className="space-y-4">
+        <div>
+          <label
+            htmlFor="currentPassword"
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            Current Password
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+            className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="newPassword"
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            New Password
+          </label>
+          <input
+            id="newPassword"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            required
+            minLength={12}
+            className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+            placeholder="At least 12 characters"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="confirmNewPassword"
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            Confirm New Password
+          </label>
+          <input
+            id="confirmNewPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            minLength={12}
+            className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {success && (
+          <p className="text-sm text-green-700 dark:text-green-400">Vault password changed.</p>
+        )}
+        <button
+          type="submit"
+          disabled={changing}
+          className="rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+        >
+          {changing ? 'Changing password...' : 'Change Password'}
+        </button>
+      </form>
+    </div>
+  )
+}
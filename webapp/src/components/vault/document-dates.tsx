@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { encryptDocumentDatesForOwner } from '@/lib/crypto/client-crypto'
+import type {
+  DocumentDates,
+  DocumentExpiryStatus,
+  StoredDocumentDates,
+} from '@/lib/vault/document-expiry'
+import type { DocumentMetadata, DocumentType } from '@/types/documents'
+
+/**
+ * A document's dates as entered: '' for a date left out
+ */
+export interface DocumentDatesInput {
+  issuedOn: string
+  expiresOn: string
+  keepPrivate: boolean
+}
+
+export const EMPTY_DOCUMENT_DATES: DocumentDatesInput = {
+  issuedOn: '',
+  expiresOn: '',
+  keepPrivate: false,
+}
+
+/**
+ * The dates to store for a document version: sealed under its DEK when kept private
+ */
+export async function storedDocumentDates(
+  input: DocumentDatesInput,
+  wrap: { encryptedDekForOwner: string; dekNonce: string },
+  kek: Uint8Array,
+  context: { docId: string; docType: DocumentType }
+): Promise<StoredDocumentDates> {
+  const dates = { issuedOn: input.issuedOn || null, expiresOn: input.expiresOn || null }
+  if (!input.keepPrivate || (!dates.issuedOn && !dates.expiresOn)) {
+    return { ...dates, encryptedDates: null }
+  }
+  return {
+    issuedOn: null,
+    expiresOn: null,
+    encryptedDates: await encryptDocumentDatesForOwner(
+      dates,
+      wrap.encryptedDekForOwner,
+      wrap.dekNonce,
+      kek,
+      context
+    ),
+  }
+}
+
+interface DocumentDatesFieldsProps {
+  idPrefix: string // Keeps label ids unique when several forms are on the page
+  value: DocumentDatesInput
+  onChange: (value: DocumentDatesInput) => void
+  disabled?: boolean
+}
+
+/**
+ * Issue date, expiry date, and whether to keep them private
+ */
+export function DocumentDatesFields({
+  idPrefix,
+  value,
+  onChange,
+  disabled,
+}: DocumentDatesFieldsProps) {
+  const inputClassName =
+    'mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50'
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label
+            htmlFor={`${idPrefix}-issuedOn`}
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            Issued on
+          </label>
+          <input
+            id={`${idPrefix}-issuedOn`}
+            type="date"
+            value={value.issuedOn}
+            onChange={(e) => onChange({ ...value, issuedOn: e.target.value })}
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label
+            htmlFor={`${idPrefix}-expiresOn`}
+            className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
+          >
+            Expires on
+          </label>
+          <input
+            id={`${idPrefix}-expiresOn`}
+            type="date"
+            value={value.expiresOn}
+            min={value.issuedOn || undefined}
+            onChange={(e) => onChange({ ...value, expiresOn: e.target.value })}
+            disabled={disabled}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <input
+          type="checkbox"
+          checked={value.keepPrivate}
+          onChange={(e) => onChange({ ...value, keepPrivate: e.target.checked })}
+          disabled={disabled}
+        />
+        Keep dates private
+      </label>
+      <p className="text-xs text-zinc-500">
+        {value.keepPrivate
+          ? 'Only owners can read private dates: you will see the badges, but get no renewal ' +
+            'emails and delegates get no warning.'
+          : 'Dates are stored unencrypted, so you get renewal emails and delegates are warned ' +
+            'before requesting a stale document.'}
+      </p>
+    </div>
+  )
+}
+
+interface DocumentDatesEditorProps {
+  doc: DocumentMetadata
+  dates: DocumentDates | null // Current dates, decrypted if private
+  kek: Uint8Array
+  onClose: () => void
+  onSaved: () => void
+}
+
+/**
+ * Lets the owner record or change a document version's dates
+ */
+export function DocumentDatesEditor({
+  doc,
+  dates,
+  kek,
+  onClose,
+  onSaved,
+}: DocumentDatesEditorProps) {
+  const [value, setValue] = useState<DocumentDatesInput>({
+    issuedOn: dates?.issuedOn ?? '',
+    expiresOn: dates?.expiresOn ?? '',
+    keepPrivate: !!doc.encryptedDates,
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+    const { encryptedDekForOwner, dekNonce } = doc
+    if (!encryptedDekForOwner || !dekNonce) return
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const stored = await storedDocumentDates(value, { encryptedDekForOwner, dekNonce }, kek, {
+        docId: doc.id,
+        docType: doc.docType,
+      })
+      const response = await fetch(`/api/documents/${doc.id}/dates`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(stored),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save dates')
+      }
+
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save dates')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="mt-3 space-y-3 border-t border-zinc-200 pt-3 dark:border-zinc-700"
+    >
+      <DocumentDatesFields
+        idPrefix={`dates-${doc.id}`}
+        value={value}
+        onChange={setValue}
+        disabled={saving}
+      />
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="text-sm text-zinc-800 underline disabled:opacity-50 dark:text-zinc-200"
+        >
+          {saving ? 'Saving...' : 'Save dates'}
+        </button>
+        <button type="button" onClick={onClose} className="text-sm text-zinc-500 underline">
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * "Expiring soon" or "Stale" badge for a document
+ */
+export function DocumentExpiryBadge({ status }: { status: DocumentExpiryStatus | null }) {
+  if (status === 'stale') {
+    return (
+      <span className="rounded bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800 dark:bg-red-900 dark:text-red-200">
+        Stale
+      </span>
+    )
+  }
+  if (status === 'expiring_soon') {
+    return (
+      <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+        Expiring soon
+      </span>
+    )
+  }
+  return null
+}
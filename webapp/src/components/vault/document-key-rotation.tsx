@@ -0,0 +1,300 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  decryptFileStreamForDownload,
+  encryptDocumentDatesForOwner,
+  rotateDocumentKey,
+  unwrapRecoveryKeyForOwner,
+  CiphertextIntegrityError,
+  type CoOwnerRecipient,
+  type OwnerWrappedLsk,
+} from '@/lib/crypto/client-crypto'
+import { useVault } from '@/contexts/vault-context'
+import type { DocumentDates } from '@/lib/vault/document-expiry'
+import type { DocumentMetadata, DocumentDetails, DocumentDownloadInfo } from '@/types/documents'
+
+interface ActiveLink {
+  id: string
+  vendorLabel: string
+  expiresAt: string
+  encryptedLskForOwner: string | null // Null when the LSK can't be recovered
+}
+
+interface DocumentKeyRotationProps {
+  doc: DocumentMetadata
+  details: Record<string, DocumentDetails> // Decrypted part metadata, by part id
+  privateDates: DocumentDates | null // Decrypted encryptedDates, re-sealed under the new DEK
+  kek: Uint8Array
+  onClose: () => void
+  onRotated: () => void
+}
+
+export function DocumentKeyRotation({
+  doc,
+  details,
+  privateDates,
+  kek,
+  onClose,
+  onRotated,
+}: DocumentKeyRotationProps) {
+  const [links, setLinks] = useState<ActiveLink[] | null>(null)
+  const [keep, setKeep] = useState<Set<string>>(new Set())
+  const [progress, setProgress] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const { vaultMetadata } = useVault()
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadLinks() {
+      try {
+        const response = await fetch(`/api/documents/${doc.id}/rotate-key`, {
+          credentials: 'include',
+        })
+        if (!response.ok) throw new Error('Failed to load share links')
+        const data = (await response.json()) as { links: ActiveLink[] }
+        if (cancelled) return
+        setLinks(data.links)
+        // Links whose LSK can be recovered keep access by default
+        setKeep(new Set(data.links.filter((l) => l.encryptedLskForOwner).map((l) => l.id)))
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load share links')
+      }
+    }
+
+    loadLinks()
+    return () => {
+      cancelled = true
+    }
+  }, [doc.id])
+
+  function toggleKeep(linkId: string) {
+    setKeep((current) => {
+      const next = new Set(current)
+      if (next.has(linkId)) next.delete(linkId)
+      else next.add(linkId)
+      return next
+    })
+  }
+
+  async function handleRotate() {
+    if (!links) return
+    setError('')
+
+    try {
+      // Step 1: Download and decrypt every part of the current version, each checked
+      // against its checksum
+      setProgress('Decrypting document...')
+      const infoResponse = await fetch(`/api/documents/${doc.id}/download-info`, {
+        credentials: 'include',
+      })
+      if (!infoResponse.ok) throw new Error('Failed to get download info')
+      const downloadInfo: DocumentDownloadInfo = await infoResponse.json()
+
+      const files: File[] = []
+      for (const part of downloadInfo.parts) {
+        const urlResponse = await fetch(
+          `/api/documents/${doc.id}/ciphertext-url?partId=${encodeURIComponent(part.id)}`,
+          { credentials: 'include' }
+        )
+        if (!urlResponse.ok) throw new Error('Failed to get ciphertext URL')
+        const { signedUrl } = await urlResponse.json()
+        const ciphertextResponse = await fetch(signedUrl)
+        if (!ciphertextResponse.ok || !ciphertextResponse.body) {
+          throw new Error('Failed to download ciphertext')
+        }
+
+        const plaintext = await decryptFileStreamForDownload(
+          ciphertextResponse.body,
+          downloadInfo.encryptedDekForOwner,
+          downloadInfo.dekNonce,
+          kek,
+          { docId: part.id, docType: doc.docType },
+          part
+        )
+        const filename =
+          details[part.id]?.filename ??
+          doc.parts?.find((p) => p.id === part.id)?.filename ??
+          doc.docType
+        files.push(
+          new File([plaintext], filename, {
+            type: details[part.id]?.mimeType ?? 'application/octet-stream',
+          })
+        )
+      }
+
+      // Step 2: Get a fresh storage object for each part; the version and its parts keep
+      // their ids
+      const prepareResponse = await fetch('/api/documents/prepare-upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          docType: doc.docType,
+          partSizes: files.map((file) => file.size),
+          documentId: doc.id,
+        }),
+      })
+      if (!prepareResponse.ok) {
+        const data = await prepareResponse.json()
+        throw new Error(data.error || 'Failed to prepare upload')
+      }
+      const { parts, coOwners } = (await prepareResponse.json()) as {
+        parts: { partId: string; storagePath: string; uploadUrl: string }[]
+        coOwners: CoOwnerRecipient[]
+      }
+
+      // Step 3: Re-encrypt under a fresh DEK and wrap it for every owner and kept link
+      setProgress('Re-encrypting...')
+      const recoveryWrapKey =
+        vaultMetadata?.encryptedRecoveryKeyForOwner && vaultMetadata.recoveryKeyNonce
+          ? await unwrapRecoveryKeyForOwner(
+              vaultMetadata.encryptedRecoveryKeyForOwner,
+              vaultMetadata.recoveryKeyNonce,
+              kek
+            )
+          : null
+      const keepLinks: OwnerWrappedLsk[] = links.flatMap((link) =>
+        keep.has(link.id) && link.encryptedLskForOwner
+          ? [{ id: link.id, encryptedLskForOwner: link.encryptedLskForOwner }]
+          : []
+      )
+      const {
+        parts: encryptedParts,
+        linkDeks,
+        ...rotated
+      } = await rotateDocumentKey(
+        files.map((file, i) => ({ id: parts[i].partId, file })),
+        kek,
+        { docId: doc.id, docType: doc.docType },
+        keepLinks,
+        recoveryWrapKey,
+        coOwners
+      )
+
+      let encryptedDates: string | undefined
+      if (doc.encryptedDates) {
+        if (!privateDates) throw new Error('Private dates could not be decrypted')
+        encryptedDates = await encryptDocumentDatesForOwner(
+          privateDates,
+          rotated.encryptedDekForOwner,
+          rotated.dekNonce,
+          kek,
+          { docId: doc.id, docType: doc.docType }
+        )
+      }
+
+      // Step 4: Upload the new ciphertexts and commit; the other links are revoked
+      setProgress('Uploading...')
+      for (const [i, { ciphertext }] of encryptedParts.entries()) {
+        const uploadResponse = await fetch(parts[i].uploadUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: ciphertext,
+        })
+        if (!uploadResponse.ok) throw new Error('Failed to upload ciphertext')
+      }
+
+      const keptIds = new Set(keepLinks.map((link) => link.id))
+      const response = await fetch(`/api/documents/${doc.id}/rotate-key`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...rotated,
+          parts: encryptedParts.map((part, i) => ({
+            id: part.id,
+            storagePath: parts[i].storagePath,
+            size: files[i].size,
+            ciphertextChecksum: part.ciphertextChecksum,
+            ciphertextChecksumTag: part.ciphertextChecksumTag,
+            encryptedMetadata: part.encryptedMetadata,
+          })),
+          linkDeks,
+          revokedLinkIds: links.filter((link) => !keptIds.has(link.id)).map((link) => link.id),
+          encryptedDates,
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to rotate key')
+      }
+
+      onRotated()
+    } catch (err) {
+      if (err instanceof CiphertextIntegrityError) {
+        setError('This document failed its integrity check; upload it again instead')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to rotate key')
+      }
+      console.error('Key rotation error:', err)
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const revokedCount = links ? links.length - keep.size : 0
+
+  return (
+    <div className="mt-3 rounded-md bg-zinc-50 p-4 dark:bg-zinc-800">
+      <p className="mb-2 text-sm text-zinc-700 dark:text-zinc-300">
+        Re-encrypt this document under a new key, for example if a vendor&apos;s device was
+        compromised. The old key stops opening it.
+      </p>
+      {links === null && !error && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Loading share links...</p>
+      )}
+      {links?.length === 0 && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">No active share links include it.</p>
+      )}
+      {links && links.length > 0 && (
+        <div className="mb-2 space-y-1">
+          <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Active share links that keep access:
+          </p>
+          {links.map((link) => (
+            <label
+              key={link.id}
+              className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              <input
+                type="checkbox"
+                checked={keep.has(link.id)}
+                disabled={!link.encryptedLskForOwner || progress !== null}
+                onChange={() => toggleKeep(link.id)}
+              />
+              {link.vendorLabel} (expires {new Date(link.expiresAt).toLocaleDateString()})
+              {!link.encryptedLskForOwner && (
+                <span className="text-zinc-500">: its key can&apos;t be recovered</span>
+              )}
+            </label>
+          ))}
+          {revokedCount > 0 && (
+            <p className="text-sm text-amber-700 dark:text-amber-400">
+              {revokedCount} unchecked link{revokedCount === 1 ? '' : 's'} will be revoked,
+              including any other documents shared through them.
+            </p>
+          )}
+        </div>
+      )}
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={handleRotate}
+          disabled={links === null || progress !== null}
+          className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+        >
+          {progress ?? 'Rotate key'}
+        </button>
+        <button
+          onClick={onClose}
+          disabled={progress !== null}
+          className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-50 dark:hover:bg-zinc-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,69 +1,349 @@
 'use client'
 
-import { useState } from 'react'
-import { decryptFileForDownload } from '@/lib/crypto/client-crypto'
-import type { DocumentMetadata } from '@/types/documents'
+import { useEffect, useState } from 'react'
+import {
+  decryptFileStreamForDownload,
+  decryptDocumentDetailsForOwner,
+  decryptDocumentDatesForOwner,
+  CiphertextIntegrityError,
+} from '@/lib/crypto/client-crypto'
+import { documentTypeLabel } from '@/lib/vault/document-types'
+import { documentExpiryStatus, type DocumentDates } from '@/lib/vault/document-expiry'
+import { DocumentKeyRotation } from './document-key-rotation'
+import { DocumentDatesEditor, DocumentExpiryBadge } from './document-dates'
+import type {
+  DocumentMetadata,
+  DocumentDetails,
+  DocumentDownloadInfo,
+  DocumentPartDownloadInfo,
+  DocumentPartMetadata,
+  DocumentTypeEntry,
+} from '@/types/documents'
 
 interface DocumentListProps {
   documents: DocumentMetadata[]
+  documentTypes: DocumentTypeEntry[] // The vault's catalog, for display labels
   kek: Uint8Array
   onDownloadComplete: () => void
+  canRotateKeys?: boolean // Key rotation re-uploads the document, so it's for the vault's owner
+  canRestoreVersions?: boolean // Like uploads, choosing the current version is for the owner
+  canEditDates?: boolean // As is recording a document's dates
+  canDelete?: boolean
 }
 
-export function DocumentList({ documents, kek, onDownloadComplete }: DocumentListProps) {
+/**
+ * An active share link that includes a document, and what deleting the document does to it
+ */
+interface AffectedLink {
+  id: string
+  vendorLabel: string
+  outcome: 'revoked' | 'flagged'
+}
+
+/**
+ * A YYYY-MM-DD date in the reader's format
+ */
+function formatCalendarDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })
+}
+
+export function DocumentList({
+  documents,
+  documentTypes,
+  kek,
+  onDownloadComplete,
+  canRotateKeys = false,
+  canRestoreVersions = false,
+  canEditDates = false,
+  canDelete = false,
+}: DocumentListProps) {
   const [downloadingId, setDownloadingId] = useState<string | null>(null)
+  const [rotatingId, setRotatingId] = useState<string | null>(null)
+  const [historyType, setHistoryType] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [editingDatesId, setEditingDatesId] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, DocumentDetails>>({}) // By part id
+  const [privateDates, setPrivateDates] = useState<Record<string, DocumentDates>>({}) // By doc id
+
+  // Filenames are sealed under each DEK, per part; decrypt them for display once the list loads
+  useEffect(() => {
+    let cancelled = false
+
+    async function decryptDetails() {
+      const entries = await Promise.all(
+        documents.flatMap((doc) =>
+          (doc.parts ?? []).map(async (part) => {
+            const { encryptedDekForOwner, dekNonce } = doc
+            if (!part.encryptedMetadata || !encryptedDekForOwner || !dekNonce) return null
+            try {
+              const decrypted = await decryptDocumentDetailsForOwner(
+                part.encryptedMetadata,
+                encryptedDekForOwner,
+                dekNonce,
+                kek,
+                { docId: part.id, docType: doc.docType }
+              )
+              return [part.id, decrypted] as const
+            } catch (error) {
+              console.error('Failed to decrypt document metadata:', error)
+              return null
+            }
+          })
+        )
+      )
+      if (!cancelled) {
+        setDetails(Object.fromEntries(entries.filter((entry) => entry !== null)))
+      }
+    }
+
+    decryptDetails()
+    return () => {
+      cancelled = true
+    }
+  }, [documents, kek])
+
+  // Private dates are sealed under each DEK too; they only drive the badges here
+  useEffect(() => {
+    let cancelled = false
+
+    async function decryptDates() {
+      const entries = await Promise.all(
+        documents.map(async (doc) => {
+          const { encryptedDates, encryptedDekForOwner, dekNonce } = doc
+          if (!encryptedDates || !encryptedDekForOwner || !dekNonce) return null
+          try {
+            const decrypted = await decryptDocumentDatesForOwner(
+              encryptedDates,
+              encryptedDekForOwner,
+              dekNonce,
+              kek,
+              { docId: doc.id, docType: doc.docType }
+            )
+            return [doc.id, decrypted] as const
+          } catch (error) {
+            console.error('Failed to decrypt document dates:', error)
+            return null
+          }
+        })
+      )
+      if (!cancelled) {
+        setPrivateDates(Object.fromEntries(entries.filter((entry) => entry !== null)))
+      }
+    }
+
+    decryptDates()
+    return () => {
+      cancelled = true
+    }
+  }, [documents, kek])
+
+  function documentDates(doc: DocumentMetadata): DocumentDates | null {
+    if (doc.encryptedDates) return privateDates[doc.id] ?? null
+    return { issuedOn: doc.issuedOn, expiresOn: doc.expiresOn }
+  }
+
+  function expiryStatus(doc: DocumentMetadata) {
+    const dates = documentDates(doc)
+    return dates ? documentExpiryStatus(doc.docType, dates) : null
+  }
+
+  function datesSummary(doc: DocumentMetadata): string | null {
+    const dates = documentDates(doc)
+    const summary = [
+      dates?.issuedOn && `Issued ${formatCalendarDate(dates.issuedOn)}`,
+      dates?.expiresOn && `Expires ${formatCalendarDate(dates.expiresOn)}`,
+    ].filter(Boolean)
+    if (summary.length === 0) return null
+    return [...summary, ...(doc.encryptedDates ? ['Private'] : [])].join(' • ')
+  }
+
+  function partName(doc: DocumentMetadata, part: DocumentPartMetadata | undefined): string {
+    return (
+      (part && (details[part.id]?.filename ?? part.filename)) ??
+      documentTypeLabel(documentTypes, doc.docType)
+    )
+  }
+
+  function displayName(doc: DocumentMetadata): string {
+    const name = partName(doc, doc.parts?.[0])
+    return doc.partCount > 1 ? `${name} (${doc.partCount} parts)` : name
+  }
+
+  /**
+   * Stream one part's ciphertext from storage and save it decrypted, under its own filename
+   */
+  async function downloadPart(
+    doc: DocumentMetadata,
+    info: DocumentDownloadInfo,
+    part: DocumentPartDownloadInfo
+  ) {
+    // Get a signed URL and stream the ciphertext from storage
+    const urlResponse = await fetch(
+      `/api/documents/${doc.id}/ciphertext-url?partId=${encodeURIComponent(part.id)}`,
+      { credentials: 'include' }
+    )
+    if (!urlResponse.ok) throw new Error('Failed to get ciphertext URL')
+
+    const { signedUrl } = await urlResponse.json()
+    const ciphertextResponse = await fetch(signedUrl)
+    if (!ciphertextResponse.ok || !ciphertextResponse.body) {
+      throw new Error('Failed to download ciphertext')
+    }
+
+    // Decrypt client-side, segment by segment as the ciphertext arrives; the ciphertext is
+    // checked against the checksum recorded on upload
+    const plaintext = await decryptFileStreamForDownload(
+      ciphertextResponse.body,
+      info.encryptedDekForOwner,
+      info.dekNonce,
+      kek,
+      { docId: part.id, docType: doc.docType },
+      part
+    )
+
+    // Create download link
+    const blob = new Blob([plaintext], {
+      type: details[part.id]?.mimeType ?? 'application/octet-stream',
+    })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = partName(doc, doc.parts?.find((p) => p.id === part.id))
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
 
   async function handleDownload(doc: DocumentMetadata) {
     setDownloadingId(doc.id)
+    let currentPart: DocumentPartDownloadInfo | undefined
 
     try {
-      // Step 1: Get download info (crypto metadata)
+      // Step 1: Get download info (crypto metadata for the document and each of its parts)
       const infoResponse = await fetch(`/api/documents/${doc.id}/download-info`, {
         credentials: 'include',
       })
       if (!infoResponse.ok) throw new Error('Failed to get download info')
 
-      const downloadInfo = await infoResponse.json()
+      const downloadInfo: DocumentDownloadInfo = await infoResponse.json()
+
+      // Step 2: Download every part in order, one file each
+      for (const part of downloadInfo.parts) {
+        currentPart = part
+        await downloadPart(doc, downloadInfo, part)
+      }
+
+      onDownloadComplete()
+    } catch (error) {
+      if (error instanceof CiphertextIntegrityError && currentPart) {
+        alert(
+          'Warning: this document failed its integrity check. The stored copy does not match ' +
+            'what was uploaded and may have been tampered with. It was not downloaded.'
+        )
+        // Flags the document and records the failure (and the failing part) in the audit log
+        await fetch(
+          `/api/documents/${doc.id}/integrity-failure?partId=${encodeURIComponent(currentPart.id)}`,
+          { method: 'POST', credentials: 'include' }
+        ).catch((reportError) => console.error('Failed to report integrity failure:', reportError))
+        onDownloadComplete()
+      } else {
+        alert('Failed to download document. Please try again.')
+      }
+      console.error('Download error:', error)
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  async function handleRestore(doc: DocumentMetadata) {
+    if (!confirm(`Make version ${doc.version} the current document again?`)) {
+      return
+    }
+
+    setRestoringId(doc.id)
 
-      // Step 2: Get ciphertext
-      const ciphertextResponse = await fetch(`/api/documents/${doc.id}/ciphertext`, {
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/restore`, {
+        method: 'POST',
         credentials: 'include',
       })
-      if (!ciphertextResponse.ok) throw new Error('Failed to download ciphertext')
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to restore version')
+      }
 
-      const { ciphertext: ciphertextBase64 } = await ciphertextResponse.json()
+      onDownloadComplete()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to restore version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
 
-      // Step 3: Decrypt client-side
-      const plaintext = await decryptFileForDownload(
-        ciphertextBase64,
-        downloadInfo.encryptedDekForOwner,
-        downloadInfo.dekNonce,
-        kek
-      )
+  async function handleDelete(doc: DocumentMetadata) {
+    setDeletingId(doc.id)
 
-      // Step 4: Create download link
-      // Create a new Uint8Array to ensure proper ArrayBuffer type
-      const plaintextArray = new Uint8Array(plaintext)
-      const blob = new Blob([plaintextArray], { type: 'application/octet-stream' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = doc.filename
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+    try {
+      // Deleting the current version takes the history with it; list what else goes
+      const infoResponse = await fetch(`/api/documents/${doc.id}`, { credentials: 'include' })
+      if (!infoResponse.ok) {
+        const data = await infoResponse.json()
+        throw new Error(data.error || 'Failed to load share links')
+      }
+      const { versions, links } = (await infoResponse.json()) as {
+        versions: number
+        links: AffectedLink[]
+      }
+
+      const earlier = versions - 1
+      const lines = [
+        !doc.current
+          ? `Delete version ${doc.version} of ${displayName(doc)}?`
+          : earlier > 0
+            ? `Delete ${displayName(doc)} and its ${earlier} earlier version(s)?`
+            : `Delete ${displayName(doc)}?`,
+      ]
+      if (links.length > 0) {
+        lines.push('', 'Vendors with access:')
+        for (const link of links) {
+          const outcome =
+            link.outcome === 'revoked' ? 'link revoked' : 'link keeps its other documents'
+          lines.push(`- ${link.vendorLabel}: ${outcome}`)
+        }
+      }
+      lines.push('', 'The encrypted files are deleted from storage. This cannot be undone.')
+      const message = lines.join('\n')
+      if (!confirm(message)) {
+        return
+      }
+
+      const response = await fetch(`/api/documents/${doc.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete document')
+      }
 
       onDownloadComplete()
     } catch (error) {
-      alert('Failed to download document. Please try again.')
-      console.error('Download error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete document')
     } finally {
-      setDownloadingId(null)
+      setDeletingId(null)
     }
   }
 
-  if (documents.length === 0) {
+  // Earlier versions of each type, newest first, listed under its current version
+  const currentDocuments = documents.filter((doc) => doc.current)
+  const previousVersions = (docType: string) =>
+    documents
+      .filter((doc) => doc.docType === docType && !doc.current)
+      .sort((a, b) => b.version - a.version)
+
+  if (currentDocuments.length === 0) {
     return (
       <div className="rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
         <p className="text-zinc-600 dark:text-zinc-400">No documents uploaded yet.</p>
@@ -75,25 +355,150 @@ export function DocumentList({ documents, kek, onDownloadComplete }: DocumentLis
     <div className="rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
       <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">Documents</h2>
       <div className="space-y-2">
-        {documents.map((doc) => (
-          <div
-            key={doc.id}
-            className="flex items-center justify-between rounded-md border border-zinc-200 p-4 dark:border-zinc-700"
-          >
-            <div>
-              <p className="font-medium text-black dark:text-zinc-50">{doc.filename}</p>
-              <p className="text-sm text-zinc-600 dark:text-zinc-400">
-                {doc.docType} • {(doc.size / 1024).toFixed(2)} KB •{' '}
-                {new Date(doc.uploadedAt).toLocaleDateString()}
-              </p>
+        {currentDocuments.map((doc) => (
+          <div key={doc.id} className="rounded-md border border-zinc-200 p-4 dark:border-zinc-700">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="flex items-center gap-2 font-medium text-black dark:text-zinc-50">
+                  {displayName(doc)}
+                  <DocumentExpiryBadge status={expiryStatus(doc)} />
+                </p>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  {documentTypeLabel(documentTypes, doc.docType)} •{' '}
+                  {(doc.size / 1024).toFixed(2)} KB •{' '}
+                  {new Date(doc.uploadedAt).toLocaleDateString()} • Version {doc.version}
+                </p>
+                {datesSummary(doc) && (
+                  <p className="text-sm text-zinc-600 dark:text-zinc-400">{datesSummary(doc)}</p>
+                )}
+                {doc.integrityFailedAt && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Failed an integrity check on{' '}
+                    {new Date(doc.integrityFailedAt).toLocaleDateString()}; the stored copy may
+                    have been tampered with. Upload it again.
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {canEditDates && (
+                  <button
+                    onClick={() => setEditingDatesId(editingDatesId === doc.id ? null : doc.id)}
+                    className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
+                  >
+                    Dates
+                  </button>
+                )}
+                {canRotateKeys && (
+                  <button
+                    onClick={() => setRotatingId(rotatingId === doc.id ? null : doc.id)}
+                    className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
+                  >
+                    Rotate key
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDownload(doc)}
+                  disabled={downloadingId === doc.id}
+                  className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
+                >
+                  {downloadingId === doc.id ? 'Downloading...' : 'Download'}
+                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(doc)}
+                    disabled={deletingId === doc.id}
+                    className="rounded-md bg-red-50 px-4 py-2 text-sm font-medium text-red-700 transition-colors hover:bg-red-100 disabled:opacity-50 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/40"
+                  >
+                    {deletingId === doc.id ? 'Deleting...' : 'Delete'}
+                  </button>
+                )}
+              </div>
             </div>
-            <button
-              onClick={() => handleDownload(doc)}
-              disabled={downloadingId === doc.id}
-              className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
-            >
-              {downloadingId === doc.id ? 'Downloading...' : 'Download'}
-            </button>
+            {doc.partCount > 1 && (
+              <ol className="mt-2 list-inside list-decimal text-sm text-zinc-600 dark:text-zinc-400">
+                {doc.parts?.map((part) => (
+                  <li key={part.id}>
+                    {partName(doc, part)} • {(part.size / 1024).toFixed(2)} KB
+                  </li>
+                ))}
+              </ol>
+            )}
+            {editingDatesId === doc.id && (
+              <DocumentDatesEditor
+                doc={doc}
+                dates={documentDates(doc)}
+                kek={kek}
+                onClose={() => setEditingDatesId(null)}
+                onSaved={() => {
+                  setEditingDatesId(null)
+                  onDownloadComplete()
+                }}
+              />
+            )}
+            {rotatingId === doc.id && (
+              <DocumentKeyRotation
+                doc={doc}
+                details={details}
+                privateDates={privateDates[doc.id] ?? null}
+                kek={kek}
+                onClose={() => setRotatingId(null)}
+                onRotated={() => {
+                  setRotatingId(null)
+                  onDownloadComplete()
+                }}
+              />
+            )}
+            {previousVersions(doc.docType).length > 0 && (
+              <div className="mt-3 border-t border-zinc-200 pt-3 dark:border-zinc-700">
+                <button
+                  onClick={() => setHistoryType(historyType === doc.docType ? null : doc.docType)}
+                  className="text-sm text-zinc-600 underline dark:text-zinc-400"
+                >
+                  {historyType === doc.docType ? 'Hide' : 'Show'} previous versions (
+                  {previousVersions(doc.docType).length})
+                </button>
+                {historyType === doc.docType && (
+                  <ul className="mt-2 space-y-2">
+                    {previousVersions(doc.docType).map((previous) => (
+                      <li key={previous.id} className="flex items-center justify-between gap-2">
+                        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                          Version {previous.version} • {displayName(previous)} •{' '}
+                          {(previous.size / 1024).toFixed(2)} KB •{' '}
+                          {new Date(previous.uploadedAt).toLocaleDateString()}
+                        </p>
+                        <div className="flex gap-3">
+                          {canRestoreVersions && (
+                            <button
+                              onClick={() => handleRestore(previous)}
+                              disabled={restoringId === previous.id}
+                              className="text-sm text-zinc-800 underline disabled:opacity-50 dark:text-zinc-200"
+                            >
+                              {restoringId === previous.id ? 'Restoring...' : 'Restore'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDownload(previous)}
+                            disabled={downloadingId === previous.id}
+                            className="text-sm text-zinc-800 underline disabled:opacity-50 dark:text-zinc-200"
+                          >
+                            {downloadingId === previous.id ? 'Downloading...' : 'Download'}
+                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete(previous)}
+                              disabled={deletingId === previous.id}
+                              className="text-sm text-red-600 underline disabled:opacity-50 dark:text-red-400"
+                            >
+                              {deletingId === previous.id ? 'Deleting...' : 'Delete'}
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState } from 'react'
+import { SYSTEM_DOCUMENT_TYPES } from '@/lib/vault/document-types'
+import type { DocumentMetadata, DocumentTypeEntry } from '@/types/documents'
+
+interface DocumentTypeCatalogProps {
+  documentTypes: DocumentTypeEntry[]
+  documents: DocumentMetadata[]
+  onChanged: () => void
+}
+
+/**
+ * Lets the owner add custom document types and relabel any type in their vault's catalog
+ */
+export function DocumentTypeCatalog({
+  documentTypes,
+  documents,
+  onChanged,
+}: DocumentTypeCatalogProps) {
+  const [label, setLabel] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [editLabel, setEditLabel] = useState('')
+  const [error, setError] = useState('')
+
+  const defaultLabels = new Map(SYSTEM_DOCUMENT_TYPES.map((t) => [t.key, t.label]))
+  const usedKeys = new Set(documents.map((doc) => doc.docType))
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    setAdding(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/vault/document-types', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ label }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to add document type')
+      }
+
+      setLabel('')
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add document type')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  async function handleRename(e: React.FormEvent) {
+    e.preventDefault()
+    if (!editingKey) return
+
+    setError('')
+
+    try {
+      const response = await fetch(`/api/vault/document-types/${editingKey}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ label: editLabel }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to rename document type')
+      }
+
+      setEditingKey(null)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename document type')
+    }
+  }
+
+  async function handleRemove(type: DocumentTypeEntry) {
+    const message = type.system
+      ? `Restore the default label "${defaultLabels.get(type.key)}"?`
+      : `Remove document type "${type.label}"? Delegates lose access to it and pending share ` +
+        'requests stop asking for it.'
+    if (!confirm(message)) {
+      return
+    }
+
+    setError('')
+
+    try {
+      const response = await fetch(`/api/vault/document-types/${type.key}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove document type')
+      }
+
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove document type')
+    }
+  }
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-2 text-xl font-semibold text-black dark:text-zinc-50">Document Types</h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Your vault holds one current document per type, and delegate permissions and share
+        requests refer to these types. Add your own or rename any of them.
+      </p>
+      <ul className="mb-4 divide-y divide-zinc-200 dark:divide-zinc-800">
+        {documentTypes.map((type) => (
+          <li key={type.key} className="flex items-center justify-between gap-2 py-2">
+            {editingKey === type.key ? (
+              <form onSubmit={handleRename} className="flex flex-1 gap-2">
+                <input
+                  type="text"
+                  value={editLabel}
+                  onChange={(e) => setEditLabel(e.target.value)}
+                  required
+                  maxLength={100}
+                  className="block w-full rounded-md border border-zinc-300 px-3 py-1 text-sm text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+                />
+                <button
+                  type="submit"
+                  disabled={!editLabel.trim()}
+                  className="text-sm text-zinc-800 underline disabled:opacity-50 dark:text-zinc-200"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingKey(null)}
+                  className="text-sm text-zinc-500 underline"
+                >
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <p className="text-sm text-black dark:text-zinc-50">
+                  {type.label}{' '}
+                  <span className="text-xs text-zinc-500">
+                    {type.system ? 'System' : 'Custom'}
+                    {usedKeys.has(type.key) && ' · in use'}
+                  </span>
+                </p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => {
+                      setEditingKey(type.key)
+                      setEditLabel(type.label)
+                    }}
+                    className="text-sm text-zinc-800 underline dark:text-zinc-200"
+                  >
+                    Rename
+                  </button>
+                  {type.system
+                    ? type.label !== defaultLabels.get(type.key) && (
+                        <button
+                          onClick={() => handleRemove(type)}
+                          className="text-sm text-zinc-500 underline"
+                        >
+                          Reset
+                        </button>
+                      )
+                    : !usedKeys.has(type.key) && (
+                        <button
+                          onClick={() => handleRemove(type)}
+                          className="text-sm text-red-600 underline dark:text-red-400"
+                        >
+                          Remove
+                        </button>
+                      )}
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          required
+          maxLength={100}
+          placeholder="e.g. Board resolution"
+          className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+        />
+        <button
+          type="submit"
+          disabled={adding || !label.trim()}
+          className="whitespace-nowrap rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+        >
+          {adding ? 'Adding...' : 'Add type'}
+        </button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -1,45 +1,162 @@
 'use client'
 
-import { useState } from 'react'
-import { encryptFileForUpload } from '@/lib/crypto/client-crypto'
-import { uint8ArrayToBase64 } from '@/lib/crypto/vault-crypto'
-import { uploadCiphertext } from '@/lib/storage/supabase-storage'
-import type { DocumentType } from '@/types/documents'
-
-const DOC_TYPES: { value: DocumentType; label: string }[] = [
-  { value: 'ID', label: 'ID' },
-  { value: 'ProofOfAddress', label: 'Proof of Address' },
-  { value: 'SourceOfWealth', label: 'Source of Wealth' },
-]
+import { useCallback, useEffect, useState } from 'react'
+import {
+  encryptFileForUpload,
+  unwrapRecoveryKeyForOwner,
+  type CoOwnerRecipient,
+} from '@/lib/crypto/client-crypto'
+import { useVault } from '@/contexts/vault-context'
+import { MAX_DOCUMENT_PARTS } from '@/lib/vault/document-parts'
+import { isSanitizableImage, sanitizeImage } from '@/lib/images/image-sanitizer'
+import {
+  DocumentDatesFields,
+  EMPTY_DOCUMENT_DATES,
+  storedDocumentDates,
+  type DocumentDatesInput,
+} from './document-dates'
+import {
+  DEFAULT_IMAGE_CLEANING,
+  ImageCleaningFields,
+  imageSanitizeOptions,
+  SanitizedImagePreview,
+  type ImageCleaningInput,
+  type ImagePreview,
+} from './image-cleaning'
+import { ReplacedDocumentLinks, type ReplacementVersion } from './replaced-document-links'
+import type { DocumentType, DocumentTypeEntry } from '@/types/documents'
 
 interface DocumentUploaderProps {
   kek: Uint8Array
+  documentTypes: DocumentTypeEntry[] // The vault's catalog
   onUploadComplete: () => void
 }
 
-export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProps) {
+// Cleaned images for a file list and choice; null where a file is not an image that is cleaned
+interface CleanedImages {
+  files: File[]
+  cleaning: ImageCleaningInput
+  previews: (ImagePreview | null)[]
+  error: string
+}
+
+/**
+ * Uploads a new version of a document as an ordered group of files (e.g. the front and back
+ * of an ID), each encrypted as one part
+ */
+export function DocumentUploader({ kek, documentTypes, onUploadComplete }: DocumentUploaderProps) {
   const [selectedDocType, setSelectedDocType] = useState<DocumentType>('ID')
-  const [file, setFile] = useState<File | null>(null)
+  const [files, setFiles] = useState<File[]>([]) // In part order
+  const [dates, setDates] = useState<DocumentDatesInput>(EMPTY_DOCUMENT_DATES)
   const [uploading, setUploading] = useState(false)
   const [error, setError] = useState('')
+  const [cleaning, setCleaning] = useState<ImageCleaningInput>(DEFAULT_IMAGE_CLEANING)
+  const [cleaned, setCleaned] = useState<CleanedImages | null>(null)
+  // A replacement whose earlier versions may still be served by share links
+  const [replacement, setReplacement] = useState<ReplacementVersion | null>(null)
+  const { vaultMetadata } = useVault()
+  const finishReplacement = useCallback(() => setReplacement(null), [])
+
+  const hasImages = files.some(isSanitizableImage)
+  const cleans = cleaning.enabled && hasImages
+  // Results for an earlier file list or choice are stale until the new ones are ready
+  const current = cleaned?.files === files && cleaned.cleaning === cleaning ? cleaned : null
+  const cleaningImages = cleans && !current
+  const cleaningError = cleans ? (current?.error ?? '') : ''
+
+  // Photos are cleaned as soon as they are picked, so the preview shows what will be encrypted
+  useEffect(() => {
+    if (!cleaning.enabled || !files.some(isSanitizableImage)) return
+    let cancelled = false
+    const urls: string[] = []
+
+    async function cleanImages() {
+      const sanitized = []
+      let failure = ''
+      for (const file of files) {
+        if (!isSanitizableImage(file)) {
+          sanitized.push(null)
+          continue
+        }
+        try {
+          sanitized.push(await sanitizeImage(file, imageSanitizeOptions(cleaning)))
+        } catch (err) {
+          console.error('Failed to clean image:', err)
+          failure = `Could not clean ${file.name}; turn off photo cleaning to upload it as picked`
+          sanitized.push(null)
+        }
+        if (cancelled) return
+      }
+
+      const objectUrl = (blob: Blob) => {
+        const url = URL.createObjectURL(blob)
+        urls.push(url)
+        return url
+      }
+      setCleaned({
+        files,
+        cleaning,
+        previews: sanitized.map((image, i) =>
+          image
+            ? {
+                original: files[i],
+                sanitized: image,
+                originalUrl: objectUrl(files[i]),
+                sanitizedUrl: objectUrl(image.file),
+              }
+            : null
+        ),
+        error: failure,
+      })
+    }
+
+    cleanImages()
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [files, cleaning])
+
+  function handleAddFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const added = Array.from(e.target.files ?? [])
+    e.target.value = '' // Lets the same file be picked again after removing it
+    setFiles((current) => [...current, ...added].slice(0, MAX_DOCUMENT_PARTS))
+  }
+
+  function moveFile(index: number, offset: -1 | 1) {
+    setFiles((current) => {
+      const reordered = [...current]
+      ;[reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]]
+      return reordered
+    })
+  }
+
+  function removeFile(index: number) {
+    setFiles((current) => current.filter((_, i) => i !== index))
+  }
 
   async function handleUpload(e: React.FormEvent) {
     e.preventDefault()
-    if (!file) return
+    if (files.length === 0 || cleaningImages || cleaningError) return
 
     setUploading(true)
     setError('')
 
+    // Cleaned images are what gets encrypted; the originals never leave the browser
+    const uploadFiles = files.map(
+      (file, i) => (cleans && current?.previews[i]?.sanitized.file) || file
+    )
+
     try {
-      // Step 1: Prepare upload (get docId and storagePath)
+      // Step 1: Prepare upload (get docId, and a part id, storagePath and signed upload URL
+      // for each file)
       const prepareResponse = await fetch('/api/documents/prepare-upload', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
           docType: selectedDocType,
-          filename: file.name,
-          size: file.size,
+          partSizes: uploadFiles.map((file) => file.size),
         }),
       })
 
@@ -48,31 +165,62 @@ export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProp
         throw new Error(data.error || 'Failed to prepare upload')
       }
 
-      const { docId, storagePath } = await prepareResponse.json()
+      const { docId, parts, coOwners } = (await prepareResponse.json()) as {
+        docId: string
+        parts: { partId: string; storagePath: string; uploadUrl: string }[]
+        coOwners: CoOwnerRecipient[]
+      }
 
-      // Step 2: Encrypt file client-side
-      const { ciphertext, encryptedDekForOwner, dekNonce, ciphertextChecksum } =
-        await encryptFileForUpload(file, kek)
+      // Step 2: Encrypt the files client-side under one DEK, each bound to its part id and
+      // the doc type
+      // If the vault has a recovery kit, the DEK is also wrapped with the recovery key,
+      // and it is sealed to every co-owner's public key
+      const recoveryWrapKey =
+        vaultMetadata?.encryptedRecoveryKeyForOwner && vaultMetadata.recoveryKeyNonce
+          ? await unwrapRecoveryKeyForOwner(
+              vaultMetadata.encryptedRecoveryKeyForOwner,
+              vaultMetadata.recoveryKeyNonce,
+              kek
+            )
+          : null
+      const {
+        parts: encryptedParts,
+        encryptedDekForOwner,
+        dekNonce,
+        encryptedDekForRecovery,
+        dekForRecoveryNonce,
+        coOwnerDeks,
+      } = await encryptFileForUpload(
+        uploadFiles.map((file, i) => ({ id: parts[i].partId, file })),
+        kek,
+        { docId, docType: selectedDocType },
+        recoveryWrapKey,
+        coOwners
+      )
 
-      // Step 3: Upload ciphertext to storage
-      // Note: In a real implementation, you might want to use signed URLs for direct upload
-      // For MVP, we'll upload via API
-      const ciphertextBase64 = uint8ArrayToBase64(ciphertext)
-      const uploadResponse = await fetch('/api/storage/upload', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          path: storagePath,
-          ciphertext: ciphertextBase64,
-        }),
-      })
+      // Private dates are sealed under the same DEK, bound to the document
+      const storedDates = await storedDocumentDates(
+        dates,
+        { encryptedDekForOwner, dekNonce },
+        kek,
+        { docId, docType: selectedDocType }
+      )
+
+      // Step 3: Upload each part's ciphertext straight to storage via its signed URL
+      // The chunked ciphertext Blob is streamed from its segments, never base64-encoded
+      for (const [i, { ciphertext }] of encryptedParts.entries()) {
+        const uploadResponse = await fetch(parts[i].uploadUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: ciphertext,
+        })
 
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload ciphertext')
+        if (!uploadResponse.ok) {
+          throw new Error('Failed to upload ciphertext')
+        }
       }
 
-      // Step 4: Commit upload (save metadata to DB)
+      // Step 4: Commit upload (save metadata to DB; the filename only goes up encrypted)
       const commitResponse = await fetch('/api/documents/commit-upload', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -80,12 +228,20 @@ export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProp
         body: JSON.stringify({
           docId,
           docType: selectedDocType,
-          storagePath,
-          filename: file.name,
-          size: file.size,
-          ciphertextChecksum,
+          parts: encryptedParts.map((part, i) => ({
+            id: part.id,
+            storagePath: parts[i].storagePath,
+            size: uploadFiles[i].size,
+            ciphertextChecksum: part.ciphertextChecksum,
+            ciphertextChecksumTag: part.ciphertextChecksumTag,
+            encryptedMetadata: part.encryptedMetadata,
+          })),
           encryptedDekForOwner,
           dekNonce,
+          encryptedDekForRecovery,
+          dekForRecoveryNonce,
+          coOwnerDeks,
+          dates: storedDates,
         }),
       })
 
@@ -94,8 +250,13 @@ export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProp
         throw new Error(data.error || 'Failed to commit upload')
       }
 
-      // Success
-      setFile(null)
+      // Success; a replacement goes on to ask what share links on earlier versions get
+      const committed = (await commitResponse.json()) as { version: number; replaced: boolean }
+      if (committed.replaced) {
+        setReplacement({ docId, version: committed.version, encryptedDekForOwner, dekNonce })
+      }
+      setFiles([])
+      setDates(EMPTY_DOCUMENT_DATES)
       onUploadComplete()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed')
@@ -120,11 +281,11 @@ export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProp
           <select
             id="docType"
             value={selectedDocType}
-            onChange={(e) => setSelectedDocType(e.target.value as DocumentType)}
+            onChange={(e) => setSelectedDocType(e.target.value)}
             className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
           >
-            {DOC_TYPES.map((type) => (
-              <option key={type.value} value={type.value}>
+            {documentTypes.map((type) => (
+              <option key={type.key} value={type.key}>
                 {type.label}
               </option>
             ))}
@@ -135,25 +296,94 @@ export function DocumentUploader({ kek, onUploadComplete }: DocumentUploaderProp
             htmlFor="file"
             className="block text-sm font-medium text-zinc-700 dark:text-zinc-300"
           >
-            File
+            Files
           </label>
+          <p className="text-xs text-zinc-500">
+            One file per page or side, in order (up to {MAX_DOCUMENT_PARTS})
+          </p>
+          {files.length > 0 && (
+            <ol className="mt-2 divide-y divide-zinc-200 text-sm dark:divide-zinc-800">
+              {files.map((file, i) => (
+                <li key={i} className="flex items-center justify-between gap-2 py-1">
+                  <span className="truncate text-black dark:text-zinc-50">
+                    {i + 1}. {file.name}
+                  </span>
+                  <span className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => moveFile(i, -1)}
+                      disabled={uploading || i === 0}
+                      className="text-zinc-800 underline disabled:opacity-30 dark:text-zinc-200"
+                    >
+                      Up
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveFile(i, 1)}
+                      disabled={uploading || i === files.length - 1}
+                      className="text-zinc-800 underline disabled:opacity-30 dark:text-zinc-200"
+                    >
+                      Down
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeFile(i)}
+                      disabled={uploading}
+                      className="text-red-600 underline disabled:opacity-30 dark:text-red-400"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
           <input
             id="file"
             type="file"
-            onChange={(e) => setFile(e.target.files?.[0] || null)}
-            required
-            className="mt-1 block w-full text-sm text-zinc-700 dark:text-zinc-300"
+            multiple
+            onChange={handleAddFiles}
+            disabled={uploading || files.length >= MAX_DOCUMENT_PARTS}
+            className="mt-2 block w-full text-sm text-zinc-700 dark:text-zinc-300"
           />
         </div>
+        {hasImages && (
+          <div className="space-y-2">
+            <ImageCleaningFields value={cleaning} onChange={setCleaning} disabled={uploading} />
+            {cleaningImages && <p className="text-sm text-zinc-500">Cleaning photos...</p>}
+            {cleans &&
+              current?.previews.map(
+                (preview, i) =>
+                  preview && <SanitizedImagePreview key={i} part={i + 1} preview={preview} />
+              )}
+            {cleaningError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{cleaningError}</p>
+            )}
+          </div>
+        )}
+        <DocumentDatesFields
+          idPrefix="upload"
+          value={dates}
+          onChange={setDates}
+          disabled={uploading}
+        />
         {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
         <button
           type="submit"
-          disabled={uploading || !file}
+          disabled={uploading || files.length === 0 || cleaningImages || !!cleaningError}
           className="rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
         >
           {uploading ? 'Uploading...' : 'Upload'}
         </button>
       </form>
+      {replacement && (
+        <ReplacedDocumentLinks
+          key={replacement.docId}
+          replacement={replacement}
+          kek={kek}
+          onDone={finishReplacement}
+        />
+      )}
     </div>
   )
 }
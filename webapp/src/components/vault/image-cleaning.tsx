@@ -0,0 +1,174 @@
+'use client'
+
+import Image from 'next/image'
+import {
+  DEFAULT_IMAGE_SANITIZE_OPTIONS,
+  type ImageSanitizeOptions,
+  type SanitizedImage,
+} from '@/lib/images/image-sanitizer'
+
+// Longest side choices for downscaling; null keeps the original size
+const MAX_DIMENSION_CHOICES = [null, 2000, 1200]
+
+// JPEG and WebP quality when recompressing
+const RECOMPRESSED_QUALITY = 0.8
+
+/**
+ * How photos are cleaned before encryption, as chosen
+ */
+export interface ImageCleaningInput {
+  enabled: boolean
+  maxDimension: number | null
+  recompress: boolean
+}
+
+export const DEFAULT_IMAGE_CLEANING: ImageCleaningInput = {
+  enabled: true,
+  maxDimension: null,
+  recompress: false,
+}
+
+/**
+ * The sanitizer options for a choice
+ */
+export function imageSanitizeOptions(input: ImageCleaningInput): ImageSanitizeOptions {
+  return {
+    maxDimension: input.maxDimension,
+    quality: input.recompress ? RECOMPRESSED_QUALITY : DEFAULT_IMAGE_SANITIZE_OPTIONS.quality,
+  }
+}
+
+/**
+ * A cleaned image, with object URLs showing it before and after
+ * The URLs belong to whoever made the preview, and are revoked by them.
+ */
+export interface ImagePreview {
+  original: File
+  sanitized: SanitizedImage
+  originalUrl: string
+  sanitizedUrl: string
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+interface ImageCleaningFieldsProps {
+  value: ImageCleaningInput
+  onChange: (value: ImageCleaningInput) => void
+  disabled?: boolean
+}
+
+/**
+ * Whether to clean photos, and whether to downscale and recompress them
+ */
+export function ImageCleaningFields({ value, onChange, disabled }: ImageCleaningFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          disabled={disabled}
+        />
+        Clean photos before encrypting them
+      </label>
+      <p className="text-xs text-zinc-500">
+        {value.enabled
+          ? 'JPEG, PNG and WebP images are turned upright and stripped of EXIF, XMP and IPTC ' +
+            'metadata (location, camera, capture time) in your browser.'
+          : 'Images are uploaded as picked, with any location and camera details they carry.'}
+      </p>
+      {value.enabled && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-zinc-700 dark:text-zinc-300">
+          <label className="flex items-center gap-2">
+            Resize to
+            <select
+              value={value.maxDimension ?? ''}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  maxDimension: e.target.value ? parseInt(e.target.value, 10) : null,
+                })
+              }
+              disabled={disabled}
+              className="rounded-md border border-zinc-300 px-2 py-1 text-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+            >
+              {MAX_DIMENSION_CHOICES.map((dimension) => (
+                <option key={dimension ?? 'original'} value={dimension ?? ''}>
+                  {dimension === null ? 'Original size' : `At most ${dimension} px`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={value.recompress}
+              onChange={(e) => onChange({ ...value, recompress: e.target.checked })}
+              disabled={disabled}
+            />
+            Compress more (JPEG and WebP)
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SanitizedImagePreviewProps {
+  part: number // 1-based, as the file list numbers them
+  preview: ImagePreview
+}
+
+/**
+ * An image before and after cleaning, with what cleaning removed
+ */
+export function SanitizedImagePreview({ part, preview }: SanitizedImagePreviewProps) {
+  const { original, sanitized, originalUrl, sanitizedUrl } = preview
+  const removed = sanitized.removedMetadata
+
+  return (
+    <div className="rounded-md border border-zinc-200 p-3 text-sm dark:border-zinc-800">
+      <p className="mb-2 truncate text-black dark:text-zinc-50">
+        {part}. {original.name}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <figure>
+          <Image
+            src={originalUrl}
+            alt={`${original.name} before cleaning`}
+            width={sanitized.originalWidth}
+            height={sanitized.originalHeight}
+            unoptimized // Object URLs, which the image optimizer can't fetch
+            className="h-32 w-full rounded object-contain bg-zinc-100 dark:bg-zinc-800"
+          />
+          <figcaption className="mt-1 text-xs text-zinc-500">
+            Before: {sanitized.originalWidth} × {sanitized.originalHeight},{' '}
+            {formatFileSize(original.size)}
+          </figcaption>
+        </figure>
+        <figure>
+          <Image
+            src={sanitizedUrl}
+            alt={`${original.name} after cleaning`}
+            width={sanitized.width}
+            height={sanitized.height}
+            unoptimized // Object URLs, which the image optimizer can't fetch
+            className="h-32 w-full rounded object-contain bg-zinc-100 dark:bg-zinc-800"
+          />
+          <figcaption className="mt-1 text-xs text-zinc-500">
+            After: {sanitized.width} × {sanitized.height}, {formatFileSize(sanitized.file.size)}
+          </figcaption>
+        </figure>
+      </div>
+      <p className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+        {removed.length > 0
+          ? `Removed ${removed.join(', ')} metadata`
+          : 'No metadata found; the image is still redrawn, so nothing hidden carries over'}
+      </p>
+    </div>
+  )
+}
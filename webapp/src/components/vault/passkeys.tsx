@@ -0,0 +1,183 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useVault } from '@/contexts/vault-context'
+import { supabase } from '@/lib/supabase/client'
+import { wrapKekForPasskey } from '@/lib/crypto/client-crypto'
+import {
+  createPrfPasskey,
+  isPasskeySupported,
+  PasskeyPrfUnsupportedError,
+} from '@/lib/crypto/passkey-prf'
+
+interface EnrolledPasskey {
+  id: string
+  label: string
+  createdAt: string
+}
+
+interface PasskeysProps {
+  onPasskeysChanged: (passkeyCount: number) => void // Passkeys reload when it changes
+}
+
+export function Passkeys({ onPasskeysChanged }: PasskeysProps) {
+  const { kek, vaultMetadata } = useVault()
+  const [passkeys, setPasskeys] = useState<EnrolledPasskey[]>([])
+  const [label, setLabel] = useState('')
+  const [enrolling, setEnrolling] = useState(false)
+  const [error, setError] = useState('')
+  const [supported, setSupported] = useState(false)
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/vault/passkeys', { credentials: 'include' })
+      if (!response.ok) throw new Error('Failed to load passkeys')
+      const data = (await response.json()) as { passkeys: EnrolledPasskey[] }
+      setPasskeys(data.passkeys)
+      onPasskeysChanged(data.passkeys.length)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load passkeys')
+    }
+  }, [onPasskeysChanged])
+
+  useEffect(() => {
+    setSupported(isPasskeySupported())
+    loadPasskeys()
+  }, [loadPasskeys])
+
+  async function handleEnrol(e: React.FormEvent) {
+    e.preventDefault()
+    if (!kek || !vaultMetadata) {
+      setError('Vault must be unlocked to add a passkey')
+      return
+    }
+
+    setEnrolling(true)
+    setError('')
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not signed in')
+
+      // Step 1: Create the passkey and evaluate its PRF (user verification on the authenticator)
+      const { credentialId, prfSalt, prfOutput } = await createPrfPasskey({
+        id: user.id,
+        name: user.email ?? user.id,
+      })
+
+      // Step 2: Wrap a copy of the KEK under the PRF-derived key (client-side)
+      const encryptedKek = await wrapKekForPasskey(kek, prfOutput, credentialId)
+
+      // Step 3: Store the wrapped copy; the PRF output never leaves the browser
+      const response = await fetch('/api/vault/passkeys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          credentialId,
+          label,
+          prfSalt,
+          encryptedKek,
+          kdfSalt: vaultMetadata.kdfSalt,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to add passkey')
+      }
+
+      setLabel('')
+      await loadPasskeys()
+    } catch (err) {
+      if (err instanceof PasskeyPrfUnsupportedError) {
+        setError('This passkey or browser cannot unlock the vault. Try another authenticator.')
+      } else if (err instanceof DOMException && err.name === 'NotAllowedError') {
+        setError('Passkey creation was cancelled')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to add passkey')
+      }
+    } finally {
+      setEnrolling(false)
+    }
+  }
+
+  async function handleRemove(passkey: EnrolledPasskey) {
+    if (!confirm(`Remove passkey "${passkey.label}"? You can still unlock with your password.`)) {
+      return
+    }
+
+    setError('')
+
+    try {
+      const response = await fetch(`/api/vault/passkeys/${passkey.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove passkey')
+      }
+
+      await loadPasskeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove passkey')
+    }
+  }
+
+  if (!supported) {
+    return null
+  }
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-2 text-xl font-semibold text-black dark:text-zinc-50">Passkeys</h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Unlock your vault with a passkey instead of typing your password. Your password keeps
+        working, and passkeys need to be added again after it changes.
+      </p>
+      {passkeys.length > 0 && (
+        <ul className="mb-4 divide-y divide-zinc-200 dark:divide-zinc-800">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium text-black dark:text-zinc-50">{passkey.label}</p>
+                <p className="text-xs text-zinc-500">
+                  Added {new Date(passkey.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRemove(passkey)}
+                className="text-sm text-red-600 underline dark:text-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleEnrol} className="flex gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          required
+          maxLength={100}
+          placeholder="Passkey name, e.g. Work laptop"
+          className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+        />
+        <button
+          type="submit"
+          disabled={enrolling || !label.trim()}
+          className="whitespace-nowrap rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+        >
+          {enrolling ? 'Adding...' : 'Add passkey'}
+        </button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { useVault } from '@/contexts/vault-context'
+import { createRecoveryKit, type OwnerWrappedDek } from '@/lib/crypto/client-crypto'
+
+interface RecoveryKitProps {
+  recoveryEnabled: boolean
+  onRecoveryKitCreated: () => void
+}
+
+export function RecoveryKit({ recoveryEnabled, onRecoveryKitCreated }: RecoveryKitProps) {
+  const { kek, vaultMetadata, rekey } = useVault()
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+  // Shown once, only kept in component state until the owner dismisses it
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null)
+  const [stored, setStored] = useState(false)
+
+  async function handleCreate() {
+    if (!kek || !vaultMetadata) {
+      setError('Vault must be unlocked to create a recovery kit')
+      return
+    }
+
+    if (
+      recoveryEnabled &&
+      !confirm('Creating a new recovery kit makes your current recovery key stop working. Continue?')
+    ) {
+      return
+    }
+
+    setCreating(true)
+    setError('')
+
+    try {
+      // Step 1: Fetch all owner-wrapped DEKs
+      const docsResponse = await fetch(`/api/documents?vaultId=${vaultMetadata.vaultId}`, {
+        credentials: 'include',
+      })
+      if (!docsResponse.ok) throw new Error('Failed to load documents')
+      const { documents } = (await docsResponse.json()) as { documents: OwnerWrappedDek[] }
+
+      // Step 2: Generate recovery key and wrap every DEK under it (client-side)
+      const kit = await createRecoveryKit(documents, kek)
+
+      // Step 3: Store the recovery wraps (never the recovery key)
+      const response = await fetch('/api/vault/recovery', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          recoverySalt: kit.recoverySalt,
+          encryptedRecoveryKeyForOwner: kit.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: kit.recoveryKeyNonce,
+          documents: kit.documents,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to create recovery kit')
+      }
+
+      // New uploads need the wrapped recovery key to add their recovery wrap
+      rekey(kek, {
+        ...vaultMetadata,
+        encryptedRecoveryKeyForOwner: kit.encryptedRecoveryKeyForOwner,
+        recoveryKeyNonce: kit.recoveryKeyNonce,
+      })
+
+      setRecoveryKey(kit.recoveryKey)
+      setStored(false)
+      onRecoveryKitCreated()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create recovery kit')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (recoveryKey) {
+    return (
+      <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+        <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">
+          Your Recovery Kit
+        </h2>
+        <div className="mb-4 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+          <p className="font-semibold">⚠️ This recovery key is shown only once</p>
+          <p className="mt-1">
+            Print it or write it down and keep it offline. Anyone with this key and access to your
+            account can reset your vault password.
+          </p>
+        </div>
+        <p className="mb-4 rounded-md bg-zinc-100 p-4 text-center font-mono text-lg tracking-wider text-black dark:bg-zinc-800 dark:text-zinc-50">
+          {recoveryKey}
+        </p>
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+            <input
+              type="checkbox"
+              checked={stored}
+              onChange={(e) => setStored(e.target.checked)}
+            />
+            I have stored my recovery key safely
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="rounded-md bg-zinc-200 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-300 dark:bg-zinc-800 dark:text-zinc-50 dark:hover:bg-zinc-700"
+            >
+              Print
+            </button>
+            <button
+              onClick={() => setRecoveryKey(null)}
+              disabled={!stored}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">Recovery Kit</h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        {recoveryEnabled
+          ? 'A recovery kit is set up. You can reset your vault password with your recovery key.'
+          : 'Without a recovery kit, losing your vault password means losing every document. A recovery key is generated in your browser and never sent to the server.'}
+      </p>
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <button
+        onClick={handleCreate}
+        disabled={creating}
+        className="rounded-md bg-black px-4 py-2 font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+      >
+        {creating
+          ? 'Creating recovery kit...'
+          : recoveryEnabled
+            ? 'Replace Recovery Kit'
+            : 'Create Recovery Kit'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { wrapDekForLinks, type OwnerWrappedLsk } from '@/lib/crypto/client-crypto'
+
+interface ReplacedLink {
+  id: string
+  vendorLabel: string
+  expiresAt: string
+  version: number // The version the link serves now
+  encryptedLskForOwner: string | null // Null when the LSK can't be recovered
+}
+
+type LinkChoice = 'kept' | 'rewrapped' | 'revoked'
+
+// The new version, with its DEK as wrapped for the owner at upload
+export interface ReplacementVersion {
+  docId: string
+  version: number
+  encryptedDekForOwner: string
+  dekNonce: string
+}
+
+interface ReplacedDocumentLinksProps {
+  replacement: ReplacementVersion
+  kek: Uint8Array
+  onDone: () => void
+}
+
+/**
+ * After a document is replaced, asks what each active share link on an earlier version gets:
+ * keep that version, move to the new one, or be revoked
+ */
+export function ReplacedDocumentLinks({ replacement, kek, onDone }: ReplacedDocumentLinksProps) {
+  const [links, setLinks] = useState<ReplacedLink[] | null>(null)
+  const [choices, setChoices] = useState<Record<string, LinkChoice>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadLinks() {
+      try {
+        const response = await fetch(`/api/documents/${replacement.docId}/replaced-links`, {
+          credentials: 'include',
+        })
+        if (!response.ok) throw new Error('Failed to load share links')
+        const data = (await response.json()) as { links: ReplacedLink[] }
+        if (cancelled) return
+        if (data.links.length === 0) {
+          onDone()
+          return
+        }
+        setLinks(data.links)
+        // Links keep the version they were approved with unless the owner says otherwise
+        setChoices(Object.fromEntries(data.links.map((link) => [link.id, 'kept' as const])))
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load share links')
+      }
+    }
+
+    loadLinks()
+    return () => {
+      cancelled = true
+    }
+  }, [replacement.docId, onDone])
+
+  function linksChoosing(choice: LinkChoice): ReplacedLink[] {
+    return (links ?? []).filter((link) => choices[link.id] === choice)
+  }
+
+  async function handleSave() {
+    if (!links) return
+    setSaving(true)
+    setError('')
+
+    try {
+      const rewrapLinks: OwnerWrappedLsk[] = linksChoosing('rewrapped').flatMap((link) =>
+        link.encryptedLskForOwner
+          ? [{ id: link.id, encryptedLskForOwner: link.encryptedLskForOwner }]
+          : []
+      )
+      const linkDeks = await wrapDekForLinks(
+        replacement.encryptedDekForOwner,
+        replacement.dekNonce,
+        kek,
+        rewrapLinks
+      )
+
+      const response = await fetch(`/api/documents/${replacement.docId}/replaced-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          keptLinkIds: linksChoosing('kept').map((link) => link.id),
+          linkDeks,
+          revokedLinkIds: linksChoosing('revoked').map((link) => link.id),
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update share links')
+      }
+
+      onDone()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share links')
+      console.error('Replaced document links error:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (links === null && !error) {
+    return <p className="mt-4 text-sm text-zinc-600 dark:text-zinc-400">Checking share links...</p>
+  }
+
+  return (
+    <div className="mt-4 rounded-md bg-zinc-50 p-4 dark:bg-zinc-800">
+      <p className="mb-2 text-sm text-zinc-700 dark:text-zinc-300">
+        Active share links still open an earlier version of this document. Choose what each one
+        gets now that version {replacement.version} is current.
+      </p>
+      {links?.map((link) => (
+        <div key={link.id} className="mb-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <label htmlFor={`replaced-link-${link.id}`} className="block">
+            {link.vendorLabel} (version {link.version}, expires{' '}
+            {new Date(link.expiresAt).toLocaleDateString()})
+          </label>
+          <select
+            id={`replaced-link-${link.id}`}
+            value={choices[link.id]}
+            disabled={saving}
+            onChange={(e) =>
+              setChoices((current) => ({ ...current, [link.id]: e.target.value as LinkChoice }))
+            }
+            className="mt-1 block w-full rounded-md border border-zinc-300 px-3 py-2 text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-50"
+          >
+            <option value="kept">Keep serving version {link.version}</option>
+            <option value="rewrapped" disabled={!link.encryptedLskForOwner}>
+              Switch to version {replacement.version}
+              {!link.encryptedLskForOwner && " (its key can't be recovered)"}
+            </option>
+            <option value="revoked">Revoke the link</option>
+          </select>
+        </div>
+      ))}
+      {linksChoosing('revoked').length > 0 && (
+        <p className="mb-2 text-sm text-amber-700 dark:text-amber-400">
+          Revoked links lose access to every document shared through them.
+        </p>
+      )}
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <button
+        onClick={handleSave}
+        disabled={links === null || saving}
+        className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+      >
+        {saving ? 'Saving...' : 'Save choices'}
+      </button>
+    </div>
+  )
+}
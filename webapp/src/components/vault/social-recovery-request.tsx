@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  combineRecoveryShares,
+  publicKeyFingerprint,
+  type RecoveryApprovalShare,
+} from '@/lib/crypto/client-crypto'
+import { createBrowserKey, loadBrowserKey } from '@/lib/crypto/browser-key-store'
+
+interface RecoveryRequestStatus {
+  socialRecoveryEnabled: boolean
+  threshold?: number
+  verifier?: string
+  request?: {
+    id: string
+    publicKey: string
+    expiresAt: string
+    approvals: RecoveryApprovalShare[]
+  } | null
+}
+
+interface SocialRecoveryRequestProps {
+  onRecoveryKeyRebuilt: (recoveryWrapKey: Uint8Array) => void
+}
+
+/**
+ * Recovers the vault through recovery contacts: opens a request whose key stays in this
+ * browser, then rebuilds the recovery wrapping key once enough contacts approved it
+ */
+export function SocialRecoveryRequest({ onRecoveryKeyRebuilt }: SocialRecoveryRequestProps) {
+  const [status, setStatus] = useState<RecoveryRequestStatus | null>(null)
+  const [fingerprint, setFingerprint] = useState<string | null>(null)
+  const [heldHere, setHeldHere] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  async function loadStatus() {
+    try {
+      const response = await fetch('/api/vault/social-recovery/requests', {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load recovery request')
+      const data = (await response.json()) as RecoveryRequestStatus
+      setStatus(data)
+
+      if (data.request) {
+        const storedKey = await loadBrowserKey('recovery-request')
+        setHeldHere(storedKey?.publicKey === data.request.publicKey)
+        setFingerprint(await publicKeyFingerprint(data.request.publicKey))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recovery request')
+    }
+  }
+
+  async function handleRequest() {
+    setWorking(true)
+    setError('')
+
+    try {
+      // A fresh key per request: approvals for an earlier request can't be replayed to it
+      const storedKey = await createBrowserKey('recovery-request')
+
+      const response = await fetch('/api/vault/social-recovery/requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ publicKey: storedKey.publicKey }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to request recovery')
+      }
+
+      await loadStatus()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request recovery')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function handleRebuild() {
+    if (!status?.request || !status.threshold || !status.verifier) return
+
+    setWorking(true)
+    setError('')
+
+    try {
+      const storedKey = await loadBrowserKey('recovery-request')
+      if (!storedKey) throw new Error('This browser no longer holds the recovery request key')
+
+      const recoveryWrapKey = await combineRecoveryShares(
+        status.request.approvals,
+        status.request.id,
+        storedKey.privateKey,
+        status.threshold,
+        status.verifier
+      )
+      onRecoveryKeyRebuilt(recoveryWrapKey)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rebuild the recovery key')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (!status?.socialRecoveryEnabled) {
+    return null
+  }
+
+  const request = status.request
+  const approvalCount = request?.approvals.length ?? 0
+
+  return (
+    <div className="mt-6 border-t border-zinc-200 pt-4 dark:border-zinc-700">
+      <h2 className="mb-1 text-sm font-medium text-zinc-800 dark:text-zinc-200">
+        No recovery key? Ask your recovery contacts
+      </h2>
+      {!request || !heldHere ? (
+        <>
+          <p className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">
+            Any {status.threshold} of your recovery contacts can approve a reset from their own
+            browsers. Keep this browser open to the same account until they have.
+            {request &&
+              ' A request opened in another browser is still pending; starting one here cancels it.'}
+          </p>
+          <button
+            onClick={handleRequest}
+            disabled={working}
+            className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-50 dark:hover:bg-zinc-600"
+          >
+            {working ? 'Requesting...' : 'Ask recovery contacts'}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">
+            Your contacts were emailed. Tell each of them this request code by phone or in
+            person; they should only approve if their page shows the same code:{' '}
+            <code className="font-mono">{fingerprint}</code>
+          </p>
+          <p className="mb-2 text-sm text-zinc-700 dark:text-zinc-300">
+            {approvalCount} of {status.threshold} approvals · expires{' '}
+            {new Date(request.expiresAt).toLocaleDateString()}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={loadStatus}
+              disabled={working}
+              className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-50 dark:hover:bg-zinc-600"
+            >
+              Refresh
+            </button>
+            <button
+              onClick={handleRebuild}
+              disabled={working || approvalCount < (status.threshold ?? 0)}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              {working ? 'Rebuilding...' : 'Use approvals'}
+            </button>
+          </div>
+        </>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
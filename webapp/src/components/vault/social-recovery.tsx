@@ -0,0 +1,298 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useVault } from '@/contexts/vault-context'
+import {
+  splitRecoveryKeyForContacts,
+  publicKeyFingerprint,
+  type RecoveryContactRecipient,
+} from '@/lib/crypto/client-crypto'
+
+interface RecoveryContact {
+  id: string
+  label: string
+  email: string
+  publicKey: string | null
+  hasShare: boolean
+  createdAt: string
+}
+
+interface SocialRecoveryProps {
+  recoveryEnabled: boolean
+}
+
+/**
+ * Lets the owner split their recovery key K-of-N among trusted contacts
+ */
+export function SocialRecovery({ recoveryEnabled }: SocialRecoveryProps) {
+  const { kek, vaultMetadata } = useVault()
+  const [contacts, setContacts] = useState<RecoveryContact[]>([])
+  const [fingerprints, setFingerprints] = useState<Record<string, string>>({})
+  const [currentThreshold, setCurrentThreshold] = useState<number | null>(null)
+  const [threshold, setThreshold] = useState(2)
+  const [label, setLabel] = useState('')
+  const [email, setEmail] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [splitting, setSplitting] = useState(false)
+  const [error, setError] = useState('')
+
+  // A new recovery kit drops the old split, so reload when the wrapped recovery key changes
+  useEffect(() => {
+    loadContacts()
+  }, [recoveryEnabled, vaultMetadata?.encryptedRecoveryKeyForOwner])
+
+  async function loadContacts() {
+    try {
+      const response = await fetch('/api/vault/recovery-contacts', { credentials: 'include' })
+      if (!response.ok) throw new Error('Failed to load recovery contacts')
+      const data = (await response.json()) as {
+        threshold: number | null
+        contacts: RecoveryContact[]
+      }
+      setContacts(data.contacts)
+      setCurrentThreshold(data.threshold)
+
+      const entries = await Promise.all(
+        data.contacts
+          .filter((c) => c.publicKey)
+          .map(async (c) => [c.id, await publicKeyFingerprint(c.publicKey!)] as const)
+      )
+      setFingerprints(Object.fromEntries(entries))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recovery contacts')
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    setAdding(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/vault/recovery-contacts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ label, email }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to add recovery contact')
+      }
+
+      setLabel('')
+      setEmail('')
+      await loadContacts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add recovery contact')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  async function handleRemove(contact: RecoveryContact) {
+    if (!confirm(`Remove recovery contact "${contact.label}"? Their share is deleted.`)) {
+      return
+    }
+
+    setError('')
+
+    try {
+      const response = await fetch(`/api/vault/recovery-contacts/${contact.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove recovery contact')
+      }
+
+      await loadContacts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove recovery contact')
+    }
+  }
+
+  async function handleSplit() {
+    if (!kek || !vaultMetadata?.encryptedRecoveryKeyForOwner || !vaultMetadata.recoveryKeyNonce) {
+      setError('Vault must be unlocked to split the recovery key')
+      return
+    }
+
+    const recipients: RecoveryContactRecipient[] = contacts
+      .filter((c) => c.publicKey)
+      .map((c) => ({ id: c.id, publicKey: c.publicKey! }))
+
+    if (
+      !confirm(
+        `Split your recovery key so any ${threshold} of these ${recipients.length} contacts can recover your vault? Check each fingerprint with the contact first.`
+      )
+    ) {
+      return
+    }
+
+    setSplitting(true)
+    setError('')
+
+    try {
+      // Step 1: The recovery salt binds every share to the current recovery kit
+      const recoveryResponse = await fetch('/api/vault/recovery', { credentials: 'include' })
+      if (!recoveryResponse.ok) throw new Error('Failed to load recovery data')
+      const { recoverySalt } = (await recoveryResponse.json()) as { recoverySalt?: string }
+      if (!recoverySalt) throw new Error('Create a recovery kit first')
+
+      // Step 2: Split the recovery wrapping key and seal each share to its contact (client-side)
+      const { verifier, shares } = await splitRecoveryKeyForContacts(
+        vaultMetadata.encryptedRecoveryKeyForOwner,
+        vaultMetadata.recoveryKeyNonce,
+        recoverySalt,
+        kek,
+        recipients,
+        threshold
+      )
+      const publicKeys = new Map(recipients.map((r) => [r.id, r.publicKey]))
+
+      // Step 3: Store the sealed shares
+      const response = await fetch('/api/vault/social-recovery', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          recoverySalt,
+          threshold,
+          verifier,
+          shares: shares.map((s) => ({ ...s, publicKey: publicKeys.get(s.contactId) })),
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to split recovery key')
+      }
+
+      await loadContacts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to split recovery key')
+    } finally {
+      setSplitting(false)
+    }
+  }
+
+  const registeredCount = contacts.filter((c) => c.publicKey).length
+  const shareCount = contacts.filter((c) => c.hasShare).length
+
+  return (
+    <div className="mt-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <h2 className="mb-2 text-xl font-semibold text-black dark:text-zinc-50">
+        Recovery Contacts
+      </h2>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Split your recovery key among people you trust, such as your lawyer or a co-founder. Any
+        chosen number of them can approve a recovery together; no single contact, and not the
+        server, can open your vault.
+      </p>
+      {!recoveryEnabled ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          Create a recovery kit first.
+        </p>
+      ) : (
+        <>
+          {currentThreshold && (
+            <p className="mb-4 text-sm text-zinc-700 dark:text-zinc-300">
+              Any {currentThreshold} of {shareCount} contacts can recover your vault.
+              {shareCount < currentThreshold &&
+                ' Too few contacts still hold a share: split the key again.'}
+            </p>
+          )}
+          {contacts.length > 0 && (
+            <ul className="mb-4 divide-y divide-zinc-200 dark:divide-zinc-800">
+              {contacts.map((contact) => (
+                <li key={contact.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-black dark:text-zinc-50">
+                      {contact.label}{' '}
+                      <span className="font-normal text-zinc-500">({contact.email})</span>
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {!contact.publicKey
+                        ? 'Waiting for the contact to register their browser'
+                        : contact.hasShare
+                          ? 'Holds a share'
+                          : 'Registered, no share yet'}
+                      {fingerprints[contact.id] && (
+                        <>
+                          {' · '}
+                          <code className="font-mono">{fingerprints[contact.id]}</code>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(contact)}
+                    className="text-sm text-red-600 underline dark:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAdd} className="mb-4 flex gap-2">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              required
+              maxLength={100}
+              placeholder="e.g. Company lawyer"
+              className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="Email"
+              className="block w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-black shadow-sm focus:border-zinc-500 focus:outline-none focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+            />
+            <button
+              type="submit"
+              disabled={adding || !label.trim()}
+              className="whitespace-nowrap rounded-md bg-black px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-50 dark:text-black dark:hover:bg-zinc-200"
+            >
+              {adding ? 'Inviting...' : 'Invite contact'}
+            </button>
+          </form>
+          {registeredCount >= 2 && (
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-zinc-700 dark:text-zinc-300">
+                Contacts needed to recover:{' '}
+                <select
+                  value={Math.min(threshold, registeredCount)}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="rounded-md border border-zinc-300 px-2 py-1 text-sm dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-50"
+                >
+                  {Array.from({ length: registeredCount - 1 }, (_, i) => i + 2).map((k) => (
+                    <option key={k} value={k}>
+                      {k} of {registeredCount}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleSplit}
+                disabled={splitting || threshold > registeredCount}
+                className="rounded-md bg-zinc-100 px-4 py-2 text-sm font-medium text-zinc-800 transition-colors hover:bg-zinc-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-zinc-50 dark:hover:bg-zinc-600"
+              >
+                {splitting ? 'Splitting...' : currentThreshold ? 'Split again' : 'Split recovery key'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
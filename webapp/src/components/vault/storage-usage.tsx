@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DocumentMetadata } from '@/types/documents'
+import type { VaultUsage } from '@/types/vault'
+
+interface StorageUsageProps {
+  documents: DocumentMetadata[] // Usage is reloaded whenever the document list is
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+export function StorageUsage({ documents }: StorageUsageProps) {
+  const [usage, setUsage] = useState<VaultUsage | null>(null)
+
+  useEffect(() => {
+    async function loadUsage() {
+      try {
+        const response = await fetch('/api/vault/usage', { credentials: 'include' })
+        if (!response.ok) throw new Error('Failed to load storage usage')
+        setUsage(await response.json())
+      } catch (error) {
+        console.error('Error loading storage usage:', error)
+      }
+    }
+    loadUsage()
+  }, [documents])
+
+  if (!usage) return null
+
+  const { usedBytes, quotas } = usage
+  const percent = Math.min(100, (usedBytes / quotas.storageBytes) * 100)
+
+  return (
+    <div className="mb-8 rounded-lg bg-white p-6 shadow-sm dark:bg-zinc-900">
+      <div className="mb-2 flex items-baseline justify-between">
+        <h2 className="text-xl font-semibold text-black dark:text-zinc-50">Storage</h2>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {formatFileSize(usedBytes)} of {formatFileSize(quotas.storageBytes)} used
+        </p>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800">
+        <div
+          className={`h-full ${percent >= 90 ? 'bg-red-600' : 'bg-black dark:bg-zinc-50'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+        Files up to {formatFileSize(quotas.maxFileBytes)}, and up to {quotas.maxVersions} versions
+        of each document. Earlier versions count towards your storage until you delete them.
+      </p>
+    </div>
+  )
+}
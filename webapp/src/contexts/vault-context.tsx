@@ -2,25 +2,320 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { supabase } from '@/lib/supabase/client'
-import { unlockVault } from '@/lib/crypto/client-crypto'
+import {
+  initializeVault,
+  unlockVault,
+  kdfNeedsUpgrade,
+  rewrapVaultForNewKek,
+  createKekVerifier,
+  verifyKek,
+  unwrapDekForOwner,
+  encryptDocumentDetailsForOwner,
+  createChecksumTagForOwner,
+  unwrapKekWithPasskey,
+  rewrapSealedDeks,
+  WrongVaultPasswordError,
+  type OwnerWrappedDek,
+  type OwnerWrappedLsk,
+  type SealedDek,
+  type CryptoTaskOptions,
+} from '@/lib/crypto/client-crypto'
 import type { KdfParams } from '@/lib/crypto/vault-crypto'
+import { evaluatePasskeyPrf } from '@/lib/crypto/passkey-prf'
+import type { DocumentMetadata } from '@/types/documents'
 
-interface VaultMetadata {
+export interface VaultMetadata {
   vaultId: string
   kdfSalt: string
   kdfParams: KdfParams
+  kekVerifier?: string | null // Null for vaults created before key-check values existed
+  encryptedRecoveryKeyForOwner?: string | null // Set when the vault has a recovery kit
+  recoveryKeyNonce?: string | null
+  encryptedPrivateKey?: string | null // Set for co-owners: their key pair's private key under the KEK
+  passkeyCount?: number // Passkeys wrapping the current KEK; moving to a new KEK removes them
+}
+
+export interface UnlockOptions extends CryptoTaskOptions {
+  // Asked before a KDF upgrade that would remove enrolled passkeys; without it, or if it
+  // returns false, the upgrade waits for a later unlock
+  confirmKdfUpgrade?: (passkeyCount: number) => boolean
 }
 
 interface VaultContextType {
   kek: Uint8Array | null
   vaultMetadata: VaultMetadata | null
   isUnlocked: () => boolean
-  unlock: (password: string, metadata: VaultMetadata) => Promise<void>
+  unlock: (password: string, metadata: VaultMetadata, options?: UnlockOptions) => Promise<void>
+  unlockWithPasskey: (metadata: VaultMetadata, options?: { signal?: AbortSignal }) => Promise<void>
+  rekey: (kek: Uint8Array, metadata: VaultMetadata) => void
   lock: () => void
 }
 
 const VaultContext = createContext<VaultContextType | undefined>(undefined)
 
+/**
+ * Prove a KEK for a vault without a key-check value by unwrapping something it wrapped.
+ * A vault with nothing wrapped yet has nothing to check against, so the KEK is accepted
+ * unconfirmed: returns whether anything confirmed it.
+ */
+async function checkLegacyKek(kek: Uint8Array, metadata: VaultMetadata): Promise<boolean> {
+  let wrapped: { encryptedDekForOwner: string; dekNonce: string } | undefined
+
+  if (metadata.encryptedRecoveryKeyForOwner && metadata.recoveryKeyNonce) {
+    wrapped = {
+      encryptedDekForOwner: metadata.encryptedRecoveryKeyForOwner,
+      dekNonce: metadata.recoveryKeyNonce,
+    }
+  } else {
+    const response = await fetch(`/api/documents?vaultId=${metadata.vaultId}`, {
+      credentials: 'include',
+    })
+    if (!response.ok) throw new Error('Failed to load documents')
+    const { documents } = (await response.json()) as { documents: OwnerWrappedDek[] }
+    wrapped = documents[0]
+  }
+
+  if (!wrapped) return false
+
+  try {
+    await unwrapDekForOwner(wrapped.encryptedDekForOwner, wrapped.dekNonce, kek)
+  } catch {
+    throw new WrongVaultPasswordError()
+  }
+  return true
+}
+
+/**
+ * Check an unwrapped KEK the same way a password-derived one is checked
+ * Returns whether the KEK was confirmed, which only a legacy vault with nothing wrapped can't be.
+ */
+async function checkKek(kek: Uint8Array, metadata: VaultMetadata): Promise<boolean> {
+  if (metadata.kekVerifier) {
+    if (!(await verifyKek(kek, metadata.kekVerifier))) {
+      throw new WrongVaultPasswordError()
+    }
+    return true
+  }
+  return checkLegacyKek(kek, metadata)
+}
+
+/**
+ * Store the key-check value for a legacy vault after its first verified unlock
+ * Only for a confirmed KEK: one from a mistyped password would lock out the real one.
+ */
+async function storeKekVerifier(kek: Uint8Array, metadata: VaultMetadata): Promise<string | null> {
+  const kekVerifier = await createKekVerifier(kek)
+  const response = await fetch('/api/vault/verifier', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ kdfSalt: metadata.kdfSalt, kekVerifier }),
+  })
+
+  if (!response.ok) {
+    // Not fatal: the KEK was already proven, the next unlock retries
+    console.error('Failed to store vault key-check value:', response.status)
+    return null
+  }
+
+  return kekVerifier
+}
+
+/**
+ * Re-wrap the DEKs other owners sealed to a co-owner under the co-owner's KEK
+ * Not fatal: sealed documents stay unreadable for now and the next unlock retries
+ */
+async function claimSealedDeks(kek: Uint8Array, encryptedPrivateKey: string) {
+  try {
+    const response = await fetch('/api/vault/co-owner', { credentials: 'include' })
+    if (!response.ok) throw new Error('Failed to load sealed keys')
+    const { sealedDeks } = (await response.json()) as { sealedDeks: SealedDek[] }
+    if (sealedDeks.length === 0) return
+
+    const keys = await rewrapSealedDeks(sealedDeks, encryptedPrivateKey, kek)
+
+    const claimResponse = await fetch('/api/vault/co-owner/claim', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ keys }),
+    })
+    if (!claimResponse.ok) throw new Error(`Claim rejected with status ${claimResponse.status}`)
+  } catch (error) {
+    console.error('Failed to claim sealed document keys:', error)
+  }
+}
+
+/**
+ * The caller's KEK-wrapped DEKs, the ones a new KEK has to re-wrap
+ * A co-owner's copies still sealed to their public key come without a wrap and are left out.
+ */
+export async function fetchOwnerWrappedDeks(vaultId: string): Promise<OwnerWrappedDek[]> {
+  const response = await fetch(`/api/documents?vaultId=${vaultId}`, { credentials: 'include' })
+  if (!response.ok) throw new Error('Failed to load documents')
+  const { documents } = (await response.json()) as {
+    documents: { id: string; encryptedDekForOwner?: string; dekNonce?: string }[]
+  }
+  return documents.flatMap((doc) =>
+    doc.encryptedDekForOwner && doc.dekNonce
+      ? [{ id: doc.id, encryptedDekForOwner: doc.encryptedDekForOwner, dekNonce: doc.dekNonce }]
+      : []
+  )
+}
+
+/**
+ * The owner's KEK-wrapped copies of share link LSKs, which move with the KEK too
+ */
+export async function fetchOwnerWrappedLsks(vaultId: string): Promise<OwnerWrappedLsk[]> {
+  const response = await fetch(`/api/links?vaultId=${vaultId}`, { credentials: 'include' })
+  if (!response.ok) throw new Error('Failed to load share links')
+  const { links } = (await response.json()) as {
+    links: { id: string; encryptedLskForOwner: string | null }[]
+  }
+  return links.flatMap((link) =>
+    link.encryptedLskForOwner
+      ? [{ id: link.id, encryptedLskForOwner: link.encryptedLskForOwner }]
+      : []
+  )
+}
+
+/**
+ * Re-derive the KEK under current KDF policy and move every DEK to it
+ * Returns the new KEK and metadata, or null if the upgrade could not be stored
+ * (the vault keeps working with its current parameters and the next unlock retries)
+ */
+async function upgradeKdf(
+  password: string,
+  currentKek: Uint8Array,
+  metadata: VaultMetadata
+): Promise<{ kek: Uint8Array; metadata: VaultMetadata } | null> {
+  try {
+    const documents = await fetchOwnerWrappedDeks(metadata.vaultId)
+    const shareLinks = await fetchOwnerWrappedLsks(metadata.vaultId)
+
+    const { kdfSalt, kdfParams } = await initializeVault()
+    const newKek = await unlockVault(password, kdfSalt, kdfParams)
+    const rewrap = await rewrapVaultForNewKek(documents, currentKek, newKek, metadata, shareLinks)
+
+    const response = await fetch('/api/vault/upgrade-kdf', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ currentKdfSalt: metadata.kdfSalt, kdfSalt, kdfParams, ...rewrap }),
+    })
+    if (!response.ok) throw new Error(`Upgrade rejected with status ${response.status}`)
+
+    const { kekVerifier, encryptedRecoveryKeyForOwner, recoveryKeyNonce, encryptedPrivateKey } =
+      rewrap
+    return {
+      kek: newKek,
+      metadata: {
+        ...metadata,
+        kdfSalt,
+        kdfParams,
+        kekVerifier,
+        ...(encryptedRecoveryKeyForOwner && { encryptedRecoveryKeyForOwner, recoveryKeyNonce }),
+        ...(encryptedPrivateKey && { encryptedPrivateKey }),
+      },
+    }
+  } catch (error) {
+    console.error('Failed to upgrade vault KDF parameters:', error)
+    return null
+  }
+}
+
+/**
+ * Encrypt the plaintext filenames of documents uploaded before metadata encryption
+ * Not fatal: the documents stay readable and the next unlock retries
+ */
+async function encryptLegacyMetadata(kek: Uint8Array, metadata: VaultMetadata) {
+  try {
+    const docsResponse = await fetch(`/api/documents?vaultId=${metadata.vaultId}`, {
+      credentials: 'include',
+    })
+    if (!docsResponse.ok) throw new Error('Failed to load documents')
+    const { documents } = (await docsResponse.json()) as { documents: DocumentMetadata[] }
+
+    const legacy = documents.flatMap((doc) =>
+      doc.encryptedDekForOwner && doc.dekNonce
+        ? (doc.parts ?? [])
+            .filter((part) => part.filename && !part.encryptedMetadata)
+            .map((part) => ({ doc, part }))
+        : []
+    )
+    if (legacy.length === 0) return
+
+    const encrypted = await Promise.all(
+      legacy.map(async ({ doc, part }) => ({
+        id: part.id,
+        encryptedMetadata: await encryptDocumentDetailsForOwner(
+          { filename: part.filename!, mimeType: 'application/octet-stream' },
+          doc.encryptedDekForOwner!,
+          doc.dekNonce!,
+          kek,
+          { docId: part.id, docType: doc.docType }
+        ),
+      }))
+    )
+
+    const response = await fetch('/api/documents/encrypt-metadata', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ parts: encrypted }),
+    })
+    if (!response.ok) throw new Error(`Migration rejected with status ${response.status}`)
+  } catch (error) {
+    console.error('Failed to encrypt legacy document metadata:', error)
+  }
+}
+
+/**
+ * Tag the checksums of parts uploaded before checksum tags, so the vault can require them
+ * Not fatal: untagged parts are still checked against their checksum and the next unlock retries
+ */
+async function tagLegacyChecksums(kek: Uint8Array, metadata: VaultMetadata) {
+  try {
+    const docsResponse = await fetch(`/api/documents?vaultId=${metadata.vaultId}`, {
+      credentials: 'include',
+    })
+    if (!docsResponse.ok) throw new Error('Failed to load documents')
+    const { documents } = (await docsResponse.json()) as { documents: DocumentMetadata[] }
+
+    const legacy = documents.flatMap((doc) =>
+      doc.encryptedDekForOwner && doc.dekNonce
+        ? (doc.parts ?? [])
+            .filter((part) => !part.ciphertextChecksumTag)
+            .map((part) => ({ doc, part }))
+        : []
+    )
+    if (legacy.length === 0) return
+
+    const tagged = await Promise.all(
+      legacy.map(async ({ doc, part }) => ({
+        id: part.id,
+        ciphertextChecksumTag: await createChecksumTagForOwner(
+          part.ciphertextChecksum,
+          doc.encryptedDekForOwner!,
+          doc.dekNonce!,
+          kek,
+          { docId: part.id, docType: doc.docType }
+        ),
+      }))
+    )
+
+    const response = await fetch('/api/documents/checksum-tags', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ parts: tagged }),
+    })
+    if (!response.ok) throw new Error(`Migration rejected with status ${response.status}`)
+  } catch (error) {
+    console.error('Failed to tag legacy document checksums:', error)
+  }
+}
+
 export function VaultProvider({ children }: { children: ReactNode }) {
   const [kek, setKek] = useState<Uint8Array | null>(null)
   const [vaultMetadata, setVaultMetadata] = useState<VaultMetadata | null>(null)
@@ -49,20 +344,93 @@ export function VaultProvider({ children }: { children: ReactNode }) {
 
   const isUnlocked = () => kek !== null
 
-  const unlock = async (password: string, metadata: VaultMetadata) => {
-    try {
-      const derivedKek = await unlockVault(password, metadata.kdfSalt, metadata.kdfParams)
-      setKek(derivedKek)
-      setVaultMetadata(metadata)
-      // Clear password from memory (it's a parameter, but we can't do much about that)
-      // The password should be cleared by the caller
-    } catch (error) {
-      throw error
+  const unlock = async (password: string, metadata: VaultMetadata, options: UnlockOptions = {}) => {
+    const { confirmKdfUpgrade, ...taskOptions } = options
+    const derivedKek = await unlockVault(
+      password,
+      metadata.kdfSalt,
+      metadata.kdfParams,
+      taskOptions
+    )
+
+    // Reject a wrong password here rather than as an AES-GCM failure on first download
+    const confirmed = await checkKek(derivedKek, metadata)
+
+    // Co-owners keep their own key material and raise its KDF cost on their own; the
+    // vault-wide migrations below are the creating owner's to run
+    if (metadata.encryptedPrivateKey) {
+      await claimSealedDeks(derivedKek, metadata.encryptedPrivateKey)
+      const upgraded =
+        confirmed && kdfNeedsUpgrade(metadata.kdfParams)
+          ? await upgradeKdf(password, derivedKek, metadata)
+          : null
+      setKek(upgraded?.kek ?? derivedKek)
+      setVaultMetadata(upgraded?.metadata ?? metadata)
+      return
+    }
+
+    // Raise KDF cost transparently; the upgrade also stores a key-check value, so it waits
+    // for an unlock that confirms the password. The new KEK leaves passkeys behind, so with
+    // any enrolled the owner is asked first
+    const passkeyCount = metadata.passkeyCount ?? 0
+    if (
+      confirmed &&
+      kdfNeedsUpgrade(metadata.kdfParams) &&
+      (passkeyCount === 0 || !!confirmKdfUpgrade?.(passkeyCount))
+    ) {
+      const upgraded = await upgradeKdf(password, derivedKek, metadata)
+      if (upgraded) {
+        await encryptLegacyMetadata(upgraded.kek, upgraded.metadata)
+        await tagLegacyChecksums(upgraded.kek, upgraded.metadata)
+        setKek(upgraded.kek)
+        setVaultMetadata(upgraded.metadata)
+        return
+      }
+    }
+
+    const kekVerifier =
+      metadata.kekVerifier ?? (confirmed ? await storeKekVerifier(derivedKek, metadata) : null)
+    await encryptLegacyMetadata(derivedKek, metadata)
+    await tagLegacyChecksums(derivedKek, metadata)
+    setKek(derivedKek)
+    setVaultMetadata({ ...metadata, kekVerifier })
+    // Clear password from memory (it's a parameter, but we can't do much about that)
+    // The password should be cleared by the caller
+  }
+
+  // Unlock with an enrolled passkey: its PRF output unwraps a stored copy of the KEK
+  // KDF upgrades need the password, so they wait for the next password unlock
+  const unlockWithPasskey = async (metadata: VaultMetadata, options?: { signal?: AbortSignal }) => {
+    const response = await fetch('/api/vault/passkeys', { credentials: 'include' })
+    if (!response.ok) throw new Error('Failed to load passkeys')
+    const { passkeys } = (await response.json()) as {
+      passkeys: { credentialId: string; prfSalt: string; encryptedKek: string }[]
     }
+    if (passkeys.length === 0) throw new Error('No passkeys enrolled for this vault')
+
+    const { credentialId, prfOutput } = await evaluatePasskeyPrf(passkeys, options?.signal)
+    const passkey = passkeys.find((p) => p.credentialId === credentialId)
+    if (!passkey) throw new Error('Passkey is not enrolled for this vault')
+
+    const unwrappedKek = await unwrapKekWithPasskey(passkey.encryptedKek, prfOutput, credentialId)
+    await checkKek(unwrappedKek, metadata)
+
+    await encryptLegacyMetadata(unwrappedKek, metadata)
+    await tagLegacyChecksums(unwrappedKek, metadata)
+    setKek(unwrappedKek)
+    setVaultMetadata(metadata)
+  }
+
+  // Swap in a new KEK after a password change (the old KEK no longer unwraps any DEK)
+  const rekey = (newKek: Uint8Array, metadata: VaultMetadata) => {
+    setKek(newKek)
+    setVaultMetadata(metadata)
   }
 
   return (
-    <VaultContext.Provider value={{ kek, vaultMetadata, isUnlocked, unlock, lock }}>
+    <VaultContext.Provider
+      value={{ kek, vaultMetadata, isUnlocked, unlock, unlockWithPasskey, rekey, lock }}
+    >
       {children}
     </VaultContext.Provider>
   )
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db/prisma'
-import type { AuditActorType, AuditEventType, DocumentType } from '@prisma/client'
+import type { AuditActorType, AuditEventType } from '@prisma/client'
+import type { DocumentType } from '@/types/documents'
 import { headers } from 'next/headers'
 
 /**
@@ -17,6 +18,7 @@ export async function logAuditEvent(params: {
   eventType: AuditEventType
   linkId?: string | null
   docType?: DocumentType | null
+  partPosition?: number | null // 0-based part of a multi-part document
   watermarkReferenceId?: string | null
 }): Promise<void> {
   const headersList = await headers()
@@ -31,6 +33,7 @@ export async function logAuditEvent(params: {
       eventType: params.eventType,
       linkId: params.linkId,
       docType: params.docType,
+      partPosition: params.partPosition,
       watermarkReferenceId: params.watermarkReferenceId,
       userAgent,
       ip,
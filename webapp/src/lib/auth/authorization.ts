@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db/prisma'
 import type { TeamRole } from '@prisma/client'
+import { buildDocumentTypeCatalog } from '@/lib/vault/document-types'
 
 export interface VaultAccess {
   vaultId: string
@@ -7,20 +8,22 @@ export interface VaultAccess {
   permissions: {
     allowedDocTypes: string[]
   }
+  membershipId?: string // Set for team members, including co-owners; unset for the creating owner
 }
 
 /**
  * Get all vaults a user can access, along with their role and permissions
+ * Owners are the vault's creating owner and any co-owners (memberships with role owner)
  */
 export async function getUserVaultAccess(userId: string): Promise<VaultAccess[]> {
   // Get user profile
   const userProfile = await prisma.userProfile.findUnique({
     where: { userId },
     include: {
-      vault: true, // Owner vault
+      vault: { include: { documentTypes: true } }, // Owner vault
       teamMemberships: {
         include: {
-          vault: true,
+          vault: { include: { documentTypes: true } },
         },
       },
     },
@@ -38,7 +41,8 @@ export async function getUserVaultAccess(userId: string): Promise<VaultAccess[]>
       vaultId: userProfile.vault.id,
       role: 'owner',
       permissions: {
-        allowedDocTypes: ['ID', 'ProofOfAddress', 'SourceOfWealth'], // Owners have access to all doc types
+        // Owners have access to every type in the vault's catalog
+        allowedDocTypes: catalogKeys(userProfile.vault.documentTypes),
       },
     })
   }
@@ -50,14 +54,22 @@ export async function getUserVaultAccess(userId: string): Promise<VaultAccess[]>
       vaultId: membership.vaultId,
       role: membership.role,
       permissions: {
-        allowedDocTypes: permissions.allowedDocTypes || [],
+        allowedDocTypes:
+          membership.role === 'owner'
+            ? catalogKeys(membership.vault.documentTypes)
+            : permissions.allowedDocTypes || [],
       },
+      membershipId: membership.id,
     })
   }
 
   return access
 }
 
+function catalogKeys(definitions: { key: string; label: string }[]): string[] {
+  return buildDocumentTypeCatalog(definitions).map((t) => t.key)
+}
+
 /**
  * Get vault access for a specific vault
  */
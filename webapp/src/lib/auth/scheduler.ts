@@ -0,0 +1,21 @@
+/**
+ * Scheduler authentication
+ *
+ * Background jobs under /api/cron are called on a schedule with
+ * `Authorization: Bearer $CRON_SECRET`; without a configured secret they can't be called at all
+ */
+
+import type { NextRequest } from 'next/server'
+import { timingSafeEqual } from 'node:crypto'
+
+const cronSecret = process.env.CRON_SECRET
+
+/**
+ * Constant-time check of the scheduler's bearer token
+ */
+export function isAuthorizedScheduler(request: NextRequest): boolean {
+  if (!cronSecret) return false
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
@@ -0,0 +1,256 @@
+/**
+ * Encrypted vault backup archive
+ *
+ * A single file holding everything needed to restore a vault on this or another server,
+ * all of it already encrypted: every document part's ciphertext exactly as stored, the
+ * wrapped DEKs and encrypted metadata, and the vault's KDF parameters. Opening it takes the vault
+ * password or the recovery key; the server never sees either.
+ *
+ * Layout:
+ *   magic "UBGB" (4) | format version (1) | manifest length, uint32 BE (4) |
+ *   manifest (UTF-8 JSON, see backupManifestSchema) | part ciphertexts, in manifest order
+ *
+ * Format version 1 held one ciphertext per document; it is read as documents of one part.
+ * Each ciphertext is checked against its ciphertextChecksum (SHA-256 hex, as computed on
+ * upload) when the archive is built and again before it is imported.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import { kdfParamsSchema } from '@/lib/vault/kdf-params'
+import { documentTypeKeySchema, documentTypeLabelSchema } from '@/lib/vault/document-types'
+import { MAX_DOCUMENT_PARTS } from '@/lib/vault/document-parts'
+import { calendarDateSchema } from '@/lib/vault/document-expiry'
+import { z } from 'zod'
+
+const ARCHIVE_MAGIC = new TextEncoder().encode('UBGB')
+const ARCHIVE_VERSION = 2
+const ARCHIVE_HEADER_LENGTH = ARCHIVE_MAGIC.length + 1 + 4
+const CHECKSUM_SLICE_SIZE = 1024 * 1024
+
+/**
+ * Vault-level key material, as stored on the Vault row
+ */
+export const backupVaultSchema = z.object({
+  kdfSalt: z.string(),
+  kdfParams: kdfParamsSchema,
+  kekVerifier: z.string().nullable(),
+  recoverySalt: z.string().nullable(),
+  encryptedRecoveryKeyForOwner: z.string().nullable(),
+  recoveryKeyNonce: z.string().nullable(),
+  // The vault's own catalog entries (see document-types.ts); absent from older archives
+  documentTypes: z
+    .array(z.object({ key: documentTypeKeySchema, label: documentTypeLabelSchema }))
+    .default([]),
+})
+
+/**
+ * One part of a document, as stored on the DocumentPart row
+ * The id is kept on import: the part's ciphertext and metadata are bound to it (see envelope.ts)
+ */
+export const backupDocumentPartSchema = z.object({
+  id: z.string().uuid(),
+  size: z.number().int().positive(),
+  ciphertextChecksum: z.string(),
+  ciphertextChecksumTag: z.string().nullable().optional(), // See integrity.ts
+  encryptedMetadata: z.string().nullable(),
+})
+
+const archivedPartSchema = backupDocumentPartSchema.extend({
+  ciphertextLength: z.number().int().nonnegative(), // Bytes of this part in the archive
+})
+
+/**
+ * One document, as stored on the Document row, with its parts in order
+ * The id is kept on import: co-owner copies of the DEK are bound to it
+ */
+export const backupDocumentSchema = z.object({
+  id: z.string().uuid(),
+  docType: documentTypeKeySchema,
+  version: z.number().int().positive().default(1), // Older archives hold one version per type
+  current: z.boolean().default(true),
+  size: z.number().int().positive(),
+  uploadedAt: z.string().datetime(),
+  parts: z.array(backupDocumentPartSchema).min(1).max(MAX_DOCUMENT_PARTS),
+  encryptedDekForOwner: z.string(),
+  dekNonce: z.string(),
+  encryptedDekForRecovery: z.string().nullable(),
+  dekForRecoveryNonce: z.string().nullable(),
+  // Older archives have no dates
+  issuedOn: calendarDateSchema.nullable().default(null),
+  expiresOn: calendarDateSchema.nullable().default(null),
+  encryptedDates: z.string().nullable().default(null), // Sealed under the DEK, like the metadata
+})
+
+export const backupManifestSchema = z.object({
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: z.string().datetime(),
+  vault: backupVaultSchema,
+  documents: z.array(
+    backupDocumentSchema.extend({
+      parts: z.array(archivedPartSchema).min(1).max(MAX_DOCUMENT_PARTS),
+    })
+  ),
+})
+
+/**
+ * Format version 1: one ciphertext per document, described on the document itself.
+ * Parsed into a version 2 manifest whose documents have a single part under the document's
+ * id, which is what that part's ciphertext and metadata are bound to.
+ */
+const backupManifestV1Schema = z
+  .object({
+    version: z.literal(1),
+    exportedAt: z.string().datetime(),
+    vault: backupVaultSchema,
+    documents: z.array(
+      backupDocumentSchema
+        .omit({ parts: true })
+        .extend(archivedPartSchema.omit({ id: true, size: true }).shape)
+    ),
+  })
+  .transform((manifest): BackupManifest => ({
+    ...manifest,
+    version: ARCHIVE_VERSION,
+    documents: manifest.documents.map((doc) => {
+      const { ciphertextChecksum, ciphertextChecksumTag, encryptedMetadata, ciphertextLength } =
+        doc
+      return {
+        id: doc.id,
+        docType: doc.docType,
+        version: doc.version,
+        current: doc.current,
+        size: doc.size,
+        uploadedAt: doc.uploadedAt,
+        parts: [
+          {
+            id: doc.id,
+            size: doc.size,
+            ciphertextChecksum,
+            ciphertextChecksumTag,
+            encryptedMetadata,
+            ciphertextLength,
+          },
+        ],
+        encryptedDekForOwner: doc.encryptedDekForOwner,
+        dekNonce: doc.dekNonce,
+        encryptedDekForRecovery: doc.encryptedDekForRecovery,
+        dekForRecoveryNonce: doc.dekForRecoveryNonce,
+      }
+    }),
+  }))
+
+// Input types: manifests written by older clients may carry bare Argon2id costs
+export type BackupVault = z.input<typeof backupVaultSchema>
+export type BackupDocument = z.input<typeof backupDocumentSchema>
+export type BackupManifest = z.input<typeof backupManifestSchema>
+
+/**
+ * Thrown for a file that isn't a backup archive, or one that was damaged or altered
+ */
+export class InvalidBackupArchiveError extends Error {
+  constructor(message: string = 'This file is not a valid vault backup') {
+    super(message)
+    this.name = 'InvalidBackupArchiveError'
+  }
+}
+
+/**
+ * SHA-256 hex checksum of a blob, read one slice at a time
+ * Same value as Document.ciphertextChecksum for the stored ciphertext
+ */
+export async function checksumBlob(blob: Blob): Promise<string> {
+  const hash = sha256.create()
+  for (let start = 0; start < blob.size; start += CHECKSUM_SLICE_SIZE) {
+    hash.update(new Uint8Array(await blob.slice(start, start + CHECKSUM_SLICE_SIZE).arrayBuffer()))
+  }
+  return bytesToHex(hash.digest())
+}
+
+/**
+ * The parts of every document in a manifest, in archive order
+ */
+export function backupManifestParts(manifest: BackupManifest) {
+  return manifest.documents.flatMap((doc) => doc.parts.map((part) => ({ doc, part })))
+}
+
+/**
+ * Assemble the archive; ciphertexts are in the order of backupManifestParts
+ */
+export function buildBackupArchive(manifest: BackupManifest, ciphertexts: Blob[]): Blob {
+  const parts = backupManifestParts(manifest)
+  if (
+    ciphertexts.length !== parts.length ||
+    parts.some(({ part }, i) => part.ciphertextLength !== ciphertexts[i].size)
+  ) {
+    throw new Error('Backup ciphertexts do not match the manifest')
+  }
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest))
+  const header = new Uint8Array(ARCHIVE_HEADER_LENGTH)
+  header.set(ARCHIVE_MAGIC)
+  header[ARCHIVE_MAGIC.length] = ARCHIVE_VERSION
+  new DataView(header.buffer).setUint32(ARCHIVE_MAGIC.length + 1, manifestBytes.length)
+
+  return new Blob([header, manifestBytes, ...ciphertexts], { type: 'application/octet-stream' })
+}
+
+/**
+ * Split an archive into its manifest and per-part ciphertext slices, in the order of
+ * backupManifestParts
+ * Only the layout is checked here; checksums are verified with verifyBackupCiphertexts.
+ */
+export async function readBackupArchive(
+  archive: Blob
+): Promise<{ manifest: BackupManifest; ciphertexts: Blob[] }> {
+  const header = new Uint8Array(await archive.slice(0, ARCHIVE_HEADER_LENGTH).arrayBuffer())
+  if (
+    header.length < ARCHIVE_HEADER_LENGTH ||
+    ARCHIVE_MAGIC.some((byte, i) => header[i] !== byte)
+  ) {
+    throw new InvalidBackupArchiveError()
+  }
+  const formatVersion = header[ARCHIVE_MAGIC.length]
+  if (formatVersion < 1 || formatVersion > ARCHIVE_VERSION) {
+    throw new InvalidBackupArchiveError('This backup was made by a newer version of the app')
+  }
+
+  const manifestLength = new DataView(header.buffer).getUint32(ARCHIVE_MAGIC.length + 1)
+  const manifestEnd = ARCHIVE_HEADER_LENGTH + manifestLength
+
+  let manifest: BackupManifest
+  try {
+    const manifestText = await archive.slice(ARCHIVE_HEADER_LENGTH, manifestEnd).text()
+    const schema = formatVersion === 1 ? backupManifestV1Schema : backupManifestSchema
+    manifest = schema.parse(JSON.parse(manifestText))
+  } catch {
+    throw new InvalidBackupArchiveError()
+  }
+
+  const ciphertexts: Blob[] = []
+  let offset = manifestEnd
+  for (const { part } of backupManifestParts(manifest)) {
+    ciphertexts.push(archive.slice(offset, offset + part.ciphertextLength))
+    offset += part.ciphertextLength
+  }
+
+  if (offset !== archive.size) {
+    throw new InvalidBackupArchiveError('This backup is truncated or damaged')
+  }
+
+  return { manifest, ciphertexts }
+}
+
+/**
+ * Check every ciphertext in an archive against the checksum recorded at upload
+ */
+export async function verifyBackupCiphertexts(
+  manifest: BackupManifest,
+  ciphertexts: Blob[]
+): Promise<void> {
+  for (const [i, { doc, part }] of backupManifestParts(manifest).entries()) {
+    if ((await checksumBlob(ciphertexts[i])) !== part.ciphertextChecksum) {
+      throw new InvalidBackupArchiveError(`The ${doc.docType} document in this backup is damaged`)
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Browser key storage (browser only)
+ *
+ * Keeps ECDH key pairs in IndexedDB, one per purpose: a repeat vendor's key that share
+ * links are sealed to, a recovery contact's key that their share is sealed to, and the key
+ * a vault recovery request collects approvals under. Private keys are non-extractable
+ * CryptoKeys: scripts on the page can use them but can't read them out, and they never
+ * leave this browser. Clearing site data loses them.
+ */
+
+import { generateBrowserKeyPair, uint8ArrayToBase64 } from './vault-crypto'
+
+const DB_NAME = 'vendor-keys'
+const STORE_NAME = 'keys'
+
+export type BrowserKeyPurpose = 'vendor' | 'recovery-contact' | 'recovery-request'
+
+// The database and the vendor key's id predate the other purposes; kept so stored keys survive
+const STORE_KEYS: Record<BrowserKeyPurpose, string> = {
+  vendor: 'default',
+  'recovery-contact': 'recovery-contact',
+  'recovery-request': 'recovery-request',
+}
+
+export interface StoredBrowserKey {
+  publicKey: string // Base64 SPKI, as registered with the server
+  privateKey: CryptoKey
+  createdAt: string
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * The key pair held by this browser for a purpose, if one was created
+ */
+export async function loadBrowserKey(purpose: BrowserKeyPurpose): Promise<StoredBrowserKey | null> {
+  const stored = await runTransaction<StoredBrowserKey | undefined>('readonly', (store) =>
+    store.get(STORE_KEYS[purpose])
+  )
+  return stored ?? null
+}
+
+/**
+ * Create this browser's key pair for a purpose, replacing any previous one
+ * Anything sealed to the previous key can no longer be opened here.
+ */
+export async function createBrowserKey(purpose: BrowserKeyPurpose): Promise<StoredBrowserKey> {
+  const { publicKey, privateKey } = await generateBrowserKeyPair()
+  const stored: StoredBrowserKey = {
+    publicKey: uint8ArrayToBase64(publicKey),
+    privateKey,
+    createdAt: new Date().toISOString(),
+  }
+  await runTransaction('readwrite', (store) => store.put(stored, STORE_KEYS[purpose]))
+  return stored
+}
+
+/**
+ * Forget this browser's key pair for a purpose
+ */
+export async function deleteBrowserKey(purpose: BrowserKeyPurpose): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(STORE_KEYS[purpose]))
+}
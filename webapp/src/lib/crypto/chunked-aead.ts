@@ -0,0 +1,326 @@
+/**
+ * Chunked streaming AEAD for document ciphertext
+ *
+ * Large documents are encrypted as fixed-size segments so neither side has to hold
+ * the whole file (or a base64 copy of it) in memory.
+ *
+ * Stored as an AES_256_GCM_STREAM envelope (see envelope.ts):
+ *   header (17 bytes): magic "UBGE" (4) | version (1) | algorithm id (1) |
+ *                      segment size, uint32 BE (4) | nonce prefix (7)
+ *   segments: AES-256-GCM(plaintext segment) with 16-byte auth tag appended
+ *
+ * Each segment's nonce is [nonce prefix (7)][segment index, uint32 BE (4)][final flag (1)],
+ * so reordering, dropping or truncating segments fails authentication. The header plus
+ * the document context (id and doc type) is the AAD of every segment.
+ *
+ * Chunked documents written before the envelope existed ("UBGS" header, 16 bytes, header-only
+ * AAD) are still readable.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex } from '@noble/hashes/utils.js'
+import {
+  EnvelopeAlgorithm,
+  ENVELOPE_HEADER_LENGTH,
+  ENVELOPE_PREFIX_LENGTH,
+  envelopePrefix,
+  envelopeAad,
+  parseCiphertextLayout,
+  isStreamingLayout,
+} from './envelope'
+
+export const CHUNKED_HEADER_LENGTH = ENVELOPE_HEADER_LENGTH[EnvelopeAlgorithm.AES_256_GCM_STREAM]
+export const DEFAULT_SEGMENT_SIZE = 1024 * 1024 // 1 MiB of plaintext per segment
+const NONCE_PREFIX_LENGTH = 7
+const AUTH_TAG_LENGTH = 16
+
+export interface ChunkedCryptoOptions {
+  onProgress?: (progress: number) => void // 0..1
+  signal?: AbortSignal
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('Crypto task was cancelled', 'AbortError')
+  }
+}
+
+async function importSegmentKey(dek: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new Uint8Array(dek), { name: 'AES-GCM' }, false, [usage])
+}
+
+function segmentNonce(noncePrefix: Uint8Array, index: number, final: boolean): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(12)
+  nonce.set(noncePrefix)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index)
+  nonce[11] = final ? 1 : 0
+  return nonce
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(a.length + b.length)
+  joined.set(a)
+  joined.set(b, a.length)
+  return joined
+}
+
+/**
+ * Check whether ciphertext bytes start with a chunked (segmented) header
+ * Needs at least the first ENVELOPE_PREFIX_LENGTH bytes
+ */
+export function isChunkedCiphertext(bytes: Uint8Array): boolean {
+  return bytes.length >= ENVELOPE_PREFIX_LENGTH && isStreamingLayout(parseCiphertextLayout(bytes))
+}
+
+/**
+ * Size of the ciphertext encryptBlobChunked makes of a plaintext
+ * Lets the server check a stored ciphertext against the file size the client declared
+ */
+export function chunkedCiphertextSize(
+  plaintextSize: number,
+  segmentSize: number = DEFAULT_SEGMENT_SIZE
+): number {
+  const segmentCount = Math.max(1, Math.ceil(plaintextSize / segmentSize))
+  return CHUNKED_HEADER_LENGTH + plaintextSize + segmentCount * AUTH_TAG_LENGTH
+}
+
+/**
+ * The most bytes a plaintext's ciphertext takes in any format documents have been stored in
+ * Backups can hold single-blob envelopes from before chunked uploads, a byte longer than a
+ * one-segment chunked ciphertext, so imports check stored sizes against this instead.
+ */
+export function archivedCiphertextSize(plaintextSize: number): number {
+  return Math.max(
+    chunkedCiphertextSize(plaintextSize),
+    ENVELOPE_HEADER_LENGTH[EnvelopeAlgorithm.AES_256_GCM] + plaintextSize + AUTH_TAG_LENGTH
+  )
+}
+
+/**
+ * Read segment parameters from a complete chunked header
+ */
+function parseHeader(header: Uint8Array): { segmentSize: number; noncePrefix: Uint8Array } {
+  const layout = parseCiphertextLayout(header)
+  if (!isStreamingLayout(layout) || layout.format === 'legacy') {
+    throw new Error('Invalid chunked ciphertext header')
+  }
+
+  // Segment size and nonce prefix are the last 11 bytes of either header version
+  const paramsOffset = layout.headerLength - 4 - NONCE_PREFIX_LENGTH
+  const segmentSize = new DataView(header.buffer, header.byteOffset, header.length).getUint32(
+    paramsOffset
+  )
+  if (segmentSize === 0) {
+    throw new Error('Invalid chunked ciphertext segment size')
+  }
+
+  return { segmentSize, noncePrefix: header.slice(paramsOffset + 4, layout.headerLength) }
+}
+
+/**
+ * Encrypt a file segment by segment, reading one slice of it at a time
+ * Returns the ciphertext as a Blob (suitable for direct upload) and the SHA-256 hex
+ * checksum of the whole ciphertext, computed incrementally.
+ */
+export async function encryptBlobChunked(
+  file: Blob,
+  dek: Uint8Array,
+  context: Uint8Array,
+  options: ChunkedCryptoOptions = {},
+  segmentSize: number = DEFAULT_SEGMENT_SIZE
+): Promise<{ ciphertext: Blob; ciphertextChecksum: string }> {
+  const { onProgress, signal } = options
+  const key = await importSegmentKey(dek, 'encrypt')
+
+  const header = new Uint8Array(CHUNKED_HEADER_LENGTH)
+  header.set(envelopePrefix(EnvelopeAlgorithm.AES_256_GCM_STREAM))
+  new DataView(header.buffer).setUint32(ENVELOPE_PREFIX_LENGTH, segmentSize)
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH))
+  header.set(noncePrefix, ENVELOPE_PREFIX_LENGTH + 4)
+  const additionalData = envelopeAad(header, context)
+
+  const hash = sha256.create()
+  hash.update(header)
+  const parts: BlobPart[] = [header]
+
+  // An empty file still gets one (empty) final segment so truncation is detectable
+  const segmentCount = Math.max(1, Math.ceil(file.size / segmentSize))
+  for (let index = 0; index < segmentCount; index++) {
+    throwIfAborted(signal)
+
+    const start = index * segmentSize
+    const plaintext = new Uint8Array(await file.slice(start, start + segmentSize).arrayBuffer())
+    const segment = new Uint8Array(
+      await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: segmentNonce(noncePrefix, index, index === segmentCount - 1),
+          additionalData,
+          tagLength: AUTH_TAG_LENGTH * 8,
+        },
+        key,
+        plaintext
+      )
+    )
+
+    hash.update(segment)
+    parts.push(segment)
+    onProgress?.((index + 1) / segmentCount)
+  }
+
+  return {
+    ciphertext: new Blob(parts, { type: 'application/octet-stream' }),
+    ciphertextChecksum: bytesToHex(hash.digest()),
+  }
+}
+
+/**
+ * Streaming decryptor for chunked ciphertext
+ * Emits each plaintext segment as soon as it authenticates; errors if the stream ends
+ * without an authenticated final segment or carries data after it.
+ */
+export function createChunkedDecryptStream(
+  dek: Uint8Array,
+  context: Uint8Array
+): TransformStream<Uint8Array, Uint8Array> {
+  const keyPromise = importSegmentKey(dek, 'decrypt')
+  let additionalData: Uint8Array<ArrayBuffer> | null = null
+  let segmentSize = 0
+  let noncePrefix: Uint8Array = new Uint8Array(0)
+  let index = 0
+  let buffered: Uint8Array = new Uint8Array(0)
+
+  async function decryptSegment(segment: Uint8Array, final: boolean): Promise<Uint8Array> {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: segmentNonce(noncePrefix, index, final),
+        additionalData: additionalData!,
+        tagLength: AUTH_TAG_LENGTH * 8,
+      },
+      await keyPromise,
+      new Uint8Array(segment)
+    )
+    index++
+    return new Uint8Array(plaintext)
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      buffered = concatBytes(buffered, chunk)
+
+      if (!additionalData) {
+        if (buffered.length < ENVELOPE_PREFIX_LENGTH) return
+        const layout = parseCiphertextLayout(buffered)
+        if (layout.format === 'legacy') throw new Error('Invalid chunked ciphertext header')
+        if (buffered.length < layout.headerLength) return
+
+        const header = buffered.slice(0, layout.headerLength)
+        ;({ segmentSize, noncePrefix } = parseHeader(header))
+        // Pre-envelope chunked documents authenticate their header only
+        additionalData =
+          layout.format === 'chunked-v1' ? new Uint8Array(header) : envelopeAad(header, context)
+        buffered = buffered.slice(layout.headerLength)
+      }
+
+      // Keep at least one full segment back: only the last one may be marked final
+      const encryptedSegmentSize = segmentSize + AUTH_TAG_LENGTH
+      while (buffered.length > encryptedSegmentSize) {
+        controller.enqueue(await decryptSegment(buffered.slice(0, encryptedSegmentSize), false))
+        buffered = buffered.slice(encryptedSegmentSize)
+      }
+    },
+
+    async flush(controller) {
+      if (!additionalData || buffered.length < AUTH_TAG_LENGTH) {
+        throw new Error('Chunked ciphertext is truncated')
+      }
+      controller.enqueue(await decryptSegment(buffered, true))
+    },
+  })
+}
+
+/**
+ * Decrypt a chunked ciphertext stream into a Blob of plaintext segments
+ */
+export async function decryptStreamChunked(
+  stream: ReadableStream<Uint8Array>,
+  dek: Uint8Array,
+  context: Uint8Array,
+  options: ChunkedCryptoOptions = {}
+): Promise<Blob> {
+  const parts: BlobPart[] = []
+  const reader = stream.pipeThrough(createChunkedDecryptStream(dek, context)).getReader()
+
+  try {
+    for (;;) {
+      throwIfAborted(options.signal)
+      const { done, value } = await reader.read()
+      if (done) break
+      parts.push(new Uint8Array(value))
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {})
+    throw error
+  }
+
+  return new Blob(parts)
+}
+
+/**
+ * Decrypt chunked ciphertext already held in memory
+ */
+export async function decryptBytesChunked(
+  ciphertext: Uint8Array,
+  dek: Uint8Array,
+  context: Uint8Array
+): Promise<Uint8Array> {
+  const stream = new Blob([ciphertext as Uint8Array<ArrayBuffer>]).stream()
+  const plaintext = await decryptStreamChunked(stream, dek, context)
+  return new Uint8Array(await plaintext.arrayBuffer())
+}
+
+/**
+ * Read the start of a ciphertext stream to tell chunked from legacy single-blob format
+ * Returns the format plus a stream that replays the bytes already consumed
+ */
+export async function sniffCiphertextStream(
+  stream: ReadableStream<Uint8Array>
+): Promise<{ chunked: boolean; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader()
+  let head: Uint8Array = new Uint8Array(0)
+  let done = false
+
+  while (!done && head.length < ENVELOPE_PREFIX_LENGTH) {
+    const result = await reader.read()
+    done = result.done
+    if (result.value) head = concatBytes(head, result.value)
+  }
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head.length > 0) controller.enqueue(head)
+      if (done) controller.close()
+    },
+    async pull(controller) {
+      const result = await reader.read()
+      if (result.done) {
+        controller.close()
+      } else {
+        controller.enqueue(result.value)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  return { chunked: isChunkedCiphertext(head), stream: replay }
+}
+
+/**
+ * Collect a stream into a single Uint8Array (used for legacy single-blob documents)
+ */
+export async function readStreamToBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
@@ -5,32 +5,73 @@
 
 import {
   generateSalt,
-  deriveKek,
-  generateDek,
-  encryptDocument,
-  decryptDocument,
-  encryptDek,
-  decryptDek,
-  computeChecksum,
   uint8ArrayToBase64,
   base64ToUint8Array,
-  unwrapLskWithVendorSecret,
-  unwrapDekWithLsk,
+  deriveWrapKeyFromVendorSecret,
+  deriveRecoveryKey,
+  derivePasskeyWrapKey,
+  generateOwnerKeyPair,
+  deriveOwnerSealKey,
+  deriveOwnerOpenKey,
+  deriveVendorKeySealKey,
+  deriveVendorKeyOpenKey,
+  deriveRecoveryShareSealKey,
+  deriveRecoveryShareOpenKey,
+  computeChecksum,
   type KdfParams,
-  type EncryptedDocument,
-  type EncryptedDek,
 } from './vault-crypto'
 import { validateAndNormalizeVendorSecret, vendorSecretToBytes } from './vendor-secret'
+import { generateRecoveryKey, recoveryKeyToBytes } from './recovery-key'
+import { splitSecret, combineShares } from './shamir'
+import { runCryptoTask, type CryptoTaskOptions } from './crypto-service'
+import { decryptStreamChunked, sniffCiphertextStream, readStreamToBytes } from './chunked-aead'
+import {
+  sealAesGcm,
+  openAesGcm,
+  documentContext,
+  documentMetadataContext,
+  documentDatesContext,
+  passkeyContext,
+  coOwnerDekContext,
+  vendorKeyLskContext,
+  recoveryShareContext,
+  recoveryApprovalContext,
+  type DocumentContext,
+} from './envelope'
+import {
+  createChecksumTag,
+  verifyExpectedCiphertext,
+  checksumStream,
+  CiphertextIntegrityError,
+  type ExpectedCiphertext,
+} from './integrity'
+import {
+  InvalidBackupArchiveError,
+  type BackupDocument,
+  type BackupManifest,
+  type BackupVault,
+} from './backup-archive'
+import type { DocumentDetails } from '@/types/documents'
+import { documentDatesSchema, type DocumentDates } from '@/lib/vault/document-expiry'
+import { DEFAULT_KDF_PARAMS, KDF_POLICY_VERSION } from '@/lib/vault/kdf-params'
+
+export type { CryptoTaskOptions } from './crypto-service'
+export type { DocumentContext } from './envelope'
+export { CiphertextIntegrityError, type ExpectedCiphertext } from './integrity'
+export { DEFAULT_KDF_PARAMS, KDF_POLICY_VERSION }
 
 /**
- * Default KDF parameters for Argon2id
- * Note: Time cost is increased (12 vs 3) to compensate for slower JS implementation
- * compared to WASM. This maintains similar brute-force resistance.
+ * Check whether a vault's KDF descriptor is below current policy
+ * Descriptors without algorithm/version are legacy Argon2id, policy version 1
  */
-export const DEFAULT_KDF_PARAMS: KdfParams = {
-  memory: 65536, // 64 MB
-  time: 12, // 12 iterations (increased from 3 to compensate for JS performance)
-  parallelism: 4, // 4 threads
+export function kdfNeedsUpgrade(params: KdfParams): boolean {
+  return (
+    (params.algorithm ?? 'argon2id') !== DEFAULT_KDF_PARAMS.algorithm ||
+    (params.version ?? 1) < KDF_POLICY_VERSION ||
+    params.memory < DEFAULT_KDF_PARAMS.memory ||
+    params.time < DEFAULT_KDF_PARAMS.time ||
+    params.parallelism < DEFAULT_KDF_PARAMS.parallelism
+  )
 }
 
 /**
@@ -46,125 +87,1258 @@ export async function initializeVault() {
 
 /**
  * Unlock vault: derive KEK from password
+ * Argon2id runs in the crypto worker; options report progress and allow cancellation
  */
-export async function unlockVault(password: string, kdfSalt: string, kdfParams: KdfParams) {
+export async function unlockVault(
+  password: string,
+  kdfSalt: string,
+  kdfParams: KdfParams,
+  options?: CryptoTaskOptions
+) {
   const salt = base64ToUint8Array(kdfSalt)
-  const kek = await deriveKek(password, salt, kdfParams)
+  const kek = await runCryptoTask({ type: 'deriveKek', password, salt, params: kdfParams }, options)
   return kek
 }
 
 /**
- * Encrypt file for upload
- * Returns all data needed to commit the upload
+ * Thrown when a password derives a KEK that does not match the vault's key-check value
  */
-export async function encryptFileForUpload(
-  file: File,
-  kek: Uint8Array
-): Promise<{
-  ciphertext: Uint8Array
+export class WrongVaultPasswordError extends Error {
+  constructor() {
+    super('Wrong vault password')
+    this.name = 'WrongVaultPasswordError'
+  }
+}
+
+// Known plaintext encrypted under the KEK; only the right KEK passes the GCM tag check
+const KEK_VERIFIER_PLAINTEXT = new TextEncoder().encode('ubo-guard-kek-verifier-v1')
+
+/**
+ * Create the key-check value stored on the vault
+ * Format: AES-256-GCM envelope (see envelope.ts), base64
+ */
+export async function createKekVerifier(kek: Uint8Array): Promise<string> {
+  const { envelope } = await sealAesGcm(KEK_VERIFIER_PLAINTEXT, kek)
+  return uint8ArrayToBase64(envelope)
+}
+
+/**
+ * Check a derived KEK against the vault's key-check value
+ * Returns false (never throws) for a wrong KEK or a malformed verifier
+ */
+export async function verifyKek(kek: Uint8Array, kekVerifierBase64: string): Promise<boolean> {
+  try {
+    const plaintext = await openAesGcm(base64ToUint8Array(kekVerifierBase64), kek)
+
+    return (
+      plaintext.length === KEK_VERIFIER_PLAINTEXT.length &&
+      plaintext.every((byte, i) => byte === KEK_VERIFIER_PLAINTEXT[i])
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wrap a copy of the KEK for an enrolled passkey
+ * The wrapping key comes from the credential's WebAuthn PRF output, which the authenticator
+ * only releases after user verification; the copy is bound to the credential id.
+ * Format: AES-256-GCM envelope, base64
+ */
+export async function wrapKekForPasskey(
+  kek: Uint8Array,
+  prfOutput: Uint8Array,
+  credentialId: string
+): Promise<string> {
+  const wrapKey = await derivePasskeyWrapKey(prfOutput)
+  const { envelope } = await sealAesGcm(kek, wrapKey, passkeyContext(credentialId))
+  return uint8ArrayToBase64(envelope)
+}
+
+/**
+ * Unwrap a passkey's copy of the KEK (inverse of wrapKekForPasskey)
+ */
+export async function unwrapKekWithPasskey(
+  encryptedKekBase64: string,
+  prfOutput: Uint8Array,
+  credentialId: string
+): Promise<Uint8Array> {
+  const wrapKey = await derivePasskeyWrapKey(prfOutput)
+  return openAesGcm(base64ToUint8Array(encryptedKekBase64), wrapKey, passkeyContext(credentialId))
+}
+
+/**
+ * A file to store as one part of a document, under the part id prepare-upload handed out
+ */
+export interface DocumentPartFile {
+  id: string
+  file: File
+}
+
+/**
+ * One encrypted part, in the shape commit-upload takes it (plus the ciphertext to store)
+ */
+export interface EncryptedPart {
+  id: string
+  ciphertext: Blob // Streaming envelope, see chunked-aead.ts
+  ciphertextChecksum: string
+  ciphertextChecksumTag: string
+  encryptedMetadata: string
+}
+
+/**
+ * Everything commit-upload needs for a freshly encrypted document version
+ */
+export interface EncryptedUpload {
+  parts: EncryptedPart[]
   encryptedDekForOwner: string
   dekNonce: string
-  ciphertextChecksum: string
-}> {
-  // Read file as bytes
-  const fileBytes = new Uint8Array(await file.arrayBuffer())
+  encryptedDekForRecovery?: string
+  dekForRecoveryNonce?: string
+  coOwnerDeks: { membershipId: string; sealedDek: string }[]
+}
+
+/**
+ * Encrypt a document's parts under a fresh DEK and wrap it for every owner (see
+ * encryptFileForUpload). The DEK is returned too, for callers that wrap it further
+ */
+async function encryptWithNewDek(
+  files: DocumentPartFile[],
+  kek: Uint8Array,
+  context: DocumentContext,
+  recoveryWrapKey: Uint8Array | null | undefined,
+  coOwners: CoOwnerRecipient[],
+  options?: CryptoTaskOptions
+): Promise<{ upload: EncryptedUpload; dek: Uint8Array }> {
+  // The first part generates the DEK in the crypto worker, later parts are encrypted under
+  // it. Each file is read one segment at a time, never as a whole; parts go one after
+  // another and progress is reported across all of them
+  let dek: Uint8Array | undefined
+  const parts: EncryptedPart[] = []
+  for (const [i, { id, file }] of files.entries()) {
+    const partContext = { docId: id, docType: context.docType }
+    const encrypted = await runCryptoTask(
+      { type: 'encryptDocument', file, context: partContext, dek },
+      {
+        ...options,
+        onProgress: (progress) => options?.onProgress?.((i + progress) / files.length),
+      }
+    )
+    dek = encrypted.dek
 
-  // Generate DEK and encrypt document
-  const dek = generateDek()
-  const encrypted = await encryptDocument(fileBytes, dek)
+    parts.push({
+      id,
+      ciphertext: encrypted.ciphertext,
+      ciphertextChecksum: encrypted.ciphertextChecksum,
+      ciphertextChecksumTag: await createChecksumTag(
+        encrypted.ciphertextChecksum,
+        dek,
+        partContext
+      ),
+      encryptedMetadata: await sealDocumentDetails(
+        { filename: file.name, mimeType: file.type || 'application/octet-stream' },
+        dek,
+        partContext
+      ),
+    })
+  }
+  if (!dek) throw new Error('A document needs at least one part')
+
+  // Encrypt DEK with KEK
+  const { encryptedDekForOwner, dekNonce } = await wrapDekForOwner(dek, kek)
+
+  // Second wrap under the recovery key (same layout as the owner wrap)
+  const recoveryWrap = recoveryWrapKey ? await wrapDekForRecovery(dek, recoveryWrapKey) : {}
 
-  // Combine ciphertext + nonce + auth tag for storage
-  const ciphertextWithMetadata = new Uint8Array(
-    encrypted.ciphertext.length + encrypted.nonce.length + encrypted.authTag.length
+  // Co-owner copies are bound to the document, not to any one part
+  const documentDek = dek
+  const coOwnerDeks = await Promise.all(
+    coOwners.map(async (coOwner) => ({
+      membershipId: coOwner.membershipId,
+      sealedDek: await sealDekForCoOwner(documentDek, coOwner.publicKey, context),
+    }))
   )
-  ciphertextWithMetadata.set(encrypted.ciphertext)
-  ciphertextWithMetadata.set(encrypted.nonce, encrypted.ciphertext.length)
-  ciphertextWithMetadata.set(encrypted.authTag, encrypted.ciphertext.length + encrypted.nonce.length)
 
-  // Compute checksum of ciphertext blob
-  const checksum = await computeChecksum(ciphertextWithMetadata)
+  return {
+    upload: {
+      parts,
+      encryptedDekForOwner,
+      dekNonce,
+      ...recoveryWrap,
+      coOwnerDeks,
+    },
+    dek,
+  }
+}
 
-  // Encrypt DEK with KEK
-  const encryptedDek = await encryptDek(dek, kek)
+/**
+ * Encrypt a document's files for upload, in part order, all under one DEK
+ * Returns all data needed to commit the upload; filenames and MIME types are sealed under
+ * the DEK too, so they never reach the server in plaintext
+ * Each part's ciphertext is bound to its part id and the doc type it will be committed
+ * under, and its checksum is tagged under the DEK so readers can tell if storage returns
+ * anything else. context is the document's own id and doc type
+ * If the vault has a recovery kit, pass the unwrapped recovery key to add the second DEK wrap
+ * The DEK is also sealed to every co-owner, who each need their own copy
+ */
+export async function encryptFileForUpload(
+  files: DocumentPartFile[],
+  kek: Uint8Array,
+  context: DocumentContext,
+  recoveryWrapKey?: Uint8Array | null,
+  coOwners: CoOwnerRecipient[] = [],
+  options?: CryptoTaskOptions
+): Promise<EncryptedUpload> {
+  const { upload } = await encryptWithNewDek(
+    files,
+    kek,
+    context,
+    recoveryWrapKey,
+    coOwners,
+    options
+  )
+  return upload
+}
 
-  // Combine encrypted DEK + nonce + auth tag
-  const encryptedDekWithMetadata = new Uint8Array(
-    encryptedDek.encryptedDek.length + encryptedDek.nonce.length + encryptedDek.authTag.length
+/**
+ * A document's new DEK wrapped for one of the share links that keep access to it
+ */
+export interface LinkDekWrap {
+  shareLinkId: string
+  encryptedDekForLink: string
+  dekForLinkNonce: string
+}
+
+/**
+ * Re-encrypt a document under a fresh DEK (key rotation)
+ * files are the decrypted parts under their existing part ids; they are encrypted exactly
+ * like a new upload, and the new DEK is wrapped for each link in keepLinks with the LSK
+ * recovered from the owner's copy.
+ * Every LSK is unwrapped before anything is encrypted, so a link whose key can't be recovered
+ * fails the rotation up front.
+ */
+export async function rotateDocumentKey(
+  files: DocumentPartFile[],
+  kek: Uint8Array,
+  context: DocumentContext,
+  keepLinks: OwnerWrappedLsk[],
+  recoveryWrapKey?: Uint8Array | null,
+  coOwners: CoOwnerRecipient[] = [],
+  options?: CryptoTaskOptions
+): Promise<EncryptedUpload & { linkDeks: LinkDekWrap[] }> {
+  const lsks = await Promise.all(
+    keepLinks.map((link) => unwrapLskForOwner(link.encryptedLskForOwner, kek))
   )
-  encryptedDekWithMetadata.set(encryptedDek.encryptedDek)
-  encryptedDekWithMetadata.set(encryptedDek.nonce, encryptedDek.encryptedDek.length)
-  encryptedDekWithMetadata.set(
-    encryptedDek.authTag,
-    encryptedDek.encryptedDek.length + encryptedDek.nonce.length
+
+  const { upload, dek } = await encryptWithNewDek(
+    files,
+    kek,
+    context,
+    recoveryWrapKey,
+    coOwners,
+    options
   )
 
-  return {
-    ciphertext: ciphertextWithMetadata,
-    encryptedDekForOwner: uint8ArrayToBase64(encryptedDekWithMetadata),
-    dekNonce: uint8ArrayToBase64(encryptedDek.nonce), // Store nonce separately for convenience
-    ciphertextChecksum: checksum,
+  const linkDeks = await Promise.all(
+    keepLinks.map(async (link, i) => {
+      const { encryptedDek, nonce } = await wrapDekForLink(dek, lsks[i])
+      return { shareLinkId: link.id, encryptedDekForLink: encryptedDek, dekForLinkNonce: nonce }
+    })
+  )
+
+  return { ...upload, linkDeks }
+}
+
+/**
+ * Wrap a document's existing DEK for share links moving to it from an earlier version
+ * Each LSK is recovered from the owner's copy; like rotateDocumentKey, every key is unwrapped
+ * before anything is wrapped, so a link whose key can't be recovered fails up front.
+ */
+export async function wrapDekForLinks(
+  encryptedDekForOwner: string,
+  dekNonce: string,
+  kek: Uint8Array,
+  links: OwnerWrappedLsk[]
+): Promise<LinkDekWrap[]> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwner, dekNonce, kek)
+  const lsks = await Promise.all(
+    links.map((link) => unwrapLskForOwner(link.encryptedLskForOwner, kek))
+  )
+
+  return Promise.all(
+    links.map(async (link, i) => {
+      const { encryptedDek, nonce } = await wrapDekForLink(dek, lsks[i])
+      return { shareLinkId: link.id, encryptedDekForLink: encryptedDek, dekForLinkNonce: nonce }
+    })
+  )
+}
+
+/**
+ * Seal a document's descriptive metadata under its DEK
+ * Format: AES-256-GCM envelope of the JSON-encoded details, base64
+ */
+async function sealDocumentDetails(
+  details: DocumentDetails,
+  dek: Uint8Array,
+  context: DocumentContext
+): Promise<string> {
+  const plaintext = new TextEncoder().encode(JSON.stringify(details))
+  const { envelope } = await sealAesGcm(plaintext, dek, documentMetadataContext(context))
+  return uint8ArrayToBase64(envelope)
+}
+
+/**
+ * Open a document's encrypted metadata (inverse of sealDocumentDetails)
+ */
+async function openDocumentDetails(
+  encryptedMetadataBase64: string,
+  dek: Uint8Array,
+  context: DocumentContext
+): Promise<DocumentDetails> {
+  const plaintext = await openAesGcm(
+    base64ToUint8Array(encryptedMetadataBase64),
+    dek,
+    documentMetadataContext(context)
+  )
+  const details = JSON.parse(new TextDecoder().decode(plaintext))
+  if (typeof details?.filename !== 'string' || typeof details?.mimeType !== 'string') {
+    throw new Error('Invalid document metadata')
   }
+  return details
+}
+
+/**
+ * Encrypt metadata for an existing document under its DEK
+ * Used to migrate documents uploaded while filenames were stored in plaintext
+ */
+export async function encryptDocumentDetailsForOwner(
+  details: DocumentDetails,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext
+): Promise<string> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  return sealDocumentDetails(details, dek, context)
+}
+
+/**
+ * Tag the stored checksum of an existing part under its document's DEK
+ * Used to tag parts uploaded before checksum tags existed
+ */
+export async function createChecksumTagForOwner(
+  checksum: string,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext
+): Promise<string> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  return createChecksumTag(checksum, dek, context)
+}
+
+/**
+ * Decrypt a document's metadata for the owner
+ */
+export async function decryptDocumentDetailsForOwner(
+  encryptedMetadataBase64: string,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext
+): Promise<DocumentDetails> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  return openDocumentDetails(encryptedMetadataBase64, dek, context)
+}
+
+/**
+ * Seal a document's issue and expiry dates under its DEK, for owners who keep them private
+ * context is the document's own id and doc type; the dates belong to the whole document
+ */
+export async function encryptDocumentDatesForOwner(
+  dates: DocumentDates,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext
+): Promise<string> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  const plaintext = new TextEncoder().encode(JSON.stringify(dates))
+  const { envelope } = await sealAesGcm(plaintext, dek, documentDatesContext(context))
+  return uint8ArrayToBase64(envelope)
+}
+
+/**
+ * Open a document's encrypted dates (inverse of encryptDocumentDatesForOwner)
+ */
+export async function decryptDocumentDatesForOwner(
+  encryptedDatesBase64: string,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext
+): Promise<DocumentDates> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  const plaintext = await openAesGcm(
+    base64ToUint8Array(encryptedDatesBase64),
+    dek,
+    documentDatesContext(context)
+  )
+  return documentDatesSchema.parse(JSON.parse(new TextDecoder().decode(plaintext)))
 }
 
 /**
  * Decrypt file for download
+ * The ciphertext is checked against its expected checksum first; AES-GCM runs in the
+ * crypto worker and accepts every stored layout
+ * Throws CiphertextIntegrityError if the ciphertext isn't what was uploaded
  */
 export async function decryptFileForDownload(
   ciphertextBase64: string,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext,
+  expected: ExpectedCiphertext,
+  options?: CryptoTaskOptions
+): Promise<Uint8Array> {
+  // Decrypt DEK
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  await verifyExpectedCiphertext(expected, dek, context)
+
+  // Decode, check and decrypt document
+  const ciphertext = base64ToUint8Array(ciphertextBase64)
+  if ((await computeChecksum(ciphertext)) !== expected.ciphertextChecksum) {
+    throw new CiphertextIntegrityError()
+  }
+  return runCryptoTask({ type: 'decryptDocument', ciphertext, dek, context }, options)
+}
+
+/**
+ * Decrypt a ciphertext stream with a DEK
+ * Segmented ciphertext is decrypted segment by segment as it arrives; single-shot and
+ * legacy ciphertext has to be read whole and is decrypted in the crypto worker.
+ * The stream is hashed on the way through and the plaintext only returned if it matches
+ * the expected checksum; ciphertext that fails to decrypt is reported the same way.
+ */
+async function decryptCiphertextStream(
+  stream: ReadableStream<Uint8Array>,
+  dek: Uint8Array,
+  context: DocumentContext,
+  expected: ExpectedCiphertext,
+  options?: CryptoTaskOptions
+): Promise<Blob> {
+  await verifyExpectedCiphertext(expected, dek, context)
+  const hashed = checksumStream(stream)
+
+  let plaintext: Blob
+  try {
+    const sniffed = await sniffCiphertextStream(hashed.stream)
+    if (sniffed.chunked) {
+      plaintext = await decryptStreamChunked(sniffed.stream, dek, documentContext(context), options)
+    } else {
+      const ciphertext = await readStreamToBytes(sniffed.stream)
+      const bytes = await runCryptoTask(
+        { type: 'decryptDocument', ciphertext, dek, context },
+        options
+      )
+      plaintext = new Blob([new Uint8Array(bytes)])
+    }
+  } catch (error) {
+    if (options?.signal?.aborted) throw error
+    throw new CiphertextIntegrityError()
+  }
+
+  if (hashed.checksum() !== expected.ciphertextChecksum) throw new CiphertextIntegrityError()
+  return plaintext
+}
+
+/**
+ * Decrypt a downloaded ciphertext stream (e.g. a fetch response body) for the owner
+ */
+export async function decryptFileStreamForDownload(
+  stream: ReadableStream<Uint8Array>,
+  encryptedDekForOwnerBase64: string,
+  dekNonceBase64: string,
+  kek: Uint8Array,
+  context: DocumentContext,
+  expected: ExpectedCiphertext,
+  options?: CryptoTaskOptions
+): Promise<Blob> {
+  const dek = await unwrapDekForOwner(encryptedDekForOwnerBase64, dekNonceBase64, kek)
+  return decryptCiphertextStream(stream, dek, context, expected, options)
+}
+
+/**
+ * Wrap a DEK with the owner KEK
+ * Format: encryptedDekForOwner is an AES-256-GCM envelope (see envelope.ts);
+ * dekNonce repeats the envelope's nonce for the Document.dekNonce column
+ */
+export async function wrapDekForOwner(
+  dek: Uint8Array,
+  kek: Uint8Array
+): Promise<{ encryptedDekForOwner: string; dekNonce: string }> {
+  const { envelope, nonce } = await sealAesGcm(dek, kek)
+
+  return {
+    encryptedDekForOwner: uint8ArrayToBase64(envelope),
+    dekNonce: uint8ArrayToBase64(nonce),
+  }
+}
+
+/**
+ * Unwrap a DEK with the owner KEK (inverse of wrapDekForOwner)
+ * Also reads legacy [encryptedDek][nonce][authTag] wraps. The nonce is taken from the
+ * blob; dekNonceBase64 is the stored copy of it and isn't needed.
+ */
+export async function unwrapDekForOwner(
   encryptedDekForOwnerBase64: string,
   dekNonceBase64: string,
   kek: Uint8Array
 ): Promise<Uint8Array> {
-  // Decode base64 strings
-  const ciphertextWithMetadata = base64ToUint8Array(ciphertextBase64)
-  const encryptedDekWithMetadata = base64ToUint8Array(encryptedDekForOwnerBase64)
-  const dekNonce = base64ToUint8Array(dekNonceBase64)
+  return openAesGcm(base64ToUint8Array(encryptedDekForOwnerBase64), kek)
+}
 
-  // Extract encrypted DEK components
-  // Format: [encryptedDek (32 bytes)][nonce (12 bytes)][authTag (16 bytes)]
-  // Note: nonce is stored separately in dekNonce parameter, so we extract:
-  const encryptedDek = encryptedDekWithMetadata.slice(0, -(12 + 16)) // Everything except nonce + authTag
-  const dekAuthTag = encryptedDekWithMetadata.slice(-16) // Last 16 bytes = authTag
+/**
+ * Owner-wrapped DEK for a single document, as stored on the Document row
+ */
+export interface OwnerWrappedDek {
+  id: string
+  encryptedDekForOwner: string
+  dekNonce: string
+}
 
-  // Decrypt DEK
-  const dek = await decryptDek(
-    {
-      encryptedDek,
-      nonce: dekNonce,
-      authTag: dekAuthTag,
-    },
+/**
+ * Re-wrap every document DEK from the current KEK to a new KEK
+ * Used by the vault password change flow: all DEKs are unwrapped first so a wrong
+ * current KEK fails before anything is produced for the server
+ */
+export async function rewrapDeksForNewKek(
+  documents: OwnerWrappedDek[],
+  currentKek: Uint8Array,
+  newKek: Uint8Array
+): Promise<OwnerWrappedDek[]> {
+  const deks = await Promise.all(
+    documents.map((doc) => unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, currentKek))
+  )
+
+  return Promise.all(
+    documents.map(async (doc, i) => ({
+      id: doc.id,
+      ...(await wrapDekForOwner(deks[i], newKek)),
+    }))
+  )
+}
+
+/**
+ * Owner-wrapped LSK for a single share link, as stored on the ShareLink row
+ */
+export interface OwnerWrappedLsk {
+  id: string
+  encryptedLskForOwner: string
+}
+
+/**
+ * Everything the server needs to move a vault from one KEK to another
+ */
+export interface VaultRewrap {
+  kekVerifier: string
+  documents: OwnerWrappedDek[]
+  shareLinks: OwnerWrappedLsk[]
+  encryptedRecoveryKeyForOwner?: string
+  recoveryKeyNonce?: string
+  encryptedPrivateKey?: string
+}
+
+/**
+ * Move a whole vault to a new KEK: every DEK, the key-check value, the owner's copies of
+ * share link LSKs, the wrapped recovery key if the vault has a recovery kit, and a
+ * co-owner's wrapped private key
+ * Used by password change and by the KDF upgrade on unlock
+ */
+export async function rewrapVaultForNewKek(
+  documents: OwnerWrappedDek[],
+  currentKek: Uint8Array,
+  newKek: Uint8Array,
+  wrappedKeys?: {
+    encryptedRecoveryKeyForOwner?: string | null
+    recoveryKeyNonce?: string | null
+    encryptedPrivateKey?: string | null
+  },
+  shareLinks: OwnerWrappedLsk[] = []
+): Promise<VaultRewrap> {
+  const lsks = await Promise.all(
+    shareLinks.map((link) => unwrapLskForOwner(link.encryptedLskForOwner, currentKek))
+  )
+
+  const rewrap: VaultRewrap = {
+    kekVerifier: await createKekVerifier(newKek),
+    documents: await rewrapDeksForNewKek(documents, currentKek, newKek),
+    shareLinks: await Promise.all(
+      shareLinks.map(async (link, i) => ({
+        id: link.id,
+        encryptedLskForOwner: await wrapLskForOwner(lsks[i], newKek),
+      }))
+    ),
+  }
+
+  // The recovery wrapping key is stored under the KEK too, so it moves with the password
+  if (wrappedKeys?.encryptedRecoveryKeyForOwner && wrappedKeys.recoveryKeyNonce) {
+    const recoveryWrapKey = await unwrapRecoveryKeyForOwner(
+      wrappedKeys.encryptedRecoveryKeyForOwner,
+      wrappedKeys.recoveryKeyNonce,
+      currentKek
+    )
+    const wrapped = await wrapDekForOwner(recoveryWrapKey, newKek)
+    rewrap.encryptedRecoveryKeyForOwner = wrapped.encryptedDekForOwner
+    rewrap.recoveryKeyNonce = wrapped.dekNonce
+  }
+
+  // So is a co-owner's private key; the public key other owners seal to stays the same
+  if (wrappedKeys?.encryptedPrivateKey) {
+    const privateKey = await openAesGcm(
+      base64ToUint8Array(wrappedKeys.encryptedPrivateKey),
+      currentKek,
+      CO_OWNER_PRIVATE_KEY_CONTEXT
+    )
+    const { envelope } = await sealAesGcm(privateKey, newKek, CO_OWNER_PRIVATE_KEY_CONTEXT)
+    rewrap.encryptedPrivateKey = uint8ArrayToBase64(envelope)
+  }
+
+  return rewrap
+}
+
+/**
+ * Wrap a DEK with the recovery wrapping key
+ * Same layout as the owner wrap (AES-256-GCM envelope)
+ */
+export async function wrapDekForRecovery(
+  dek: Uint8Array,
+  recoveryWrapKey: Uint8Array
+): Promise<{ encryptedDekForRecovery: string; dekForRecoveryNonce: string }> {
+  const { encryptedDekForOwner, dekNonce } = await wrapDekForOwner(dek, recoveryWrapKey)
+  return { encryptedDekForRecovery: encryptedDekForOwner, dekForRecoveryNonce: dekNonce }
+}
+
+/**
+ * Recovery-wrapped DEK for a single document, as stored on the Document row
+ */
+export interface RecoveryWrappedDek {
+  id: string
+  encryptedDekForRecovery: string
+  dekForRecoveryNonce: string
+}
+
+/**
+ * Create an offline recovery kit
+ * Generates a recovery key, derives the recovery wrapping key and wraps every DEK under it.
+ * The wrapping key is also wrapped under the KEK so later uploads can add their recovery wrap.
+ * The returned recoveryKey must be shown to the owner once and never sent to the server.
+ */
+export async function createRecoveryKit(
+  documents: OwnerWrappedDek[],
+  kek: Uint8Array
+): Promise<{
+  recoveryKey: string
+  recoverySalt: string
+  encryptedRecoveryKeyForOwner: string
+  recoveryKeyNonce: string
+  documents: RecoveryWrappedDek[]
+}> {
+  const recoveryKey = generateRecoveryKey()
+  const recoverySalt = generateSalt()
+  const recoveryWrapKey = await deriveRecoveryKey(recoveryKeyToBytes(recoveryKey), recoverySalt)
+
+  const recoveryDocuments = await Promise.all(
+    documents.map(async (doc) => {
+      const dek = await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, kek)
+      return { id: doc.id, ...(await wrapDekForRecovery(dek, recoveryWrapKey)) }
+    })
+  )
+
+  const wrappedRecoveryKey = await wrapDekForOwner(recoveryWrapKey, kek)
+
+  return {
+    recoveryKey,
+    recoverySalt: uint8ArrayToBase64(recoverySalt),
+    encryptedRecoveryKeyForOwner: wrappedRecoveryKey.encryptedDekForOwner,
+    recoveryKeyNonce: wrappedRecoveryKey.dekNonce,
+    documents: recoveryDocuments,
+  }
+}
+
+/**
+ * Unwrap the recovery wrapping key with the KEK (used on upload and password change)
+ */
+export async function unwrapRecoveryKeyForOwner(
+  encryptedRecoveryKeyForOwnerBase64: string,
+  recoveryKeyNonceBase64: string,
+  kek: Uint8Array
+): Promise<Uint8Array> {
+  return unwrapDekForOwner(encryptedRecoveryKeyForOwnerBase64, recoveryKeyNonceBase64, kek)
+}
+
+/**
+ * Reset the vault password from the recovery key
+ * Unwraps every DEK with the recovery key and re-wraps it (and the recovery key itself) under newKek
+ */
+export async function rewrapDeksFromRecoveryKey(
+  recoveryKey: string,
+  recoverySaltBase64: string,
+  documents: RecoveryWrappedDek[],
+  newKek: Uint8Array
+): Promise<{
+  encryptedRecoveryKeyForOwner: string
+  recoveryKeyNonce: string
+  documents: OwnerWrappedDek[]
+}> {
+  const recoveryWrapKey = await deriveRecoveryKey(
+    recoveryKeyToBytes(recoveryKey),
+    base64ToUint8Array(recoverySaltBase64)
+  )
+  return rewrapDeksFromRecoveryWrapKey(recoveryWrapKey, documents, newKek)
+}
+
+/**
+ * Reset the vault password from the recovery wrapping key itself
+ * Used by social recovery, which rebuilds the wrapping key rather than the recovery key
+ */
+export async function rewrapDeksFromRecoveryWrapKey(
+  recoveryWrapKey: Uint8Array,
+  documents: RecoveryWrappedDek[],
+  newKek: Uint8Array
+): Promise<{
+  encryptedRecoveryKeyForOwner: string
+  recoveryKeyNonce: string
+  documents: OwnerWrappedDek[]
+}> {
+  // Unwrap everything first so a wrong recovery key fails before anything is produced
+  const deks = await Promise.all(
+    documents.map((doc) =>
+      unwrapDekForOwner(doc.encryptedDekForRecovery, doc.dekForRecoveryNonce, recoveryWrapKey)
+    )
+  )
+
+  const ownerDocuments = await Promise.all(
+    documents.map(async (doc, i) => ({ id: doc.id, ...(await wrapDekForOwner(deks[i], newKek)) }))
+  )
+  const wrappedRecoveryKey = await wrapDekForOwner(recoveryWrapKey, newKek)
+
+  return {
+    encryptedRecoveryKeyForOwner: wrappedRecoveryKey.encryptedDekForOwner,
+    recoveryKeyNonce: wrappedRecoveryKey.dekNonce,
+    documents: ownerDocuments,
+  }
+}
+
+/**
+ * A recovery contact as handed out by the server, for sealing a share to them
+ */
+export interface RecoveryContactRecipient {
+  id: string
+  publicKey: string // Base64 SPKI
+}
+
+/**
+ * A contact's share released to a recovery request
+ */
+export interface RecoveryApprovalShare {
+  contactId: string
+  resealedShare: string
+}
+
+/**
+ * Seal a share to a contact's or a recovery request's public key
+ * Format: ephemeral P-256 public key (65) || AES-256-GCM envelope, base64
+ */
+async function sealRecoveryShare(
+  share: Uint8Array,
+  publicKeyBase64: string,
+  context: Uint8Array
+): Promise<string> {
+  const { sealKey, ephemeralPublicKey } = await deriveRecoveryShareSealKey(
+    base64ToUint8Array(publicKeyBase64)
+  )
+  const { envelope } = await sealAesGcm(share, sealKey, context)
+
+  const sealed = new Uint8Array(ephemeralPublicKey.length + envelope.length)
+  sealed.set(ephemeralPublicKey)
+  sealed.set(envelope, ephemeralPublicKey.length)
+  return uint8ArrayToBase64(sealed)
+}
+
+/**
+ * Open a sealed share (inverse of sealRecoveryShare)
+ */
+async function openRecoveryShare(
+  sealedShareBase64: string,
+  privateKey: CryptoKey,
+  context: Uint8Array
+): Promise<Uint8Array> {
+  const sealed = base64ToUint8Array(sealedShareBase64)
+  const openKey = await deriveRecoveryShareOpenKey(
+    privateKey,
+    sealed.slice(0, EPHEMERAL_PUBLIC_KEY_LENGTH)
+  )
+  return openAesGcm(sealed.slice(EPHEMERAL_PUBLIC_KEY_LENGTH), openKey, context)
+}
+
+/**
+ * Split the recovery wrapping key K-of-N among recovery contacts (social recovery)
+ * Each share is sealed to its contact's public key and bound to the contact and the current
+ * recovery kit. The verifier lets the recovering browser check the key it rebuilds.
+ */
+export async function splitRecoveryKeyForContacts(
+  encryptedRecoveryKeyForOwner: string,
+  recoveryKeyNonce: string,
+  recoverySalt: string,
+  kek: Uint8Array,
+  contacts: RecoveryContactRecipient[],
+  threshold: number
+): Promise<{ verifier: string; shares: { contactId: string; sealedShare: string }[] }> {
+  const recoveryWrapKey = await unwrapRecoveryKeyForOwner(
+    encryptedRecoveryKeyForOwner,
+    recoveryKeyNonce,
     kek
   )
+  const shares = splitSecret(recoveryWrapKey, contacts.length, threshold)
+
+  return {
+    verifier: await createKekVerifier(recoveryWrapKey),
+    shares: await Promise.all(
+      contacts.map(async (contact, i) => ({
+        contactId: contact.id,
+        sealedShare: await sealRecoveryShare(
+          shares[i],
+          contact.publicKey,
+          recoveryShareContext(contact.id, recoverySalt)
+        ),
+      }))
+    ),
+  }
+}
+
+/**
+ * Release a contact's share to a recovery request: open it with the contact's private key
+ * and re-seal it to the key of the browser that asked for the recovery
+ */
+export async function resealRecoveryShare(
+  sealedShare: string,
+  contactId: string,
+  recoverySalt: string,
+  contactPrivateKey: CryptoKey,
+  request: { id: string; publicKey: string }
+): Promise<string> {
+  const share = await openRecoveryShare(
+    sealedShare,
+    contactPrivateKey,
+    recoveryShareContext(contactId, recoverySalt)
+  )
+  return sealRecoveryShare(share, request.publicKey, recoveryApprovalContext(request.id, contactId))
+}
+
+/**
+ * Yield every way to pick k of n indexes, in lexicographic order
+ */
+function* indexCombinations(n: number, k: number): Generator<number[]> {
+  const picked = Array.from({ length: k }, (_, i) => i)
+  while (true) {
+    yield [...picked]
+    let i = k - 1
+    while (i >= 0 && picked[i] === n - k + i) i--
+    if (i < 0) return
+    picked[i]++
+    for (let j = i + 1; j < k; j++) picked[j] = picked[j - 1] + 1
+  }
+}
+
+/**
+ * Rebuild the recovery wrapping key from the shares released to a recovery request
+ * Shares are combined threshold at a time until one set passes the verifier, so a contact
+ * who released a bad share can't block recovery when enough others approved.
+ */
+export async function combineRecoveryShares(
+  approvals: RecoveryApprovalShare[],
+  requestId: string,
+  requestPrivateKey: CryptoKey,
+  threshold: number,
+  verifier: string
+): Promise<Uint8Array> {
+  const opened = await Promise.all(
+    approvals.map((approval) =>
+      openRecoveryShare(
+        approval.resealedShare,
+        requestPrivateKey,
+        recoveryApprovalContext(requestId, approval.contactId)
+      ).catch(() => null)
+    )
+  )
+  const shares = opened.filter((share): share is Uint8Array => share !== null)
+
+  if (shares.length >= threshold) {
+    for (const picked of indexCombinations(shares.length, threshold)) {
+      try {
+        const recoveryWrapKey = combineShares(picked.map((i) => shares[i]))
+        if (await verifyKek(recoveryWrapKey, verifier)) return recoveryWrapKey
+      } catch {
+        // Shares from different splits; try the next set
+      }
+    }
+  }
+
+  throw new Error('The approved shares do not rebuild the recovery key')
+}
+
+/**
+ * Vault key material and documents from a backup, ready to import, plus the KEK to unlock with
+ */
+export interface OpenedBackup {
+  kek: Uint8Array
+  vault: BackupVault
+  documents: BackupDocument[]
+}
+
+/**
+ * Check that every DEK in a backup opens under the KEK and belongs to its document
+ * The DEK must open each part's metadata and checksum tag, which are bound to the part's id
+ * and doc type, so wraps swapped between documents are caught before anything is imported
+ */
+async function verifyBackupDocuments(documents: BackupDocument[], kek: Uint8Array) {
+  try {
+    for (const doc of documents) {
+      const dek = await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, kek)
+      for (const part of doc.parts) {
+        const context = { docId: part.id, docType: doc.docType }
+        if (part.encryptedMetadata) await openDocumentDetails(part.encryptedMetadata, dek, context)
+        await verifyExpectedCiphertext(part, dek, context)
+      }
+    }
+  } catch {
+    throw new InvalidBackupArchiveError('The document keys in this backup are damaged')
+  }
+}
+
+/**
+ * Open a backup with the vault password it was made under
+ * The restored vault keeps that password: KDF salt, parameters and every wrap are imported
+ * unchanged. Throws WrongVaultPasswordError for a wrong password.
+ */
+export async function openBackupWithPassword(
+  manifest: BackupManifest,
+  password: string,
+  options?: CryptoTaskOptions
+): Promise<OpenedBackup> {
+  const { vault } = manifest
+  const kek = await unlockVault(password, vault.kdfSalt, vault.kdfParams, options)
+  const { documents } = manifest
+
+  if (vault.kekVerifier) {
+    if (!(await verifyKek(kek, vault.kekVerifier))) throw new WrongVaultPasswordError()
+  } else if (documents.length > 0) {
+    // Backups of legacy vaults carry no key-check value
+    try {
+      await unwrapDekForOwner(documents[0].encryptedDekForOwner, documents[0].dekNonce, kek)
+    } catch {
+      throw new WrongVaultPasswordError()
+    }
+  }
+
+  await verifyBackupDocuments(documents, kek)
+
+  // A legacy vault gets its key-check value on the way in
+  const kekVerifier = vault.kekVerifier ?? (await createKekVerifier(kek))
+  return { kek, vault: { ...vault, kekVerifier }, documents }
+}
+
+/**
+ * Open a backup with its recovery key, choosing a new vault password
+ * Every DEK is re-wrapped under the new KEK; the recovery wraps and recovery key carry over.
+ */
+export async function openBackupWithRecoveryKey(
+  manifest: BackupManifest,
+  recoveryKey: string,
+  newPassword: string,
+  options?: CryptoTaskOptions
+): Promise<OpenedBackup> {
+  const { vault } = manifest
+  const recoveryDocuments = manifest.documents.flatMap((doc) =>
+    doc.encryptedDekForRecovery && doc.dekForRecoveryNonce
+      ? [
+          {
+            id: doc.id,
+            encryptedDekForRecovery: doc.encryptedDekForRecovery,
+            dekForRecoveryNonce: doc.dekForRecoveryNonce,
+          },
+        ]
+      : []
+  )
+  if (!vault.recoverySalt || recoveryDocuments.length !== manifest.documents.length) {
+    throw new InvalidBackupArchiveError('This backup was made without a recovery kit')
+  }
 
-  // Extract document components
-  // Format: [ciphertext][nonce (12 bytes)][authTag (16 bytes)]
-  const nonceLength = 12
-  const authTagLength = 16
-  const ciphertextOnly = ciphertextWithMetadata.slice(0, -(nonceLength + authTagLength))
-  const docNonce = ciphertextWithMetadata.slice(
-    -(nonceLength + authTagLength),
-    -authTagLength
+  const { kdfSalt, kdfParams } = await initializeVault()
+  const kek = await unlockVault(newPassword, kdfSalt, kdfParams, options)
+  const rewrapped = await rewrapDeksFromRecoveryKey(
+    recoveryKey,
+    vault.recoverySalt,
+    recoveryDocuments,
+    kek
   )
-  const docAuthTag = ciphertextWithMetadata.slice(-authTagLength)
 
-  // Decrypt document
-  const plaintext = await decryptDocument(
-    {
-      ciphertext: ciphertextOnly,
-      nonce: docNonce,
-      authTag: docAuthTag,
+  const documents = manifest.documents.map((doc, i) => ({
+    ...doc,
+    encryptedDekForOwner: rewrapped.documents[i].encryptedDekForOwner,
+    dekNonce: rewrapped.documents[i].dekNonce,
+  }))
+  await verifyBackupDocuments(documents, kek)
+
+  return {
+    kek,
+    vault: {
+      kdfSalt,
+      kdfParams,
+      kekVerifier: await createKekVerifier(kek),
+      recoverySalt: vault.recoverySalt,
+      encryptedRecoveryKeyForOwner: rewrapped.encryptedRecoveryKeyForOwner,
+      recoveryKeyNonce: rewrapped.recoveryKeyNonce,
+      documentTypes: vault.documentTypes,
     },
-    dek
+    documents,
+  }
+}
+
+// Domain-separates the co-owner's wrapped private key from everything else under their KEK
+const CO_OWNER_PRIVATE_KEY_CONTEXT = new TextEncoder().encode('co-owner-private-key')
+
+// Uncompressed P-256 point prefixed to every sealed DEK
+const EPHEMERAL_PUBLIC_KEY_LENGTH = 65
+
+/**
+ * A co-owner's public key as handed out by the server, for sealing DEKs to them
+ */
+export interface CoOwnerRecipient {
+  membershipId: string
+  publicKey: string // Base64 SPKI
+}
+
+/**
+ * DEK sealed to the current co-owner and not yet re-wrapped under their KEK
+ */
+export interface SealedDek {
+  keyId: string
+  documentId: string
+  docType: string
+  sealedDek: string
+}
+
+/**
+ * Create a co-owner's key pair
+ * Other owners seal DEKs to the public key; the private key is stored wrapped under the
+ * co-owner's own KEK. Format of encryptedPrivateKey: AES-256-GCM envelope, base64
+ */
+export async function createCoOwnerKeys(
+  kek: Uint8Array
+): Promise<{ publicKey: string; encryptedPrivateKey: string }> {
+  const { publicKey, privateKey } = await generateOwnerKeyPair()
+  const { envelope } = await sealAesGcm(privateKey, kek, CO_OWNER_PRIVATE_KEY_CONTEXT)
+
+  return {
+    publicKey: uint8ArrayToBase64(publicKey),
+    encryptedPrivateKey: uint8ArrayToBase64(envelope),
+  }
+}
+
+/**
+ * Seal a DEK to a co-owner's public key
+ * Format: ephemeral P-256 public key (65) || AES-256-GCM envelope, base64;
+ * the envelope is bound to the document like the document ciphertext
+ */
+export async function sealDekForCoOwner(
+  dek: Uint8Array,
+  publicKeyBase64: string,
+  context: DocumentContext
+): Promise<string> {
+  const { sealKey, ephemeralPublicKey } = await deriveOwnerSealKey(
+    base64ToUint8Array(publicKeyBase64)
   )
+  const { envelope } = await sealAesGcm(dek, sealKey, coOwnerDekContext(context))
 
-  return plaintext
+  const sealed = new Uint8Array(ephemeralPublicKey.length + envelope.length)
+  sealed.set(ephemeralPublicKey)
+  sealed.set(envelope, ephemeralPublicKey.length)
+  return uint8ArrayToBase64(sealed)
+}
+
+/**
+ * Open a DEK sealed to a co-owner (inverse of sealDekForCoOwner)
+ */
+async function openSealedDek(
+  sealedDekBase64: string,
+  privateKey: Uint8Array,
+  context: DocumentContext
+): Promise<Uint8Array> {
+  const sealed = base64ToUint8Array(sealedDekBase64)
+  const openKey = await deriveOwnerOpenKey(privateKey, sealed.slice(0, EPHEMERAL_PUBLIC_KEY_LENGTH))
+  return openAesGcm(sealed.slice(EPHEMERAL_PUBLIC_KEY_LENGTH), openKey, coOwnerDekContext(context))
+}
+
+/**
+ * Grant a co-owner access: seal every DEK the current owner holds to the co-owner
+ * All DEKs are unwrapped first so a wrong KEK fails before anything is sent
+ */
+export async function sealDeksForCoOwner(
+  documents: (OwnerWrappedDek & { docType: string })[],
+  kek: Uint8Array,
+  publicKeyBase64: string
+): Promise<{ id: string; sealedDek: string }[]> {
+  const deks = await Promise.all(
+    documents.map((doc) => unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, kek))
+  )
+
+  return Promise.all(
+    documents.map(async (doc, i) => ({
+      id: doc.id,
+      sealedDek: await sealDekForCoOwner(deks[i], publicKeyBase64, {
+        docId: doc.id,
+        docType: doc.docType,
+      }),
+    }))
+  )
+}
+
+/**
+ * Re-wrap the DEKs sealed to a co-owner under their own KEK
+ * Runs on the co-owner's unlock, after which their copies look like any owner wrap
+ */
+export async function rewrapSealedDeks(
+  sealedDeks: SealedDek[],
+  encryptedPrivateKeyBase64: string,
+  kek: Uint8Array
+): Promise<{ keyId: string; encryptedDekForOwner: string; dekNonce: string }[]> {
+  const privateKey = await openAesGcm(
+    base64ToUint8Array(encryptedPrivateKeyBase64),
+    kek,
+    CO_OWNER_PRIVATE_KEY_CONTEXT
+  )
+
+  return Promise.all(
+    sealedDeks.map(async (sealed) => {
+      const dek = await openSealedDek(sealed.sealedDek, privateKey, {
+        docId: sealed.documentId,
+        docType: sealed.docType,
+      })
+      return { keyId: sealed.keyId, ...(await wrapDekForOwner(dek, kek)) }
+    })
+  )
+}
+
+/**
+ * Wrap a document DEK with the LSK for a share link
+ * Used during approval: owner unwraps the DEK with the KEK, then wraps it for the link
+ * Format: AES-256-GCM envelope; nonce repeats the envelope's nonce for the dekForLinkNonce column
+ */
+export async function wrapDekForLink(
+  dek: Uint8Array,
+  lsk: Uint8Array
+): Promise<{ encryptedDek: string; nonce: string }> {
+  const { envelope, nonce } = await sealAesGcm(dek, lsk)
+  return { encryptedDek: uint8ArrayToBase64(envelope), nonce: uint8ArrayToBase64(nonce) }
+}
+
+/**
+ * Wrap the LSK with the VS-derived wrapping key
+ * Format: AES-256-GCM envelope; lskNonce repeats the envelope's nonce for the ShareLink column
+ */
+export async function wrapLskForVendor(
+  lsk: Uint8Array,
+  vendorSecretBytes: Uint8Array,
+  lskSalt: Uint8Array
+): Promise<{ encryptedLskForVendor: string; lskNonce: string }> {
+  const wrapKey = await deriveWrapKeyFromVendorSecret(vendorSecretBytes, lskSalt)
+  const { envelope, nonce } = await sealAesGcm(lsk, wrapKey)
+  return {
+    encryptedLskForVendor: uint8ArrayToBase64(envelope),
+    lskNonce: uint8ArrayToBase64(nonce),
+  }
+}
+
+/**
+ * Seal the LSK to a vendor's registered public key, in place of wrapLskForVendor
+ * Nothing is emailed: only the holder of the vendor's private key can open it.
+ * Format: ephemeral P-256 public key (65) || AES-256-GCM envelope bound to the link's salt,
+ * base64; lskNonce repeats the envelope's nonce for the ShareLink column
+ */
+export async function sealLskForVendorKey(
+  lsk: Uint8Array,
+  vendorPublicKeyBase64: string,
+  lskSalt: Uint8Array
+): Promise<{ encryptedLskForVendor: string; lskNonce: string }> {
+  const { sealKey, ephemeralPublicKey } = await deriveVendorKeySealKey(
+    base64ToUint8Array(vendorPublicKeyBase64)
+  )
+  const { envelope, nonce } = await sealAesGcm(lsk, sealKey, vendorKeyLskContext(lskSalt))
+
+  const sealed = new Uint8Array(ephemeralPublicKey.length + envelope.length)
+  sealed.set(ephemeralPublicKey)
+  sealed.set(envelope, ephemeralPublicKey.length)
+  return { encryptedLskForVendor: uint8ArrayToBase64(sealed), lskNonce: uint8ArrayToBase64(nonce) }
+}
+
+/**
+ * Open an LSK sealed to the vendor's key (inverse of sealLskForVendorKey)
+ */
+export async function openLskWithVendorKey(
+  encryptedLskBase64: string,
+  lskSaltBase64: string,
+  privateKey: CryptoKey
+): Promise<Uint8Array> {
+  const sealed = base64ToUint8Array(encryptedLskBase64)
+  const openKey = await deriveVendorKeyOpenKey(
+    privateKey,
+    sealed.slice(0, EPHEMERAL_PUBLIC_KEY_LENGTH)
+  )
+  return openAesGcm(
+    sealed.slice(EPHEMERAL_PUBLIC_KEY_LENGTH),
+    openKey,
+    vendorKeyLskContext(base64ToUint8Array(lskSaltBase64))
+  )
+}
+
+/**
+ * Short fingerprint of a browser public key (a vendor key or a recovery request key), for
+ * both sides to compare out of band
+ * First 128 bits of SHA-256 over the SPKI, as eight groups of four hex digits
+ */
+export async function publicKeyFingerprint(publicKeyBase64: string): Promise<string> {
+  const digest = await computeChecksum(base64ToUint8Array(publicKeyBase64))
+  return digest.slice(0, 32).match(/.{4}/g)!.join(' ')
+}
+
+/**
+ * Wrap the LSK with the approving owner's KEK, so they can re-key the link's documents later
+ * Format: AES-256-GCM envelope, base64
+ */
+export async function wrapLskForOwner(lsk: Uint8Array, kek: Uint8Array): Promise<string> {
+  const { envelope } = await sealAesGcm(lsk, kek)
+  return uint8ArrayToBase64(envelope)
+}
+
+/**
+ * Unwrap the owner's copy of a link's LSK (inverse of wrapLskForOwner)
+ */
+export async function unwrapLskForOwner(
+  encryptedLskForOwnerBase64: string,
+  kek: Uint8Array
+): Promise<Uint8Array> {
+  return openAesGcm(base64ToUint8Array(encryptedLskForOwnerBase64), kek)
 }
 
 /**
  * Decrypt LSK with vendor secret
  * Used in Step 4 for vendor access: derive wrap key from VS, decrypt LSK
- * 
- * Format: encryptedLskForVendor contains [encryptedDek][authTag] (nonce stored separately)
+ *
+ * Accepts the envelope and the legacy [encryptedLsk][nonce][authTag] layout; either way the
+ * nonce is read from the blob, so lskNonceBase64 (the stored copy) isn't needed.
  */
 export async function decryptLskWithVendorSecret(
   encryptedLskBase64: string,
@@ -176,111 +1350,70 @@ export async function decryptLskWithVendorSecret(
   const normalizedVS = validateAndNormalizeVendorSecret(vendorSecret)
   const vendorSecretBytes = vendorSecretToBytes(normalizedVS)
 
-  // Decode base64 strings
-  const encryptedLskWithMetadata = base64ToUint8Array(encryptedLskBase64)
-  const lskSalt = base64ToUint8Array(lskSaltBase64)
-  const lskNonceSeparate = base64ToUint8Array(lskNonceBase64)
-
-  // Extract encrypted LSK components
-  // Format: [encryptedLsk (32 bytes)][nonce (12 bytes)][authTag (16 bytes)]
-  // Use the nonce from the blob since that's what was actually used during encryption
-  const encryptedLskLength = 32
-  const nonceLength = 12
-  const authTagLength = 16
-  const encryptedLsk = encryptedLskWithMetadata.slice(0, encryptedLskLength)
-  const lskNonceFromBlob = encryptedLskWithMetadata.slice(encryptedLskLength, encryptedLskLength + nonceLength)
-  const lskAuthTag = encryptedLskWithMetadata.slice(-authTagLength)
-  
-  // Use the nonce from the blob (this is what was used during encryption)
-  const lskNonce = lskNonceFromBlob
-
-  // Unwrap LSK with vendor secret
-  const lsk = await unwrapLskWithVendorSecret(
-    {
-      encryptedDek: encryptedLsk,
-      nonce: lskNonce,
-      authTag: lskAuthTag,
-    },
+  const wrapKey = await deriveWrapKeyFromVendorSecret(
     vendorSecretBytes,
-    lskSalt
+    base64ToUint8Array(lskSaltBase64)
   )
+  return openAesGcm(base64ToUint8Array(encryptedLskBase64), wrapKey)
+}
 
-  return lsk
+/**
+ * Unwrap a link DEK with the LSK (inverse of wrapDekForLink, also reads legacy wraps)
+ */
+async function unwrapDekForLink(
+  encryptedDekForLinkBase64: string,
+  lsk: Uint8Array
+): Promise<Uint8Array> {
+  return openAesGcm(base64ToUint8Array(encryptedDekForLinkBase64), lsk)
 }
 
 /**
  * Decrypt document for vendor
  * Used in Step 4: decrypt DEK with LSK, then decrypt document with DEK
- * 
- * Format: encryptedDekForLink contains [encryptedDek][authTag] (nonce stored separately)
  */
 export async function decryptDocumentForVendor(
   ciphertextBase64: string,
   encryptedDekForLinkBase64: string,
   dekForLinkNonceBase64: string,
-  lsk: Uint8Array
+  lsk: Uint8Array,
+  context: DocumentContext,
+  expected: ExpectedCiphertext
 ): Promise<Uint8Array> {
-  // Decode base64 strings
-  let ciphertextWithMetadata: Uint8Array
-  let encryptedDekForLinkWithAuthTag: Uint8Array
-  let dekForLinkNonce: Uint8Array
-  try {
-    ciphertextWithMetadata = base64ToUint8Array(ciphertextBase64)
-    encryptedDekForLinkWithAuthTag = base64ToUint8Array(encryptedDekForLinkBase64)
-    dekForLinkNonce = base64ToUint8Array(dekForLinkNonceBase64)
-  } catch (err: any) {
-    throw err
-  }
+  const dek = await unwrapDekForLink(encryptedDekForLinkBase64, lsk)
+  await verifyExpectedCiphertext(expected, dek, context)
 
-  // Extract encrypted DEK components
-  // Format: [encryptedDek (32 bytes)][nonce (12 bytes)][authTag (16 bytes)]
-  // Note: nonce is also stored separately as dekForLinkNonce, but it's included in the blob too
-  const encryptedDekLength = 32
-  const nonceLength = 12
-  const authTagLength = 16
-  const encryptedDek = encryptedDekForLinkWithAuthTag.slice(0, encryptedDekLength)
-  const dekAuthTag = encryptedDekForLinkWithAuthTag.slice(-authTagLength)
-
-  // Unwrap DEK with LSK
-  let dek: Uint8Array
-  try {
-    dek = await unwrapDekWithLsk(
-      {
-        encryptedDek,
-        nonce: dekForLinkNonce,
-        authTag: dekAuthTag,
-      },
-      lsk
-    )
-  } catch (err: any) {
-    throw err
-  }
-
-  // Extract document components
-  // Format: [ciphertext][nonce (12 bytes)][authTag (16 bytes)]
-  const docNonceLength = 12
-  const ciphertextOnly = ciphertextWithMetadata.slice(0, -(docNonceLength + authTagLength))
-  const docNonce = ciphertextWithMetadata.slice(
-    -(docNonceLength + authTagLength),
-    -authTagLength
-  )
-  const docAuthTag = ciphertextWithMetadata.slice(-authTagLength)
-
-  // Decrypt document
-  let plaintext: Uint8Array
-  try {
-    plaintext = await decryptDocument(
-      {
-        ciphertext: ciphertextOnly,
-        nonce: docNonce,
-        authTag: docAuthTag,
-      },
-      dek
-    )
-  } catch (err: any) {
-    throw err
+  const ciphertext = base64ToUint8Array(ciphertextBase64)
+  if ((await computeChecksum(ciphertext)) !== expected.ciphertextChecksum) {
+    throw new CiphertextIntegrityError()
   }
+  return runCryptoTask({ type: 'decryptDocument', ciphertext, dek, context })
+}
 
-  return plaintext
+/**
+ * Decrypt a ciphertext stream (e.g. a signed-URL response body) for a vendor
+ */
+export async function decryptDocumentStreamForVendor(
+  stream: ReadableStream<Uint8Array>,
+  encryptedDekForLinkBase64: string,
+  dekForLinkNonceBase64: string,
+  lsk: Uint8Array,
+  context: DocumentContext,
+  expected: ExpectedCiphertext
+): Promise<Blob> {
+  const dek = await unwrapDekForLink(encryptedDekForLinkBase64, lsk)
+  return decryptCiphertextStream(stream, dek, context, expected)
 }
 
+/**
+ * Decrypt a document's metadata for a vendor
+ */
+export async function decryptDocumentDetailsForVendor(
+  encryptedMetadataBase64: string,
+  encryptedDekForLinkBase64: string,
+  dekForLinkNonceBase64: string,
+  lsk: Uint8Array,
+  context: DocumentContext
+): Promise<DocumentDetails> {
+  const dek = await unwrapDekForLink(encryptedDekForLinkBase64, lsk)
+  return openDocumentDetails(encryptedMetadataBase64, dek, context)
+}
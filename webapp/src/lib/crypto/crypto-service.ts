@@ -0,0 +1,83 @@
+/**
+ * Worker-backed crypto service
+ *
+ * Runs Argon2id and whole-document encryption in a Web Worker so the page stays
+ * responsive. Each task gets its own worker, which is terminated when the task
+ * settles; aborting the task terminates the worker mid-computation.
+ *
+ * Falls back to running the task inline where Worker is unavailable (SSR, tests).
+ * Inline tasks can only be cancelled before they start.
+ */
+
+import { executeCryptoTask, type CryptoTask, type CryptoTaskResult, type CryptoWorkerMessage } from './crypto-tasks'
+
+export interface CryptoTaskOptions {
+  onProgress?: (progress: number) => void // 0..1
+  signal?: AbortSignal
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Crypto task was cancelled', 'AbortError')
+}
+
+/**
+ * Run a crypto task off the main thread
+ * Rejects with the signal's abort reason (an AbortError by default) when cancelled
+ */
+export async function runCryptoTask<T extends CryptoTask>(
+  task: T,
+  options: CryptoTaskOptions = {}
+): Promise<CryptoTaskResult<T>> {
+  const { onProgress, signal } = options
+
+  if (signal?.aborted) {
+    throw abortError(signal)
+  }
+
+  if (typeof Worker === 'undefined') {
+    return executeCryptoTask(task, onProgress)
+  }
+
+  return new Promise<CryptoTaskResult<T>>((resolve, reject) => {
+    const worker = new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' })
+
+    const onAbort = () => {
+      cleanup()
+      reject(abortError(signal!))
+    }
+
+    const cleanup = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.onmessage = (event: MessageEvent<CryptoWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.progress)
+        return
+      }
+
+      cleanup()
+      if (message.type === 'result') {
+        resolve(message.result as CryptoTaskResult<T>)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      cleanup()
+      reject(new Error(event.message || 'Crypto worker failed'))
+    }
+
+    // Raw ciphertext is owned by the caller's task, so move it instead of copying
+    const transfer =
+      task.type === 'decryptDocument' && task.ciphertext instanceof Uint8Array
+        ? [task.ciphertext.buffer as ArrayBuffer]
+        : []
+    worker.postMessage(task, transfer)
+  })
+}
@@ -0,0 +1,91 @@
+/**
+ * Heavy crypto tasks that run off the main thread
+ *
+ * Executed inside the crypto worker (see crypto.worker.ts) or inline when workers
+ * are unavailable. Each task reuses the vault-crypto, envelope and chunked-aead
+ * primitives unchanged, so output is byte-identical whichever thread runs it.
+ */
+
+import { deriveKek, generateDek, base64ToUint8Array, type KdfParams } from './vault-crypto'
+import { encryptBlobChunked, decryptBytesChunked, isChunkedCiphertext } from './chunked-aead'
+import { openAesGcm, documentContext, type DocumentContext } from './envelope'
+
+export type CryptoTask =
+  | { type: 'deriveKek'; password: string; salt: Uint8Array; params: KdfParams }
+  | {
+      type: 'encryptDocument'
+      file: Blob
+      context: DocumentContext
+      dek?: Uint8Array // Encrypt under this DEK (further parts of a document); fresh if omitted
+    }
+  | {
+      type: 'decryptDocument'
+      ciphertext: Uint8Array | string // Raw bytes or base64
+      dek: Uint8Array
+      context: DocumentContext
+    }
+
+export interface CryptoTaskResults {
+  deriveKek: Uint8Array
+  encryptDocument: {
+    ciphertext: Blob // Streaming envelope, see chunked-aead.ts
+    dek: Uint8Array
+    ciphertextChecksum: string
+  }
+  decryptDocument: Uint8Array
+}
+
+export type CryptoTaskResult<T extends CryptoTask> = CryptoTaskResults[T['type']]
+
+/**
+ * Messages posted from the worker back to the crypto service
+ */
+export type CryptoWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: CryptoTaskResults[keyof CryptoTaskResults] }
+  | { type: 'error'; message: string }
+
+/**
+ * Run a crypto task on the current thread
+ * onProgress receives values in 0..1
+ */
+export async function executeCryptoTask<T extends CryptoTask>(
+  task: T,
+  onProgress?: (progress: number) => void
+): Promise<CryptoTaskResult<T>> {
+  switch (task.type) {
+    case 'deriveKek': {
+      const kek = await deriveKek(task.password, task.salt, task.params, onProgress)
+      onProgress?.(1) // Argon2id's own callback stops just short of the last block
+      return kek as CryptoTaskResult<T>
+    }
+
+    case 'encryptDocument': {
+      const dek = task.dek ?? generateDek()
+      const { ciphertext, ciphertextChecksum } = await encryptBlobChunked(
+        task.file,
+        dek,
+        documentContext(task.context),
+        { onProgress }
+      )
+
+      return { ciphertext, dek, ciphertextChecksum } as CryptoTaskResult<T>
+    }
+
+    case 'decryptDocument': {
+      const ciphertext =
+        typeof task.ciphertext === 'string' ? base64ToUint8Array(task.ciphertext) : task.ciphertext
+      const context = documentContext(task.context)
+      onProgress?.(0.5)
+
+      // Segmented documents go through the chunked reader; single-shot envelopes and
+      // legacy [ciphertext][nonce][authTag] blobs through the envelope parser
+      const plaintext = isChunkedCiphertext(ciphertext)
+        ? await decryptBytesChunked(ciphertext, task.dek, context)
+        : await openAesGcm(ciphertext, task.dek, context)
+      onProgress?.(1)
+
+      return plaintext as CryptoTaskResult<T>
+    }
+  }
+}
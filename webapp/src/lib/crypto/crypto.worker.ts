@@ -0,0 +1,27 @@
+/**
+ * Crypto worker entry point
+ * Receives one CryptoTask, posts progress updates and a single result or error.
+ * The crypto service spawns one worker per task and terminates it to cancel.
+ */
+
+import { executeCryptoTask, type CryptoTask, type CryptoWorkerMessage } from './crypto-tasks'
+
+// Typed as a Worker so postMessage accepts a transfer list (tsconfig has no webworker lib)
+const ctx = self as unknown as Worker
+
+function post(message: CryptoWorkerMessage, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer)
+}
+
+ctx.onmessage = async (event: MessageEvent<CryptoTask>) => {
+  try {
+    const result = await executeCryptoTask(event.data, (progress) =>
+      post({ type: 'progress', progress })
+    )
+    // Hand large buffers back without copying (Blobs are passed by reference anyway)
+    const transfer = result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : []
+    post({ type: 'result', result }, transfer)
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Crypto task failed' })
+  }
+}
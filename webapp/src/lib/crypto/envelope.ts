@@ -0,0 +1,283 @@
+/**
+ * Self-describing ciphertext envelope
+ *
+ * Every sealed value (document ciphertext, wrapped DEKs, wrapped LSK, recovery key wrap,
+ * key-check value) is stored as:
+ *   magic "UBGE" (4) | version (1) | algorithm id (1) | algorithm header | body
+ *
+ *   AES_256_GCM (1):        header = nonce (12)
+ *                           body = ciphertext || authTag (16)
+ *   AES_256_GCM_STREAM (2): header = segment size, uint32 BE (4) || nonce prefix (7)
+ *                           body = segments (see chunked-aead.ts)
+ *
+ * Everything before the body is authenticated as AAD, followed by an optional context.
+ * Document ciphertext uses its document id and doc type as context, so it can't be
+ * moved to another document or relabelled as another doc type.
+ *
+ * Readers still accept the layouts written before the envelope existed:
+ *   - raw [ciphertext][nonce (12)][authTag (16)] for documents, wrapped DEKs, the wrapped LSK
+ *     and key-check values (the nonce inside the blob is authoritative; the separately
+ *     stored nonce columns are copies of it)
+ *   - chunked "UBGS" version 1 documents, which have no context binding
+ */
+
+export const ENVELOPE_VERSION = 1
+
+export const EnvelopeAlgorithm = {
+  AES_256_GCM: 1,
+  AES_256_GCM_STREAM: 2,
+} as const
+
+export type EnvelopeAlgorithmId = (typeof EnvelopeAlgorithm)[keyof typeof EnvelopeAlgorithm]
+
+const ENVELOPE_MAGIC = new TextEncoder().encode('UBGE')
+const CHUNKED_V1_MAGIC = new TextEncoder().encode('UBGS')
+const NONCE_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * Bytes needed to recognise a layout (magic + version + algorithm id)
+ */
+export const ENVELOPE_PREFIX_LENGTH = 6
+
+/**
+ * Header length (magic through algorithm header) for each algorithm
+ */
+export const ENVELOPE_HEADER_LENGTH: Record<EnvelopeAlgorithmId, number> = {
+  [EnvelopeAlgorithm.AES_256_GCM]: ENVELOPE_PREFIX_LENGTH + NONCE_LENGTH,
+  [EnvelopeAlgorithm.AES_256_GCM_STREAM]: ENVELOPE_PREFIX_LENGTH + 4 + 7,
+}
+
+/**
+ * Layout of a stored ciphertext, as told by its first bytes
+ */
+export type CiphertextLayout =
+  | { format: 'envelope'; algorithm: EnvelopeAlgorithmId; headerLength: number }
+  | { format: 'chunked-v1'; headerLength: number } // Pre-envelope chunked documents
+  | { format: 'legacy' } // Raw [ciphertext][nonce][authTag]
+
+/**
+ * Identifies the document a ciphertext belongs to; bound into its AAD
+ * A part's ciphertext, metadata and checksum tag carry the part's id as docId
+ */
+export interface DocumentContext {
+  docId: string
+  docType: string
+}
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte)
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const joined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    offset += part.length
+  }
+  return joined
+}
+
+/**
+ * Context bytes for a document's ciphertext
+ */
+export function documentContext(context: DocumentContext): Uint8Array {
+  return new TextEncoder().encode(`document:${context.docId}:${context.docType}`)
+}
+
+/**
+ * Context bytes for a document's encrypted metadata (filename, MIME type)
+ * Distinct from documentContext so metadata and ciphertext can't be swapped for each other
+ */
+export function documentMetadataContext(context: DocumentContext): Uint8Array {
+  return new TextEncoder().encode(`document-metadata:${context.docId}:${context.docType}`)
+}
+
+/**
+ * Context bytes for a document's encrypted issue and expiry dates
+ */
+export function documentDatesContext(context: DocumentContext): Uint8Array {
+  return new TextEncoder().encode(`document-dates:${context.docId}:${context.docType}`)
+}
+
+/**
+ * Context bytes for a passkey's copy of the KEK, binding it to its credential
+ */
+export function passkeyContext(credentialId: string): Uint8Array {
+  return new TextEncoder().encode(`passkey:${credentialId}`)
+}
+
+/**
+ * Context bytes for a DEK sealed to a co-owner's public key, binding it to its document
+ */
+export function coOwnerDekContext(context: DocumentContext): Uint8Array {
+  return new TextEncoder().encode(`co-owner-dek:${context.docId}:${context.docType}`)
+}
+
+/**
+ * Context bytes for an LSK sealed to a vendor's registered key, binding it to its link's salt
+ */
+export function vendorKeyLskContext(lskSalt: Uint8Array): Uint8Array {
+  const label = new TextEncoder().encode('vendor-key-lsk:')
+  const context = new Uint8Array(label.length + lskSalt.length)
+  context.set(label)
+  context.set(lskSalt, label.length)
+  return context
+}
+
+/**
+ * Context bytes for a social recovery share sealed to a contact, binding it to the contact
+ * and to the recovery kit it was split from
+ */
+export function recoveryShareContext(contactId: string, recoverySalt: string): Uint8Array {
+  return new TextEncoder().encode(`recovery-share:${contactId}:${recoverySalt}`)
+}
+
+/**
+ * Context bytes for a share a contact re-sealed to a recovery request's key
+ */
+export function recoveryApprovalContext(requestId: string, contactId: string): Uint8Array {
+  return new TextEncoder().encode(`recovery-approval:${requestId}:${contactId}`)
+}
+
+/**
+ * Context bytes for a document's ciphertext checksum tag (see integrity.ts)
+ */
+export function ciphertextChecksumContext(context: DocumentContext): Uint8Array {
+  return new TextEncoder().encode(`ciphertext-checksum:${context.docId}:${context.docType}`)
+}
+
+/**
+ * AAD for an envelope: its header followed by the caller's context
+ */
+export function envelopeAad(header: Uint8Array, context?: Uint8Array): Uint8Array<ArrayBuffer> {
+  return concatBytes(header, context ?? new Uint8Array(0))
+}
+
+/**
+ * Build the fixed prefix of an envelope header (magic, version, algorithm id)
+ */
+export function envelopePrefix(algorithm: EnvelopeAlgorithmId): Uint8Array {
+  return concatBytes(ENVELOPE_MAGIC, new Uint8Array([ENVELOPE_VERSION, algorithm]))
+}
+
+/**
+ * Tell which layout a ciphertext uses from its first ENVELOPE_PREFIX_LENGTH bytes
+ * This is the single parser every reader goes through.
+ */
+export function parseCiphertextLayout(bytes: Uint8Array): CiphertextLayout {
+  if (startsWith(bytes, ENVELOPE_MAGIC)) {
+    if (bytes.length < ENVELOPE_PREFIX_LENGTH) {
+      throw new Error('Ciphertext envelope is truncated')
+    }
+
+    const version = bytes[ENVELOPE_MAGIC.length]
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported ciphertext envelope version: ${version}`)
+    }
+
+    const algorithm = bytes[ENVELOPE_MAGIC.length + 1] as EnvelopeAlgorithmId
+    if (!(algorithm in ENVELOPE_HEADER_LENGTH)) {
+      throw new Error(`Unsupported ciphertext envelope algorithm: ${algorithm}`)
+    }
+
+    return { format: 'envelope', algorithm, headerLength: ENVELOPE_HEADER_LENGTH[algorithm] }
+  }
+
+  if (startsWith(bytes, CHUNKED_V1_MAGIC) && bytes[CHUNKED_V1_MAGIC.length] === 1) {
+    return { format: 'chunked-v1', headerLength: 16 }
+  }
+
+  return { format: 'legacy' }
+}
+
+/**
+ * Whether a ciphertext is segmented and can be decrypted as a stream
+ */
+export function isStreamingLayout(layout: CiphertextLayout): boolean {
+  return (
+    layout.format === 'chunked-v1' ||
+    (layout.format === 'envelope' && layout.algorithm === EnvelopeAlgorithm.AES_256_GCM_STREAM)
+  )
+}
+
+async function importAesGcmKey(key: Uint8Array | CryptoKey, usage: KeyUsage): Promise<CryptoKey> {
+  if (key instanceof Uint8Array) {
+    return crypto.subtle.importKey('raw', new Uint8Array(key), { name: 'AES-GCM' }, false, [usage])
+  }
+  return key
+}
+
+/**
+ * Seal a value with AES-256-GCM into an envelope
+ * Returns the envelope and its nonce (some columns still store the nonce separately)
+ */
+export async function sealAesGcm(
+  plaintext: Uint8Array,
+  key: Uint8Array | CryptoKey,
+  context?: Uint8Array
+): Promise<{ envelope: Uint8Array; nonce: Uint8Array }> {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH))
+  const header = concatBytes(envelopePrefix(EnvelopeAlgorithm.AES_256_GCM), nonce)
+
+  const ciphertextWithTag = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce,
+      additionalData: envelopeAad(header, context),
+      tagLength: AUTH_TAG_LENGTH * 8,
+    },
+    await importAesGcmKey(key, 'encrypt'),
+    new Uint8Array(plaintext)
+  )
+
+  return { envelope: concatBytes(header, new Uint8Array(ciphertextWithTag)), nonce }
+}
+
+/**
+ * Open an AES-256-GCM envelope, or a legacy [ciphertext][nonce][authTag] blob
+ * Legacy blobs were sealed without AAD, so the context only applies to envelopes.
+ */
+export async function openAesGcm(
+  sealed: Uint8Array,
+  key: Uint8Array | CryptoKey,
+  context?: Uint8Array
+): Promise<Uint8Array> {
+  const layout = parseCiphertextLayout(sealed)
+  let nonce: Uint8Array<ArrayBuffer>
+  let ciphertextWithTag: Uint8Array<ArrayBuffer>
+  let additionalData: Uint8Array<ArrayBuffer> | undefined
+
+  if (layout.format === 'envelope' && layout.algorithm === EnvelopeAlgorithm.AES_256_GCM) {
+    if (sealed.length < layout.headerLength + AUTH_TAG_LENGTH) {
+      throw new Error('Ciphertext envelope is truncated')
+    }
+    const header = sealed.slice(0, layout.headerLength)
+    nonce = header.slice(ENVELOPE_PREFIX_LENGTH)
+    ciphertextWithTag = sealed.slice(layout.headerLength)
+    additionalData = envelopeAad(header, context)
+  } else if (layout.format === 'legacy') {
+    if (sealed.length < NONCE_LENGTH + AUTH_TAG_LENGTH) {
+      throw new Error('Ciphertext is truncated')
+    }
+    const nonceStart = sealed.length - NONCE_LENGTH - AUTH_TAG_LENGTH
+    nonce = sealed.slice(nonceStart, -AUTH_TAG_LENGTH)
+    ciphertextWithTag = concatBytes(sealed.slice(0, nonceStart), sealed.slice(-AUTH_TAG_LENGTH))
+  } else {
+    throw new Error('Segmented ciphertext must be decrypted as a stream')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce,
+      ...(additionalData && { additionalData }),
+      tagLength: AUTH_TAG_LENGTH * 8,
+    },
+    await importAesGcmKey(key, 'decrypt'),
+    ciphertextWithTag
+  )
+
+  return new Uint8Array(plaintext)
+}
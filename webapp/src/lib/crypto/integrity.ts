@@ -0,0 +1,125 @@
+/**
+ * End-to-end integrity of stored ciphertext
+ *
+ * Document.ciphertextChecksum (SHA-256 hex of the stored ciphertext) is written by the server
+ * from the uploader's value, so on its own it only catches accidental corruption: whoever can
+ * swap the blob can usually swap the row too. The uploader therefore also stores
+ * ciphertextChecksumTag, an HMAC-SHA256 of the checksum under a key derived from the DEK and
+ * bound to the document id and doc type. Every reader holding the DEK (owner, co-owner,
+ * vendor) checks the tag first, then checks the fetched ciphertext against the checksum.
+ *
+ * Parts uploaded before tags existed have none; the owner's next unlock tags them (see
+ * /api/documents/checksum-tags). Until then their checksum is still compared, and once every
+ * part in the vault is tagged a missing tag fails the check like a wrong one.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js'
+import { bytesToHex, concatBytes } from '@noble/hashes/utils.js'
+import { deriveChecksumTagKey, uint8ArrayToBase64, base64ToUint8Array } from './vault-crypto'
+import { ciphertextChecksumContext, type DocumentContext } from './envelope'
+
+/**
+ * Checksum and tag of a document's ciphertext, as returned with its metadata
+ */
+export interface ExpectedCiphertext {
+  ciphertextChecksum: string
+  ciphertextChecksumTag?: string | null // Null for documents uploaded before tags existed
+  checksumTagRequired?: boolean // Set once every part in the vault has a tag
+}
+
+/**
+ * Thrown when fetched ciphertext doesn't match its checksum, or the checksum its tag
+ */
+export class CiphertextIntegrityError extends Error {
+  constructor(
+    message: string = 'This document failed its integrity check and may have been tampered with'
+  ) {
+    super(message)
+    this.name = 'CiphertextIntegrityError'
+  }
+}
+
+function checksumTagMessage(checksum: string, context: DocumentContext): Uint8Array<ArrayBuffer> {
+  const message = concatBytes(
+    ciphertextChecksumContext(context),
+    new TextEncoder().encode(`:${checksum}`)
+  )
+  return new Uint8Array(message)
+}
+
+/**
+ * Tag a ciphertext checksum under the document's DEK
+ * Format: HMAC-SHA256, base64
+ */
+export async function createChecksumTag(
+  checksum: string,
+  dek: Uint8Array,
+  context: DocumentContext
+): Promise<string> {
+  const key = await deriveChecksumTagKey(dek)
+  const tag = await crypto.subtle.sign('HMAC', key, checksumTagMessage(checksum, context))
+  return uint8ArrayToBase64(new Uint8Array(tag))
+}
+
+/**
+ * Check the tag on a ciphertext checksum
+ * Returns false (never throws) for a wrong tag, DEK or document
+ */
+export async function verifyChecksumTag(
+  checksum: string,
+  tagBase64: string,
+  dek: Uint8Array,
+  context: DocumentContext
+): Promise<boolean> {
+  try {
+    const key = await deriveChecksumTagKey(dek)
+    return await crypto.subtle.verify(
+      'HMAC',
+      key,
+      new Uint8Array(base64ToUint8Array(tagBase64)),
+      checksumTagMessage(checksum, context)
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check that an expected checksum is genuine before relying on it
+ * Throws CiphertextIntegrityError if the tag doesn't verify, or is missing where required
+ */
+export async function verifyExpectedCiphertext(
+  expected: ExpectedCiphertext,
+  dek: Uint8Array,
+  context: DocumentContext
+): Promise<void> {
+  const { ciphertextChecksum, ciphertextChecksumTag, checksumTagRequired } = expected
+  if (!ciphertextChecksumTag) {
+    if (checksumTagRequired) throw new CiphertextIntegrityError()
+    return
+  }
+
+  if (!(await verifyChecksumTag(ciphertextChecksum, ciphertextChecksumTag, dek, context))) {
+    throw new CiphertextIntegrityError()
+  }
+}
+
+/**
+ * Pass a ciphertext stream through unchanged while hashing it
+ * checksum() is the SHA-256 hex of every byte read, once the stream has been consumed
+ */
+export function checksumStream(stream: ReadableStream<Uint8Array>): {
+  stream: ReadableStream<Uint8Array>
+  checksum: () => string
+} {
+  const hash = sha256.create()
+  const hashing = stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hash.update(chunk)
+        controller.enqueue(chunk)
+      },
+    })
+  )
+  return { stream: hashing, checksum: () => bytesToHex(hash.clone().digest()) }
+}
@@ -0,0 +1,149 @@
+/**
+ * WebAuthn PRF ceremonies for passkey unlock (browser only)
+ *
+ * A passkey never authenticates the owner to the server (the Supabase session does that);
+ * it only yields a secret. The PRF extension evaluates an HMAC inside the authenticator over
+ * a per-credential salt, after user verification, and that output derives the key wrapping
+ * the passkey's copy of the KEK. Challenges are therefore random and not checked server-side.
+ */
+
+import { generateSalt, uint8ArrayToBase64, base64ToUint8Array } from './vault-crypto'
+
+const RELYING_PARTY_NAME = 'UBO Guard'
+
+/**
+ * Thrown when the browser or authenticator can't evaluate the PRF extension
+ */
+export class PasskeyPrfUnsupportedError extends Error {
+  constructor() {
+    super('This passkey does not support the PRF extension needed to unlock the vault')
+    this.name = 'PasskeyPrfUnsupportedError'
+  }
+}
+
+/**
+ * Enrolled credential as needed for an unlock ceremony
+ */
+export interface PrfCredential {
+  credentialId: string // Base64url
+  prfSalt: string // Base64
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return uint8ArrayToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function base64UrlToBytes(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  return new Uint8Array(base64ToUint8Array(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')))
+}
+
+/**
+ * Whether this browser can run WebAuthn ceremonies at all
+ * PRF support is only known once an authenticator answers.
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential !== 'undefined'
+}
+
+function randomChallenge(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(32))
+}
+
+function prfFirstResult(credential: PublicKeyCredential): Uint8Array | null {
+  const first = credential.getClientExtensionResults().prf?.results?.first
+  if (!first) return null
+  return first instanceof ArrayBuffer
+    ? new Uint8Array(first)
+    : new Uint8Array(first.buffer, first.byteOffset, first.byteLength)
+}
+
+/**
+ * Evaluate the PRF of one of the given credentials
+ * The authenticator picks which credential answers; returns its id and PRF output.
+ */
+export async function evaluatePasskeyPrf(
+  credentials: PrfCredential[],
+  signal?: AbortSignal
+): Promise<{ credentialId: string; prfOutput: Uint8Array }> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomChallenge(),
+      allowCredentials: credentials.map((c) => ({
+        type: 'public-key',
+        id: base64UrlToBytes(c.credentialId),
+      })),
+      userVerification: 'required',
+      extensions: {
+        prf: {
+          evalByCredential: Object.fromEntries(
+            credentials.map((c) => [
+              c.credentialId,
+              { first: new Uint8Array(base64ToUint8Array(c.prfSalt)) },
+            ])
+          ),
+        },
+      },
+    },
+    signal,
+  })) as PublicKeyCredential | null
+
+  if (!assertion) {
+    throw new Error('No passkey was used')
+  }
+
+  const prfOutput = prfFirstResult(assertion)
+  if (!prfOutput) {
+    throw new PasskeyPrfUnsupportedError()
+  }
+
+  return { credentialId: bytesToBase64Url(new Uint8Array(assertion.rawId)), prfOutput }
+}
+
+/**
+ * Create a passkey and evaluate its PRF over a fresh salt
+ * Some authenticators only report PRF support at creation and need a second ceremony
+ * to produce the output.
+ */
+export async function createPrfPasskey(
+  user: { id: string; name: string },
+  signal?: AbortSignal
+): Promise<{ credentialId: string; prfSalt: string; prfOutput: Uint8Array }> {
+  const prfSalt = generateSalt()
+
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomChallenge(),
+      rp: { name: RELYING_PARTY_NAME },
+      user: {
+        id: new TextEncoder().encode(user.id),
+        name: user.name,
+        displayName: user.name,
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 }, // ES256
+        { type: 'public-key', alg: -257 }, // RS256
+      ],
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' },
+      extensions: { prf: { eval: { first: new Uint8Array(prfSalt) } } },
+    },
+    signal,
+  })) as PublicKeyCredential | null
+
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled')
+  }
+
+  const credentialId = bytesToBase64Url(new Uint8Array(credential.rawId))
+  const prfSaltBase64 = uint8ArrayToBase64(prfSalt)
+
+  if (!credential.getClientExtensionResults().prf?.enabled) {
+    throw new PasskeyPrfUnsupportedError()
+  }
+
+  const prfOutput =
+    prfFirstResult(credential) ??
+    (await evaluatePasskeyPrf([{ credentialId, prfSalt: prfSaltBase64 }], signal)).prfOutput
+
+  return { credentialId, prfSalt: prfSaltBase64, prfOutput }
+}
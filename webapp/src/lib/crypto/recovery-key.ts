@@ -0,0 +1,119 @@
+/**
+ * Recovery key utilities
+ *
+ * Offline recovery kit for the vault:
+ * - Format: AAAA-BBBB-CCCC-DDDD-EEEE-FFFF-GGGG-HHHH-X (8 groups × 4 payload chars, plus -X checksum)
+ * - Payload: 32 Crockford Base32 characters (160 bits of entropy, 5 bits per character)
+ * - Checksum: 1 Base32 character (same mod-32 scheme as vendor secrets)
+ *
+ * Generated in the browser and shown once; the server never sees it.
+ */
+
+import { computeBase32Checksum } from './vendor-secret'
+
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const RECOVERY_KEY_BYTES = 20
+const RECOVERY_KEY_PAYLOAD_LENGTH = 32
+
+/**
+ * Encode bytes as Crockford Base32 (5 bits per character, big-endian)
+ */
+function encodeBase32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += CROCKFORD_ALPHABET[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += CROCKFORD_ALPHABET[(buffer << (5 - bits)) & 31]
+  }
+  return output
+}
+
+/**
+ * Decode Crockford Base32 into bytes (inverse of encodeBase32)
+ */
+function decodeBase32(payload: string): Uint8Array {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of payload) {
+    buffer = (buffer << 5) | CROCKFORD_ALPHABET.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Generate a random recovery key in the specified format
+ * Returns: AAAA-BBBB-CCCC-DDDD-EEEE-FFFF-GGGG-HHHH-X
+ */
+export function generateRecoveryKey(): string {
+  const randomBytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES))
+  const payload = encodeBase32(randomBytes)
+  return formatRecoveryKeyForDisplay(payload + computeBase32Checksum(payload))
+}
+
+/**
+ * Validate and normalize recovery key input
+ * - Strips separators/spaces and uppercases
+ * - Rejects characters outside Crockford alphabet
+ * - Validates checksum
+ * - Returns normalized form (without separators) or throws
+ */
+export function validateAndNormalizeRecoveryKey(input: string): string {
+  const normalized = input.replace(/[-\s]/g, '').toUpperCase()
+
+  if (normalized.length !== RECOVERY_KEY_PAYLOAD_LENGTH + 1) {
+    throw new Error('Recovery key must be 33 characters (32 payload + 1 checksum)')
+  }
+
+  for (const char of normalized) {
+    if (!CROCKFORD_ALPHABET.includes(char)) {
+      throw new Error(`Invalid character in recovery key: ${char}. Only Crockford Base32 characters allowed.`)
+    }
+  }
+
+  const payload = normalized.slice(0, RECOVERY_KEY_PAYLOAD_LENGTH)
+  if (normalized.slice(RECOVERY_KEY_PAYLOAD_LENGTH) !== computeBase32Checksum(payload)) {
+    throw new Error('Recovery key checksum validation failed')
+  }
+
+  return normalized
+}
+
+/**
+ * Convert recovery key string to its 20 random bytes
+ * Used when deriving the recovery wrapping key
+ */
+export function recoveryKeyToBytes(recoveryKey: string): Uint8Array {
+  const normalized = validateAndNormalizeRecoveryKey(recoveryKey)
+  return decodeBase32(normalized.slice(0, RECOVERY_KEY_PAYLOAD_LENGTH))
+}
+
+/**
+ * Format recovery key for display (with separators)
+ * Input: normalized string without separators
+ */
+export function formatRecoveryKeyForDisplay(normalized: string): string {
+  if (normalized.length !== RECOVERY_KEY_PAYLOAD_LENGTH + 1) {
+    throw new Error('Invalid normalized recovery key length')
+  }
+
+  const groups: string[] = []
+  for (let i = 0; i < RECOVERY_KEY_PAYLOAD_LENGTH; i += 4) {
+    groups.push(normalized.slice(i, i + 4))
+  }
+  groups.push(normalized.slice(RECOVERY_KEY_PAYLOAD_LENGTH))
+  return groups.join('-')
+}
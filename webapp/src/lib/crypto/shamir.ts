@@ -0,0 +1,109 @@
+/**
+ * Shamir secret sharing over GF(256)
+ *
+ * Splits a secret into N shares so that any K of them reconstruct it and K - 1 reveal
+ * nothing about it. Each byte of the secret is the constant term of its own random
+ * polynomial of degree K - 1; share i holds every polynomial evaluated at x = i.
+ *
+ * Share format: x (1 byte, 1..255) || one y byte per secret byte
+ *
+ * Shares carry no integrity protection: combining a wrong or tampered share yields a
+ * wrong secret without an error, so callers check the result (see combineRecoveryShares).
+ */
+
+const MAX_SHARES = 255
+
+// Log and antilog tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1,
+// generated by 3
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+{
+  let value = 1
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value
+    LOG[value] = i
+    value ^= value << 1 // Multiply by 3
+    if (value & 0x100) value ^= 0x11b
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255]
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]
+}
+
+/**
+ * Split a secret into shareCount shares, any threshold of which reconstruct it
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  shareCount: number,
+  threshold: number
+): Uint8Array[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be at least 2')
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARES) {
+    throw new Error(`Share count must be between the threshold and ${MAX_SHARES}`)
+  }
+
+  const shares = Array.from({ length: shareCount }, (_, i) => {
+    const share = new Uint8Array(secret.length + 1)
+    share[0] = i + 1
+    return share
+  })
+
+  const coefficients = new Uint8Array(threshold - 1)
+  for (let byte = 0; byte < secret.length; byte++) {
+    crypto.getRandomValues(coefficients)
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first
+      let y = 0
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = multiply(y, share[0]) ^ coefficients[c]
+      }
+      share[byte + 1] = multiply(y, share[0]) ^ secret[byte]
+    }
+  }
+  coefficients.fill(0)
+
+  return shares
+}
+
+/**
+ * Reconstruct a secret from threshold (or more) shares of the same split
+ * Lagrange interpolation at x = 0
+ */
+export function combineShares(shares: Uint8Array[]): Uint8Array {
+  if (shares.length < 2) {
+    throw new Error('At least two shares are required')
+  }
+  const length = shares[0].length
+  const xs = shares.map((share) => share[0])
+  if (
+    shares.some((share) => share.length !== length || share.length < 2) ||
+    xs.some((x) => x === 0) ||
+    new Set(xs).size !== xs.length
+  ) {
+    throw new Error('Shares are malformed or from different splits')
+  }
+
+  // Lagrange basis at 0 for each share: prod(x_j / (x_j ^ x_i)) over j != i
+  const basis = xs.map((xi, i) =>
+    xs.reduce((acc, xj, j) => (i === j ? acc : multiply(acc, divide(xj, xj ^ xi))), 1)
+  )
+
+  const secret = new Uint8Array(length - 1)
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0
+    for (let i = 0; i < shares.length; i++) {
+      value ^= multiply(shares[i][byte + 1], basis[i])
+    }
+    secret[byte] = value
+  }
+  return secret
+}
@@ -9,7 +9,16 @@
 
 import { argon2id } from '@noble/hashes/argon2.js'
 
+export type KdfAlgorithm = 'argon2id'
+
+/**
+ * Versioned KDF descriptor stored in Vault.kdfParams
+ * algorithm/version are absent on vaults created before descriptors were versioned
+ * (those are Argon2id, policy version 1)
+ */
 export interface KdfParams {
+  algorithm?: KdfAlgorithm
+  version?: number // KDF policy version the parameters were chosen under
   memory: number // Memory cost in KB
   time: number   // Time cost (iterations)
   parallelism: number // Parallelism factor
@@ -53,11 +62,16 @@ export function generateSalt(): Uint8Array {
 export async function deriveKek(
   password: string,
   salt: Uint8Array,
-  params: KdfParams
+  params: KdfParams,
+  onProgress?: (progress: number) => void // 0..1, called as Argon2id fills memory blocks
 ): Promise<Uint8Array> {
   // @noble/hashes argon2id API:
   // argon2id(password: Input, salt: Input, opts: ArgonOpts): Uint8Array
   // opts: { t: time, m: memory (in KB), p: parallelism, dkLen?: hash length }
+  if (params.algorithm && params.algorithm !== 'argon2id') {
+    throw new Error(`Unsupported KDF algorithm: ${params.algorithm}`)
+  }
+
   const passwordBytes = new TextEncoder().encode(password)
   
   const hash = argon2id(passwordBytes, salt, {
@@ -65,6 +79,7 @@ export async function deriveKek(
     m: params.memory,      // Memory cost in KB
     p: params.parallelism, // Parallelism factor
     dkLen: 32,             // 32 bytes = 256 bits
+    onProgress,
   })
 
   // Ensure we return a proper Uint8Array with ArrayBuffer (not ArrayBufferLike)
@@ -388,6 +403,272 @@ export async function deriveWrapKeyFromVendorSecret(
   return wrapKey
 }
 
+/**
+ * Derive the recovery wrapping key from recovery key bytes using HKDF-SHA256
+ * The recovery key is high-entropy (160 bits), so no password hardening is needed.
+ * Returns raw bytes so the key can itself be wrapped under the KEK for later uploads.
+ */
+export async function deriveRecoveryKey(
+  recoveryKeyBytes: Uint8Array,
+  salt: Uint8Array
+): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    normalizeUint8Array(recoveryKeyBytes),
+    { name: 'HKDF' },
+    false,
+    ['deriveBits']
+  )
+
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      salt: normalizeUint8Array(salt),
+      info: new TextEncoder().encode('recovery-wrap'),
+      hash: 'SHA-256',
+    },
+    baseKey,
+    256
+  )
+
+  return new Uint8Array(bits)
+}
+
+/**
+ * Derive the passkey wrapping key from a WebAuthn PRF output using HKDF-SHA256
+ * The PRF output is already a per-credential, per-salt secret (32 bytes), so no
+ * password hardening is needed.
+ */
+export async function derivePasskeyWrapKey(prfOutput: Uint8Array): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    normalizeUint8Array(prfOutput),
+    { name: 'HKDF' },
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode('passkey-kek-wrap'),
+      hash: 'SHA-256',
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derive the key that tags a document's ciphertext checksum from its DEK using HKDF-SHA256
+ * A separate HMAC key, so the DEK itself is only ever used for AES-GCM
+ */
+export async function deriveChecksumTagKey(dek: Uint8Array): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    normalizeUint8Array(dek),
+    { name: 'HKDF' },
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode('ciphertext-checksum-tag'),
+      hash: 'SHA-256',
+    },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+const OWNER_KEY_ALGORITHM = { name: 'ECDH', namedCurve: 'P-256' } as const
+
+// HKDF info labels, so a key sealed for one purpose can't be opened as the other
+const CO_OWNER_SEAL_LABEL = 'co-owner-dek-seal:'
+const VENDOR_KEY_SEAL_LABEL = 'vendor-key-lsk-seal:'
+const RECOVERY_SHARE_SEAL_LABEL = 'recovery-share-seal:'
+
+/**
+ * Generate a co-owner's ECDH P-256 key pair
+ * Returns the public key as SPKI and the private key as PKCS#8 (to be wrapped under the KEK)
+ */
+export async function generateOwnerKeyPair(): Promise<{
+  publicKey: Uint8Array
+  privateKey: Uint8Array
+}> {
+  const keyPair = await crypto.subtle.generateKey(OWNER_KEY_ALGORITHM, true, ['deriveBits'])
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('spki', keyPair.publicKey),
+    crypto.subtle.exportKey('pkcs8', keyPair.privateKey),
+  ])
+
+  return { publicKey: new Uint8Array(publicKey), privateKey: new Uint8Array(privateKey) }
+}
+
+/**
+ * Derive the key that seals a DEK to a co-owner's public key (ECIES-style)
+ * A fresh ephemeral key pair is used per seal; its raw public key travels with the
+ * sealed DEK and is bound into the HKDF info.
+ */
+export async function deriveOwnerSealKey(
+  recipientPublicKeySpki: Uint8Array
+): Promise<{ sealKey: CryptoKey; ephemeralPublicKey: Uint8Array }> {
+  return deriveSealKey(recipientPublicKeySpki, CO_OWNER_SEAL_LABEL)
+}
+
+/**
+ * Derive the same seal key on the co-owner's side from their private key
+ */
+export async function deriveOwnerOpenKey(
+  privateKeyPkcs8: Uint8Array,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    normalizeUint8Array(privateKeyPkcs8),
+    OWNER_KEY_ALGORITHM,
+    false,
+    ['deriveBits']
+  )
+
+  return deriveOpenKey(privateKey, ephemeralPublicKey, CO_OWNER_SEAL_LABEL)
+}
+
+/**
+ * Generate an ECDH P-256 key pair for a vendor, recovery contact or recovery request
+ * The private key is non-extractable: it stays in the browser that created it (see
+ * browser-key-store.ts), and only the SPKI public key is registered with the server.
+ */
+export async function generateBrowserKeyPair(): Promise<{
+  publicKey: Uint8Array
+  privateKey: CryptoKey
+}> {
+  const keyPair = await crypto.subtle.generateKey(OWNER_KEY_ALGORITHM, false, ['deriveBits'])
+  const publicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey)
+
+  return { publicKey: new Uint8Array(publicKey), privateKey: keyPair.privateKey }
+}
+
+/**
+ * Derive the key that seals a link's LSK to a vendor's registered public key
+ * Same construction as deriveOwnerSealKey, under its own HKDF label
+ */
+export async function deriveVendorKeySealKey(
+  vendorPublicKeySpki: Uint8Array
+): Promise<{ sealKey: CryptoKey; ephemeralPublicKey: Uint8Array }> {
+  return deriveSealKey(vendorPublicKeySpki, VENDOR_KEY_SEAL_LABEL)
+}
+
+/**
+ * Derive the same seal key on the vendor's side from their stored private key
+ */
+export async function deriveVendorKeyOpenKey(
+  privateKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  return deriveOpenKey(privateKey, ephemeralPublicKey, VENDOR_KEY_SEAL_LABEL)
+}
+
+/**
+ * Derive the key that seals a social recovery share to a contact's or a request's public key
+ * Same construction as deriveOwnerSealKey, under its own HKDF label
+ */
+export async function deriveRecoveryShareSealKey(
+  recipientPublicKeySpki: Uint8Array
+): Promise<{ sealKey: CryptoKey; ephemeralPublicKey: Uint8Array }> {
+  return deriveSealKey(recipientPublicKeySpki, RECOVERY_SHARE_SEAL_LABEL)
+}
+
+/**
+ * Derive the same seal key on the recipient's side from their stored private key
+ */
+export async function deriveRecoveryShareOpenKey(
+  privateKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  return deriveOpenKey(privateKey, ephemeralPublicKey, RECOVERY_SHARE_SEAL_LABEL)
+}
+
+async function deriveSealKey(
+  recipientPublicKeySpki: Uint8Array,
+  label: string
+): Promise<{ sealKey: CryptoKey; ephemeralPublicKey: Uint8Array }> {
+  const recipientPublicKey = await crypto.subtle.importKey(
+    'spki',
+    normalizeUint8Array(recipientPublicKeySpki),
+    OWNER_KEY_ALGORITHM,
+    false,
+    []
+  )
+  const ephemeral = await crypto.subtle.generateKey(OWNER_KEY_ALGORITHM, true, ['deriveBits'])
+  const ephemeralPublicKey = new Uint8Array(
+    await crypto.subtle.exportKey('raw', ephemeral.publicKey)
+  )
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: recipientPublicKey },
+    ephemeral.privateKey,
+    256
+  )
+
+  return {
+    sealKey: await sealKeyFromSecret(sharedSecret, ephemeralPublicKey, label),
+    ephemeralPublicKey,
+  }
+}
+
+async function deriveOpenKey(
+  privateKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  label: string
+): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey(
+    'raw',
+    normalizeUint8Array(ephemeralPublicKey),
+    OWNER_KEY_ALGORITHM,
+    false,
+    []
+  )
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    256
+  )
+
+  return sealKeyFromSecret(sharedSecret, ephemeralPublicKey, label)
+}
+
+async function sealKeyFromSecret(
+  sharedSecret: ArrayBuffer,
+  ephemeralPublicKey: Uint8Array,
+  label: string
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', sharedSecret, { name: 'HKDF' }, false, [
+    'deriveKey',
+  ])
+  const labelBytes = new TextEncoder().encode(label)
+  const info = new Uint8Array(labelBytes.length + ephemeralPublicKey.length)
+  info.set(labelBytes)
+  info.set(ephemeralPublicKey, labelBytes.length)
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', salt: new Uint8Array(0), info, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
 /**
  * Unwrap LSK with vendor secret-derived wrapping key
  * Used in Step 4 for vendor access: decrypt LSK using VS-derived wrap key
@@ -28,7 +28,7 @@ export function generateVendorSecret(): string {
   
   // Format: split into groups of 4, add checksum
   const payload = encoded.slice(0, 20) // Take first 20 chars
-  const checksum = computeChecksum(payload)
+  const checksum = computeBase32Checksum(payload)
   
   // Format as AAAA-BBBB-CCCC-DDDD-EEEE-X
   const formatted = [
@@ -46,8 +46,9 @@ export function generateVendorSecret(): string {
 /**
  * Compute mod-32 checksum over Base32 payload digits
  * Per TECH-2.md: checksum adds 0 entropy; typo-detection only
+ * Shared with recovery keys, which use the same Crockford format
  */
-function computeChecksum(payload: string): string {
+export function computeBase32Checksum(payload: string): string {
   // Crockford Base32 alphabet: 0123456789ABCDEFGHJKMNPQRSTVWXYZ
   // Map each character to its digit value (0-31)
   const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
@@ -91,7 +92,7 @@ export function validateAndNormalizeVendorSecret(input: string): string {
   }
   
   // Validate checksum
-  const expectedChecksum = computeChecksum(payload)
+  const expectedChecksum = computeBase32Checksum(payload)
   if (providedChecksum !== expectedChecksum) {
     throw new Error('Vendor secret checksum validation failed')
   }
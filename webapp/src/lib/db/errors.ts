@@ -0,0 +1,9 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Whether a query failed on a unique constraint, as when a concurrent request took the row
+ * first
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
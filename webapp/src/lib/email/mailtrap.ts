@@ -151,6 +151,172 @@ If you did not expect this email, please contact the sender or ignore this messa
   }
 }
 
+export type VendorLinkEmailParams = Omit<VendorSecretEmailParams, 'vendorSecret'>
+
+/**
+ * Send a share link sealed to the vendor's registered key
+ * Same as sendVendorSecretEmail without the VS: the link alone doesn't open the documents
+ */
+export async function sendVendorLinkEmail(params: VendorLinkEmailParams): Promise<void> {
+  const { to, vendorLabel, linkUrl, expiresAt } = params
+
+  const expiryDate = new Date(expiresAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+  const mailOptions = {
+    from: mailtrapFromEmail,
+    to,
+    subject: `Secure Document Access: ${vendorLabel}`,
+    html: `
+      <h2>Secure Document Access</h2>
+      <p>You have been granted access to view documents shared by <strong>${vendorLabel}</strong>.</p>
+      
+      <h3>Access Information</h3>
+      <p><strong>Share Link:</strong> <a href="${linkUrl}">${linkUrl}</a></p>
+      <p><strong>Expires:</strong> ${expiryDate}</p>
+      <p>These documents are encrypted to the key you registered in your browser. Open the link in that same browser; no vendor secret is needed.</p>
+      
+      <h3>How to Access</h3>
+      <ol>
+        <li>Open the share link above in the browser where you registered your key</li>
+        <li>Enter your email address and verify with the one-time passcode</li>
+        <li>View or download the shared documents</li>
+      </ol>
+      
+      <p>If you did not expect this email, please contact the sender or ignore this message.</p>
+    `,
+    text: `
+Secure Document Access
+
+You have been granted access to view documents shared by ${vendorLabel}.
+
+Access Information:
+- Share Link: ${linkUrl}
+- Expires: ${expiryDate}
+
+These documents are encrypted to the key you registered in your browser. Open the link in that same browser; no vendor secret is needed.
+
+How to Access:
+1. Open the share link above in the browser where you registered your key
+2. Enter your email address and verify with the one-time passcode
+3. View or download the shared documents
+
+If you did not expect this email, please contact the sender or ignore this message.
+    `,
+  }
+
+  try {
+    await transporter.sendMail(mailOptions)
+  } catch (error) {
+    console.error('Failed to send vendor link email:', error)
+    throw new Error('Failed to send vendor link email')
+  }
+}
+
+export interface RecoveryContactInviteEmailParams {
+  to: string
+  ownerEmail: string
+  contactUrl: string
+}
+
+/**
+ * Invite a trusted contact to hold a share of an owner's vault recovery key
+ */
+export async function sendRecoveryContactInviteEmail(
+  params: RecoveryContactInviteEmailParams
+): Promise<void> {
+  const { to, ownerEmail, contactUrl } = params
+
+  const mailOptions = {
+    from: mailtrapFromEmail,
+    to,
+    subject: `${ownerEmail} asked you to be a recovery contact`,
+    html: `
+      <h2>Recovery Contact</h2>
+      <p><strong>${ownerEmail}</strong> has asked you to hold one share of the recovery key for their document vault.</p>
+      <p>No single share can open the vault. If they ever lose access, they will ask you and their other contacts to approve the recovery.</p>
+      <p>Open the link below in a browser you keep using, and register it:</p>
+      <p><a href="${contactUrl}">${contactUrl}</a></p>
+      <p>Keep this email: you will use the same link to approve a recovery. If you didn't expect this, you can safely ignore it.</p>
+    `,
+    text: `
+Recovery Contact
+
+${ownerEmail} has asked you to hold one share of the recovery key for their document vault.
+
+No single share can open the vault. If they ever lose access, they will ask you and their other contacts to approve the recovery.
+
+Open the link below in a browser you keep using, and register it:
+${contactUrl}
+
+Keep this email: you will use the same link to approve a recovery. If you didn't expect this, you can safely ignore it.
+    `,
+  }
+
+  try {
+    await transporter.sendMail(mailOptions)
+  } catch (error) {
+    console.error('Failed to send recovery contact invite email:', error)
+    throw new Error('Failed to send recovery contact invite email')
+  }
+}
+
+export interface RecoveryRequestEmailParams {
+  to: string
+  ownerEmail: string
+  expiresAt: Date
+}
+
+/**
+ * Ask a recovery contact to approve a vault recovery
+ * Only the token hash is stored, so the contact opens the link from their invite email
+ */
+export async function sendRecoveryRequestEmail(params: RecoveryRequestEmailParams): Promise<void> {
+  const { to, ownerEmail, expiresAt } = params
+
+  const expiryDate = new Date(expiresAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  const mailOptions = {
+    from: mailtrapFromEmail,
+    to,
+    subject: `${ownerEmail} is asking you to approve a vault recovery`,
+    html: `
+      <h2>Vault Recovery Request</h2>
+      <p>A recovery of <strong>${ownerEmail}</strong>'s document vault was requested, and your approval is needed.</p>
+      <p style="color: #d32f2f; font-weight: bold;">Before approving, contact ${ownerEmail} by phone or in person and confirm the request code shown on the page.</p>
+      <p>Open the recovery contact link from your invitation email, in the browser you registered.</p>
+      <p>The request expires on ${expiryDate}. If you can't confirm it came from them, don't approve it.</p>
+    `,
+    text: `
+Vault Recovery Request
+
+A recovery of ${ownerEmail}'s document vault was requested, and your approval is needed.
+
+Before approving, contact ${ownerEmail} by phone or in person and confirm the request code shown on the page.
+
+Open the recovery contact link from your invitation email, in the browser you registered.
+
+The request expires on ${expiryDate}. If you can't confirm it came from them, don't approve it.
+    `,
+  }
+
+  try {
+    await transporter.sendMail(mailOptions)
+  } catch (error) {
+    console.error('Failed to send recovery request email:', error)
+    throw new Error('Failed to send recovery request email')
+  }
+}
+
 export interface VendorOtpEmailParams {
   to: string
   otp: string
@@ -219,6 +385,70 @@ This verification code is for your use only. If you did not request this code, p
   }
 }
 
+export interface DocumentExpiryReminderEmailParams {
+  to: string
+  documents: {
+    label: string // The document type's label in the vault's catalog
+    status: 'expiring_soon' | 'stale'
+    validUntil: string // YYYY-MM-DD
+  }[]
+}
+
+/**
+ * Remind an owner to renew documents that are expiring soon or already stale
+ * Only plaintext dates get here; the server can't read dates the owner kept private
+ */
+export async function sendDocumentExpiryReminderEmail(
+  params: DocumentExpiryReminderEmailParams
+): Promise<void> {
+  const { to, documents } = params
+
+  const lines = documents.map((doc) => {
+    const date = new Date(`${doc.validUntil}T00:00:00Z`).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    })
+    return doc.status === 'stale'
+      ? `${doc.label}: out of date since ${date}`
+      : `${doc.label}: expires on ${date}`
+  })
+
+  const mailOptions = {
+    from: mailtrapFromEmail,
+    to,
+    subject:
+      documents.length === 1
+        ? `Your ${documents[0].label} needs renewing`
+        : `${documents.length} documents in your vault need renewing`,
+    html: `
+      <h2>Documents To Renew</h2>
+      <p>These documents in your vault are expiring soon or no longer accepted:</p>
+      <ul>
+        ${lines.map((line) => `<li>${line}</li>`).join('\n        ')}
+      </ul>
+      <p>Upload a new version at <a href="${appUrl}/vault">${appUrl}/vault</a>. Delegates are warned before they request a stale document.</p>
+    `,
+    text: `
+Documents To Renew
+
+These documents in your vault are expiring soon or no longer accepted:
+
+${lines.map((line) => `- ${line}`).join('\n')}
+
+Upload a new version at ${appUrl}/vault. Delegates are warned before they request a stale document.
+    `,
+  }
+
+  try {
+    await transporter.sendMail(mailOptions)
+  } catch (error) {
+    console.error('Failed to send document expiry reminder email:', error)
+    throw new Error('Failed to send document expiry reminder email')
+  }
+}
+
 /**
  * Verify email service configuration
  */
@@ -0,0 +1,207 @@
+/**
+ * Client-side image sanitizing before encryption
+ *
+ * Phone photos of documents carry EXIF (GPS coordinates, device serials, capture times), XMP
+ * and IPTC metadata. Redrawing the image on a canvas applies its EXIF orientation and drops
+ * all of it; the image can be downscaled and recompressed on the way.
+ *
+ * Note: All operations happen in the browser, before the file is encrypted, so the server
+ * never sees the original.
+ */
+
+/**
+ * Image types that are redrawn; anything else (PDFs, GIFs, HEIC...) is uploaded as picked
+ */
+const SANITIZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+/**
+ * Metadata a file carries
+ * `text` covers PNG text chunks other than XMP (comments, authors, software...)
+ */
+export type ImageMetadataKind = 'EXIF' | 'XMP' | 'IPTC' | 'text'
+
+export interface ImageSanitizeOptions {
+  maxDimension: number | null // Longest side in pixels after downscaling; null keeps the size
+  quality: number // JPEG and WebP quality, 0-1; PNG stays lossless
+}
+
+export const DEFAULT_IMAGE_SANITIZE_OPTIONS: ImageSanitizeOptions = {
+  maxDimension: null,
+  quality: 0.92,
+}
+
+/**
+ * An image as it will be uploaded, with what was removed from the original
+ */
+export interface SanitizedImage {
+  file: File
+  width: number
+  height: number
+  originalWidth: number
+  originalHeight: number
+  removedMetadata: ImageMetadataKind[]
+}
+
+/**
+ * Check if a file is an image the sanitizer redraws
+ */
+export function isSanitizableImage(file: { type: string }): boolean {
+  return SANITIZABLE_IMAGE_TYPES.includes(file.type)
+}
+
+/**
+ * Dimensions that fit within maxDimension on the longest side, keeping the aspect ratio
+ * Images are never scaled up.
+ */
+export function scaledDimensions(
+  width: number,
+  height: number,
+  maxDimension: number | null
+): { width: number; height: number } {
+  const longest = Math.max(width, height)
+  if (maxDimension === null || longest <= maxDimension) return { width, height }
+
+  const scale = maxDimension / longest
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  }
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) return false
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false
+  }
+  return true
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+// JPEG: APP1 segments hold EXIF or XMP, APP13 holds IPTC; metadata comes before the scan
+function findJpegMetadata(bytes: Uint8Array, found: Set<ImageMetadataKind>) {
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      offset++ // Fill byte
+      continue
+    }
+    if (marker === 0xd9 || marker === 0xda) return // End of image, start of scan
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2 // No length
+      continue
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const payload = offset + 4
+    if (marker === 0xe1 && startsWithAscii(bytes, payload, 'Exif\0')) found.add('EXIF')
+    if (marker === 0xe1 && startsWithAscii(bytes, payload, 'http://ns.adobe.com/xap/1.0/')) {
+      found.add('XMP')
+    }
+    if (marker === 0xed && startsWithAscii(bytes, payload, 'Photoshop 3.0\0')) found.add('IPTC')
+    offset += 2 + length
+  }
+}
+
+// PNG: eXIf chunks, and text chunks of which XMP is one
+function findPngMetadata(bytes: Uint8Array, found: Set<ImageMetadataKind>) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = readAscii(bytes, offset + 4, 4)
+    if (type === 'IEND') return
+    if (type === 'eXIf') found.add('EXIF')
+    if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      found.add(startsWithAscii(bytes, offset + 8, 'XML:com.adobe.xmp\0') ? 'XMP' : 'text')
+    }
+    offset += 12 + length // Length, type, data, CRC
+  }
+}
+
+// WebP: RIFF chunks named EXIF and XMP
+function findWebpMetadata(bytes: Uint8Array, found: Set<ImageMetadataKind>) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4)
+    const length = view.getUint32(offset + 4, true)
+    if (type === 'EXIF') found.add('EXIF')
+    if (type === 'XMP ') found.add('XMP')
+    offset += 8 + length + (length % 2) // Chunks are padded to an even length
+  }
+}
+
+/**
+ * List the metadata embedded in a JPEG, PNG or WebP file
+ * Returns nothing for other formats.
+ */
+export function findImageMetadata(bytes: Uint8Array): ImageMetadataKind[] {
+  const found = new Set<ImageMetadataKind>()
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    findJpegMetadata(bytes, found)
+  } else if (startsWithAscii(bytes, 0, '\x89PNG\r\n\x1a\n')) {
+    findPngMetadata(bytes, found)
+  } else if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) {
+    findWebpMetadata(bytes, found)
+  }
+
+  return [...found]
+}
+
+/**
+ * Redraw an image upright without its metadata, optionally downscaled and recompressed
+ * The file keeps its name, and its type where the browser can encode it (Safari writes no WebP,
+ * and falls back to PNG).
+ */
+export async function sanitizeImage(
+  file: File,
+  options: ImageSanitizeOptions = DEFAULT_IMAGE_SANITIZE_OPTIONS
+): Promise<SanitizedImage> {
+  const removedMetadata = findImageMetadata(new Uint8Array(await file.arrayBuffer()))
+
+  // Decoding applies the EXIF orientation, so the pixels come out upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const { width, height } = scaledDimensions(bitmap.width, bitmap.height, options.maxDimension)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get canvas context')
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height)
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (result) => {
+          if (result) {
+            resolve(result)
+          } else {
+            reject(new Error('Failed to re-encode image'))
+          }
+        },
+        file.type,
+        options.quality
+      )
+    })
+
+    return {
+      file: new File([blob], file.name, { type: blob.type || file.type }),
+      width,
+      height,
+      originalWidth: bitmap.width,
+      originalHeight: bitmap.height,
+      removedMetadata,
+    }
+  } finally {
+    bitmap.close()
+  }
+}
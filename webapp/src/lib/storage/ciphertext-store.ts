@@ -0,0 +1,127 @@
+/**
+ * Ciphertext storage
+ * Blobs are kept by the CiphertextStore chosen with STORAGE_DRIVER: `supabase` (default),
+ * `s3` for any S3-compatible service such as MinIO, or `local` for a directory on the server.
+ * The rest of the app only uses the functions below.
+ */
+
+import { createSupabaseStore } from './supabase-store'
+import { createS3Store } from './s3-store'
+import { createLocalStore } from './local-store'
+
+/**
+ * A stored ciphertext blob, as listed by listCiphertexts
+ */
+export interface StoredCiphertext {
+  path: string
+  createdAt: Date
+}
+
+/**
+ * A storage backend for ciphertext blobs
+ * Paths are written once: every upload, replacement and key rotation gets a fresh one, so no
+ * operation overwrites a blob a document may still refer to.
+ */
+export interface CiphertextStore {
+  upload(path: string, ciphertext: Uint8Array): Promise<void> // Fails if the path exists
+  download(path: string): Promise<Uint8Array>
+  delete(path: string): Promise<void>
+  list(prefix: string): Promise<StoredCiphertext[]> // Every blob under the prefix, recursively
+  size(path: string): Promise<number> // Stored bytes
+  signedDownloadUrl(path: string, expiresInSeconds: number): Promise<string>
+  // For one PUT of at most maxBytes, where the backend can hold a URL to a size
+  signedUploadUrl(path: string, expiresInSeconds: number, maxBytes: number): Promise<string>
+}
+
+// Signed upload URLs are valid for 2 hours, the lifetime Supabase fixes for its own
+export const SIGNED_UPLOAD_URL_TTL_SECONDS = 2 * 60 * 60
+
+let store: CiphertextStore | null = null
+
+/**
+ * The configured store, created on first use
+ */
+export function getCiphertextStore(): CiphertextStore {
+  if (!store) {
+    const driver = process.env.STORAGE_DRIVER || 'supabase'
+    switch (driver) {
+      case 'supabase':
+        store = createSupabaseStore()
+        break
+      case 's3':
+        store = createS3Store()
+        break
+      case 'local':
+        store = createLocalStore()
+        break
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+    }
+  }
+  return store
+}
+
+/**
+ * Upload a ciphertext blob; fails rather than overwrite an existing one
+ */
+export async function uploadCiphertext(path: string, ciphertext: Uint8Array): Promise<void> {
+  return getCiphertextStore().upload(path, ciphertext)
+}
+
+/**
+ * Download a ciphertext blob
+ */
+export async function downloadCiphertext(path: string): Promise<Uint8Array> {
+  return getCiphertextStore().download(path)
+}
+
+/**
+ * Delete a ciphertext blob
+ */
+export async function deleteCiphertext(path: string): Promise<void> {
+  return getCiphertextStore().delete(path)
+}
+
+/**
+ * List every ciphertext blob under a prefix (e.g. `vaults`)
+ * Used by storage reconciliation to find blobs no document part refers to
+ */
+export async function listCiphertexts(prefix: string): Promise<StoredCiphertext[]> {
+  return getCiphertextStore().list(prefix)
+}
+
+/**
+ * The number of bytes stored at a path
+ * Commits check it against the size the client declared, which quotas are counted in
+ */
+export async function getCiphertextSize(path: string): Promise<number> {
+  return getCiphertextStore().size(path)
+}
+
+/**
+ * Generate storage path for a document
+ */
+export function getStoragePath(vaultId: string, docType: string, docId: string): string {
+  return `vaults/${vaultId}/${docType}/${docId}.bin`
+}
+
+/**
+ * Generate a signed URL for ciphertext access
+ * Used for vendor access: generates short-lived signed URL after session validation
+ * Default expiration: 5 minutes (300 seconds)
+ */
+export async function generateSignedCiphertextUrl(
+  path: string,
+  expiresInSeconds: number = 300
+): Promise<string> {
+  return getCiphertextStore().signedDownloadUrl(path, expiresInSeconds)
+}
+
+/**
+ * Generate a signed URL the client can PUT ciphertext to directly
+ * Lets large chunked ciphertext stream to storage instead of going through an API route as base64.
+ * maxBytes is the largest ciphertext the vault's file size limit allows (maxCiphertextSize).
+ */
+export async function generateSignedUploadUrl(path: string, maxBytes: number): Promise<string> {
+  return getCiphertextStore().signedUploadUrl(path, SIGNED_UPLOAD_URL_TTL_SECONDS, maxBytes)
+}
@@ -0,0 +1,159 @@
+/**
+ * Local-filesystem storage driver for ciphertext blobs
+ * For development and single-server installs. Blobs live under LOCAL_STORAGE_DIR, and signed
+ * URLs point at our own /api/storage/local route, authenticated with an HMAC over the method,
+ * path, expiry and, for uploads, the largest body the URL accepts.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'node:fs/promises'
+import { dirname, join, relative, resolve, sep } from 'node:path'
+import type { CiphertextStore, StoredCiphertext } from './ciphertext-store'
+
+// Route that serves signed local URLs
+const LOCAL_STORAGE_ROUTE = '/api/storage/local'
+
+/**
+ * Requests a signed local URL can authorize
+ */
+export type LocalUrlMethod = 'GET' | 'PUT'
+
+function getLocalStorageSecret(): string {
+  const secret = process.env.LOCAL_STORAGE_SECRET
+  if (!secret) {
+    throw new Error('LOCAL_STORAGE_SECRET must be set')
+  }
+  return secret
+}
+
+function signature(
+  method: LocalUrlMethod,
+  path: string,
+  expires: number,
+  maxBytes: string | null
+): string {
+  const signed = `${method}\n${path}\n${expires}` + (maxBytes === null ? '' : `\n${maxBytes}`)
+  return createHmac('sha256', getLocalStorageSecret()).update(signed).digest('hex')
+}
+
+/**
+ * Sign a relative URL allowing one method on a path until expiry
+ * An upload URL carries the largest body it accepts, which the signature covers too.
+ */
+export function signedLocalUrl(
+  method: LocalUrlMethod,
+  path: string,
+  expiresInSeconds: number,
+  { maxBytes, now = new Date() }: { maxBytes?: number; now?: Date } = {}
+): string {
+  const expires = Math.floor(now.getTime() / 1000) + expiresInSeconds
+  const limit = maxBytes === undefined ? null : String(maxBytes)
+  const query = new URLSearchParams({
+    method,
+    expires: String(expires),
+    ...(limit !== null && { maxBytes: limit }),
+    signature: signature(method, path, expires, limit),
+  })
+  return `${LOCAL_STORAGE_ROUTE}/${path.split('/').map(encodeURIComponent).join('/')}?${query}`
+}
+
+/**
+ * Check a signed local URL's parameters: right method, unexpired, signature matches
+ * Upload URLs must carry a size limit; localUrlMaxBytes reads it once the URL checks out.
+ */
+export function verifyLocalUrl(
+  method: LocalUrlMethod,
+  path: string,
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): boolean {
+  const expires = Number(searchParams.get('expires'))
+  const maxBytes = searchParams.get('maxBytes')
+  const given = searchParams.get('signature') || ''
+
+  if (searchParams.get('method') !== method) return false
+  if (!Number.isInteger(expires) || expires * 1000 <= now.getTime()) return false
+  if (method === 'PUT' && localUrlMaxBytes(searchParams) === null) return false
+
+  const expected = signature(method, path, expires, maxBytes)
+  return (
+    given.length === expected.length &&
+    timingSafeEqual(Buffer.from(given), Buffer.from(expected))
+  )
+}
+
+/**
+ * The largest body a signed local upload URL accepts, if it carries a valid limit
+ */
+export function localUrlMaxBytes(searchParams: URLSearchParams): number | null {
+  const maxBytes = Number(searchParams.get('maxBytes') ?? NaN)
+  return Number.isSafeInteger(maxBytes) && maxBytes >= 0 ? maxBytes : null
+}
+
+/**
+ * Store blobs as files under a directory
+ */
+export function createLocalStore(
+  root: string = resolve(process.env.LOCAL_STORAGE_DIR || '.storage')
+): CiphertextStore {
+  // Refuse paths that would escape the storage directory
+  const filePath = (path: string) => {
+    const file = resolve(root, path)
+    if (!file.startsWith(root + sep)) {
+      throw new Error(`Invalid storage path: ${path}`)
+    }
+    return file
+  }
+
+  return {
+    async upload(path, ciphertext) {
+      const file = filePath(path)
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, ciphertext, { flag: 'wx' })
+    },
+
+    async download(path) {
+      return new Uint8Array(await readFile(filePath(path)))
+    },
+
+    async delete(path) {
+      await unlink(filePath(path))
+    },
+
+    async list(prefix) {
+      const directory = filePath(prefix)
+      let entries
+      try {
+        entries = await readdir(directory, { recursive: true, withFileTypes: true })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+
+      const blobs: StoredCiphertext[] = []
+      for (const entry of entries) {
+        if (!entry.isFile()) continue
+        const file = join(entry.parentPath, entry.name)
+        blobs.push({
+          path: relative(root, file).split(sep).join('/'),
+          createdAt: (await stat(file)).mtime,
+        })
+      }
+      return blobs
+    },
+
+    async size(path) {
+      return (await stat(filePath(path))).size
+    },
+
+    async signedDownloadUrl(path, expiresInSeconds) {
+      filePath(path)
+      return signedLocalUrl('GET', path, expiresInSeconds)
+    },
+
+    async signedUploadUrl(path, expiresInSeconds, maxBytes) {
+      filePath(path)
+      return signedLocalUrl('PUT', path, expiresInSeconds, { maxBytes })
+    },
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * S3-compatible storage driver for ciphertext blobs (AWS S3, MinIO, ...)
+ * Every request, the server's own included, is a presigned URL (AWS Signature Version 4,
+ * query-string form), so the driver needs nothing beyond fetch.
+ */
+
+import { createHash, createHmac } from 'node:crypto'
+import type { CiphertextStore, StoredCiphertext } from './ciphertext-store'
+
+// Presigned URLs the server makes for its own requests
+const SERVER_REQUEST_TTL_SECONDS = 60
+
+/**
+ * Credentials and region a presigned URL is signed for
+ */
+export interface S3Credentials {
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+// RFC 3986 encoding, as SigV4 requires
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Presign a request to an S3 URL (SigV4, host the only signed header, unsigned payload)
+ * url carries the object path and any query parameters of the request itself.
+ */
+export function presignS3Url(
+  method: string,
+  url: URL,
+  credentials: S3Credentials,
+  expiresInSeconds: number,
+  now: Date = new Date()
+): string {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${credentials.region}/s3/aws4_request`
+
+  const query = new Map(url.searchParams)
+  query.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256')
+  query.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`)
+  query.set('X-Amz-Date', amzDate)
+  query.set('X-Amz-Expires', String(expiresInSeconds))
+  query.set('X-Amz-SignedHeaders', 'host')
+  const canonicalQuery = [...query.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+  const canonicalPath = url.pathname
+    .split('/')
+    .map((segment) => encodeRfc3986(decodeURIComponent(segment)))
+    .join('/')
+  const canonicalRequest = [
+    method,
+    canonicalPath,
+    canonicalQuery,
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n')
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join(
+    '\n'
+  )
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), 's3'),
+    'aws4_request'
+  )
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return `${url.origin}${canonicalPath}?${canonicalQuery}&X-Amz-Signature=${signature}`
+}
+
+// The text of each <tag> element in an S3 XML response
+function xmlValues(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map(([, value]) =>
+    value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  )
+}
+
+/**
+ * Store blobs in an S3 bucket, addressed path-style (`{S3_ENDPOINT}/{S3_BUCKET}/{path}`) as
+ * MinIO expects
+ * The bucket needs a CORS rule allowing the app's origin to GET and PUT, since browsers
+ * download and upload ciphertext through presigned URLs.
+ */
+export function createS3Store(
+  endpoint: string = process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+  bucket: string = process.env.S3_BUCKET || 'vault-ciphertext',
+  credentials: S3Credentials = {
+    region: process.env.S3_REGION || 'us-east-1',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  }
+): CiphertextStore {
+  if (!credentials.accessKeyId || !credentials.secretAccessKey) {
+    throw new Error('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set')
+  }
+
+  const bucketUrl = `${endpoint.replace(/\/$/, '')}/${bucket}`
+  const objectUrl = (path: string) =>
+    new URL(`${bucketUrl}/${path.split('/').map(encodeRfc3986).join('/')}`)
+  const sign = (method: string, url: URL, expiresInSeconds = SERVER_REQUEST_TTL_SECONDS) =>
+    presignS3Url(method, url, credentials, expiresInSeconds)
+
+  return {
+    async upload(path, ciphertext) {
+      const response = await fetch(sign('PUT', objectUrl(path)), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'If-None-Match': '*' },
+        body: Buffer.from(ciphertext),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to upload ciphertext: ${response.status}`)
+      }
+    },
+
+    async download(path) {
+      const response = await fetch(sign('GET', objectUrl(path)))
+
+      if (!response.ok) {
+        throw new Error(`Failed to download ciphertext: ${response.status}`)
+      }
+
+      return new Uint8Array(await response.arrayBuffer())
+    },
+
+    async delete(path) {
+      const response = await fetch(sign('DELETE', objectUrl(path)), { method: 'DELETE' })
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete ciphertext: ${response.status}`)
+      }
+    },
+
+    async list(prefix) {
+      const blobs: StoredCiphertext[] = []
+      let continuationToken: string | undefined
+
+      do {
+        const url = new URL(bucketUrl)
+        url.searchParams.set('list-type', '2')
+        url.searchParams.set('prefix', `${prefix}/`)
+        if (continuationToken) url.searchParams.set('continuation-token', continuationToken)
+
+        const response = await fetch(sign('GET', url))
+        if (!response.ok) {
+          throw new Error(`Failed to list ciphertexts: ${response.status}`)
+        }
+
+        const xml = await response.text()
+        for (const entry of xmlValues(xml, 'Contents')) {
+          const [key] = xmlValues(entry, 'Key')
+          const [lastModified] = xmlValues(entry, 'LastModified')
+          blobs.push({ path: key, createdAt: new Date(lastModified) })
+        }
+        continuationToken =
+          xmlValues(xml, 'IsTruncated')[0] === 'true'
+            ? xmlValues(xml, 'NextContinuationToken')[0]
+            : undefined
+      } while (continuationToken)
+
+      return blobs
+    },
+
+    async size(path) {
+      const response = await fetch(sign('HEAD', objectUrl(path)), { method: 'HEAD' })
+
+      if (!response.ok) {
+        throw new Error(`Failed to read ciphertext size: ${response.status}`)
+      }
+
+      return Number(response.headers.get('Content-Length'))
+    },
+
+    async signedDownloadUrl(path, expiresInSeconds) {
+      return sign('GET', objectUrl(path), expiresInSeconds)
+    },
+
+    // A presigned PUT can't bound its body (only POST policies take a content-length-range),
+    // so maxBytes goes unused; commits check each stored size against the declared one
+    async signedUploadUrl(path, expiresInSeconds) {
+      return sign('PUT', objectUrl(path), expiresInSeconds)
+    },
+  }
+}
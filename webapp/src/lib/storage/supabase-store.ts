@@ -0,0 +1,126 @@
+/**
+ * Supabase Storage driver for ciphertext blobs
+ */
+
+import { createAdminClient } from '@/lib/supabase/server'
+import type { CiphertextStore, StoredCiphertext } from './ciphertext-store'
+
+// Objects per list request
+const LIST_PAGE_SIZE = 1000
+
+/**
+ * Store blobs in a private Supabase Storage bucket (SUPABASE_STORAGE_BUCKET)
+ */
+export function createSupabaseStore(
+  bucket: string = process.env.SUPABASE_STORAGE_BUCKET || 'vault-ciphertext'
+): CiphertextStore {
+  const storage = () => createAdminClient().storage.from(bucket)
+
+  async function list(prefix: string): Promise<StoredCiphertext[]> {
+    const blobs: StoredCiphertext[] = []
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await storage().list(prefix, {
+        limit: LIST_PAGE_SIZE,
+        offset,
+        sortBy: { column: 'name', order: 'asc' },
+      })
+
+      if (error) {
+        throw new Error(`Failed to list ciphertexts: ${error.message}`)
+      }
+
+      for (const entry of data ?? []) {
+        const path = `${prefix}/${entry.name}`
+        if (entry.id === null) {
+          blobs.push(...(await list(path))) // Folders have no id
+        } else {
+          blobs.push({ path, createdAt: new Date(entry.created_at) })
+        }
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) return blobs
+    }
+  }
+
+  return {
+    async upload(path, ciphertext) {
+      const { error } = await storage().upload(path, ciphertext, {
+        contentType: 'application/octet-stream',
+        upsert: false, // Don't overwrite existing files
+      })
+
+      if (error) {
+        throw new Error(`Failed to upload ciphertext: ${error.message}`)
+      }
+    },
+
+    async download(path) {
+      const { data, error } = await storage().download(path)
+
+      if (error) {
+        throw new Error(`Failed to download ciphertext: ${error.message}`)
+      }
+
+      if (!data) {
+        throw new Error('No data returned from storage')
+      }
+
+      return new Uint8Array(await data.arrayBuffer())
+    },
+
+    async delete(path) {
+      const { error } = await storage().remove([path])
+
+      if (error) {
+        throw new Error(`Failed to delete ciphertext: ${error.message}`)
+      }
+    },
+
+    list,
+
+    async size(path) {
+      const { data, error } = await storage().info(path)
+
+      if (error) {
+        throw new Error(`Failed to read ciphertext size: ${error.message}`)
+      }
+
+      if (data?.size === undefined) {
+        throw new Error('No size returned from storage')
+      }
+
+      return data.size
+    },
+
+    async signedDownloadUrl(path, expiresInSeconds) {
+      const { data, error } = await storage().createSignedUrl(path, expiresInSeconds)
+
+      if (error) {
+        throw new Error(`Failed to generate signed URL: ${error.message}`)
+      }
+
+      if (!data?.signedUrl) {
+        throw new Error('No signed URL returned from storage')
+      }
+
+      return data.signedUrl
+    },
+
+    // Supabase signed upload URLs are valid for 2 hours, whatever lifetime is asked for, and take
+    // no size limit: the bucket's file size limit bounds them, and commits check stored sizes
+    async signedUploadUrl(path) {
+      const { data, error } = await storage().createSignedUploadUrl(path, { upsert: false })
+
+      if (error) {
+        throw new Error(`Failed to generate signed upload URL: ${error.message}`)
+      }
+
+      if (!data?.signedUrl) {
+        throw new Error('No signed upload URL returned from storage')
+      }
+
+      return data.signedUrl
+    },
+  }
+}
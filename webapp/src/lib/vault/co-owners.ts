@@ -0,0 +1,223 @@
+/**
+ * Helpers for co-owner key material
+ *
+ * The vault's creating owner keeps their KDF salt and key-check value on Vault and their
+ * DEK wraps on Document. A co-owner is a TeamMembership with role owner that carries its
+ * own salt, key-check value and key pair, and its own DEK wraps in DocumentOwnerKey.
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { coversAllVaultDocuments, RewrapConflictError, type OwnerRewrap } from './rewrap'
+import { z } from 'zod'
+
+/**
+ * Co-owners every new document version has to be sealed to, with the key pinned when they
+ * were granted access
+ * Co-owners not yet granted access get every DEK at once when they are granted.
+ */
+export async function getGrantedCoOwners(
+  vaultId: string
+): Promise<{ membershipId: string; publicKey: string }[]> {
+  const memberships = await prisma.teamMembership.findMany({
+    where: {
+      vaultId,
+      role: 'owner',
+      accessGrantedAt: { not: null },
+      confirmedPublicKey: { not: null },
+    },
+    select: { id: true, confirmedPublicKey: true },
+  })
+
+  return memberships.map((m) => ({ membershipId: m.id, publicKey: m.confirmedPublicKey! }))
+}
+
+/**
+ * Check that sealed DEKs were submitted for exactly the given co-owners
+ * A missing co-owner would be locked out of the document; an extra one isn't an owner
+ */
+export function coversCoOwners(
+  coOwners: { membershipId: string }[],
+  submitted: { membershipId: string }[]
+): boolean {
+  const submittedIds = new Set(submitted.map((s) => s.membershipId))
+  return (
+    submittedIds.size === submitted.length &&
+    coOwners.length === submittedIds.size &&
+    coOwners.every((c) => submittedIds.has(c.membershipId))
+  )
+}
+
+/**
+ * A co-owner's DEK wraps by document id, in the same shape as the Document owner wrap
+ * Copies still sealed to the co-owner's public key are left out; their next unlock
+ * re-wraps them under their KEK.
+ */
+export async function getCoOwnerDekWraps(
+  membershipId: string
+): Promise<Map<string, { encryptedDekForOwner: string; dekNonce: string }>> {
+  const wraps = await prisma.documentOwnerKey.findMany({
+    where: { membershipId, dekNonce: { not: null } },
+    select: { documentId: true, encryptedDekForOwner: true, dekNonce: true },
+  })
+
+  return new Map(
+    wraps.map((w) => [
+      w.documentId,
+      { encryptedDekForOwner: w.encryptedDekForOwner, dekNonce: w.dekNonce! },
+    ])
+  )
+}
+
+/**
+ * Request body for granting a co-owner access: every DEK sealed to their public key
+ */
+export const coOwnerGrantSchema = z.object({
+  publicKey: z.string(), // The key the DEKs were sealed to
+  publicKeyConfirmed: z.boolean().optional(), // The granting owner checked its fingerprint
+  documents: z.array(
+    z.object({
+      id: z.string().uuid(),
+      sealedDek: z.string(), // Base64, see sealDekForCoOwner
+    })
+  ),
+})
+
+export type CoOwnerGrant = z.infer<typeof coOwnerGrantSchema>
+
+/**
+ * Store a co-owner's sealed DEKs, mark them granted and pin the key they were sealed to, in
+ * one transaction
+ * Throws RewrapConflictError if the vault's documents or the co-owner's key changed
+ * since the granting owner's client sealed the DEKs.
+ */
+export async function applyCoOwnerGrant(
+  membership: { id: string; vaultId: string },
+  grant: CoOwnerGrant
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    // A document left out would be unreadable for the co-owner
+    const allCovered = await coversAllVaultDocuments(
+      tx,
+      membership.vaultId,
+      grant.documents.map((d) => d.id)
+    )
+
+    if (!allCovered) {
+      throw new RewrapConflictError('Documents changed while sealing keys')
+    }
+
+    const { count } = await tx.teamMembership.updateMany({
+      where: { id: membership.id, publicKey: grant.publicKey, accessGrantedAt: null },
+      data: { accessGrantedAt: new Date(), confirmedPublicKey: grant.publicKey },
+    })
+
+    if (count !== 1) {
+      throw new RewrapConflictError('Co-owner was granted access concurrently')
+    }
+
+    await tx.documentOwnerKey.deleteMany({ where: { membershipId: membership.id } })
+    await tx.documentOwnerKey.createMany({
+      data: grant.documents.map((doc) => ({
+        documentId: doc.id,
+        membershipId: membership.id,
+        encryptedDekForOwner: doc.sealedDek,
+        dekNonce: null, // Sealed until the co-owner's next unlock
+      })),
+    })
+  })
+}
+
+/**
+ * Check that the submitted document ids are exactly the co-owner's KEK-wrapped DEK copies
+ * Copies still sealed to their public key don't depend on the KEK and are left out.
+ * Called with the transaction client, like coversAllVaultDocuments.
+ */
+export async function coversCoOwnerDekWraps(
+  tx: Pick<typeof prisma, 'documentOwnerKey'>,
+  membershipId: string,
+  documentIds: string[]
+): Promise<boolean> {
+  const wraps = await tx.documentOwnerKey.findMany({
+    where: { membershipId, dekNonce: { not: null } },
+    select: { documentId: true },
+  })
+
+  const submittedIds = new Set(documentIds)
+  return (
+    submittedIds.size === documentIds.length &&
+    wraps.length === submittedIds.size &&
+    wraps.every((w) => submittedIds.has(w.documentId))
+  )
+}
+
+/**
+ * Move a co-owner's own key material to a new KEK, in one transaction
+ * The co-owner's salt, params, key-check value and wrapped private key are swapped together
+ * with their DEK copies and the LSK copies of links they approved. The vault's other owners
+ * are untouched. Throws RewrapConflictError if anything changed since the client unlocked.
+ */
+export async function applyCoOwnerRewrap(
+  membership: { id: string; vaultId: string; userId: string },
+  rewrap: OwnerRewrap
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    // A claimed copy left out would stay under the old KEK
+    const allCovered = await coversCoOwnerDekWraps(
+      tx,
+      membership.id,
+      rewrap.documents.map((d) => d.id)
+    )
+
+    if (!allCovered) {
+      throw new RewrapConflictError('Document keys changed while re-wrapping keys')
+    }
+
+    const { count } = await tx.teamMembership.updateMany({
+      where: { id: membership.id, role: 'owner', kdfSalt: rewrap.currentKdfSalt },
+      data: {
+        kdfSalt: rewrap.kdfSalt,
+        kdfParams: rewrap.kdfParams,
+        kekVerifier: rewrap.kekVerifier,
+        encryptedPrivateKey: rewrap.encryptedPrivateKey,
+      },
+    })
+
+    if (count !== 1) {
+      throw new RewrapConflictError('Vault password was changed concurrently')
+    }
+
+    for (const doc of rewrap.documents) {
+      const { count: updated } = await tx.documentOwnerKey.updateMany({
+        where: { documentId: doc.id, membershipId: membership.id, dekNonce: { not: null } },
+        data: {
+          encryptedDekForOwner: doc.encryptedDekForOwner,
+          dekNonce: doc.dekNonce,
+        },
+      })
+
+      if (updated !== 1) {
+        throw new RewrapConflictError(`Document ${doc.id} changed during re-wrap`)
+      }
+    }
+
+    await tx.shareLink.updateMany({
+      where: {
+        vaultId: membership.vaultId,
+        approvedById: membership.userId,
+        id: { notIn: rewrap.shareLinks.map((link) => link.id) },
+      },
+      data: { encryptedLskForOwner: null },
+    })
+
+    for (const link of rewrap.shareLinks) {
+      const { count: updated } = await tx.shareLink.updateMany({
+        where: { id: link.id, vaultId: membership.vaultId, approvedById: membership.userId },
+        data: { encryptedLskForOwner: link.encryptedLskForOwner },
+      })
+
+      if (updated !== 1) {
+        throw new RewrapConflictError(`Share link ${link.id} changed during re-wrap`)
+      }
+    }
+  })
+}
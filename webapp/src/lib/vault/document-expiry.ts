@@ -0,0 +1,134 @@
+/**
+ * Document expiry
+ *
+ * Owners can record an issue date and an expiry date per document version, either in
+ * plaintext (so the server can send reminders and delegates can see the document's status)
+ * or sealed under the DEK, where only owners can read them. A document is accepted until
+ * its expiry date, or for some types (proof of address) until it is too old; it is
+ * "expiring soon" within EXPIRING_SOON_DAYS of that date and "stale" after it.
+ *
+ * No database access here, so client code (badges, the share request form) can use it.
+ */
+
+import { z } from 'zod'
+
+export const EXPIRING_SOON_DAYS = 30
+
+// Types that go stale some months after being issued, whatever their expiry date,
+// e.g. banks reject proof of address older than three months
+export const MAX_DOCUMENT_AGE_MONTHS: Readonly<Record<string, number>> = {
+  ProofOfAddress: 3,
+}
+
+export type DocumentExpiryStatus = 'expiring_soon' | 'stale'
+
+/**
+ * A calendar date, YYYY-MM-DD; a document's dates carry no time or zone
+ */
+export const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((date) => toCalendarDate(fromCalendarDate(date)) === date, {
+    message: 'Invalid date',
+  })
+
+export const documentDatesSchema = z
+  .object({
+    issuedOn: calendarDateSchema.nullable(),
+    expiresOn: calendarDateSchema.nullable(),
+  })
+  .refine(
+    (dates) => !dates.issuedOn || !dates.expiresOn || dates.issuedOn <= dates.expiresOn,
+    { message: 'A document cannot expire before it was issued' }
+  )
+
+export type DocumentDates = z.infer<typeof documentDatesSchema>
+
+/**
+ * A document's dates as the owner's client sends them: plaintext, or sealed under the DEK
+ * (see encryptDocumentDatesForOwner), never both
+ */
+export const storedDocumentDatesSchema = z
+  .object({
+    issuedOn: calendarDateSchema.nullable().default(null),
+    expiresOn: calendarDateSchema.nullable().default(null),
+    encryptedDates: z.string().nullable().default(null), // Base64 envelope
+  })
+  .refine((dates) => !dates.encryptedDates || (!dates.issuedOn && !dates.expiresOn), {
+    message: 'Dates are either plaintext or encrypted',
+  })
+  .refine(
+    (dates) => !dates.issuedOn || !dates.expiresOn || dates.issuedOn <= dates.expiresOn,
+    { message: 'A document cannot expire before it was issued' }
+  )
+
+export type StoredDocumentDates = z.infer<typeof storedDocumentDatesSchema>
+
+/**
+ * The Document columns for a document's dates
+ */
+export function documentDatesColumns(dates: StoredDocumentDates) {
+  return {
+    issuedOn: dates.issuedOn ? fromCalendarDate(dates.issuedOn) : null,
+    expiresOn: dates.expiresOn ? fromCalendarDate(dates.expiresOn) : null,
+    encryptedDates: dates.encryptedDates,
+  }
+}
+
+/**
+ * The calendar date of a Date, in UTC (how dates are stored)
+ */
+export function toCalendarDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * The Date a calendar date is stored as (midnight UTC)
+ */
+export function fromCalendarDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+export function addCalendarMonths(date: string, months: number): string {
+  const result = fromCalendarDate(date)
+  const day = result.getUTCDate()
+  result.setUTCMonth(result.getUTCMonth() + months)
+  if (result.getUTCDate() !== day) result.setUTCDate(0) // e.g. 31 May + 1 month is 30 June
+  return toCalendarDate(result)
+}
+
+export function addCalendarDays(date: string, days: number): string {
+  const result = fromCalendarDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toCalendarDate(result)
+}
+
+/**
+ * The last day a document is accepted: its expiry date, or the end of its maximum age if
+ * that comes first. Null when its dates don't limit it
+ */
+export function documentValidUntil(docType: string, dates: DocumentDates): string | null {
+  const maxAgeMonths = MAX_DOCUMENT_AGE_MONTHS[docType]
+  const limits = [
+    dates.expiresOn,
+    dates.issuedOn && maxAgeMonths ? addCalendarMonths(dates.issuedOn, maxAgeMonths) : null,
+  ].filter((date): date is string => date !== null)
+  return limits.length > 0 ? limits.sort()[0] : null
+}
+
+/**
+ * Whether a document is expiring soon or stale on the given day; null while it is fine
+ */
+export function documentExpiryStatus(
+  docType: string,
+  dates: DocumentDates,
+  now: Date = new Date()
+): DocumentExpiryStatus | null {
+  const validUntil = documentValidUntil(docType, dates)
+  if (!validUntil) return null
+
+  const today = toCalendarDate(now)
+  if (validUntil < today) return 'stale'
+  if (validUntil <= addCalendarDays(today, EXPIRING_SOON_DAYS)) return 'expiring_soon'
+  return null
+}
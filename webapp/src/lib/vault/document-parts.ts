@@ -0,0 +1,51 @@
+/**
+ * Document parts
+ *
+ * A document is an ordered group of files (the front and back of an ID card, the pages of a
+ * bank statement) encrypted under one DEK, so share links, co-owner copies and re-wraps
+ * still deal with one key per document. Each part's ciphertext and metadata are bound to
+ * the part's own id; the single part of a document from before parts has the document's id.
+ *
+ * No database access here, so client code (e.g. backup parsing) can use the schemas.
+ */
+
+import { z } from 'zod'
+
+export const MAX_DOCUMENT_PARTS = 20
+
+/**
+ * One encrypted part as committed by the owner's client (upload or key rotation)
+ */
+export const documentPartUploadSchema = z.object({
+  id: z.string().uuid(), // Handed out by prepare-upload; bound into the ciphertext AAD
+  storagePath: z.string(),
+  size: z.number().int().positive(),
+  ciphertextChecksum: z.string(),
+  ciphertextChecksumTag: z.string(), // Base64 HMAC of the checksum under the DEK (see integrity.ts)
+  encryptedMetadata: z.string(), // Base64 envelope: filename, MIME type sealed under the DEK
+})
+
+/**
+ * A document's parts, in order
+ */
+export const documentPartUploadsSchema = z
+  .array(documentPartUploadSchema)
+  .min(1)
+  .max(MAX_DOCUMENT_PARTS)
+  .refine((parts) => new Set(parts.map((part) => part.id)).size === parts.length, {
+    message: 'Duplicate part id',
+  })
+
+/**
+ * The part a request asks for: by id, or the first part when no id is given
+ */
+export function selectDocumentPart<T extends { id: string; position: number }>(
+  parts: T[],
+  partId: string | null
+): T | undefined {
+  if (partId) return parts.find((part) => part.id === partId)
+  return parts.reduce<T | undefined>(
+    (first, part) => (!first || part.position < first.position ? part : first),
+    undefined
+  )
+}
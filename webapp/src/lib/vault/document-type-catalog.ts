@@ -0,0 +1,27 @@
+/**
+ * Loading a vault's document type catalog (see document-types.ts)
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import type { DocumentTypeEntry } from '@/types/documents'
+import { buildDocumentTypeCatalog } from './document-types'
+
+/**
+ * The vault's document type catalog: system types first, then custom types by creation
+ */
+export async function getDocumentTypeCatalog(vaultId: string): Promise<DocumentTypeEntry[]> {
+  const definitions = await prisma.documentTypeDefinition.findMany({
+    where: { vaultId },
+    orderBy: { createdAt: 'asc' },
+    select: { key: true, label: true },
+  })
+  return buildDocumentTypeCatalog(definitions)
+}
+
+/**
+ * Check that every key names an entry of the vault's catalog
+ */
+export async function inDocumentTypeCatalog(vaultId: string, keys: string[]): Promise<boolean> {
+  const catalogKeys = new Set((await getDocumentTypeCatalog(vaultId)).map((t) => t.key))
+  return keys.every((key) => catalogKeys.has(key))
+}
@@ -0,0 +1,76 @@
+/**
+ * Document type catalog
+ *
+ * Every vault has the system types below and can add its own. A type's key is bound into
+ * each document's encryption context and storage path, so it never changes once created;
+ * the owner can relabel any type, which stores a DocumentTypeDefinition row for its key.
+ *
+ * No database access here, so client code (e.g. backup parsing) can use the schemas; see
+ * document-type-catalog.ts for loading a vault's catalog.
+ */
+
+import type { DocumentTypeEntry } from '@/types/documents'
+import { z } from 'zod'
+
+export const SYSTEM_DOCUMENT_TYPES: readonly { key: string; label: string }[] = [
+  { key: 'ID', label: 'ID' },
+  { key: 'ProofOfAddress', label: 'Proof of Address' },
+  { key: 'SourceOfWealth', label: 'Source of Wealth' },
+  { key: 'CertificateOfIncorporation', label: 'Certificate of Incorporation' },
+  { key: 'ShareholderRegister', label: 'Shareholder Register' },
+  { key: 'UboDeclaration', label: 'UBO Declaration' },
+  { key: 'TaxResidencySelfCertification', label: 'Tax Residency Self-Certification' },
+  { key: 'BankReference', label: 'Bank Reference' },
+]
+
+export const MAX_CUSTOM_DOCUMENT_TYPES = 50
+
+// Keys end up in storage paths and encryption contexts: letters and digits only
+export const documentTypeKeySchema = z.string().regex(/^[A-Za-z][A-Za-z0-9]{0,63}$/)
+
+export const documentTypeLabelSchema = z.string().trim().min(1).max(100)
+
+/**
+ * Merge the system types with a vault's own definitions
+ * A definition with a system key only relabels that type.
+ */
+export function buildDocumentTypeCatalog(
+  definitions: { key: string; label: string }[]
+): DocumentTypeEntry[] {
+  const labels = new Map(definitions.map((d) => [d.key, d.label]))
+  const systemKeys = new Set(SYSTEM_DOCUMENT_TYPES.map((t) => t.key))
+
+  return [
+    ...SYSTEM_DOCUMENT_TYPES.map((t) => ({
+      key: t.key,
+      label: labels.get(t.key) ?? t.label,
+      system: true,
+    })),
+    ...definitions
+      .filter((d) => !systemKeys.has(d.key))
+      .map((d) => ({ key: d.key, label: d.label, system: false })),
+  ]
+}
+
+/**
+ * Derive a key for a new custom type from its label, e.g. "Board resolution" -> BoardResolution
+ */
+export function documentTypeKeyFromLabel(label: string): string {
+  const key = label
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^[0-9]+/, '')
+    .slice(0, 64)
+  return key || 'CustomDocument'
+}
+
+/**
+ * Display label for a key, falling back to the key itself (e.g. a type since removed)
+ */
+export function documentTypeLabel(catalog: DocumentTypeEntry[], key: string): string {
+  return catalog.find((t) => t.key === key)?.label ?? key
+}
@@ -0,0 +1,121 @@
+/**
+ * Document renewal reminders
+ * Owners are emailed once when a current document becomes expiring soon and once more when it
+ * goes stale (Document.expiryReminderSentFor); new dates or a new version start over. Only
+ * plaintext dates count: the server can't read the ones an owner kept private.
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { createAdminClient } from '@/lib/supabase/server'
+import { sendDocumentExpiryReminderEmail } from '@/lib/email/mailtrap'
+import { getDocumentTypeCatalog } from '@/lib/vault/document-type-catalog'
+import {
+  EXPIRING_SOON_DAYS,
+  MAX_DOCUMENT_AGE_MONTHS,
+  addCalendarDays,
+  addCalendarMonths,
+  documentExpiryStatus,
+  documentValidUntil,
+  fromCalendarDate,
+  toCalendarDate,
+} from '@/lib/vault/document-expiry'
+
+/**
+ * Where clause for documents accepted until the given day or less
+ */
+function validUntilAtMost(date: string) {
+  return [
+    { expiresOn: { lte: fromCalendarDate(date) } },
+    ...Object.entries(MAX_DOCUMENT_AGE_MONTHS).map(([docType, months]) => ({
+      docType,
+      issuedOn: { lte: fromCalendarDate(addCalendarMonths(date, -months)) },
+    })),
+  ]
+}
+
+/**
+ * Email the owners of a batch of current documents whose status changed since their last
+ * reminder, one email per vault. A vault whose email fails is left for the next run.
+ */
+export async function sendExpiryReminders(
+  batchSize: number,
+  now: Date = new Date()
+): Promise<{ reminded: number; documents: number; failed: number }> {
+  const today = toCalendarDate(now)
+  const documents = await prisma.document.findMany({
+    where: {
+      current: true,
+      OR: [
+        {
+          expiryReminderSentFor: null,
+          OR: validUntilAtMost(addCalendarDays(today, EXPIRING_SOON_DAYS)),
+        },
+        {
+          expiryReminderSentFor: 'expiring_soon',
+          OR: validUntilAtMost(addCalendarDays(today, -1)),
+        },
+      ],
+    },
+    orderBy: { uploadedAt: 'asc' },
+    take: batchSize,
+    select: {
+      id: true,
+      vaultId: true,
+      docType: true,
+      issuedOn: true,
+      expiresOn: true,
+      expiryReminderSentFor: true,
+      vault: { select: { owner: { select: { userId: true } } } },
+    },
+  })
+
+  const due = documents.flatMap((doc) => {
+    const dates = {
+      issuedOn: doc.issuedOn ? toCalendarDate(doc.issuedOn) : null,
+      expiresOn: doc.expiresOn ? toCalendarDate(doc.expiresOn) : null,
+    }
+    const status = documentExpiryStatus(doc.docType, dates, now)
+    const validUntil = documentValidUntil(doc.docType, dates)
+    if (!status || !validUntil || status === doc.expiryReminderSentFor) return []
+    return [{ doc, status, validUntil }]
+  })
+
+  const byVault = new Map<string, typeof due>()
+  for (const entry of due) {
+    byVault.set(entry.doc.vaultId, [...(byVault.get(entry.doc.vaultId) ?? []), entry])
+  }
+
+  const adminClient = createAdminClient()
+  let reminded = 0
+  let failed = 0
+  for (const [vaultId, entries] of byVault) {
+    try {
+      const { data } = await adminClient.auth.admin.getUserById(entries[0].doc.vault.owner.userId)
+      if (!data.user?.email) throw new Error('Vault owner has no email address')
+
+      const labels = new Map((await getDocumentTypeCatalog(vaultId)).map((t) => [t.key, t.label]))
+      await sendDocumentExpiryReminderEmail({
+        to: data.user.email,
+        documents: entries.map((entry) => ({
+          label: labels.get(entry.doc.docType) ?? entry.doc.docType,
+          status: entry.status,
+          validUntil: entry.validUntil,
+        })),
+      })
+    } catch (error) {
+      console.error(`Failed to send expiry reminders for vault ${vaultId}:`, error)
+      failed++
+      continue
+    }
+
+    for (const entry of entries) {
+      await prisma.document.update({
+        where: { id: entry.doc.id },
+        data: { expiryReminderSentFor: entry.status },
+      })
+    }
+    reminded++
+  }
+
+  return { reminded, documents: due.length, failed }
+}
@@ -0,0 +1,64 @@
+/**
+ * The KDF policy, and request validation for versioned KDF descriptors (Vault.kdfParams)
+ */
+
+import { z } from 'zod'
+import type { KdfParams } from '@/lib/crypto/vault-crypto'
+
+/**
+ * Current KDF policy version
+ * Bump together with DEFAULT_KDF_PARAMS; vaults below it are upgraded on their next unlock.
+ */
+export const KDF_POLICY_VERSION = 1
+
+/**
+ * Default KDF parameters for Argon2id, and the weakest a vault's KDF can be moved to
+ * Note: Time cost is increased (12 vs 3) to compensate for slower JS implementation
+ * compared to WASM. This maintains similar brute-force resistance.
+ */
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  algorithm: 'argon2id',
+  version: KDF_POLICY_VERSION,
+  memory: 65536, // 64 MB
+  time: 12, // 12 iterations (increased from 3 to compensate for JS performance)
+  parallelism: 4, // 4 threads
+}
+
+/**
+ * Clients that predate versioned descriptors send bare Argon2id costs;
+ * they are stored as algorithm argon2id, policy version 1
+ */
+export const kdfParamsSchema = z.object({
+  algorithm: z.literal('argon2id').default('argon2id'),
+  version: z.number().int().positive().default(1),
+  memory: z.number().int().positive(),
+  time: z.number().int().positive(),
+  parallelism: z.number().int().positive(),
+})
+
+export type ValidatedKdfParams = z.infer<typeof kdfParamsSchema>
+
+/**
+ * Read the policy version from a stored descriptor (absent on legacy vaults)
+ */
+export function storedKdfVersion(kdfParams: unknown): number {
+  const version = (kdfParams as { version?: unknown } | null)?.version
+  return typeof version === 'number' ? version : 1
+}
+
+/**
+ * Check whether new parameters for a vault are weaker than allowed: an older policy version,
+ * or any cost below the current policy's or below the vault's stored descriptor's
+ */
+export function isKdfDowngrade(params: ValidatedKdfParams, stored: unknown): boolean {
+  if (params.version < storedKdfVersion(stored)) return true
+
+  return (['memory', 'time', 'parallelism'] as const).some((cost) => {
+    const storedCost = (stored as Record<string, unknown> | null)?.[cost]
+    const minimum = Math.max(
+      DEFAULT_KDF_PARAMS[cost],
+      typeof storedCost === 'number' ? storedCost : 0
+    )
+    return params[cost] < minimum
+  })
+}
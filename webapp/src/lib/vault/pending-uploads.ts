@@ -0,0 +1,56 @@
+/**
+ * Pending uploads
+ * Every storage path handed out with a signed upload URL is recorded until its ciphertext is
+ * committed. A commit claims the paths it stores; paths left unclaimed past their TTL are
+ * abandoned uploads, whose blobs storage reconciliation deletes (see storage-reconciliation.ts)
+ */
+
+import { prisma } from '@/lib/db/prisma'
+
+// Signed upload URLs last 2 hours; this leaves time to encrypt and commit large documents
+export const PENDING_UPLOAD_TTL_HOURS = 24
+
+/**
+ * Record storage paths handed out to a user for upload
+ */
+export async function reservePendingUploads(
+  userId: string,
+  storagePaths: string[],
+  now: Date = new Date()
+): Promise<void> {
+  const expiresAt = new Date(now.getTime() + PENDING_UPLOAD_TTL_HOURS * 60 * 60 * 1000)
+  await prisma.pendingUpload.createMany({
+    data: storagePaths.map((storagePath) => ({ storagePath, userId, expiresAt })),
+  })
+}
+
+/**
+ * Whether every path is still pending for the user, without claiming it
+ */
+export async function holdsPendingUploads(
+  userId: string,
+  storagePaths: string[],
+  now: Date = new Date()
+): Promise<boolean> {
+  const held = await prisma.pendingUpload.count({
+    where: { storagePath: { in: storagePaths }, userId, expiresAt: { gt: now } },
+  })
+  return held === new Set(storagePaths).size
+}
+
+/**
+ * Claim the user's pending paths right before committing the ciphertexts stored at them
+ * The claim deletes the records, so reconciliation can no longer expire them; it fails, and
+ * nothing may be committed, if any path is unknown, someone else's or expired; blobs at paths
+ * it did take are then left to reconciliation's bucket scan.
+ */
+export async function claimPendingUploads(
+  userId: string,
+  storagePaths: string[],
+  now: Date = new Date()
+): Promise<boolean> {
+  const claimed = await prisma.pendingUpload.deleteMany({
+    where: { storagePath: { in: storagePaths }, userId, expiresAt: { gt: now } },
+  })
+  return claimed.count === new Set(storagePaths).size
+}
@@ -0,0 +1,151 @@
+/**
+ * Helpers for routes that re-wrap every DEK in a vault in one transaction
+ * (password change, KDF upgrade, recovery kit creation, recovery reset)
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { kdfParamsSchema } from './kdf-params'
+import { z } from 'zod'
+
+/**
+ * Thrown inside a re-wrap transaction when the vault changed underneath the client.
+ * Routes map it to 409 so the client reloads and retries.
+ */
+export class RewrapConflictError extends Error {}
+
+/**
+ * Check that the submitted document ids are exactly the vault's documents
+ * A missing id would leave that DEK under the old key; an extra id is from another vault.
+ * Called with the transaction client, inside the transaction that writes the new wraps, so a
+ * document committed while the client was re-wrapping aborts it rather than being left out.
+ */
+export async function coversAllVaultDocuments(
+  tx: Pick<typeof prisma, 'document'>,
+  vaultId: string,
+  documentIds: string[]
+): Promise<boolean> {
+  const documents = await tx.document.findMany({
+    where: { vaultId },
+    select: { id: true },
+  })
+
+  const submittedIds = new Set(documentIds)
+  return (
+    submittedIds.size === documentIds.length &&
+    documents.length === submittedIds.size &&
+    documents.every((d) => submittedIds.has(d.id))
+  )
+}
+
+/**
+ * Request body for moving a whole vault to a new KEK
+ * (shared by password change and KDF upgrade)
+ */
+export const ownerRewrapSchema = z.object({
+  currentKdfSalt: z.string(), // Salt the client unlocked with (guards against concurrent changes)
+  kdfSalt: z.string(),
+  kdfParams: kdfParamsSchema,
+  kekVerifier: z.string(), // Base64, key-check value for the new KEK
+  documents: z.array(
+    z.object({
+      id: z.string().uuid(),
+      encryptedDekForOwner: z.string(), // Base64, wrapped with the new KEK
+      dekNonce: z.string(), // Base64
+    })
+  ),
+  // The owner's copies of share link LSKs, re-wrapped with the new KEK; any left out are cleared
+  shareLinks: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        encryptedLskForOwner: z.string(), // Base64, wrapped with the new KEK
+      })
+    )
+    .default([]),
+  // Recovery wrapping key re-wrapped with the new KEK (required when a recovery kit exists)
+  encryptedRecoveryKeyForOwner: z.string().optional(),
+  recoveryKeyNonce: z.string().optional(),
+  // A co-owner's key pair private key re-wrapped with the new KEK (required for co-owners)
+  encryptedPrivateKey: z.string().optional(),
+})
+
+export type OwnerRewrap = z.infer<typeof ownerRewrapSchema>
+
+/**
+ * Swap salt, params, key-check value and all owner-wrapped DEKs atomically; enrolled passkeys
+ * are removed since their KEK copies go stale, as are owner LSK copies that weren't re-wrapped.
+ * If anything fails the transaction rolls back and the old KEK keeps working.
+ * Throws RewrapConflictError if the vault changed since the client unlocked it.
+ */
+export async function applyOwnerRewrap(
+  vault: { id: string; ownerId: string; recoverySalt: string | null },
+  rewrap: OwnerRewrap
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    // Every document must be re-wrapped, otherwise some DEKs would stay under the old KEK
+    const allCovered = await coversAllVaultDocuments(
+      tx,
+      vault.id,
+      rewrap.documents.map((d) => d.id)
+    )
+
+    if (!allCovered) {
+      throw new RewrapConflictError('Documents changed while re-wrapping keys')
+    }
+
+    const { count } = await tx.vault.updateMany({
+      where: { id: vault.id, kdfSalt: rewrap.currentKdfSalt },
+      data: {
+        kdfSalt: rewrap.kdfSalt,
+        kdfParams: rewrap.kdfParams,
+        kekVerifier: rewrap.kekVerifier,
+        ...(vault.recoverySalt && {
+          encryptedRecoveryKeyForOwner: rewrap.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: rewrap.recoveryKeyNonce,
+        }),
+      },
+    })
+
+    if (count !== 1) {
+      throw new RewrapConflictError('Vault password was changed concurrently')
+    }
+
+    // Passkey copies wrap the old KEK and can't be re-wrapped without their authenticators
+    await tx.vaultPasskey.deleteMany({ where: { vaultId: vault.id } })
+
+    for (const doc of rewrap.documents) {
+      const { count: updated } = await tx.document.updateMany({
+        where: { id: doc.id, vaultId: vault.id },
+        data: {
+          encryptedDekForOwner: doc.encryptedDekForOwner,
+          dekNonce: doc.dekNonce,
+        },
+      })
+
+      if (updated !== 1) {
+        throw new RewrapConflictError(`Document ${doc.id} changed during re-wrap`)
+      }
+    }
+
+    // Only the owner's own copies are under this KEK; a co-owner approver's stay as they are
+    await tx.shareLink.updateMany({
+      where: {
+        vaultId: vault.id,
+        approvedById: vault.ownerId,
+        id: { notIn: rewrap.shareLinks.map((link) => link.id) },
+      },
+      data: { encryptedLskForOwner: null },
+    })
+
+    for (const link of rewrap.shareLinks) {
+      const { count: updated } = await tx.shareLink.updateMany({
+        where: { id: link.id, vaultId: vault.id, approvedById: vault.ownerId },
+        data: { encryptedLskForOwner: link.encryptedLskForOwner },
+      })
+
+      if (updated !== 1) {
+        throw new RewrapConflictError(`Share link ${link.id} changed during re-wrap`)
+      }
+    }
+  })
+}
@@ -0,0 +1,25 @@
+/**
+ * Helpers for social recovery
+ *
+ * The owner splits the recovery wrapping key K-of-N (see splitRecoveryKeyForContacts in
+ * client-crypto.ts) and each share is sealed to a trusted contact's browser key. To recover,
+ * the owner's browser opens a recovery request with a fresh key; each contact who approves
+ * re-seals their share to it. The server only stores sealed shares, so neither it nor any
+ * single contact can rebuild the key.
+ */
+
+import { prisma } from '@/lib/db/prisma'
+
+export const MAX_RECOVERY_CONTACTS = 10
+export const RECOVERY_REQUEST_TTL_DAYS = 7
+
+/**
+ * The vault's open recovery request (not completed, cancelled or expired), if any
+ */
+export async function getOpenRecoveryRequest(vaultId: string) {
+  return prisma.recoveryRequest.findFirst({
+    where: { vaultId, completedAt: null, cancelledAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
@@ -0,0 +1,210 @@
+/**
+ * Storage quotas
+ * A vault stores up to a total number of bytes, files (document parts) up to a maximum size and
+ * a limited number of versions of each document type. A vault's own limits, where set, override
+ * the deployment-wide VAULT_STORAGE_QUOTA_BYTES, VAULT_MAX_FILE_BYTES and VAULT_MAX_VERSIONS.
+ *
+ * Sizes are those of the files the owner picked, as the client declares them; a commit checks
+ * each stored ciphertext is no larger than the encryption of a file that size, so the declared
+ * sizes bound what the vault actually takes up.
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { chunkedCiphertextSize } from '@/lib/crypto/chunked-aead'
+import { getCiphertextSize } from '@/lib/storage/ciphertext-store'
+
+const DEFAULT_STORAGE_QUOTA_BYTES = parseInt(
+  process.env.VAULT_STORAGE_QUOTA_BYTES || String(1024 * 1024 * 1024),
+  10
+)
+const DEFAULT_MAX_FILE_BYTES = parseInt(
+  process.env.VAULT_MAX_FILE_BYTES || String(25 * 1024 * 1024),
+  10
+)
+const DEFAULT_MAX_VERSIONS = parseInt(process.env.VAULT_MAX_VERSIONS || '20', 10)
+
+/**
+ * The limits that apply to a vault
+ */
+export interface VaultQuotas {
+  storageBytes: number
+  maxFileBytes: number
+  maxVersions: number // Of each document type
+}
+
+/**
+ * Why an upload was refused; returned to the client as the error body
+ */
+export interface QuotaViolation {
+  code: 'file_too_large' | 'storage_quota_exceeded' | 'version_limit_reached' | 'size_mismatch'
+  error: string
+  limit: number
+  actual: number
+}
+
+/**
+ * The vault's limits: its own where set, the deployment's otherwise
+ */
+export function vaultQuotas(
+  vault: {
+    storageQuotaBytes: bigint | null
+    maxFileBytes: number | null
+    maxDocumentVersions: number | null
+  } | null
+): VaultQuotas {
+  return {
+    storageBytes:
+      vault?.storageQuotaBytes != null
+        ? Number(vault.storageQuotaBytes)
+        : DEFAULT_STORAGE_QUOTA_BYTES,
+    maxFileBytes: vault?.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES,
+    maxVersions: vault?.maxDocumentVersions ?? DEFAULT_MAX_VERSIONS,
+  }
+}
+
+/**
+ * Bytes the vault stores, every version of every document included
+ */
+export async function getVaultUsage(vaultId: string): Promise<number> {
+  const usage = await prisma.document.aggregate({
+    where: { vaultId },
+    _sum: { size: true },
+  })
+  return usage._sum.size ?? 0
+}
+
+function fileTooLarge(quotas: VaultQuotas, size: number): QuotaViolation {
+  return {
+    code: 'file_too_large',
+    error: `Files can be at most ${formatBytes(quotas.maxFileBytes)}`,
+    limit: quotas.maxFileBytes,
+    actual: size,
+  }
+}
+
+/**
+ * The largest ciphertext a file the vault allows encrypts to
+ */
+export function maxCiphertextSize(quotas: VaultQuotas): number {
+  return chunkedCiphertextSize(quotas.maxFileBytes)
+}
+
+/**
+ * The file size limit, if a ciphertext is too large to be the encryption of an allowed file
+ */
+export function checkCiphertextSize(
+  quotas: VaultQuotas,
+  ciphertextSize: number
+): QuotaViolation | null {
+  if (ciphertextSize <= maxCiphertextSize(quotas)) return null
+  return fileTooLarge(quotas, ciphertextSize)
+}
+
+/**
+ * The first limit a new version of a document type with parts of these sizes breaks, if any
+ */
+export async function checkNewVersion(
+  vaultId: string,
+  quotas: VaultQuotas,
+  docType: string,
+  partSizes: number[]
+): Promise<QuotaViolation | null> {
+  const largest = Math.max(...partSizes)
+  if (largest > quotas.maxFileBytes) return fileTooLarge(quotas, largest)
+
+  const versions = await prisma.document.count({ where: { vaultId, docType } })
+  if (versions >= quotas.maxVersions) {
+    return {
+      code: 'version_limit_reached',
+      error:
+        `Up to ${quotas.maxVersions} versions of a document are kept; ` +
+        'delete an earlier version to upload a new one',
+      limit: quotas.maxVersions,
+      actual: versions + 1,
+    }
+  }
+
+  const requested = partSizes.reduce((total, size) => total + size, 0)
+  const usage = (await getVaultUsage(vaultId)) + requested
+  if (usage > quotas.storageBytes) {
+    return {
+      code: 'storage_quota_exceeded',
+      error:
+        `The vault can store ${formatBytes(quotas.storageBytes)}; ` +
+        'delete documents or earlier versions to make room',
+      limit: quotas.storageBytes,
+      actual: usage,
+    }
+  }
+
+  return null
+}
+
+/**
+ * The first limit a vault restored from a backup breaks, if any
+ * The backup is held to the same limits as uploads: each file, the versions of each type and
+ * the total, counted from the sizes its documents declare.
+ */
+export function checkImportedVault(
+  quotas: VaultQuotas,
+  documents: { docType: string; size: number; parts: { size: number }[] }[]
+): QuotaViolation | null {
+  const largest = Math.max(...documents.flatMap((doc) => doc.parts.map((part) => part.size)))
+  if (largest > quotas.maxFileBytes) return fileTooLarge(quotas, largest)
+
+  const versions = new Map<string, number>()
+  for (const doc of documents) {
+    versions.set(doc.docType, (versions.get(doc.docType) ?? 0) + 1)
+  }
+  const most = Math.max(...versions.values())
+  if (most > quotas.maxVersions) {
+    return {
+      code: 'version_limit_reached',
+      error: `Up to ${quotas.maxVersions} versions of a document are kept; the backup has more`,
+      limit: quotas.maxVersions,
+      actual: most,
+    }
+  }
+
+  const usage = documents.reduce((total, doc) => total + doc.size, 0)
+  if (usage > quotas.storageBytes) {
+    return {
+      code: 'storage_quota_exceeded',
+      error: `The vault can store ${formatBytes(quotas.storageBytes)}; the backup holds more`,
+      limit: quotas.storageBytes,
+      actual: usage,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check each stored ciphertext is no larger than the encryption of a file of its declared size
+ * Run on commit, once the client has uploaded; a larger blob means the declared size was wrong.
+ * Imports pass archivedCiphertextSize, as backups may hold older ciphertext formats.
+ */
+export async function checkStoredSizes(
+  parts: { storagePath: string; size: number }[],
+  ciphertextSize: (plaintextSize: number) => number = chunkedCiphertextSize
+): Promise<QuotaViolation | null> {
+  for (const part of parts) {
+    const stored = await getCiphertextSize(part.storagePath)
+    const expected = ciphertextSize(part.size)
+    if (stored > expected) {
+      return {
+        code: 'size_mismatch',
+        error: 'A stored ciphertext is larger than the file size declared for it',
+        limit: expected,
+        actual: stored,
+      }
+    }
+  }
+  return null
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
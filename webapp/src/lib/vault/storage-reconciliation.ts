@@ -0,0 +1,92 @@
+/**
+ * Storage reconciliation
+ * Deletes ciphertext blobs no committed document part refers to: those of uploads that were
+ * abandoned (their pending record expired unclaimed) and any other strays, such as blobs a
+ * failed commit or a failed delete left behind
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { deleteCiphertext, listCiphertexts } from '@/lib/storage/ciphertext-store'
+import { PENDING_UPLOAD_TTL_HOURS } from './pending-uploads'
+
+// Blobs younger than this may belong to an upload that is still pending or being committed
+const STRAY_BLOB_MIN_AGE_HOURS = PENDING_UPLOAD_TTL_HOURS + 1
+
+// Paths per reference lookup
+const LOOKUP_CHUNK_SIZE = 500
+
+/**
+ * Storage paths among the given ones that a document part or a pending upload refers to
+ */
+async function referencedPaths(storagePaths: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>()
+  for (let i = 0; i < storagePaths.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = storagePaths.slice(i, i + LOOKUP_CHUNK_SIZE)
+    const parts = await prisma.documentPart.findMany({
+      where: { storagePath: { in: chunk } },
+      select: { storagePath: true },
+    })
+    const pending = await prisma.pendingUpload.findMany({
+      where: { storagePath: { in: chunk } },
+      select: { storagePath: true },
+    })
+    for (const { storagePath } of [...parts, ...pending]) referenced.add(storagePath)
+  }
+  return referenced
+}
+
+/**
+ * One reconciliation run, deleting at most batchSize blobs
+ * Expired pending uploads are claimed the same way a commit claims them, so a commit racing
+ * the job either wins and keeps its blob or loses and is refused. The bucket scan then deletes
+ * old blobs nothing refers to. A blob that can't be deleted is counted and retried next run.
+ */
+export async function reconcileStorage(
+  batchSize: number,
+  now: Date = new Date()
+): Promise<{ expiredUploads: number; scanned: number; deleted: number; failed: number }> {
+  let deleted = 0
+  let failed = 0
+
+  async function deleteBlob(storagePath: string) {
+    try {
+      await deleteCiphertext(storagePath)
+      deleted++
+    } catch (error) {
+      console.error(`Storage reconciliation could not delete ${storagePath}:`, error)
+      failed++
+    }
+  }
+
+  const expired = await prisma.pendingUpload.findMany({
+    where: { expiresAt: { lte: now } },
+    orderBy: { expiresAt: 'asc' },
+    take: batchSize,
+    select: { id: true, storagePath: true },
+  })
+  let expiredUploads = 0
+  for (const upload of expired) {
+    const claimed = await prisma.pendingUpload.deleteMany({
+      where: { id: upload.id, expiresAt: { lte: now } },
+    })
+    if (claimed.count === 0) continue
+    expiredUploads++
+
+    const committed = await prisma.documentPart.findFirst({
+      where: { storagePath: upload.storagePath },
+      select: { id: true },
+    })
+    if (!committed) await deleteBlob(upload.storagePath)
+  }
+
+  const strayBefore = new Date(now.getTime() - STRAY_BLOB_MIN_AGE_HOURS * 60 * 60 * 1000)
+  const blobs = await listCiphertexts('vaults')
+  const candidates = blobs.filter((blob) => blob.createdAt < strayBefore).map((b) => b.path)
+  const referenced = await referencedPaths(candidates)
+  for (const storagePath of candidates) {
+    if (deleted + failed >= batchSize) break
+    if (!referenced.has(storagePath)) await deleteBlob(storagePath)
+  }
+
+  return { expiredUploads, scanned: blobs.length, deleted, failed }
+}
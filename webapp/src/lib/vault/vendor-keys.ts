@@ -0,0 +1,25 @@
+/**
+ * Helpers for vendor public keys
+ *
+ * A repeat vendor registers an ECDH P-256 public key once, from a share link they have
+ * opened. Later links approved for the same vendor email can seal the LSK to that key
+ * instead of emailing a vendor secret (see sealLskForVendorKey in client-crypto.ts).
+ */
+
+import { prisma } from '@/lib/db/prisma'
+
+/**
+ * Vendor emails are matched case-insensitively, as for OTP delivery
+ */
+export function normalizeVendorEmail(email: string): string {
+  return email.toLowerCase().trim()
+}
+
+/**
+ * The key registered for a vendor email in a vault, if any
+ */
+export async function getVendorKey(vaultId: string, vendorEmail: string) {
+  return prisma.vendorKey.findUnique({
+    where: { vaultId_vendorEmail: { vaultId, vendorEmail: normalizeVendorEmail(vendorEmail) } },
+  })
+}
@@ -1,18 +1,67 @@
-export type DocumentType = 'ID' | 'ProofOfAddress' | 'SourceOfWealth'
+// Key of an entry in the vault's document type catalog, e.g. 'ID' or 'BoardResolution'
+export type DocumentType = string
+
+/**
+ * An entry of a vault's document type catalog: a system type or one the owner added
+ */
+export interface DocumentTypeEntry {
+  key: DocumentType
+  label: string
+  system: boolean
+}
+
+/**
+ * One file of a document, e.g. the back of an ID card; part ids bind its ciphertext and metadata
+ */
+export interface DocumentPartMetadata {
+  id: string
+  position: number // 0-based order within the document
+  size: number
+  encryptedMetadata: string | null // Base64 envelope of DocumentDetails, sealed under the DEK
+  filename: string | null // Plaintext filename of a part not yet migrated to encryptedMetadata
+  ciphertextChecksum: string
+  ciphertextChecksumTag: string | null // Null for parts uploaded before tags, until the owner tags them
+}
 
 export interface DocumentMetadata {
   id: string
   docType: DocumentType
-  filename: string
   size: number
   uploadedAt: Date
-  lastUpdatedBy: string
+  lastUpdatedBy: string // Uploader of this version
+  version: number // 1 for the first upload of the type
+  current: boolean // False for an earlier version, kept for history and the links pinned to it
+  partCount: number
+  issuedOn: string | null // YYYY-MM-DD, unless kept private in encryptedDates
+  expiresOn: string | null // YYYY-MM-DD
+  // Owners only
+  encryptedDekForOwner?: string // Base64
+  dekNonce?: string // Base64
+  parts?: DocumentPartMetadata[] // In order
+  integrityFailedAt?: Date | null // Set when a part's stored ciphertext failed an integrity check
+  encryptedDates?: string | null // Base64 envelope of the dates, sealed under the DEK
+}
+
+/**
+ * Descriptive metadata sealed under the document's DEK; the server never sees it in plaintext
+ */
+export interface DocumentDetails {
+  filename: string
+  mimeType: string
+}
+
+export interface DocumentPartDownloadInfo {
+  id: string
+  position: number
+  size: number
+  ciphertextChecksum: string
+  ciphertextChecksumTag: string | null // Null for parts uploaded before tags existed
+  checksumTagRequired: boolean // Set once every part in the vault has a tag
 }
 
 export interface DocumentDownloadInfo {
-  storagePath: string
   encryptedDekForOwner: string // Base64
   dekNonce: string // Base64
-  ciphertextChecksum: string
+  parts: DocumentPartDownloadInfo[] // In order
 }
 
@@ -13,3 +13,12 @@ export interface VaultStatus {
   updatedAt: Date
 }
 
+
+export interface VaultUsage {
+  usedBytes: number // Every version of every document
+  quotas: {
+    storageBytes: number
+    maxFileBytes: number
+    maxVersions: number // Of each document type
+  }
+}
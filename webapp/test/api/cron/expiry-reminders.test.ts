@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the document renewal reminder job
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createAdminClient } from '@/lib/supabase/server'
+import { sendDocumentExpiryReminderEmail } from '@/lib/email/mailtrap'
+
+const originalEnv = process.env
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    document: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/email/mailtrap', () => ({
+  sendDocumentExpiryReminderEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/vault/document-type-catalog', () => ({
+  getDocumentTypeCatalog: vi.fn().mockResolvedValue([
+    { key: 'Passport', label: 'Passport', system: true },
+    { key: 'ProofOfAddress', label: 'Utility bill', system: true },
+  ]),
+}))
+
+const mockedPrisma = vi.mocked(prisma)
+const mockedCreateAdminClient = vi.mocked(createAdminClient)
+const mockedSendReminder = vi.mocked(sendDocumentExpiryReminderEmail)
+
+function storedDocument(
+  id: string,
+  docType: string,
+  dates: { issuedOn?: string; expiresOn?: string },
+  expiryReminderSentFor: 'expiring_soon' | 'stale' | null = null,
+  vaultId: string = 'vault-123'
+) {
+  return {
+    id,
+    vaultId,
+    docType,
+    issuedOn: dates.issuedOn ? new Date(`${dates.issuedOn}T00:00:00Z`) : null,
+    expiresOn: dates.expiresOn ? new Date(`${dates.expiresOn}T00:00:00Z`) : null,
+    expiryReminderSentFor,
+    vault: { owner: { userId: `owner-of-${vaultId}` } },
+  }
+}
+
+async function runReminders(authorization?: string) {
+  const { GET } = await import('@/app/api/cron/expiry-reminders/route')
+  const request = new NextRequest('http://localhost/api/cron/expiry-reminders', {
+    headers: authorization ? { authorization } : {},
+  })
+  return GET(request)
+}
+
+describe('/api/cron/expiry-reminders', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-10-19T08:00:00Z'))
+    process.env = { ...originalEnv, CRON_SECRET: 'test-cron-secret' }
+    mockedCreateAdminClient.mockReturnValue({
+      auth: {
+        admin: {
+          getUserById: vi.fn(async (userId: string) => ({
+            data: { user: { email: `${userId}@example.com` } },
+          })),
+        },
+      },
+    } as any)
+    mockedSendReminder.mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    process.env = originalEnv
+  })
+
+  it('should reject calls without the scheduler secret', async () => {
+    const response = await runReminders('Bearer wrong-secret')
+
+    expect(response.status).toBe(401)
+    expect(mockedPrisma.document.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should email each owner once about their expiring and stale documents', async () => {
+    ;(mockedPrisma.document.findMany as any).mockResolvedValue([
+      storedDocument('doc-1', 'Passport', { expiresOn: '2026-11-01' }),
+      storedDocument('doc-2', 'ProofOfAddress', { issuedOn: '2026-06-01' }, 'expiring_soon'),
+      storedDocument('doc-3', 'Passport', { expiresOn: '2026-10-01' }, null, 'vault-456'),
+    ])
+
+    const response = await runReminders('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ reminded: 2, documents: 3, failed: 0 })
+    expect(mockedSendReminder).toHaveBeenCalledWith({
+      to: 'owner-of-vault-123@example.com',
+      documents: [
+        { label: 'Passport', status: 'expiring_soon', validUntil: '2026-11-01' },
+        { label: 'Utility bill', status: 'stale', validUntil: '2026-09-01' },
+      ],
+    })
+    expect(mockedSendReminder).toHaveBeenCalledWith({
+      to: 'owner-of-vault-456@example.com',
+      documents: [{ label: 'Passport', status: 'stale', validUntil: '2026-10-01' }],
+    })
+    expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc-2' },
+      data: { expiryReminderSentFor: 'stale' },
+    })
+  })
+
+  it('should only look at current documents not yet reminded about their status', async () => {
+    ;(mockedPrisma.document.findMany as any).mockResolvedValue([])
+
+    await runReminders('Bearer test-cron-secret')
+
+    const { where } = (mockedPrisma.document.findMany as any).mock.calls[0][0]
+    expect(where.current).toBe(true)
+    expect(where.OR).toEqual([
+      {
+        expiryReminderSentFor: null,
+        OR: [
+          { expiresOn: { lte: new Date('2026-11-18T00:00:00Z') } },
+          { docType: 'ProofOfAddress', issuedOn: { lte: new Date('2026-08-18T00:00:00Z') } },
+        ],
+      },
+      {
+        expiryReminderSentFor: 'expiring_soon',
+        OR: [
+          { expiresOn: { lte: new Date('2026-10-18T00:00:00Z') } },
+          { docType: 'ProofOfAddress', issuedOn: { lte: new Date('2026-07-18T00:00:00Z') } },
+        ],
+      },
+    ])
+  })
+
+  it('should skip documents whose status was already reminded about', async () => {
+    ;(mockedPrisma.document.findMany as any).mockResolvedValue([
+      storedDocument('doc-1', 'Passport', { expiresOn: '2026-11-01' }, 'expiring_soon'),
+    ])
+
+    const response = await runReminders('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ reminded: 0, documents: 0, failed: 0 })
+    expect(mockedSendReminder).not.toHaveBeenCalled()
+  })
+
+  it('should leave documents for the next run when the email fails', async () => {
+    ;(mockedPrisma.document.findMany as any).mockResolvedValue([
+      storedDocument('doc-1', 'Passport', { expiresOn: '2026-11-01' }),
+    ])
+    mockedSendReminder.mockRejectedValue(new Error('Failed to send document expiry reminder email'))
+
+    const response = await runReminders('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ reminded: 0, documents: 1, failed: 1 })
+    expect(mockedPrisma.document.update).not.toHaveBeenCalled()
+  })
+})
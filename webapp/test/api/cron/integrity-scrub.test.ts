@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the background ciphertext integrity scrub
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createHash } from 'node:crypto'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { downloadCiphertext } from '@/lib/storage/ciphertext-store'
+
+const originalEnv = process.env
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    document: {
+      update: vi.fn(),
+    },
+    documentPart: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  downloadCiphertext: vi.fn(),
+}))
+
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+const mockedDownloadCiphertext = vi.mocked(downloadCiphertext)
+
+function checksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+function storedPart(
+  id: string,
+  documentId: string = id,
+  position: number = 0,
+  integrityFailedAt: Date | null = null
+) {
+  return {
+    id,
+    position,
+    storagePath: `vaults/vault-123/ID/${id}.bin`,
+    ciphertextChecksum: checksum(`ciphertext-${id}`),
+    document: { id: documentId, vaultId: 'vault-123', docType: 'ID', integrityFailedAt },
+  }
+}
+
+async function runScrub(authorization?: string) {
+  const { GET } = await import('@/app/api/cron/integrity-scrub/route')
+  const request = new NextRequest('http://localhost/api/cron/integrity-scrub', {
+    headers: authorization ? { authorization } : {},
+  })
+  return GET(request)
+}
+
+describe('/api/cron/integrity-scrub', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+    process.env = { ...originalEnv, CRON_SECRET: 'test-cron-secret' }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('should reject calls without the scheduler secret', async () => {
+    const response = await runScrub('Bearer wrong-secret')
+
+    expect(response.status).toBe(401)
+    expect(mockedPrisma.documentPart.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should flag documents whose stored ciphertext drifted', async () => {
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([
+      storedPart('doc-1'),
+      storedPart('doc-2'),
+    ])
+    mockedDownloadCiphertext.mockImplementation(async (path: string) =>
+      Buffer.from(path.includes('doc-1') ? 'ciphertext-doc-1' : 'tampered')
+    )
+
+    const response = await runScrub('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ checked: 2, failed: 1, unreadable: 0 })
+    expect(mockedPrisma.documentPart.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { integrityCheckedAt: { sort: 'asc', nulls: 'first' } } })
+    )
+    expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc-2' },
+      data: { integrityFailedAt: expect.any(Date) },
+    })
+    expect(mockedLogAuditEvent).toHaveBeenCalledTimes(1)
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ actorType: 'system', eventType: 'integrity_check_failed' })
+    )
+  })
+
+  it('should flag a document once when several of its parts drifted', async () => {
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([
+      storedPart('part-1', 'doc-1', 0),
+      storedPart('part-2', 'doc-1', 1),
+    ])
+    mockedDownloadCiphertext.mockResolvedValue(Buffer.from('tampered'))
+
+    const response = await runScrub('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ checked: 2, failed: 2, unreadable: 0 })
+    expect(mockedPrisma.document.update).toHaveBeenCalledTimes(1)
+    expect(mockedLogAuditEvent).toHaveBeenCalledTimes(1)
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'integrity_check_failed', partPosition: 0 })
+    )
+  })
+
+  it('should not audit a document that is already flagged again', async () => {
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([
+      storedPart('doc-1', 'doc-1', 0, new Date()),
+    ])
+    mockedDownloadCiphertext.mockResolvedValue(Buffer.from('tampered'))
+
+    const response = await runScrub('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data.failed).toBe(1)
+    expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('should count unreadable blobs without flagging them', async () => {
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([storedPart('doc-1')])
+    mockedDownloadCiphertext.mockRejectedValue(new Error('Storage unavailable'))
+
+    const response = await runScrub('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ checked: 1, failed: 0, unreadable: 1 })
+    expect(mockedPrisma.documentPart.update).toHaveBeenCalledWith({
+      where: { id: 'doc-1' },
+      data: { integrityCheckedAt: expect.any(Date) },
+    })
+    expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+  })
+})
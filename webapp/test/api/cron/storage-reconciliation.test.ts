@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the storage reconciliation job
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { deleteCiphertext, listCiphertexts } from '@/lib/storage/ciphertext-store'
+
+const originalEnv = process.env
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    documentPart: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    pendingUpload: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  deleteCiphertext: vi.fn(),
+  listCiphertexts: vi.fn(),
+}))
+
+const mockedPrisma = vi.mocked(prisma)
+const mockedDeleteCiphertext = vi.mocked(deleteCiphertext)
+const mockedListCiphertexts = vi.mocked(listCiphertexts)
+
+const now = new Date('2026-10-19T08:00:00Z')
+const twoDaysAgo = new Date('2026-10-17T08:00:00Z')
+
+async function runReconciliation(authorization?: string) {
+  const { GET } = await import('@/app/api/cron/storage-reconciliation/route')
+  const request = new NextRequest('http://localhost/api/cron/storage-reconciliation', {
+    headers: authorization ? { authorization } : {},
+  })
+  return GET(request)
+}
+
+describe('/api/cron/storage-reconciliation', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(now)
+    process.env = { ...originalEnv, CRON_SECRET: 'test-cron-secret' }
+    ;(mockedPrisma.pendingUpload.findMany as any).mockResolvedValue([])
+    ;(mockedPrisma.pendingUpload.deleteMany as any).mockResolvedValue({ count: 1 })
+    ;(mockedPrisma.documentPart.findFirst as any).mockResolvedValue(null)
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([])
+    mockedListCiphertexts.mockResolvedValue([])
+    mockedDeleteCiphertext.mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    process.env = originalEnv
+  })
+
+  it('should reject calls without the scheduler secret', async () => {
+    const response = await runReconciliation('Bearer wrong-secret')
+
+    expect(response.status).toBe(401)
+    expect(mockedListCiphertexts).not.toHaveBeenCalled()
+  })
+
+  it('should delete the blobs of expired uploads that were never committed', async () => {
+    ;(mockedPrisma.pendingUpload.findMany as any).mockResolvedValueOnce([
+      { id: 'pending-1', storagePath: 'vaults/vault-123/ID/abandoned.bin' },
+      { id: 'pending-2', storagePath: 'vaults/vault-123/ID/committed.bin' },
+    ])
+    ;(mockedPrisma.documentPart.findFirst as any).mockImplementation(async ({ where }: any) =>
+      where.storagePath.endsWith('committed.bin') ? { id: 'part-1' } : null
+    )
+
+    const response = await runReconciliation('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ expiredUploads: 2, scanned: 0, deleted: 1, failed: 0 })
+    expect(mockedPrisma.pendingUpload.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'pending-1', expiresAt: { lte: now } },
+    })
+    expect(mockedDeleteCiphertext).toHaveBeenCalledTimes(1)
+    expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/abandoned.bin')
+  })
+
+  it('should leave an upload a commit claimed first', async () => {
+    ;(mockedPrisma.pendingUpload.findMany as any).mockResolvedValueOnce([
+      { id: 'pending-1', storagePath: 'vaults/vault-123/ID/racing.bin' },
+    ])
+    ;(mockedPrisma.pendingUpload.deleteMany as any).mockResolvedValue({ count: 0 })
+
+    const response = await runReconciliation('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data.expiredUploads).toBe(0)
+    expect(mockedDeleteCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should delete old blobs that no part or pending upload refers to', async () => {
+    mockedListCiphertexts.mockResolvedValue([
+      { path: 'vaults/vault-123/ID/live.bin', createdAt: twoDaysAgo },
+      { path: 'vaults/vault-123/ID/pending.bin', createdAt: twoDaysAgo },
+      { path: 'vaults/vault-123/ID/stray.bin', createdAt: twoDaysAgo },
+      { path: 'vaults/vault-123/ID/fresh.bin', createdAt: new Date('2026-10-19T07:00:00Z') },
+    ])
+    ;(mockedPrisma.documentPart.findMany as any).mockResolvedValue([
+      { storagePath: 'vaults/vault-123/ID/live.bin' },
+    ])
+    ;(mockedPrisma.pendingUpload.findMany as any)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ storagePath: 'vaults/vault-123/ID/pending.bin' }])
+
+    const response = await runReconciliation('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ expiredUploads: 0, scanned: 4, deleted: 1, failed: 0 })
+    expect(mockedListCiphertexts).toHaveBeenCalledWith('vaults')
+    expect(mockedDeleteCiphertext).toHaveBeenCalledTimes(1)
+    expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/stray.bin')
+  })
+
+  it('should count blobs it could not delete and carry on', async () => {
+    mockedListCiphertexts.mockResolvedValue([
+      { path: 'vaults/vault-123/ID/stray-1.bin', createdAt: twoDaysAgo },
+      { path: 'vaults/vault-123/ID/stray-2.bin', createdAt: twoDaysAgo },
+    ])
+    mockedDeleteCiphertext.mockRejectedValueOnce(new Error('Storage unavailable'))
+
+    const response = await runReconciliation('Bearer test-cron-secret')
+    const data = await response.json()
+
+    expect(data).toEqual({ expiredUploads: 0, scanned: 2, deleted: 1, failed: 1 })
+  })
+})
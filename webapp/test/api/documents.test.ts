@@ -6,11 +6,17 @@ import { vi, describe, it, expect, beforeEach } from 'vitest'
 import { GET } from '@/app/api/documents/route'
 import { GET as GETDownloadInfo } from '@/app/api/documents/[id]/download-info/route'
 import { GET as GETCiphertext } from '@/app/api/documents/[id]/ciphertext/route'
+import { GET as GETCiphertextUrl } from '@/app/api/documents/[id]/ciphertext-url/route'
+import { POST as POSTEncryptMetadata } from '@/app/api/documents/encrypt-metadata/route'
+import { POST as POSTChecksumTags } from '@/app/api/documents/checksum-tags/route'
+import { POST as POSTIntegrityFailure } from '@/app/api/documents/[id]/integrity-failure/route'
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { createServerClient } from '@/lib/supabase/server'
 import { getUserVaultAccess, requireVaultAccess } from '@/lib/auth/authorization'
-import { downloadCiphertext } from '@/lib/storage/supabase-storage'
+import { downloadCiphertext, generateSignedCiphertextUrl } from '@/lib/storage/ciphertext-store'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { createHash } from 'node:crypto'
 
 vi.mock('@/lib/supabase/server', () => ({
   createServerClient: vi.fn(),
@@ -21,7 +27,18 @@ vi.mock('@/lib/db/prisma', () => ({
     document: {
       findMany: vi.fn(),
       findUnique: vi.fn(),
+      update: vi.fn(),
     },
+    documentPart: {
+      updateMany: vi.fn(),
+    },
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    documentOwnerKey: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   },
 }))
 
@@ -30,8 +47,13 @@ vi.mock('@/lib/auth/authorization', () => ({
   requireVaultAccess: vi.fn(),
 }))
 
-vi.mock('@/lib/storage/supabase-storage', () => ({
+vi.mock('@/lib/storage/ciphertext-store', () => ({
   downloadCiphertext: vi.fn(),
+  generateSignedCiphertextUrl: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
 }))
 
 const mockedCreateServerClient = vi.mocked(createServerClient)
@@ -39,6 +61,10 @@ const mockedPrisma = vi.mocked(prisma)
 const mockedGetUserVaultAccess = vi.mocked(getUserVaultAccess)
 const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
 const mockedDownloadCiphertext = vi.mocked(downloadCiphertext)
+const mockedGenerateSignedCiphertextUrl = vi.mocked(generateSignedCiphertextUrl)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const ciphertextChecksum = createHash('sha256').update('ciphertext').digest('hex')
 
 describe('/api/documents', () => {
   beforeEach(() => {
@@ -69,12 +95,33 @@ describe('/api/documents', () => {
         {
           id: 'doc-1',
           docType: 'ID',
-          filename: 'id.pdf',
-          size: 1024,
+          size: 1536,
           uploadedAt: new Date(),
           lastUpdatedBy: 'user-123',
           encryptedDekForOwner: 'encrypted-dek',
           dekNonce: 'nonce',
+          parts: [
+            {
+              id: 'doc-1',
+              position: 0,
+              size: 1024,
+              filename: null,
+              encryptedMetadata: 'encrypted-metadata',
+              storagePath: 'path/to/front',
+              ciphertextChecksum: 'checksum-1',
+              ciphertextChecksumTag: 'checksum-tag-1',
+            },
+            {
+              id: 'part-2',
+              position: 1,
+              size: 512,
+              filename: null,
+              encryptedMetadata: 'encrypted-metadata-2',
+              storagePath: 'path/to/back',
+              ciphertextChecksum: 'checksum-2',
+              ciphertextChecksumTag: null,
+            },
+          ],
         },
       ]
       ;(mockedPrisma.document.findMany as any).mockResolvedValue(mockDocuments as any)
@@ -87,6 +134,81 @@ describe('/api/documents', () => {
       expect(response.status).toBe(200)
       expect(data.documents[0]).toHaveProperty('encryptedDekForOwner')
       expect(data.documents[0]).toHaveProperty('dekNonce')
+      expect(data.documents[0].partCount).toBe(2)
+      expect(data.documents[0].parts).toEqual([
+        {
+          id: 'doc-1',
+          position: 0,
+          size: 1024,
+          filename: null,
+          encryptedMetadata: 'encrypted-metadata',
+          ciphertextChecksum: 'checksum-1',
+          ciphertextChecksumTag: 'checksum-tag-1',
+        },
+        {
+          id: 'part-2',
+          position: 1,
+          size: 512,
+          filename: null,
+          encryptedMetadata: 'encrypted-metadata-2',
+          ciphertextChecksum: 'checksum-2',
+          ciphertextChecksumTag: null,
+        },
+      ])
+    })
+
+    it("should return a co-owner's own DEK wraps", async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-456' } },
+            error: null,
+          }),
+        },
+      } as any)
+
+      mockedGetUserVaultAccess.mockResolvedValue([
+        {
+          vaultId: 'vault-123',
+          role: 'owner',
+          permissions: { allowedDocTypes: ['ID', 'ProofOfAddress', 'SourceOfWealth'] },
+          membershipId: 'membership-1',
+        },
+      ])
+      ;(mockedPrisma.document.findMany as any).mockResolvedValue([
+        {
+          id: 'doc-1',
+          docType: 'ID',
+          size: 1024,
+          encryptedDekForOwner: 'creating-owner-dek',
+          dekNonce: 'creating-owner-nonce',
+          parts: [],
+        },
+        {
+          id: 'doc-2',
+          docType: 'ProofOfAddress',
+          size: 2048,
+          encryptedDekForOwner: 'creating-owner-dek-2',
+          dekNonce: 'creating-owner-nonce-2',
+          parts: [],
+        },
+      ])
+      ;(mockedPrisma.documentOwnerKey.findMany as any).mockResolvedValue([
+        { documentId: 'doc-1', encryptedDekForOwner: 'co-owner-dek', dekNonce: 'co-owner-nonce' },
+      ])
+
+      const request = new NextRequest('http://localhost/api/documents?vaultId=vault-123')
+
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.documents[0]).toMatchObject({
+        encryptedDekForOwner: 'co-owner-dek',
+        dekNonce: 'co-owner-nonce',
+      })
+      // Still sealed to the co-owner: no usable wrap until their next unlock
+      expect(data.documents[1].encryptedDekForOwner).toBeUndefined()
     })
 
     it('should return documents without encryptedDekForOwner for delegate', async () => {
@@ -112,12 +234,20 @@ describe('/api/documents', () => {
         {
           id: 'doc-1',
           docType: 'ID',
-          filename: 'id.pdf',
           size: 1024,
           uploadedAt: new Date(),
           lastUpdatedBy: 'user-123',
           encryptedDekForOwner: 'encrypted-dek',
           dekNonce: 'nonce',
+          parts: [
+            {
+              id: 'doc-1',
+              position: 0,
+              size: 1024,
+              filename: null,
+              encryptedMetadata: 'encrypted-metadata',
+            },
+          ],
         },
       ]
       ;(mockedPrisma.document.findMany as any).mockResolvedValue(mockDocuments as any)
@@ -130,6 +260,12 @@ describe('/api/documents', () => {
       expect(response.status).toBe(200)
       expect(data.documents[0]).not.toHaveProperty('encryptedDekForOwner')
       expect(data.documents[0]).not.toHaveProperty('dekNonce')
+      expect(data.documents[0]).not.toHaveProperty('parts')
+      expect(data.documents[0]).toMatchObject({ docType: 'ID', size: 1024, partCount: 1 })
+      // Earlier versions are only listed for owners
+      expect(mockedPrisma.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { vaultId: 'vault-123', current: true } })
+      )
     })
   })
 
@@ -148,10 +284,19 @@ describe('/api/documents', () => {
       const mockDocument = {
         id: 'doc-1',
         vaultId: 'vault-123',
-        storagePath: 'path/to/doc',
         encryptedDekForOwner: 'encrypted-dek',
         dekNonce: 'nonce',
-        ciphertextChecksum: 'checksum',
+        parts: [
+          {
+            id: 'doc-1',
+            position: 0,
+            size: 1024,
+            storagePath: 'path/to/doc',
+            ciphertextChecksum: 'checksum',
+            ciphertextChecksumTag: 'checksum-tag',
+          },
+        ],
+        vault: { checksumTagsComplete: true },
       }
       ;(mockedPrisma.document.findUnique as any).mockResolvedValue(mockDocument as any)
       mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
@@ -163,6 +308,45 @@ describe('/api/documents', () => {
       expect(response.status).toBe(200)
       expect(data).toHaveProperty('encryptedDekForOwner')
       expect(data).toHaveProperty('dekNonce')
+      expect(data.parts).toEqual([
+        {
+          id: 'doc-1',
+          position: 0,
+          size: 1024,
+          ciphertextChecksum: 'checksum',
+          ciphertextChecksumTag: 'checksum-tag',
+          checksumTagRequired: true,
+        },
+      ])
+      expect(data.parts[0]).not.toHaveProperty('storagePath')
+    })
+
+    it('should return 409 for a co-owner whose copy of the DEK is still sealed', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-456' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        encryptedDekForOwner: 'creating-owner-dek',
+        dekNonce: 'creating-owner-nonce',
+      })
+      mockedRequireVaultAccess.mockResolvedValue({
+        vaultId: 'vault-123',
+        role: 'owner',
+        membershipId: 'membership-1',
+      } as any)
+      ;(mockedPrisma.documentOwnerKey.findMany as any).mockResolvedValue([])
+
+      const request = new NextRequest('http://localhost/api/documents/doc-1/download-info')
+      const response = await GETDownloadInfo(request, { params: Promise.resolve({ id: 'doc-1' }) })
+
+      expect(response.status).toBe(409)
     })
 
     it('should return 403 for delegate', async () => {
@@ -205,7 +389,10 @@ describe('/api/documents', () => {
       const mockDocument = {
         id: 'doc-1',
         vaultId: 'vault-123',
-        storagePath: 'path/to/doc',
+        parts: [
+          { id: 'part-2', position: 1, storagePath: 'path/to/back', ciphertextChecksum },
+          { id: 'doc-1', position: 0, storagePath: 'path/to/doc', ciphertextChecksum },
+        ],
       }
       ;(mockedPrisma.document.findUnique as any).mockResolvedValue(mockDocument as any)
       mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
@@ -217,6 +404,106 @@ describe('/api/documents', () => {
 
       expect(response.status).toBe(200)
       expect(data).toHaveProperty('ciphertext')
+      // Without a partId, the first part
+      expect(mockedDownloadCiphertext).toHaveBeenCalledWith('path/to/doc')
+    })
+
+    it('should return the requested part', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        parts: [
+          { id: 'doc-1', position: 0, storagePath: 'path/to/doc', ciphertextChecksum },
+          { id: 'part-2', position: 1, storagePath: 'path/to/back', ciphertextChecksum },
+        ],
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      mockedDownloadCiphertext.mockResolvedValue(Buffer.from('ciphertext'))
+
+      const request = new NextRequest(
+        'http://localhost/api/documents/doc-1/ciphertext?partId=part-2'
+      )
+      const response = await GETCiphertext(request, { params: Promise.resolve({ id: 'doc-1' }) })
+
+      expect(response.status).toBe(200)
+      expect(mockedDownloadCiphertext).toHaveBeenCalledWith('path/to/back')
+    })
+
+    it('should return 404 for a part of another document', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        parts: [{ id: 'doc-1', position: 0, storagePath: 'path/to/doc', ciphertextChecksum }],
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+
+      const request = new NextRequest(
+        'http://localhost/api/documents/doc-1/ciphertext?partId=part-9'
+      )
+      const response = await GETCiphertext(request, { params: Promise.resolve({ id: 'doc-1' }) })
+
+      expect(response.status).toBe(404)
+      expect(mockedDownloadCiphertext).not.toHaveBeenCalled()
+    })
+
+    it('should refuse stored ciphertext that drifted from its checksum', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+
+      const mockDocument = {
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        docType: 'ID',
+        parts: [
+          { id: 'doc-1', position: 0, storagePath: 'path/to/doc', ciphertextChecksum },
+          { id: 'part-2', position: 1, storagePath: 'path/to/back', ciphertextChecksum },
+        ],
+      }
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(mockDocument as any)
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      mockedDownloadCiphertext.mockResolvedValue(Buffer.from('tampered'))
+
+      const request = new NextRequest(
+        'http://localhost/api/documents/doc-1/ciphertext?partId=part-2'
+      )
+      const response = await GETCiphertext(request, { params: Promise.resolve({ id: 'doc-1' }) })
+
+      expect(response.status).toBe(502)
+      expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { integrityFailedAt: expect.any(Date) },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vaultId: 'vault-123',
+          actorType: 'system',
+          eventType: 'integrity_check_failed',
+          docType: 'ID',
+          partPosition: 1,
+        })
+      )
     })
 
     it('should return 403 for delegate', async () => {
@@ -243,5 +530,298 @@ describe('/api/documents', () => {
       expect(response.status).toBe(403)
     })
   })
-})
 
+  describe('POST /api/documents/[id]/integrity-failure', () => {
+    it('should flag the document and audit a failure reported by an owner', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        docType: 'ID',
+        parts: [{ id: 'doc-1', position: 0 }],
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+
+      const request = new NextRequest('http://localhost/api/documents/doc-1/integrity-failure', {
+        method: 'POST',
+      })
+      const response = await POSTIntegrityFailure(request, {
+        params: Promise.resolve({ id: 'doc-1' }),
+      })
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.document.update).toHaveBeenCalled()
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorType: 'owner',
+          actorId: 'profile-123',
+          eventType: 'integrity_check_failed',
+        })
+      )
+    })
+
+    it('should return 403 for delegate', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        docType: 'ID',
+      })
+      mockedRequireVaultAccess.mockRejectedValue(new Error('Unauthorized: Requires role owner'))
+
+      const request = new NextRequest('http://localhost/api/documents/doc-1/integrity-failure', {
+        method: 'POST',
+      })
+      const response = await POSTIntegrityFailure(request, {
+        params: Promise.resolve({ id: 'doc-1' }),
+      })
+
+      expect(response.status).toBe(403)
+      expect(mockedPrisma.document.update).not.toHaveBeenCalled()
+    })
+
+    it('should record which part failed', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        docType: 'ID',
+        parts: [
+          { id: 'doc-1', position: 0 },
+          { id: 'part-2', position: 1 },
+        ],
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+
+      const request = new NextRequest(
+        'http://localhost/api/documents/doc-1/integrity-failure?partId=part-2',
+        { method: 'POST' }
+      )
+      const response = await POSTIntegrityFailure(request, {
+        params: Promise.resolve({ id: 'doc-1' }),
+      })
+
+      expect(response.status).toBe(200)
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'integrity_check_failed', partPosition: 1 })
+      )
+    })
+  })
+
+  describe('GET /api/documents/[id]/ciphertext-url', () => {
+    it('should return a signed URL for owner', async () => {
+      const mockUser = { id: 'user-123' }
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: mockUser },
+            error: null,
+          }),
+        },
+      } as any)
+
+      const mockDocument = {
+        id: 'doc-1',
+        vaultId: 'vault-123',
+        parts: [{ id: 'doc-1', position: 0, storagePath: 'path/to/doc' }],
+      }
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(mockDocument as any)
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      mockedGenerateSignedCiphertextUrl.mockResolvedValue('https://storage.example/signed')
+
+      const request = new NextRequest('http://localhost/api/documents/doc-1/ciphertext-url')
+      const response = await GETCiphertextUrl(request, { params: Promise.resolve({ id: 'doc-1' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.signedUrl).toBe('https://storage.example/signed')
+      expect(data).toHaveProperty('expiresAt')
+      expect(mockedGenerateSignedCiphertextUrl).toHaveBeenCalledWith('path/to/doc', expect.any(Number))
+    })
+
+    it('should return 403 for delegate', async () => {
+      const mockUser = { id: 'user-123' }
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: mockUser },
+            error: null,
+          }),
+        },
+      } as any)
+
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({ id: 'doc-1', vaultId: 'vault-123' } as any)
+      mockedRequireVaultAccess.mockRejectedValue(new Error('Unauthorized: Requires role owner'))
+
+      const request = new NextRequest('http://localhost/api/documents/doc-1/ciphertext-url')
+      const response = await GETCiphertextUrl(request, { params: Promise.resolve({ id: 'doc-1' }) })
+
+      expect(response.status).toBe(403)
+      expect(mockedGenerateSignedCiphertextUrl).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/documents/encrypt-metadata', () => {
+    const docId = '123e4567-e89b-12d3-a456-426614174000'
+
+    function encryptMetadataRequest(body: unknown) {
+      return new NextRequest('http://localhost/api/documents/encrypt-metadata', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+    }
+
+    beforeEach(() => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-123',
+        vault: { id: 'vault-123' },
+      })
+    })
+
+    it('should store encrypted metadata and clear the plaintext filename', async () => {
+      ;(mockedPrisma.documentPart.updateMany as any).mockResolvedValue({ count: 1 })
+
+      const response = await POSTEncryptMetadata(
+        encryptMetadataRequest({ parts: [{ id: docId, encryptedMetadata: 'sealed' }] })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.partsUpdated).toBe(1)
+      // Scoped to the owner's vault and to parts not yet migrated
+      expect(mockedPrisma.documentPart.updateMany).toHaveBeenCalledWith({
+        where: { id: docId, document: { vaultId: 'vault-123' }, encryptedMetadata: null },
+        data: { encryptedMetadata: 'sealed', filename: null },
+      })
+    })
+
+    it('should return 404 without an owned vault', async () => {
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123', vault: null })
+
+      const response = await POSTEncryptMetadata(
+        encryptMetadataRequest({ parts: [{ id: docId, encryptedMetadata: 'sealed' }] })
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockedPrisma.documentPart.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for an empty batch', async () => {
+      const response = await POSTEncryptMetadata(encryptMetadataRequest({ parts: [] }))
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/documents/checksum-tags', () => {
+    const partId = '123e4567-e89b-12d3-a456-426614174000'
+    const mockTx = {
+      documentPart: {
+        updateMany: vi.fn(),
+        count: vi.fn(),
+      },
+      vault: {
+        update: vi.fn(),
+      },
+    }
+
+    function checksumTagsRequest(body: unknown) {
+      return new NextRequest('http://localhost/api/documents/checksum-tags', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+    }
+
+    beforeEach(() => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-123',
+        vault: { id: 'vault-123' },
+      })
+      ;(mockedPrisma.$transaction as any).mockImplementationOnce(async (fn: any) => fn(mockTx))
+      mockTx.documentPart.updateMany.mockResolvedValue({ count: 1 })
+    })
+
+    it('should tag untagged parts and require tags once none are left', async () => {
+      mockTx.documentPart.count.mockResolvedValue(0)
+
+      const response = await POSTChecksumTags(
+        checksumTagsRequest({ parts: [{ id: partId, ciphertextChecksumTag: 'tag' }] })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ partsUpdated: 1, checksumTagsComplete: true })
+      // Scoped to the owner's vault and to parts without a tag
+      expect(mockTx.documentPart.updateMany).toHaveBeenCalledWith({
+        where: { id: partId, document: { vaultId: 'vault-123' }, ciphertextChecksumTag: null },
+        data: { ciphertextChecksumTag: 'tag' },
+      })
+      expect(mockTx.vault.update).toHaveBeenCalledWith({
+        where: { id: 'vault-123' },
+        data: { checksumTagsComplete: true },
+      })
+    })
+
+    it('should not require tags while untagged parts remain', async () => {
+      mockTx.documentPart.count.mockResolvedValue(2)
+
+      const response = await POSTChecksumTags(
+        checksumTagsRequest({ parts: [{ id: partId, ciphertextChecksumTag: 'tag' }] })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.checksumTagsComplete).toBe(false)
+      expect(mockTx.vault.update).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 without an owned vault', async () => {
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123', vault: null })
+
+      const response = await POSTChecksumTags(
+        checksumTagsRequest({ parts: [{ id: partId, ciphertextChecksumTag: 'tag' }] })
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockTx.documentPart.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Unit tests for document issue and expiry dates
+ * Tests: dates recorded on upload, plaintext or private, and changed afterwards
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST as commitUpload } from '@/app/api/documents/commit-upload/route'
+import { PUT as updateDates } from '@/app/api/documents/[id]/dates/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  document: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+  },
+  documentOwnerKey: {
+    createMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    documentPart: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/vault/co-owners', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/vault/co-owners')>()),
+  getGrantedCoOwners: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/lib/vault/document-type-catalog', () => ({
+  inDocumentTypeCatalog: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  reservePendingUploads: vi.fn(),
+  claimPendingUploads: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/vault/storage-quotas', () => ({
+  vaultQuotas: vi.fn(),
+  maxCiphertextSize: vi.fn().mockReturnValue(1024),
+  checkNewVersion: vi.fn().mockResolvedValue(null),
+  checkStoredSizes: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const params = { params: Promise.resolve({ id: docId }) }
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault() {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', ownerId: 'profile-123', recoverySalt: null },
+  })
+}
+
+function buildRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, { method, body: JSON.stringify(body) })
+}
+
+const commitBody = {
+  docId,
+  docType: 'Passport',
+  parts: [
+    {
+      id: docId,
+      storagePath: 'vaults/vault-123/Passport/passport.bin',
+      encryptedMetadata: 'bWV0YWRhdGE=',
+      size: 1024,
+      ciphertextChecksum: 'abc123',
+      ciphertextChecksumTag: 'dGFn',
+    },
+  ],
+  encryptedDekForOwner: 'ZGVr',
+  dekNonce: 'bm9uY2U=',
+}
+
+describe('document dates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    ;(mockedPrisma.documentPart.findFirst as any).mockResolvedValue(null)
+  })
+
+  describe('POST /api/documents/commit-upload', () => {
+    beforeEach(() => {
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      mockTx.document.findFirst.mockResolvedValue(null)
+      mockTx.document.create.mockImplementation(async ({ data }: any) => data)
+    })
+
+    it('should store plaintext dates as calendar dates', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', 'POST', {
+          ...commitBody,
+          dates: { issuedOn: '2024-03-01', expiresOn: '2034-02-28' },
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockTx.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          issuedOn: new Date('2024-03-01T00:00:00Z'),
+          expiresOn: new Date('2034-02-28T00:00:00Z'),
+          encryptedDates: null,
+        }),
+      })
+    })
+
+    it('should store private dates without plaintext ones', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', 'POST', {
+          ...commitBody,
+          dates: { encryptedDates: 'ZGF0ZXM=' },
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockTx.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          issuedOn: null,
+          expiresOn: null,
+          encryptedDates: 'ZGF0ZXM=',
+        }),
+      })
+    })
+
+    it('should return 400 for dates both plaintext and private', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', 'POST', {
+          ...commitBody,
+          dates: { expiresOn: '2034-02-28', encryptedDates: 'ZGF0ZXM=' },
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/documents/[id]/dates', () => {
+    it('should replace the dates, reset the reminder and audit it', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'Passport',
+      })
+
+      const response = await updateDates(
+        buildRequest(`http://localhost/api/documents/${docId}/dates`, 'PUT', {
+          issuedOn: null,
+          expiresOn: '2026-11-01',
+        }),
+        params
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({
+        id: docId,
+        issuedOn: null,
+        expiresOn: '2026-11-01',
+        encryptedDates: null,
+      })
+      expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: docId },
+        data: {
+          issuedOn: null,
+          expiresOn: new Date('2026-11-01T00:00:00Z'),
+          encryptedDates: null,
+          expiryReminderSentFor: null,
+        },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'document_dates_updated', docType: 'Passport' })
+      )
+    })
+
+    it('should return 400 for an expiry before the issue date', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await updateDates(
+        buildRequest(`http://localhost/api/documents/${docId}/dates`, 'PUT', {
+          issuedOn: '2026-11-01',
+          expiresOn: '2026-10-01',
+        }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.document.update).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for a date that does not exist', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await updateDates(
+        buildRequest(`http://localhost/api/documents/${docId}/dates`, 'PUT', {
+          expiresOn: '2026-02-30',
+        }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for a document in another vault', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'other-vault',
+        docType: 'Passport',
+      })
+
+      const response = await updateDates(
+        buildRequest(`http://localhost/api/documents/${docId}/dates`, 'PUT', {
+          expiresOn: '2026-11-01',
+        }),
+        params
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockedPrisma.document.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Unit tests for document deletion
+ * Tests: deleting a document with its history or one earlier version, revoking or flagging the
+ * share links that include it, shredding its ciphertexts, delegates refused
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, DELETE } from '@/app/api/documents/[id]/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { deleteCiphertext } from '@/lib/storage/ciphertext-store'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    shareLink: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/auth/authorization', () => ({
+  requireVaultAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  deleteCiphertext: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+const mockedDeleteCiphertext = vi.mocked(deleteCiphertext)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const previousId = '4a3b2c1d-5e6f-4a7b-8c9d-0e1f2a3b4c5d'
+const otherDocId = '5b4c3d2e-6f7a-4b8c-9d0e-1f2a3b4c5d6e'
+const params = { params: Promise.resolve({ id: docId }) }
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockDocument(current: boolean = true) {
+  ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+    id: docId,
+    vaultId: 'vault-123',
+    docType: 'ID',
+    current,
+  })
+  ;(mockedPrisma.document.findMany as any).mockResolvedValue(
+    current
+      ? [
+          { id: docId, parts: [{ storagePath: 'vaults/vault-123/ID/front.bin' }] },
+          { id: previousId, parts: [{ storagePath: 'vaults/vault-123/ID/old.bin' }] },
+        ]
+      : [{ id: docId, parts: [{ storagePath: 'vaults/vault-123/ID/front.bin' }] }]
+  )
+}
+
+function mockActiveLinks() {
+  ;(mockedPrisma.shareLink.findMany as any).mockResolvedValue([
+    {
+      id: 'link-only-id',
+      vendorLabel: 'Bank',
+      expiresAt: new Date('2027-01-01'),
+      documents: [{ documentId: previousId }],
+    },
+    {
+      id: 'link-with-others',
+      vendorLabel: 'Broker',
+      expiresAt: new Date('2027-01-01'),
+      documents: [{ documentId: docId }, { documentId: otherDocId }],
+    },
+  ])
+}
+
+function buildRequest(method: string) {
+  return new NextRequest(`http://localhost/api/documents/${docId}`, { method })
+}
+
+describe('/api/documents/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+    ;(mockedPrisma.shareLink.findMany as any).mockResolvedValue([])
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (ops: any[]) => Promise.all(ops))
+    mockedDeleteCiphertext.mockResolvedValue(undefined)
+  })
+
+  describe('GET', () => {
+    it('should list the versions and links deleting the document would affect', async () => {
+      mockAuthenticatedUser()
+      mockDocument()
+      mockActiveLinks()
+
+      const response = await GET(buildRequest('GET'), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({
+        versions: 2,
+        links: [
+          expect.objectContaining({ id: 'link-only-id', vendorLabel: 'Bank', outcome: 'revoked' }),
+          expect.objectContaining({
+            id: 'link-with-others',
+            vendorLabel: 'Broker',
+            outcome: 'flagged',
+          }),
+        ],
+      })
+    })
+  })
+
+  describe('DELETE', () => {
+    it('should delete every version, settle its links and shred the ciphertexts', async () => {
+      mockAuthenticatedUser()
+      mockDocument()
+      mockActiveLinks()
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, versionsDeleted: 2, linksRevoked: 1, linksFlagged: 1 })
+      expect(mockedPrisma.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { vaultId: 'vault-123', docType: 'ID' } })
+      )
+      expect(mockedPrisma.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['link-only-id'] }, vaultId: 'vault-123' },
+        data: { status: 'revoked', revokedAt: expect.any(Date) },
+      })
+      expect(mockedPrisma.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['link-with-others'] }, vaultId: 'vault-123' },
+        data: { documentRemovedAt: expect.any(Date) },
+      })
+      expect(mockedPrisma.document.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: [docId, previousId] } },
+      })
+      expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/front.bin')
+      expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/old.bin')
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'document_deleted', docType: 'ID' })
+      )
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'link_revoked', linkId: 'link-only-id' })
+      )
+    })
+
+    it('should delete only an earlier version on its own', async () => {
+      mockAuthenticatedUser()
+      mockDocument(false)
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: docId } })
+      )
+      expect(mockedPrisma.document.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: [docId] } },
+      })
+    })
+
+    it('should still succeed when a ciphertext cannot be deleted from storage', async () => {
+      mockAuthenticatedUser()
+      mockDocument()
+      mockedDeleteCiphertext.mockRejectedValue(new Error('Storage unavailable'))
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.document.deleteMany).toHaveBeenCalled()
+    })
+
+    it('should return 403 for delegates', async () => {
+      mockAuthenticatedUser()
+      mockDocument()
+      mockedRequireVaultAccess.mockRejectedValue(
+        new Error('Unauthorized: Requires role owner, but user has role delegate')
+      )
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+
+      expect(response.status).toBe(403)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+      expect(mockedDeleteCiphertext).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for an unknown document', async () => {
+      mockAuthenticatedUser()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 401 if user is not authenticated', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: null },
+            error: new Error('Not authenticated'),
+          }),
+        },
+      } as any)
+
+      const response = await DELETE(buildRequest('DELETE'), params)
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
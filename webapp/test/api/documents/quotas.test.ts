@@ -0,0 +1,273 @@
+/**
+ * Unit tests for vault storage quotas
+ * Tests: file size, version and total storage limits at prepare-upload and again at commit,
+ * stored ciphertexts checked against declared sizes, upload URLs held to the file size limit,
+ * key rotation exempt
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST as prepareUpload } from '@/app/api/documents/prepare-upload/route'
+import { POST as commitUpload } from '@/app/api/documents/commit-upload/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { generateSignedUploadUrl, getCiphertextSize } from '@/lib/storage/ciphertext-store'
+import { chunkedCiphertextSize } from '@/lib/crypto/chunked-aead'
+import { claimPendingUploads, reservePendingUploads } from '@/lib/vault/pending-uploads'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  document: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+  },
+  documentOwnerKey: {
+    createMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    documentPart: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/vault/co-owners', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/vault/co-owners')>()),
+  getGrantedCoOwners: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/lib/vault/document-type-catalog', () => ({
+  inDocumentTypeCatalog: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  getStoragePath: vi.fn((vaultId: string, docType: string, id: string) => {
+    return `vaults/${vaultId}/${docType}/${id}.bin`
+  }),
+  generateSignedUploadUrl: vi.fn().mockResolvedValue('https://storage.example/upload'),
+  getCiphertextSize: vi.fn(),
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  reservePendingUploads: vi.fn(),
+  claimPendingUploads: vi.fn().mockResolvedValue(true),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedGetCiphertextSize = vi.mocked(getCiphertextSize)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const partId = '7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+// 10 KB in all, files up to 4 KB, 3 versions of each type; 2 versions using 6 KB stored so far
+function mockVault({ usedBytes = 6144, versions = 2 } = {}) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: {
+      id: 'vault-123',
+      ownerId: 'profile-123',
+      recoverySalt: null,
+      storageQuotaBytes: BigInt(10240),
+      maxFileBytes: 4096,
+      maxDocumentVersions: 3,
+    },
+  })
+  ;(mockedPrisma.document.aggregate as any).mockResolvedValue({ _sum: { size: usedBytes } })
+  ;(mockedPrisma.document.count as any).mockResolvedValue(versions)
+}
+
+function buildRequest(url: string, body: unknown) {
+  return new NextRequest(url, { method: 'POST', body: JSON.stringify(body) })
+}
+
+function prepare(body: unknown) {
+  return prepareUpload(buildRequest('http://localhost/api/documents/prepare-upload', body))
+}
+
+const commitBody = {
+  docId,
+  docType: 'ID',
+  parts: [
+    {
+      id: partId,
+      storagePath: 'vaults/vault-123/ID/page-1.bin',
+      encryptedMetadata: 'bWV0YWRhdGE=',
+      size: 2048,
+      ciphertextChecksum: 'abc123',
+      ciphertextChecksumTag: 'dGFn',
+    },
+  ],
+  encryptedDekForOwner: 'ZGVr',
+  dekNonce: 'bm9uY2U=',
+}
+
+function commit(body: unknown = commitBody) {
+  return commitUpload(buildRequest('http://localhost/api/documents/commit-upload', body))
+}
+
+describe('vault storage quotas', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+    ;(mockedPrisma.documentPart.findFirst as any).mockResolvedValue(null)
+    mockTx.document.findFirst.mockResolvedValue({ version: 2 })
+    mockTx.document.create.mockImplementation(async ({ data }: any) => data)
+    mockedGetCiphertextSize.mockImplementation(async () => chunkedCiphertextSize(2048))
+  })
+
+  describe('POST /api/documents/prepare-upload', () => {
+    it('should hand out upload URLs within the quotas', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await prepare({ docType: 'ID', partSizes: [2048, 2048] })
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.document.count).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', docType: 'ID' },
+      })
+    })
+
+    it("should limit each upload URL to the encryption of the vault's largest file", async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      await prepare({ docType: 'ID', partSizes: [2048, 2048] })
+
+      expect(vi.mocked(generateSignedUploadUrl)).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(generateSignedUploadUrl)).toHaveBeenCalledWith(
+        expect.stringMatching(/^vaults\/vault-123\/ID\//),
+        chunkedCiphertextSize(4096)
+      )
+    })
+
+    it('should return 413 for a file over the size limit', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await prepare({ docType: 'ID', partSizes: [1024, 5000] })
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data).toEqual({
+        code: 'file_too_large',
+        error: 'Files can be at most 4.0 KB',
+        limit: 4096,
+        actual: 5000,
+      })
+      expect(vi.mocked(reservePendingUploads)).not.toHaveBeenCalled()
+    })
+
+    it('should return 413 once a document has the most versions kept', async () => {
+      mockAuthenticatedUser()
+      mockVault({ versions: 3 })
+
+      const response = await prepare({ docType: 'ID', partSizes: [1024] })
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data).toMatchObject({ code: 'version_limit_reached', limit: 3, actual: 4 })
+      expect(vi.mocked(reservePendingUploads)).not.toHaveBeenCalled()
+    })
+
+    it('should return 413 for an upload that would exceed the storage quota', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await prepare({ docType: 'ID', partSizes: [3072, 2048] })
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data).toMatchObject({ code: 'storage_quota_exceeded', limit: 10240, actual: 11264 })
+      expect(vi.mocked(reservePendingUploads)).not.toHaveBeenCalled()
+    })
+
+    it('should let a key rotation through a full vault', async () => {
+      mockAuthenticatedUser()
+      mockVault({ usedBytes: 10240, versions: 3 })
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ID',
+        parts: [{ id: partId }],
+      })
+
+      const response = await prepare({ docType: 'ID', partSizes: [2048], documentId: docId })
+
+      expect(response.status).toBe(200)
+    })
+  })
+
+  describe('POST /api/documents/commit-upload', () => {
+    it('should commit ciphertexts that match their declared sizes', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await commit()
+
+      expect(response.status).toBe(200)
+      expect(mockedGetCiphertextSize).toHaveBeenCalledWith('vaults/vault-123/ID/page-1.bin')
+      expect(mockTx.document.create).toHaveBeenCalled()
+    })
+
+    it('should return 413 if the vault filled up since prepare-upload', async () => {
+      mockAuthenticatedUser()
+      mockVault({ usedBytes: 9000 })
+
+      const response = await commit()
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data.code).toBe('storage_quota_exceeded')
+      expect(vi.mocked(claimPendingUploads)).not.toHaveBeenCalled()
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 413 for a stored ciphertext larger than its declared size', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      mockedGetCiphertextSize.mockResolvedValue(1024 * 1024)
+
+      const response = await commit()
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data).toMatchObject({
+        code: 'size_mismatch',
+        limit: chunkedCiphertextSize(2048),
+        actual: 1024 * 1024,
+      })
+      expect(vi.mocked(claimPendingUploads)).not.toHaveBeenCalled()
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+  })
+})
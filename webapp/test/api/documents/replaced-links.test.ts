@@ -0,0 +1,254 @@
+/**
+ * Unit tests for choosing what share links get when their document is replaced
+ * Tests: listing links on earlier versions, keeping, moving to the new version, revoking
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/documents/[id]/replaced-links/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+    },
+    shareLink: {
+      updateMany: vi.fn(),
+    },
+    shareLinkDocument: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const keptLinkId = '11111111-1111-4111-8111-111111111111'
+const movedLinkId = '22222222-2222-4222-8222-222222222222'
+const revokedLinkId = '33333333-3333-4333-8333-333333333333'
+const uploadedAt = new Date('2026-10-19T10:00:00Z')
+const params = { params: Promise.resolve({ id: docId }) }
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockOwnDocument(overrides: Record<string, unknown> = {}) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', ownerId: 'profile-123' },
+  })
+  ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+    id: docId,
+    vaultId: 'vault-123',
+    docType: 'ID',
+    version: 3,
+    current: true,
+    uploadedAt,
+    ...overrides,
+  })
+}
+
+function linkDocument(
+  shareLinkId: string,
+  vendorLabel: string,
+  approvedById: string = 'profile-123'
+) {
+  return {
+    id: `row-${shareLinkId}`,
+    shareLinkId,
+    document: { version: 2 },
+    shareLink: {
+      id: shareLinkId,
+      vendorLabel,
+      expiresAt: new Date('2027-01-01'),
+      approvedById,
+      encryptedLskForOwner: 'bHNrLXdyYXA=',
+    },
+  }
+}
+
+function mockReplacedLinks() {
+  ;(mockedPrisma.shareLinkDocument.findMany as any).mockResolvedValue([
+    linkDocument(keptLinkId, 'Bank', 'co-owner-profile'),
+    linkDocument(movedLinkId, 'Broker'),
+    linkDocument(revokedLinkId, 'Landlord'),
+  ])
+}
+
+const movedLinkDek = {
+  shareLinkId: movedLinkId,
+  encryptedDekForLink: 'bGluay1kZWs=',
+  dekForLinkNonce: 'bm9uY2U=',
+}
+
+const choicesBody = {
+  keptLinkIds: [keptLinkId],
+  linkDeks: [movedLinkDek],
+  revokedLinkIds: [revokedLinkId],
+}
+
+function buildRequest(body?: unknown) {
+  return new NextRequest(`http://localhost/api/documents/${docId}/replaced-links`, {
+    method: body ? 'POST' : 'GET',
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  })
+}
+
+describe('/api/documents/[id]/replaced-links', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET', () => {
+    it('should list active links on earlier versions not settled since this upload', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockReplacedLinks()
+
+      const response = await GET(buildRequest(), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.links).toEqual([
+        expect.objectContaining({ id: keptLinkId, version: 2, encryptedLskForOwner: null }),
+        expect.objectContaining({ id: movedLinkId, encryptedLskForOwner: 'bHNrLXdyYXA=' }),
+        expect.objectContaining({ id: revokedLinkId, vendorLabel: 'Landlord' }),
+      ])
+      const { where } = (mockedPrisma.shareLinkDocument.findMany as any).mock.calls[0][0]
+      expect(where.documentId).toEqual({ not: docId })
+      expect(where.document).toEqual({ vaultId: 'vault-123', docType: 'ID' })
+      expect(where.OR).toEqual([
+        { replacementChosenAt: null },
+        { replacementChosenAt: { lt: uploadedAt } },
+      ])
+    })
+
+    it('should return 404 for an earlier version', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument({ current: false })
+
+      const response = await GET(buildRequest(), params)
+
+      expect(response.status).toBe(404)
+      expect(mockedPrisma.shareLinkDocument.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST', () => {
+    it('should keep, move and revoke links as chosen', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockReplacedLinks()
+
+      const response = await POST(buildRequest(choicesBody), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, linksKept: 1, linksUpdated: 1, linksRevoked: 1 })
+      expect(mockedPrisma.shareLinkDocument.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [`row-${keptLinkId}`] } },
+        data: { replacementChoice: 'kept', replacementChosenAt: expect.any(Date) },
+      })
+      expect(mockedPrisma.shareLinkDocument.update).toHaveBeenCalledWith({
+        where: { id: `row-${movedLinkId}` },
+        data: {
+          documentId: docId,
+          encryptedDekForLink: 'bGluay1kZWs=',
+          dekForLinkNonce: 'bm9uY2U=',
+          replacementChoice: 'rewrapped',
+          replacementChosenAt: expect.any(Date),
+          replacedVersion: 2,
+        },
+      })
+      expect(mockedPrisma.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [revokedLinkId] }, vaultId: 'vault-123' },
+        data: { status: 'revoked', revokedAt: expect.any(Date) },
+      })
+      expect(mockedPrisma.shareLinkDocument.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [`row-${revokedLinkId}`] } },
+        data: { replacementChoice: 'revoked', replacementChosenAt: expect.any(Date) },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'link_document_updated', linkId: movedLinkId })
+      )
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'link_revoked', linkId: revokedLinkId })
+      )
+    })
+
+    it('should return 409 if an affected link is left out', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockReplacedLinks()
+
+      const response = await POST(
+        buildRequest({ ...choicesBody, revokedLinkIds: [] }),
+        params
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it("should refuse to move a link whose LSK the caller doesn't hold", async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockReplacedLinks()
+
+      const response = await POST(
+        buildRequest({
+          keptLinkIds: [movedLinkId],
+          linkDeks: [{ ...movedLinkDek, shareLinkId: keptLinkId }],
+          revokedLinkIds: [revokedLinkId],
+        }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 if user is not authenticated', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: null },
+            error: new Error('Not authenticated'),
+          }),
+        },
+      } as any)
+
+      const response = await POST(buildRequest(choicesBody), params)
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,381 @@
+/**
+ * Unit tests for per-document DEK rotation API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/documents/[id]/rotate-key/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { deleteCiphertext } from '@/lib/storage/ciphertext-store'
+import { checkStoredSizes } from '@/lib/vault/storage-quotas'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    documentPart: {
+      update: vi.fn(),
+    },
+    documentOwnerKey: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    shareLink: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    shareLinkDocument: {
+      update: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}))
+
+vi.mock('@/lib/vault/co-owners', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/vault/co-owners')>()),
+  getGrantedCoOwners: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  deleteCiphertext: vi.fn(),
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  reservePendingUploads: vi.fn(),
+  claimPendingUploads: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/vault/storage-quotas', () => ({
+  checkStoredSizes: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+const mockedDeleteCiphertext = vi.mocked(deleteCiphertext)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const keptLinkId = '11111111-1111-4111-8111-111111111111'
+const revokedLinkId = '22222222-2222-4222-8222-222222222222'
+const backPartId = '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockOwnDocument(overrides: Record<string, unknown> = {}) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', ownerId: 'profile-123', recoverySalt: null },
+  })
+  ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+    id: docId,
+    vaultId: 'vault-123',
+    docType: 'ID',
+    parts: [
+      { id: docId, position: 0, storagePath: 'vaults/vault-123/ID/old.bin', size: 1024 },
+      { id: backPartId, position: 1, storagePath: 'vaults/vault-123/ID/old-back.bin', size: 512 },
+    ],
+    ...overrides,
+  })
+}
+
+function mockActiveLinks() {
+  ;(mockedPrisma.shareLink.findMany as any).mockResolvedValue([
+    {
+      id: keptLinkId,
+      vendorLabel: 'Bank',
+      expiresAt: new Date('2027-01-01'),
+      approvedById: 'profile-123',
+      encryptedLskForOwner: 'bHNrLXdyYXA=',
+    },
+    {
+      id: revokedLinkId,
+      vendorLabel: 'Broker',
+      expiresAt: new Date('2027-01-01'),
+      approvedById: 'co-owner-profile',
+      encryptedLskForOwner: 'Y28tb3duZXI=',
+    },
+  ])
+}
+
+const rotatedParts = [
+  {
+    id: docId,
+    storagePath: 'vaults/vault-123/ID/new.bin',
+    encryptedMetadata: 'bWV0YWRhdGE=',
+    size: 1024,
+    ciphertextChecksum: 'abc123',
+    ciphertextChecksumTag: 'dGFn',
+  },
+  {
+    id: backPartId,
+    storagePath: 'vaults/vault-123/ID/new-back.bin',
+    encryptedMetadata: 'YmFjaw==',
+    size: 512,
+    ciphertextChecksum: 'def456',
+    ciphertextChecksumTag: 'dGFnMg==',
+  },
+]
+
+const rotateBody = {
+  parts: rotatedParts,
+  encryptedDekForOwner: 'ZGVr',
+  dekNonce: 'bm9uY2U=',
+  linkDeks: [
+    { shareLinkId: keptLinkId, encryptedDekForLink: 'bGluay1kZWs=', dekForLinkNonce: 'bm9uY2U=' },
+  ],
+  revokedLinkIds: [revokedLinkId],
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest(`http://localhost/api/documents/${docId}/rotate-key`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const params = { params: Promise.resolve({ id: docId }) }
+
+describe('/api/documents/[id]/rotate-key', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET', () => {
+    it("should list active links with only the caller's own LSK copies", async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockActiveLinks()
+
+      const response = await GET(
+        new NextRequest(`http://localhost/api/documents/${docId}/rotate-key`),
+        params
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.links).toHaveLength(2)
+      expect(data.links[0].encryptedLskForOwner).toBe('bHNrLXdyYXA=')
+      expect(data.links[1].encryptedLskForOwner).toBeNull()
+    })
+
+    it('should return 404 for a document in another vault', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'other-vault',
+      })
+
+      const response = await GET(
+        new NextRequest(`http://localhost/api/documents/${docId}/rotate-key`),
+        params
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST', () => {
+    it('should re-key kept links, revoke the rest and delete the old ciphertext', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockActiveLinks()
+
+      const response = await POST(buildRequest(rotateBody), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, linksRekeyed: 1, linksRevoked: 1 })
+      expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: docId },
+        data: expect.objectContaining({
+          size: 1536,
+          encryptedDekForOwner: 'ZGVr',
+          integrityFailedAt: null,
+        }),
+      })
+      expect(mockedPrisma.documentPart.update).toHaveBeenCalledWith({
+        where: { id: backPartId },
+        data: expect.objectContaining({
+          storagePath: 'vaults/vault-123/ID/new-back.bin',
+          encryptedMetadata: 'YmFjaw==',
+          integrityCheckedAt: null,
+        }),
+      })
+      expect(mockedPrisma.shareLinkDocument.update).toHaveBeenCalledWith({
+        where: { shareLinkId_documentId: { shareLinkId: keptLinkId, documentId: docId } },
+        data: { encryptedDekForLink: 'bGluay1kZWs=', dekForLinkNonce: 'bm9uY2U=' },
+      })
+      expect(mockedPrisma.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [revokedLinkId] }, vaultId: 'vault-123' },
+        data: { status: 'revoked', revokedAt: expect.any(Date) },
+      })
+      expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/old.bin')
+      expect(mockedDeleteCiphertext).toHaveBeenCalledWith('vaults/vault-123/ID/old-back.bin')
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'document_key_rotated', docType: 'ID' })
+      )
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'link_rekeyed', linkId: keptLinkId })
+      )
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'link_revoked', linkId: revokedLinkId })
+      )
+    })
+
+    it('should return 409 if an active link is neither re-keyed nor revoked', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockActiveLinks()
+
+      const response = await POST(buildRequest({ ...rotateBody, revokedLinkIds: [] }), params)
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+      expect(mockedDeleteCiphertext).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 if the new ciphertext overwrites the old one', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+
+      const response = await POST(
+        buildRequest({
+          ...rotateBody,
+          parts: [
+            rotatedParts[0],
+            { ...rotatedParts[1], storagePath: 'vaults/vault-123/ID/old.bin' },
+          ],
+        }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 unless every part is re-encrypted', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+
+      const response = await POST(buildRequest({ ...rotateBody, parts: [rotatedParts[0]] }), params)
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 if a re-encrypted part changes size', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockActiveLinks()
+
+      const response = await POST(
+        buildRequest({ ...rotateBody, parts: [rotatedParts[0], { ...rotatedParts[1], size: 1 }] }),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 413 if a stored ciphertext is larger than its part', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      mockActiveLinks()
+      vi.mocked(checkStoredSizes).mockResolvedValueOnce({
+        code: 'size_mismatch',
+        error: 'A stored ciphertext is larger than the file size declared for it',
+        limit: 577,
+        actual: 4096,
+      })
+
+      const response = await POST(buildRequest(rotateBody), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data.code).toBe('size_mismatch')
+      expect(vi.mocked(checkStoredSizes)).toHaveBeenCalledWith(rotateBody.parts)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should store private dates re-sealed under the new DEK', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument({ encryptedDates: 'b2xkLWRhdGVz' })
+      mockActiveLinks()
+
+      const response = await POST(
+        buildRequest({ ...rotateBody, encryptedDates: 'bmV3LWRhdGVz' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: docId },
+        data: expect.objectContaining({ encryptedDates: 'bmV3LWRhdGVz' }),
+      })
+    })
+
+    it('should return 400 if private dates are not re-sealed', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument({ encryptedDates: 'b2xkLWRhdGVz' })
+      mockActiveLinks()
+
+      const response = await POST(buildRequest(rotateBody), params)
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 without a recovery wrap when the vault has a recovery kit', async () => {
+      mockAuthenticatedUser()
+      mockOwnDocument()
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-123',
+        vault: { id: 'vault-123', ownerId: 'profile-123', recoverySalt: 'cmVjb3Zlcnk=' },
+      })
+
+      const response = await POST(buildRequest(rotateBody), params)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 401 if user is not authenticated', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: null },
+            error: new Error('Not authenticated'),
+          }),
+        },
+      } as any)
+
+      const response = await POST(buildRequest(rotateBody), params)
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,507 @@
+/**
+ * Unit tests for document versions
+ * Tests: uploads adding versions of ordered parts, key rotation keeping its ids, restoring an
+ * earlier version
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST as prepareUpload } from '@/app/api/documents/prepare-upload/route'
+import { POST as commitUpload } from '@/app/api/documents/commit-upload/route'
+import { POST as restore } from '@/app/api/documents/[id]/restore/route'
+import { NextRequest } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { claimPendingUploads, reservePendingUploads } from '@/lib/vault/pending-uploads'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  document: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+  },
+  documentOwnerKey: {
+    createMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    documentPart: {
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/vault/co-owners', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/vault/co-owners')>()),
+  getGrantedCoOwners: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/lib/vault/document-type-catalog', () => ({
+  inDocumentTypeCatalog: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  getStoragePath: vi.fn((vaultId: string, docType: string, id: string) => {
+    return `vaults/${vaultId}/${docType}/${id}.bin`
+  }),
+  generateSignedUploadUrl: vi.fn().mockResolvedValue('https://storage.example/upload'),
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  reservePendingUploads: vi.fn(),
+  claimPendingUploads: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/vault/storage-quotas', () => ({
+  vaultQuotas: vi.fn(),
+  maxCiphertextSize: vi.fn().mockReturnValue(1024),
+  checkNewVersion: vi.fn().mockResolvedValue(null),
+  checkStoredSizes: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const uniqueConstraintError = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+  code: 'P2002',
+  clientVersion: '5.22.0',
+})
+const frontPartId = '7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d'
+const backPartId = '8b7c6d5e-4f3a-4b2c-8d9e-8f7a6b5c4d3e'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault() {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', ownerId: 'profile-123', recoverySalt: null },
+  })
+}
+
+function buildRequest(url: string, body?: unknown) {
+  return new NextRequest(url, {
+    method: 'POST',
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+}
+
+const commitBody = {
+  docId,
+  docType: 'ProofOfAddress',
+  parts: [
+    {
+      id: frontPartId,
+      storagePath: 'vaults/vault-123/ProofOfAddress/page-1.bin',
+      encryptedMetadata: 'bWV0YWRhdGE=',
+      size: 1024,
+      ciphertextChecksum: 'abc123',
+      ciphertextChecksumTag: 'dGFn',
+    },
+    {
+      id: backPartId,
+      storagePath: 'vaults/vault-123/ProofOfAddress/page-2.bin',
+      encryptedMetadata: 'cGFnZS0y',
+      size: 2048,
+      ciphertextChecksum: 'def456',
+      ciphertextChecksumTag: 'dGFnMg==',
+    },
+  ],
+  encryptedDekForOwner: 'ZGVr',
+  dekNonce: 'bm9uY2U=',
+}
+
+describe('document versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (arg: any) =>
+      typeof arg === 'function' ? arg(mockTx) : Promise.all(arg)
+    )
+    ;(mockedPrisma.documentPart.findFirst as any).mockResolvedValue(null)
+  })
+
+  describe('POST /api/documents/prepare-upload', () => {
+    it('should hand out fresh ids for every upload and each of its parts', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await prepareUpload(
+        buildRequest('http://localhost/api/documents/prepare-upload', {
+          docType: 'ProofOfAddress',
+          partSizes: [1024, 2048],
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.docId).toMatch(/^[0-9a-f-]{36}$/)
+      expect(data.parts).toHaveLength(2)
+      expect(data.parts[0].partId).toMatch(/^[0-9a-f-]{36}$/)
+      expect(data.parts[0].partId).not.toBe(data.parts[1].partId)
+      expect(data.parts[0].storagePath).not.toBe(data.parts[1].storagePath)
+      expect(data.parts[1].uploadUrl).toBe('https://storage.example/upload')
+      expect(mockedPrisma.document.findUnique).not.toHaveBeenCalled()
+      expect(vi.mocked(reservePendingUploads)).toHaveBeenCalledWith('user-123', [
+        data.parts[0].storagePath,
+        data.parts[1].storagePath,
+      ])
+    })
+
+    it('should return 400 for a document without parts', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await prepareUpload(
+        buildRequest('http://localhost/api/documents/prepare-upload', {
+          docType: 'ProofOfAddress',
+          partSizes: [],
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should keep the ids of the version being re-keyed and its parts', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ProofOfAddress',
+        parts: [{ id: frontPartId }, { id: backPartId }],
+      })
+
+      const response = await prepareUpload(
+        buildRequest('http://localhost/api/documents/prepare-upload', {
+          docType: 'ProofOfAddress',
+          partSizes: [1024, 2048],
+          documentId: docId,
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.docId).toBe(docId)
+      expect(data.parts.map((part: { partId: string }) => part.partId)).toEqual([
+        frontPartId,
+        backPartId,
+      ])
+    })
+
+    it('should return 400 when re-keying with a different number of parts', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ProofOfAddress',
+        parts: [{ id: frontPartId }, { id: backPartId }],
+      })
+
+      const response = await prepareUpload(
+        buildRequest('http://localhost/api/documents/prepare-upload', {
+          docType: 'ProofOfAddress',
+          partSizes: [1024],
+          documentId: docId,
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for a document in another vault', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-456',
+        docType: 'ProofOfAddress',
+      })
+
+      const response = await prepareUpload(
+        buildRequest('http://localhost/api/documents/prepare-upload', {
+          docType: 'ProofOfAddress',
+          partSizes: [1024],
+          documentId: docId,
+        })
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST /api/documents/commit-upload', () => {
+    it('should add the next version and keep the previous one', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      mockTx.document.findFirst.mockResolvedValue({ version: 2 })
+      mockTx.document.create.mockImplementation(async ({ data }: any) => data)
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, version: 3, replaced: true })
+      expect(mockTx.document.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', docType: 'ProofOfAddress', current: true },
+        data: { current: false },
+      })
+      expect(mockTx.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: docId,
+          version: 3,
+          current: true,
+          size: 3072,
+          lastUpdatedBy: 'profile-123',
+        }),
+      })
+    })
+
+    it('should store the parts in the order they were sent', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      mockTx.document.findFirst.mockResolvedValue(null)
+      mockTx.document.create.mockImplementation(async ({ data }: any) => data)
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+
+      expect(response.status).toBe(200)
+      const { parts } = mockTx.document.create.mock.calls[0][0].data
+      expect(parts.create).toEqual([
+        expect.objectContaining({
+          id: frontPartId,
+          position: 0,
+          storagePath: 'vaults/vault-123/ProofOfAddress/page-1.bin',
+        }),
+        expect.objectContaining({
+          id: backPartId,
+          position: 1,
+          storagePath: 'vaults/vault-123/ProofOfAddress/page-2.bin',
+          ciphertextChecksumTag: 'dGFnMg==',
+        }),
+      ])
+    })
+
+    it('should return 400 for a part id sent twice', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', {
+          ...commitBody,
+          parts: [commitBody.parts[0], commitBody.parts[0]],
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should make the first upload of a type version 1', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      mockTx.document.findFirst.mockResolvedValue(null)
+      mockTx.document.create.mockImplementation(async ({ data }: any) => data)
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, version: 1, replaced: false })
+    })
+
+    it('should return 409 for an id already in use', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({ id: docId })
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 for a part id already in use', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      ;(mockedPrisma.documentPart.findFirst as any).mockResolvedValue({ id: backPartId })
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 for paths that are no longer pending', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      vi.mocked(claimPendingUploads).mockResolvedValueOnce(false)
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+
+      expect(response.status).toBe(409)
+      expect(vi.mocked(claimPendingUploads)).toHaveBeenCalledWith('user-123', [
+        'vaults/vault-123/ProofOfAddress/page-1.bin',
+        'vaults/vault-123/ProofOfAddress/page-2.bin',
+      ])
+      expect(mockTx.document.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 when a concurrent commit takes the version first', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue(null)
+      mockTx.document.create.mockRejectedValueOnce(uniqueConstraintError)
+
+      const response = await commitUpload(
+        buildRequest('http://localhost/api/documents/commit-upload', commitBody)
+      )
+
+      expect(response.status).toBe(409)
+    })
+  })
+
+  describe('POST /api/documents/[id]/restore', () => {
+    it('should make an earlier version current and audit it', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ProofOfAddress',
+        version: 1,
+        current: false,
+      })
+
+      const response = await restore(
+        buildRequest(`http://localhost/api/documents/${docId}/restore`),
+        { params: Promise.resolve({ id: docId }) }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ id: docId, version: 1 })
+      expect(mockedPrisma.document.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', docType: 'ProofOfAddress', current: true },
+        data: { current: false },
+      })
+      expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: docId },
+        data: { current: true },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'document_version_restored',
+          docType: 'ProofOfAddress',
+        })
+      )
+    })
+
+    it('should return 400 for the current version', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ProofOfAddress',
+        version: 2,
+        current: true,
+      })
+
+      const response = await restore(
+        buildRequest(`http://localhost/api/documents/${docId}/restore`),
+        { params: Promise.resolve({ id: docId }) }
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for a document in another vault', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-456',
+        docType: 'ProofOfAddress',
+        version: 1,
+        current: false,
+      })
+
+      const response = await restore(
+        buildRequest(`http://localhost/api/documents/${docId}/restore`),
+        { params: Promise.resolve({ id: docId }) }
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 409 when a concurrent restore makes another version current', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.findUnique as any).mockResolvedValue({
+        id: docId,
+        vaultId: 'vault-123',
+        docType: 'ProofOfAddress',
+        version: 1,
+        current: false,
+      })
+      ;(mockedPrisma.$transaction as any).mockRejectedValueOnce(uniqueConstraintError)
+
+      const response = await restore(
+        buildRequest(`http://localhost/api/documents/${docId}/restore`),
+        { params: Promise.resolve({ id: docId }) }
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for recovery contact API routes
+ * Tests: key registration drops a stale share, approvals only for the open request, audit
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST as APPROVE } from '@/app/api/recovery-contacts/[token]/approve/route'
+import { POST as REGISTER_KEY } from '@/app/api/recovery-contacts/[token]/key/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    recoveryContact: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    recoveryRequest: {
+      findFirst: vi.fn(),
+    },
+    recoveryApproval: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/crypto/token-hash', () => ({
+  hashToken: vi.fn(() => 'hashed-token'),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const token = 'contact-token'
+const params = { params: Promise.resolve({ token }) }
+const requestId = '33333333-3333-4333-8333-333333333333'
+
+function buildRequest(path: string, body: unknown) {
+  return new NextRequest(`http://localhost/api/recovery-contacts/${token}/${path}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+function mockContact(contact: Record<string, unknown>) {
+  ;(mockedPrisma.recoveryContact.findUnique as any).mockResolvedValue({
+    id: 'contact-123',
+    vaultId: 'vault-123',
+    publicKey: 'Y29udGFjdC1rZXk=',
+    sealedShare: 'c2VhbGVkLXNoYXJl',
+    ...contact,
+  })
+}
+
+function mockOpenRequest() {
+  ;(mockedPrisma.recoveryRequest.findFirst as any).mockResolvedValue({
+    id: requestId,
+    vaultId: 'vault-123',
+    publicKey: 'cmVxdWVzdC1rZXk=',
+    expiresAt: new Date('2027-01-08'),
+  })
+}
+
+describe('/api/recovery-contacts/[token]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /approve', () => {
+    it("should store the re-sealed share and audit the contact's approval", async () => {
+      mockContact({})
+      mockOpenRequest()
+      ;(mockedPrisma.recoveryApproval.findUnique as any).mockResolvedValue(null)
+      ;(mockedPrisma.recoveryApproval.create as any).mockResolvedValue({
+        id: 'approval-123',
+        createdAt: new Date(),
+      })
+
+      const response = await APPROVE(
+        buildRequest('approve', { requestId, resealedShare: 'cmVzZWFsZWQ=' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.recoveryContact.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: 'hashed-token' },
+      })
+      expect(mockedPrisma.recoveryApproval.create).toHaveBeenCalledWith({
+        data: { requestId, contactId: 'contact-123', resealedShare: 'cmVzZWFsZWQ=' },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith({
+        vaultId: 'vault-123',
+        actorType: 'recovery_contact',
+        actorId: 'contact-123',
+        eventType: 'social_recovery_approved',
+      })
+    })
+
+    it('should return 410 if the request is not the open one', async () => {
+      mockContact({})
+      ;(mockedPrisma.recoveryRequest.findFirst as any).mockResolvedValue(null)
+
+      const response = await APPROVE(
+        buildRequest('approve', { requestId, resealedShare: 'cmVzZWFsZWQ=' }),
+        params
+      )
+
+      expect(response.status).toBe(410)
+      expect(mockedPrisma.recoveryApproval.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if the contact already approved', async () => {
+      mockContact({})
+      mockOpenRequest()
+      ;(mockedPrisma.recoveryApproval.findUnique as any).mockResolvedValue({ id: 'approval-123' })
+
+      const response = await APPROVE(
+        buildRequest('approve', { requestId, resealedShare: 'cmVzZWFsZWQ=' }),
+        params
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.recoveryApproval.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 403 if the contact holds no share', async () => {
+      mockContact({ sealedShare: null })
+
+      const response = await APPROVE(
+        buildRequest('approve', { requestId, resealedShare: 'cmVzZWFsZWQ=' }),
+        params
+      )
+
+      expect(response.status).toBe(403)
+      expect(mockedPrisma.recoveryApproval.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for an unknown token', async () => {
+      ;(mockedPrisma.recoveryContact.findUnique as any).mockResolvedValue(null)
+
+      const response = await APPROVE(
+        buildRequest('approve', { requestId, resealedShare: 'cmVzZWFsZWQ=' }),
+        params
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST /key', () => {
+    it('should replace the key and drop the share sealed to the old one', async () => {
+      mockContact({})
+      ;(mockedPrisma.recoveryContact.update as any).mockResolvedValue({
+        id: 'contact-123',
+        updatedAt: new Date(),
+      })
+
+      const response = await REGISTER_KEY(
+        buildRequest('key', { publicKey: 'bmV3LWtleQ==' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.recoveryContact.update).toHaveBeenCalledWith({
+        where: { id: 'contact-123' },
+        data: { publicKey: 'bmV3LWtleQ==', sealedShare: null },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorType: 'recovery_contact',
+          eventType: 'recovery_contact_key_registered',
+        })
+      )
+    })
+  })
+})
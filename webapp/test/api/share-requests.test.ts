@@ -24,6 +24,9 @@ vi.mock('@/lib/db/prisma', () => ({
       create: vi.fn(),
       findMany: vi.fn(),
     },
+    documentTypeDefinition: {
+      findMany: vi.fn(),
+    },
   },
 }))
 
@@ -46,6 +49,9 @@ const mockedLogAuditEvent = vi.mocked(logAuditEvent)
 describe('/api/share-requests', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    ;(mockedPrisma.documentTypeDefinition.findMany as any).mockResolvedValue([
+      { key: 'BoardResolution', label: 'Board resolution' },
+    ])
   })
 
   describe('POST', () => {
@@ -169,6 +175,72 @@ describe('/api/share-requests', () => {
       const response = await POST(request)
       expect(response.status).toBe(403)
     })
+
+    it("should keep only doc types in the vault's catalog", async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-123',
+        userId: 'user-123',
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+      ;(mockedPrisma.shareRequest.create as any).mockResolvedValue({ id: 'request-123' })
+
+      const request = new NextRequest('http://localhost/api/share-requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          vaultId: 'vault-123',
+          vendorLabel: 'Acme Corp',
+          requestedDocTypes: ['BoardResolution', 'UboDeclaration', 'Payslip'],
+          expiresAt: new Date(Date.now() + 86400000 * 365).toISOString(),
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.shareRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          requestedDocTypes: ['BoardResolution', 'UboDeclaration'],
+        }),
+      })
+    })
+
+    it('should return 400 if no requested doc type is in the catalog', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: 'user-123' } },
+            error: null,
+          }),
+        },
+      } as any)
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-123',
+        userId: 'user-123',
+      })
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+
+      const request = new NextRequest('http://localhost/api/share-requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          vaultId: 'vault-123',
+          vendorLabel: 'Acme Corp',
+          requestedDocTypes: ['Payslip'],
+          expiresAt: new Date(Date.now() + 86400000 * 365).toISOString(),
+        }),
+      })
+
+      const response = await POST(request)
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.shareRequest.create).not.toHaveBeenCalled()
+    })
   })
 
   describe('GET', () => {
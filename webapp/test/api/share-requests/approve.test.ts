@@ -0,0 +1,240 @@
+/**
+ * Unit tests for share request approval API
+ * Tests: LSK delivery by emailed vendor secret or sealed to the vendor's registered key
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/share-requests/[id]/approve/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { sendVendorSecretEmail, sendVendorLinkEmail } from '@/lib/email/mailtrap'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    shareRequest: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    document: {
+      findMany: vi.fn(),
+    },
+    shareLink: {
+      create: vi.fn(),
+    },
+    shareLinkDocument: {
+      createMany: vi.fn(),
+    },
+    vendorKey: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/auth/authorization', () => ({
+  requireVaultAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/crypto/token-hash', () => ({
+  generateToken: vi.fn(() => 'link-token'),
+  hashToken: vi.fn(() => 'hashed-token'),
+}))
+
+vi.mock('@/lib/email/mailtrap', () => ({
+  sendVendorSecretEmail: vi.fn(),
+  sendVendorLinkEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
+const mockedSendVendorSecretEmail = vi.mocked(sendVendorSecretEmail)
+const mockedSendVendorLinkEmail = vi.mocked(sendVendorLinkEmail)
+
+const requestId = 'request-123'
+const params = { params: Promise.resolve({ id: requestId }) }
+const vendorPublicKey = 'c3BraS1wdWJsaWMta2V5'
+
+const cryptoArtifacts = {
+  lskSalt: 'c2FsdA==',
+  encryptedDekForLink: [{ documentId: 'doc-1', encryptedDek: 'ZGVr', nonce: 'bm9uY2U=' }],
+  encryptedLskForVendor: 'bHNr',
+  lskNonce: 'bm9uY2U=',
+  encryptedLskForOwner: 'b3duZXItbHNr',
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest(`http://localhost/api/share-requests/${requestId}/approve`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+function mockPendingRequest() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+  mockedRequireVaultAccess.mockResolvedValue({ role: 'owner' } as any)
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+  ;(mockedPrisma.shareRequest.findUnique as any).mockResolvedValue({
+    id: requestId,
+    vaultId: 'vault-123',
+    status: 'pending',
+    vendorLabel: 'Bank',
+    vendorEmail: 'onboarding@bank.example',
+    purposeNotes: null,
+    requestedDocTypes: ['ID'],
+    expiresAt: new Date('2027-01-01'),
+  })
+  ;(mockedPrisma.document.findMany as any).mockResolvedValue([{ id: 'doc-1', docType: 'ID' }])
+  ;(mockedPrisma.shareLink.create as any).mockResolvedValue({
+    id: 'link-123',
+    vendorLabel: 'Bank',
+    expiresAt: new Date('2027-01-01'),
+    status: 'approved',
+    createdAt: new Date(),
+  })
+}
+
+describe('/api/share-requests/[id]/approve', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should email the vendor secret with the link', async () => {
+    mockPendingRequest()
+
+    const response = await POST(
+      buildRequest({ ...cryptoArtifacts, vendorSecret: 'AAAA-BBBB-CCCC-DDDD-EEEE-F' }),
+      params
+    )
+
+    expect(response.status).toBe(200)
+    // The link is pinned to the current version of each requested type
+    expect(mockedPrisma.document.findMany).toHaveBeenCalledWith({
+      where: { vaultId: 'vault-123', docType: { in: ['ID'] }, current: true },
+    })
+    expect(mockedPrisma.shareLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ encryptedLskForVendor: 'bHNr', vendorPublicKey: null }),
+    })
+    expect(mockedSendVendorSecretEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ vendorSecret: 'AAAA-BBBB-CCCC-DDDD-EEEE-F' })
+    )
+    expect(mockedSendVendorLinkEmail).not.toHaveBeenCalled()
+  })
+
+  it("should email only the link when the LSK is sealed to the vendor's key", async () => {
+    mockPendingRequest()
+    ;(mockedPrisma.vendorKey.findUnique as any).mockResolvedValue({
+      id: 'vendor-key-123',
+      publicKey: vendorPublicKey,
+      confirmedAt: new Date(),
+    })
+
+    const response = await POST(buildRequest({ ...cryptoArtifacts, vendorPublicKey }), params)
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.vendorKey.findUnique).toHaveBeenCalledWith({
+      where: {
+        vaultId_vendorEmail: { vaultId: 'vault-123', vendorEmail: 'onboarding@bank.example' },
+      },
+    })
+    expect(mockedPrisma.shareLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ vendorPublicKey }),
+    })
+    expect(mockedSendVendorLinkEmail).toHaveBeenCalledWith(
+      expect.not.objectContaining({ vendorSecret: expect.anything() })
+    )
+    expect(mockedSendVendorSecretEmail).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 if the sealed key is no longer the registered one', async () => {
+    mockPendingRequest()
+    ;(mockedPrisma.vendorKey.findUnique as any).mockResolvedValue({
+      id: 'vendor-key-123',
+      publicKey: 'bmV3ZXIta2V5',
+    })
+
+    const response = await POST(buildRequest({ ...cryptoArtifacts, vendorPublicKey }), params)
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.shareLink.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 for an unconfirmed key the approver did not check', async () => {
+    mockPendingRequest()
+    ;(mockedPrisma.vendorKey.findUnique as any).mockResolvedValue({
+      id: 'vendor-key-123',
+      publicKey: vendorPublicKey,
+      confirmedAt: null,
+    })
+
+    const response = await POST(buildRequest({ ...cryptoArtifacts, vendorPublicKey }), params)
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.shareLink.create).not.toHaveBeenCalled()
+  })
+
+  it('should confirm a new key once the approver checked it', async () => {
+    mockPendingRequest()
+    ;(mockedPrisma.vendorKey.findUnique as any).mockResolvedValue({
+      id: 'vendor-key-123',
+      publicKey: vendorPublicKey,
+      confirmedAt: null,
+    })
+
+    const response = await POST(
+      buildRequest({ ...cryptoArtifacts, vendorPublicKey, vendorKeyConfirmed: true }),
+      params
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.vendorKey.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vendor-key-123', publicKey: vendorPublicKey, confirmedAt: null },
+      data: { confirmedAt: expect.any(Date) },
+    })
+  })
+
+  it('should return 400 with both a vendor secret and a vendor key', async () => {
+    mockPendingRequest()
+
+    const response = await POST(
+      buildRequest({
+        ...cryptoArtifacts,
+        vendorSecret: 'AAAA-BBBB-CCCC-DDDD-EEEE-F',
+        vendorPublicKey,
+      }),
+      params
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.shareLink.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 with neither a vendor secret nor a vendor key', async () => {
+    mockPendingRequest()
+
+    const response = await POST(buildRequest(cryptoArtifacts), params)
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.shareLink.create).not.toHaveBeenCalled()
+  })
+})
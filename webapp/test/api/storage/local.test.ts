@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the local storage driver's signed URL route
+ * Tests: blobs are only served and written through valid signed URLs with the local driver, and
+ * uploads are held to the size limit their URL carries
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { GET, PUT } from '@/app/api/storage/local/[...path]/route'
+import { NextRequest } from 'next/server'
+import { downloadCiphertext, uploadCiphertext } from '@/lib/storage/ciphertext-store'
+import { signedLocalUrl } from '@/lib/storage/local-store'
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  downloadCiphertext: vi.fn(),
+  uploadCiphertext: vi.fn(),
+}))
+
+const originalEnv = process.env
+const mockedDownloadCiphertext = vi.mocked(downloadCiphertext)
+const mockedUploadCiphertext = vi.mocked(uploadCiphertext)
+
+const path = 'vaults/vault-123/ID/doc-1.bin'
+
+function buildRequest(url: string, init?: RequestInit) {
+  return new NextRequest(new URL(url, 'http://localhost'), init as any)
+}
+
+function routeParams(url: string) {
+  const segments = new URL(url, 'http://localhost').pathname.split('/').slice(4)
+  return { params: Promise.resolve({ path: segments.map(decodeURIComponent) }) }
+}
+
+describe('/api/storage/local/[...path]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env = {
+      ...originalEnv,
+      STORAGE_DRIVER: 'local',
+      LOCAL_STORAGE_SECRET: 'test-local-secret',
+    }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('should serve a blob through a signed download URL', async () => {
+    mockedDownloadCiphertext.mockResolvedValue(new Uint8Array([1, 2, 3]))
+    const url = signedLocalUrl('GET', path, 300)
+
+    const response = await GET(buildRequest(url), routeParams(url))
+
+    expect(response.status).toBe(200)
+    expect(mockedDownloadCiphertext).toHaveBeenCalledWith(path)
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]))
+  })
+
+  it('should return 404 for an expired or forged URL', async () => {
+    const expired = signedLocalUrl('GET', path, -1)
+    const forged = `/api/storage/local/${path}?method=GET&expires=9999999999&signature=00`
+
+    expect((await GET(buildRequest(expired), routeParams(expired))).status).toBe(404)
+    expect((await GET(buildRequest(forged), routeParams(forged))).status).toBe(404)
+    expect(mockedDownloadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when another storage driver is configured', async () => {
+    const url = signedLocalUrl('GET', path, 300)
+    process.env.STORAGE_DRIVER = 'supabase'
+
+    const response = await GET(buildRequest(url), routeParams(url))
+
+    expect(response.status).toBe(404)
+    expect(mockedDownloadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should write a blob through a signed upload URL', async () => {
+    const url = signedLocalUrl('PUT', path, 300, { maxBytes: 1024 })
+
+    const response = await PUT(
+      buildRequest(url, { method: 'PUT', body: new Uint8Array([4, 5, 6]) }),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockedUploadCiphertext).toHaveBeenCalledWith(path, new Uint8Array([4, 5, 6]))
+  })
+
+  it('should not accept a download URL for an upload', async () => {
+    const url = signedLocalUrl('GET', path, 300)
+
+    const response = await PUT(
+      buildRequest(url, { method: 'PUT', body: new Uint8Array([4, 5, 6]) }),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(404)
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should refuse an upload whose Content-Length is over the limit', async () => {
+    const url = signedLocalUrl('PUT', path, 300, { maxBytes: 1024 })
+
+    const response = await PUT(
+      buildRequest(url, {
+        method: 'PUT',
+        headers: { 'Content-Length': '4096' },
+        body: new Uint8Array([4, 5, 6]),
+      }),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(413)
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should stop reading an upload once its body passes the limit', async () => {
+    const url = signedLocalUrl('PUT', path, 300, { maxBytes: 1024 })
+    // Endless, and streamed, so there's no Content-Length to refuse it by
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(256))
+      },
+    })
+
+    const response = await PUT(
+      buildRequest(url, { method: 'PUT', body, duplex: 'half' } as RequestInit),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(413)
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for an upload URL without its signed limit', async () => {
+    const url = signedLocalUrl('PUT', path, 300, { maxBytes: 2 }).replace(
+      'maxBytes=2',
+      'maxBytes=1024'
+    )
+
+    const response = await PUT(
+      buildRequest(url, { method: 'PUT', body: new Uint8Array([4, 5, 6]) }),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(404)
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 rather than overwrite an existing blob', async () => {
+    mockedUploadCiphertext.mockRejectedValueOnce(
+      Object.assign(new Error('file already exists'), { code: 'EEXIST' })
+    )
+    const url = signedLocalUrl('PUT', path, 300, { maxBytes: 1024 })
+
+    const response = await PUT(
+      buildRequest(url, { method: 'PUT', body: new Uint8Array([4, 5, 6]) }),
+      routeParams(url)
+    )
+
+    expect(response.status).toBe(409)
+  })
+})
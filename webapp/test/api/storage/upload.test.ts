@@ -0,0 +1,122 @@
+/**
+ * Unit tests for the base64 ciphertext upload route
+ * Tests: only pending upload paths are written, never overwritten, up to the file size limit
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/storage/upload/route'
+import { NextRequest } from 'next/server'
+import { createServerClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/db/prisma'
+import { uploadCiphertext } from '@/lib/storage/ciphertext-store'
+import { holdsPendingUploads } from '@/lib/vault/pending-uploads'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', () => ({
+  uploadCiphertext: vi.fn(),
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  holdsPendingUploads: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedUploadCiphertext = vi.mocked(uploadCiphertext)
+const mockedHoldsPendingUploads = vi.mocked(holdsPendingUploads)
+const mockedPrisma = vi.mocked(prisma)
+
+const uploadBody = { path: 'vaults/vault-123/ID/new.bin', ciphertext: 'Y2lwaGVydGV4dA==' }
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/storage/upload', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+describe('/api/storage/upload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+  })
+
+  it('should upload to a path pending for the user', async () => {
+    mockAuthenticatedUser()
+    mockedHoldsPendingUploads.mockResolvedValue(true)
+
+    const response = await POST(buildRequest(uploadBody))
+
+    expect(response.status).toBe(200)
+    expect(mockedHoldsPendingUploads).toHaveBeenCalledWith('user-123', [uploadBody.path])
+    expect(mockedUploadCiphertext).toHaveBeenCalledWith(
+      uploadBody.path,
+      new Uint8Array(Buffer.from('ciphertext'))
+    )
+  })
+
+  it('should return 403 for a path that is not pending', async () => {
+    mockAuthenticatedUser()
+    mockedHoldsPendingUploads.mockResolvedValue(false)
+
+    const response = await POST(buildRequest(uploadBody))
+
+    expect(response.status).toBe(403)
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should return 413 for a ciphertext larger than any allowed file', async () => {
+    mockAuthenticatedUser()
+    mockedHoldsPendingUploads.mockResolvedValue(true)
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: {
+        id: 'vault-123',
+        storageQuotaBytes: null,
+        maxFileBytes: 16,
+        maxDocumentVersions: null,
+      },
+    })
+
+    const response = await POST(
+      buildRequest({ ...uploadBody, ciphertext: Buffer.alloc(64).toString('base64') })
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(413)
+    expect(data).toMatchObject({ code: 'file_too_large', limit: 16, actual: 64 })
+    expect(mockedUploadCiphertext).not.toHaveBeenCalled()
+  })
+
+  it('should fail rather than overwrite an existing blob', async () => {
+    mockAuthenticatedUser()
+    mockedHoldsPendingUploads.mockResolvedValue(true)
+    mockedUploadCiphertext.mockRejectedValue(new Error('Failed to upload ciphertext: exists'))
+
+    const response = await POST(buildRequest(uploadBody))
+
+    expect(response.status).toBe(500)
+    expect(mockedUploadCiphertext).toHaveBeenCalledTimes(1)
+  })
+})
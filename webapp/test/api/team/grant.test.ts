@@ -0,0 +1,185 @@
+/**
+ * Unit tests for granting a co-owner access to the vault's documents
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/team/members/[id]/grant/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    teamMembership: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/auth/authorization', () => ({
+  requireVaultAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const membershipId = '7d1e2f3a-4b5c-4d6e-8f7a-8b9c0d1e2f3a'
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+
+const mockTx = {
+  document: { findMany: vi.fn() },
+  teamMembership: { updateMany: vi.fn() },
+  documentOwnerKey: { deleteMany: vi.fn(), createMany: vi.fn() },
+}
+
+function mockAuthenticatedOwner() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+  mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+}
+
+function mockCoOwner(overrides: Record<string, unknown> = {}) {
+  ;(mockedPrisma.teamMembership.findUnique as any).mockResolvedValue({
+    id: membershipId,
+    vaultId: 'vault-123',
+    userId: 'profile-456',
+    role: 'owner',
+    publicKey,
+    accessGrantedAt: null,
+    ...overrides,
+  })
+}
+
+const publicKey = 'cHVibGljLWtleQ=='
+
+async function grant(
+  documents: { id: string; sealedDek: string }[],
+  key: Record<string, unknown> = { publicKey, publicKeyConfirmed: true }
+) {
+  const request = new NextRequest(`http://localhost/api/team/members/${membershipId}/grant`, {
+    method: 'POST',
+    body: JSON.stringify({ ...key, documents }),
+  })
+  return POST(request, { params: Promise.resolve({ id: membershipId }) })
+}
+
+describe('/api/team/members/[id]/grant', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    mockTx.teamMembership.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should store sealed DEKs for every document and audit the grant', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner()
+    mockTx.document.findMany.mockResolvedValue([{ id: docId }])
+
+    const response = await grant([{ id: docId, sealedDek: 'c2VhbGVk' }])
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.documentsGranted).toBe(1)
+    expect(mockTx.teamMembership.updateMany).toHaveBeenCalledWith({
+      where: { id: membershipId, publicKey, accessGrantedAt: null },
+      data: { accessGrantedAt: expect.any(Date), confirmedPublicKey: publicKey },
+    })
+    expect(mockTx.documentOwnerKey.createMany).toHaveBeenCalledWith({
+      data: [
+        { documentId: docId, membershipId, encryptedDekForOwner: 'c2VhbGVk', dekNonce: null },
+      ],
+    })
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ actorId: 'profile-123', eventType: 'co_owner_access_granted' })
+    )
+  })
+
+  it('should return 409 if a document is missing from the grant', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner()
+    mockTx.document.findMany.mockResolvedValue([
+      { id: docId },
+      { id: '5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9' },
+    ])
+
+    const response = await grant([{ id: docId, sealedDek: 'c2VhbGVk' }])
+
+    expect(response.status).toBe(409)
+    expect(mockTx.teamMembership.updateMany).not.toHaveBeenCalled()
+  })
+
+  it("should return 409 unless the owner checked the co-owner's key fingerprint", async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner()
+
+    const response = await grant([{ id: docId, sealedDek: 'c2VhbGVk' }], { publicKey })
+    const data = await response.json()
+
+    expect(response.status).toBe(409)
+    expect(data.error).toContain('fingerprint')
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 for DEKs sealed to a key the co-owner no longer has', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner({ publicKey: 'b3RoZXIta2V5' })
+
+    const response = await grant([{ id: docId, sealedDek: 'c2VhbGVk' }])
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 before the co-owner has set a password', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner({ publicKey: null })
+
+    const response = await grant([])
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should not let a co-owner grant themselves access', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner({ userId: 'profile-123' })
+
+    const response = await grant([])
+
+    expect(response.status).toBe(403)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 403 if the caller is not an owner', async () => {
+    mockAuthenticatedOwner()
+    mockCoOwner()
+    mockedRequireVaultAccess.mockRejectedValue(new Error('Unauthorized: owner role required'))
+
+    const response = await grant([])
+
+    expect(response.status).toBe(403)
+  })
+})
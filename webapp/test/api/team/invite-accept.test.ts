@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the team invite accept route
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/team/invites/[token]/accept/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    teamInvite: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    teamMembership: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/crypto/token-hash', () => ({
+  hashToken: vi.fn((token: string) => `hashed-${token}`),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+
+function acceptRequest() {
+  const request = new NextRequest('http://localhost/api/team/invites/test-token/accept', {
+    method: 'POST',
+  })
+  return POST(request, { params: Promise.resolve({ token: 'test-token' }) })
+}
+
+describe('/api/team/invites/[token]/accept', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockedCreateServerClient.mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: 'user-123', email: 'director@example.com' } },
+          error: null,
+        }),
+      },
+    } as any)
+    ;(mockedPrisma.teamInvite.findFirst as any).mockResolvedValue({
+      id: 'invite-123',
+      vaultId: 'vault-123',
+      invitedEmail: 'director@example.com',
+      role: 'owner',
+      permissionsJson: {},
+    })
+    ;(mockedPrisma.teamMembership.findUnique as any).mockResolvedValue(null)
+    ;(mockedPrisma.teamMembership.create as any).mockImplementation(async ({ data }: any) => ({
+      ...data,
+      id: 'membership-new',
+    }))
+  })
+
+  it('should accept a co-owner invite', async () => {
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+      teamMemberships: [],
+    })
+
+    const response = await acceptRequest()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.vaultId).toBe('vault-123')
+    expect(data.role).toBe('owner')
+    expect(mockedPrisma.teamInvite.update).toHaveBeenCalled()
+  })
+
+  it('should refuse a co-owner invite from someone who owns a vault', async () => {
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-own' },
+      teamMemberships: [],
+    })
+
+    const response = await acceptRequest()
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.teamMembership.create).not.toHaveBeenCalled()
+  })
+
+  it('should refuse a co-owner invite from someone who co-owns another vault', async () => {
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+      teamMemberships: [{ id: 'membership-other', vaultId: 'vault-other', role: 'owner' }],
+    })
+
+    const response = await acceptRequest()
+    const data = await response.json()
+
+    expect(response.status).toBe(409)
+    expect(data.error).toContain('already co-own a vault')
+    expect(mockedPrisma.teamMembership.create).not.toHaveBeenCalled()
+    expect(mockedPrisma.teamInvite.update).not.toHaveBeenCalled()
+  })
+
+  it('should let a co-owner of another vault join as a delegate', async () => {
+    ;(mockedPrisma.teamInvite.findFirst as any).mockResolvedValue({
+      id: 'invite-123',
+      vaultId: 'vault-123',
+      invitedEmail: 'director@example.com',
+      role: 'delegate',
+      permissionsJson: { allowedDocTypes: ['ID'] },
+    })
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+      teamMemberships: [{ id: 'membership-other', vaultId: 'vault-other', role: 'owner' }],
+    })
+
+    const response = await acceptRequest()
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.teamMembership.create).toHaveBeenCalled()
+  })
+})
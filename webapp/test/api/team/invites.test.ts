@@ -50,6 +50,12 @@ const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
 const mockedSendInviteEmail = vi.mocked(sendInviteEmail)
 const mockedLogAuditEvent = vi.mocked(logAuditEvent)
 
+const ownerAccess = {
+  vaultId: 'vault-123',
+  role: 'owner',
+  permissions: { allowedDocTypes: ['ID', 'ProofOfAddress', 'BoardResolution'] },
+}
+
 describe('/api/team/invites', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -68,7 +74,7 @@ describe('/api/team/invites', () => {
 
     const mockUserProfile = { id: 'profile-123', userId: 'user-123' }
     ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(mockUserProfile as any)
-    mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'owner' } as any)
+    mockedRequireVaultAccess.mockResolvedValue(ownerAccess as any)
 
     const mockInvite = {
       id: 'invite-123',
@@ -101,6 +107,88 @@ describe('/api/team/invites', () => {
     expect(mockedLogAuditEvent).toHaveBeenCalled()
   })
 
+  it('should create a co-owner invite with every doc type', async () => {
+    mockedCreateServerClient.mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: 'user-123' } },
+          error: null,
+        }),
+      },
+    } as any)
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      userId: 'user-123',
+    })
+    mockedRequireVaultAccess.mockResolvedValue(ownerAccess as any)
+    ;(mockedPrisma.teamInvite.create as any).mockResolvedValue({
+      id: 'invite-456',
+      invitedEmail: 'director@example.com',
+      role: 'owner',
+      expiresAt: new Date(),
+    })
+
+    const request = new NextRequest('http://localhost/api/team/invites', {
+      method: 'POST',
+      body: JSON.stringify({
+        vaultId: 'vault-123',
+        invitedEmail: 'director@example.com',
+        role: 'owner',
+      }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.teamInvite.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        role: 'owner',
+        permissionsJson: { allowedDocTypes: ownerAccess.permissions.allowedDocTypes },
+      }),
+    })
+  })
+
+  it("should drop doc types outside the vault's catalog", async () => {
+    mockedCreateServerClient.mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: 'user-123' } },
+          error: null,
+        }),
+      },
+    } as any)
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      userId: 'user-123',
+    })
+    mockedRequireVaultAccess.mockResolvedValue(ownerAccess as any)
+    ;(mockedPrisma.teamInvite.create as any).mockResolvedValue({
+      id: 'invite-789',
+      invitedEmail: 'delegate@example.com',
+      role: 'delegate',
+      expiresAt: new Date(),
+    })
+
+    const request = new NextRequest('http://localhost/api/team/invites', {
+      method: 'POST',
+      body: JSON.stringify({
+        vaultId: 'vault-123',
+        invitedEmail: 'delegate@example.com',
+        role: 'delegate',
+        allowedDocTypes: ['BoardResolution', 'BankReference'],
+      }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.teamInvite.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        permissionsJson: { allowedDocTypes: ['BoardResolution'] },
+      }),
+    })
+  })
+
   it('should return 401 if user is not authenticated', async () => {
     mockedCreateServerClient.mockResolvedValue({
       auth: {
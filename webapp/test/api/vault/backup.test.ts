@@ -0,0 +1,586 @@
+/**
+ * Unit tests for encrypted vault backup export and import API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET as EXPORT } from '@/app/api/vault/export/route'
+import { POST as PREPARE } from '@/app/api/vault/import/prepare/route'
+import { POST as IMPORT } from '@/app/api/vault/import/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { claimPendingUploads } from '@/lib/vault/pending-uploads'
+import {
+  generateSignedCiphertextUrl,
+  generateSignedUploadUrl,
+  getCiphertextSize,
+} from '@/lib/storage/ciphertext-store'
+import { vaultQuotas } from '@/lib/vault/storage-quotas'
+import { archivedCiphertextSize, chunkedCiphertextSize } from '@/lib/crypto/chunked-aead'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    vault: {
+      create: vi.fn(),
+    },
+    document: {
+      count: vi.fn(),
+    },
+    documentPart: {
+      count: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/vault/pending-uploads', () => ({
+  reservePendingUploads: vi.fn(),
+  claimPendingUploads: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+// Small deployment limits: files up to 2 KB, 3 KB in all, 2 versions of each type
+vi.mock('@/lib/vault/storage-quotas', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/vault/storage-quotas')>()),
+  vaultQuotas: vi.fn(() => ({ storageBytes: 3072, maxFileBytes: 2048, maxVersions: 2 })),
+}))
+
+vi.mock('@/lib/storage/ciphertext-store', async (importOriginal) => ({
+  getStoragePath: (await importOriginal<typeof import('@/lib/storage/ciphertext-store')>())
+    .getStoragePath,
+  generateSignedCiphertextUrl: vi.fn(),
+  generateSignedUploadUrl: vi.fn().mockResolvedValue('https://storage.example/upload'),
+  getCiphertextSize: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+const mockedGenerateSignedCiphertextUrl = vi.mocked(generateSignedCiphertextUrl)
+
+const vaultId = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+const backPartId = '6e7f8091-2b3c-4d4e-9f50-6b7c8d9e0f1a'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function buildRequest(url: string, body: unknown) {
+  return new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const backupVault = {
+  kdfSalt: 'c2FsdA==',
+  kdfParams: { memory: 65536, time: 3, parallelism: 4 },
+  kekVerifier: 'dmVyaWZpZXI=',
+  recoverySalt: null,
+  encryptedRecoveryKeyForOwner: null,
+  recoveryKeyNonce: null,
+  documentTypes: [{ key: 'BoardResolution', label: 'Board resolution' }],
+}
+
+const backupPart = {
+  id: docId, // A document's first part kept the document's id
+  size: 1024,
+  ciphertextChecksum: 'abc123',
+  encryptedMetadata: 'bWV0YWRhdGE=',
+}
+
+const backupDocument = {
+  id: docId,
+  docType: 'ID' as const,
+  size: 1024,
+  uploadedAt: '2026-01-15T10:00:00.000Z',
+  parts: [backupPart],
+  encryptedDekForOwner: 'd3JhcHBlZA==',
+  dekNonce: 'bm9uY2U=',
+  encryptedDekForRecovery: null,
+  dekForRecoveryNonce: null,
+  issuedOn: null,
+  expiresOn: '2034-02-28',
+  encryptedDates: null,
+}
+
+/**
+ * A backup document as sent to /api/vault/import, its single part uploaded to storagePath
+ */
+function uploadedDocument(storagePath: string, overrides: Record<string, unknown> = {}) {
+  const id = (overrides.id as string | undefined) ?? docId
+  return { ...backupDocument, ...overrides, parts: [{ ...backupPart, id, storagePath }] }
+}
+
+function importBody(overrides: Record<string, unknown> = {}) {
+  return {
+    vaultId,
+    vault: backupVault,
+    documents: [uploadedDocument(`vaults/${vaultId}/ID/upload-1.bin`)],
+    ...overrides,
+  }
+}
+
+describe('/api/vault/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return wrapped keys and ciphertext URLs and audit the export', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: {
+        id: 'vault-123',
+        ...backupVault,
+        documents: [
+          {
+            ...backupDocument,
+            uploadedAt: new Date(backupDocument.uploadedAt),
+            expiresOn: new Date('2034-02-28T00:00:00Z'),
+            parts: [{ ...backupPart, storagePath: 'vaults/vault-123/ID/doc.bin' }],
+          },
+        ],
+      },
+    })
+    mockedGenerateSignedCiphertextUrl.mockResolvedValue('https://storage.example/doc')
+
+    const response = await EXPORT()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.vault).toEqual(backupVault)
+    expect(data.documents).toEqual([backupDocument])
+    expect(data.ciphertextUrls).toEqual({ [docId]: 'https://storage.example/doc' })
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ vaultId: 'vault-123', eventType: 'vault_exported' })
+    )
+  })
+
+  it('should return 404 without a vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+    })
+
+    const response = await EXPORT()
+
+    expect(response.status).toBe(404)
+    expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+  })
+})
+
+describe('/api/vault/import/prepare', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should reserve a vault id and return upload URLs under it', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+    ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(0)
+
+    const response = await PREPARE(
+      buildRequest('http://localhost/api/vault/import/prepare', {
+        documents: [{ id: docId, docType: 'ID', parts: [{ id: docId }, { id: backPartId }] }],
+      })
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.documents).toHaveLength(1)
+    expect(data.documents[0].id).toBe(docId)
+    expect(data.documents[0].parts.map((part: { id: string }) => part.id)).toEqual([
+      docId,
+      backPartId,
+    ])
+    expect(data.documents[0].parts[1].storagePath.startsWith(`vaults/${data.vaultId}/ID/`)).toBe(
+      true
+    )
+    // No vault yet, so the default file size limit bounds the uploads, in any archived format
+    expect(vi.mocked(generateSignedUploadUrl)).toHaveBeenCalledWith(
+      data.documents[0].parts[1].storagePath,
+      archivedCiphertextSize(vaultQuotas(null).maxFileBytes)
+    )
+  })
+
+  it('should return 409 if the documents already exist on this server', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+    ;(mockedPrisma.document.count as any).mockResolvedValue(1)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(0)
+
+    const response = await PREPARE(
+      buildRequest('http://localhost/api/vault/import/prepare', {
+        documents: [{ id: docId, docType: 'ID', parts: [{ id: docId }] }],
+      })
+    )
+
+    expect(response.status).toBe(409)
+  })
+
+  it('should return 400 for a part id used twice', async () => {
+    mockAuthenticatedUser()
+
+    const response = await PREPARE(
+      buildRequest('http://localhost/api/vault/import/prepare', {
+        documents: [
+          { id: docId, docType: 'ID', parts: [{ id: backPartId }] },
+          {
+            id: '5d6e7f80-1a2b-4c3d-8e4f-5a6b7c8d9e0f',
+            docType: 'ProofOfAddress',
+            parts: [{ id: backPartId }],
+          },
+        ],
+      })
+    )
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 400 if the user already has a vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123' },
+    })
+
+    const response = await PREPARE(
+      buildRequest('http://localhost/api/vault/import/prepare', { documents: [] })
+    )
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/vault/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCiphertextSize).mockResolvedValue(chunkedCiphertextSize(1024))
+  })
+
+  // A profile with no vault and ids unused on this server
+  function mockNewVault() {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+    })
+    ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(0)
+  }
+
+  // Versions 1..count of the ID type, the last current
+  function idVersions(count: number) {
+    return Array.from({ length: count }, (_, i) =>
+      uploadedDocument(`vaults/${vaultId}/ID/upload-${i + 1}.bin`, {
+        id: i === count - 1 ? docId : crypto.randomUUID(),
+        version: i + 1,
+        current: i === count - 1,
+      })
+    )
+  }
+
+  it('should create the vault with its documents and audit the import', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+    })
+    ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(0)
+
+    const response = await IMPORT(buildRequest('http://localhost/api/vault/import', importBody()))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ id: vaultId, documentsImported: 1 })
+    expect(mockedPrisma.vault.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        id: vaultId,
+        ownerId: 'profile-123',
+        kekVerifier: 'dmVyaWZpZXI=',
+        checksumTagsComplete: false, // The backup's part has no checksum tag
+        documentTypes: { create: [{ key: 'BoardResolution', label: 'Board resolution' }] },
+        documents: {
+          create: [
+            expect.objectContaining({
+              id: docId,
+              parts: {
+                create: [
+                  expect.objectContaining({
+                    id: docId,
+                    position: 0,
+                    storagePath: `vaults/${vaultId}/ID/upload-1.bin`,
+                    ciphertextChecksum: 'abc123',
+                  }),
+                ],
+              },
+              encryptedDekForOwner: 'd3JhcHBlZA==',
+              uploadedAt: new Date(backupDocument.uploadedAt),
+              expiresOn: new Date('2034-02-28T00:00:00Z'),
+            }),
+          ],
+        },
+      }),
+    })
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ vaultId, actorId: 'profile-123', eventType: 'vault_imported' })
+    )
+  })
+
+  it('should return 400 for a ciphertext outside the reserved vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [uploadedDocument('vaults/other-vault/ID/doc.bin')],
+        })
+      )
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it("should return 400 for a document type outside the backup's catalog", async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [
+            uploadedDocument(`vaults/${vaultId}/Payslip/upload-1.bin`, { docType: 'Payslip' }),
+          ],
+        })
+      )
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should import earlier versions alongside the current one', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+    })
+    ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(0)
+    const earlierId = '5d6e7f80-1a2b-4c3d-8e4f-5a6b7c8d9e0f'
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [
+            uploadedDocument(`vaults/${vaultId}/ID/upload-1.bin`, {
+              id: earlierId,
+              version: 1,
+              current: false,
+            }),
+            uploadedDocument(`vaults/${vaultId}/ID/upload-2.bin`, { version: 2, current: true }),
+          ],
+        })
+      )
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.vault.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        documents: {
+          create: [
+            expect.objectContaining({ id: earlierId, version: 1, current: false }),
+            expect.objectContaining({ id: docId, version: 2, current: true }),
+          ],
+        },
+      }),
+    })
+  })
+
+  it('should return 400 for two current versions of one type', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [
+            uploadedDocument(`vaults/${vaultId}/ID/upload-1.bin`, {
+              id: '5d6e7f80-1a2b-4c3d-8e4f-5a6b7c8d9e0f',
+              version: 1,
+            }),
+            uploadedDocument(`vaults/${vaultId}/ID/upload-2.bin`, { version: 2 }),
+          ],
+        })
+      )
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 if a recovery kit is missing document wraps', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          vault: {
+            ...backupVault,
+            recoverySalt: 'cmVjb3Zlcnk=',
+            encryptedRecoveryKeyForOwner: 'cmVjb3Zlcnkta2V5',
+            recoveryKeyNonce: 'bm9uY2U=',
+          },
+        })
+      )
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 if the documents already exist on this server', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue(null)
+    ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+    ;(mockedPrisma.documentPart.count as any).mockResolvedValue(1)
+
+    const response = await IMPORT(buildRequest('http://localhost/api/vault/import', importBody()))
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.userProfile.create).not.toHaveBeenCalled()
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it("should return 400 for a document whose size isn't that of its parts", async () => {
+    mockNewVault()
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [uploadedDocument(`vaults/${vaultId}/ID/upload-1.bin`, { size: 1 })],
+        })
+      )
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 413 for a file over the size limit', async () => {
+    mockNewVault()
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({
+          documents: [
+            {
+              ...uploadedDocument(`vaults/${vaultId}/ID/upload-1.bin`),
+              size: 4096,
+              parts: [
+                { ...backupPart, size: 4096, storagePath: `vaults/${vaultId}/ID/upload-1.bin` },
+              ],
+            },
+          ],
+        })
+      )
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(413)
+    expect(data).toMatchObject({ code: 'file_too_large', limit: 2048, actual: 4096 })
+    expect(vi.mocked(claimPendingUploads)).not.toHaveBeenCalled()
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 413 for more versions of a type than are kept', async () => {
+    mockNewVault()
+
+    const response = await IMPORT(
+      buildRequest('http://localhost/api/vault/import', importBody({ documents: idVersions(3) }))
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(413)
+    expect(data).toMatchObject({ code: 'version_limit_reached', limit: 2, actual: 3 })
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 413 for a backup over the storage quota', async () => {
+    mockNewVault()
+    const resolution = uploadedDocument(`vaults/${vaultId}/BoardResolution/upload-3.bin`, {
+      id: crypto.randomUUID(),
+      docType: 'BoardResolution',
+      size: 2048,
+    })
+    resolution.parts[0].size = 2048
+
+    const response = await IMPORT(
+      buildRequest(
+        'http://localhost/api/vault/import',
+        importBody({ documents: [...idVersions(2), resolution] })
+      )
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(413)
+    expect(data).toMatchObject({ code: 'storage_quota_exceeded', limit: 3072, actual: 4096 })
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should return 413 for a stored ciphertext larger than its declared size', async () => {
+    mockNewVault()
+    vi.mocked(getCiphertextSize).mockResolvedValue(archivedCiphertextSize(1024) + 1)
+
+    const response = await IMPORT(buildRequest('http://localhost/api/vault/import', importBody()))
+    const data = await response.json()
+
+    expect(response.status).toBe(413)
+    expect(data.code).toBe('size_mismatch')
+    expect(vi.mocked(claimPendingUploads)).not.toHaveBeenCalled()
+    expect(mockedPrisma.vault.create).not.toHaveBeenCalled()
+  })
+
+  it('should accept a single-blob ciphertext from an older backup', async () => {
+    mockNewVault()
+    // [header][ciphertext][tag], a byte over the chunked encryption of the same file
+    vi.mocked(getCiphertextSize).mockResolvedValue(chunkedCiphertextSize(1024) + 1)
+
+    const response = await IMPORT(buildRequest('http://localhost/api/vault/import', importBody()))
+
+    expect(response.status).toBe(200)
+  })
+})
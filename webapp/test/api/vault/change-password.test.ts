@@ -0,0 +1,347 @@
+/**
+ * Unit tests for vault password change API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/vault/change-password/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  vault: {
+    updateMany: vi.fn(),
+  },
+  document: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  vaultPasskey: {
+    deleteMany: vi.fn(),
+  },
+  shareLink: {
+    updateMany: vi.fn(),
+  },
+  teamMembership: {
+    updateMany: vi.fn(),
+  },
+  documentOwnerKey: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId1 = '11111111-1111-4111-8111-111111111111'
+const docId2 = '22222222-2222-4222-8222-222222222222'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/vault/change-password', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const validBody = {
+  currentKdfSalt: 'b2xkLXNhbHQ=',
+  kdfSalt: 'bmV3LXNhbHQ=',
+  kdfParams: { algorithm: 'argon2id', version: 1, memory: 65536, time: 12, parallelism: 4 },
+  kekVerifier: 'new-kek-verifier',
+  documents: [
+    { id: docId1, encryptedDekForOwner: 'new-dek-1', dekNonce: 'nonce-1' },
+    { id: docId2, encryptedDekForOwner: 'new-dek-2', dekNonce: 'nonce-2' },
+  ],
+}
+
+describe('/api/vault/change-password', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    mockTx.vault.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.document.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.shareLink.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.teamMembership.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.documentOwnerKey.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should swap salt, params and wrapped DEKs in one transaction', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+    })
+    mockTx.document.findMany.mockResolvedValue([{ id: docId1 }, { id: docId2 }])
+
+    const response = await POST(buildRequest(validBody))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.documentsRewrapped).toBe(2)
+    expect(mockedPrisma.$transaction).toHaveBeenCalledTimes(1)
+    expect(mockTx.vault.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+      data: {
+        kdfSalt: 'bmV3LXNhbHQ=',
+        kdfParams: validBody.kdfParams,
+        kekVerifier: 'new-kek-verifier',
+      },
+    })
+    expect(mockTx.document.updateMany).toHaveBeenCalledTimes(2)
+    // Passkey KEK copies wrap the old KEK
+    expect(mockTx.vaultPasskey.deleteMany).toHaveBeenCalledWith({ where: { vaultId: 'vault-123' } })
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'vault_password_changed', actorId: 'profile-123' })
+    )
+  })
+
+  it("should re-wrap the owner's LSK copies and clear any left out", async () => {
+    const linkId = '44444444-4444-4444-8444-444444444444'
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', ownerId: 'profile-123', kdfSalt: 'b2xkLXNhbHQ=' },
+    })
+    mockTx.document.findMany.mockResolvedValue([{ id: docId1 }, { id: docId2 }])
+
+    const response = await POST(
+      buildRequest({
+        ...validBody,
+        shareLinks: [{ id: linkId, encryptedLskForOwner: 'new-lsk-wrap' }],
+      })
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockTx.shareLink.updateMany).toHaveBeenCalledWith({
+      where: { vaultId: 'vault-123', approvedById: 'profile-123', id: { notIn: [linkId] } },
+      data: { encryptedLskForOwner: null },
+    })
+    expect(mockTx.shareLink.updateMany).toHaveBeenCalledWith({
+      where: { id: linkId, vaultId: 'vault-123', approvedById: 'profile-123' },
+      data: { encryptedLskForOwner: 'new-lsk-wrap' },
+    })
+  })
+
+  it('should return 409 if the vault salt no longer matches', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'b3RoZXItc2FsdA==' },
+    })
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 if the new KDF parameters are below the current policy', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+    })
+
+    const response = await POST(
+      buildRequest({ ...validBody, kdfParams: { ...validBody.kdfParams, memory: 1024 } })
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 if not every document was re-wrapped', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+    })
+    mockTx.document.findMany.mockResolvedValue([
+      { id: docId1 },
+      { id: docId2 },
+      { id: '33333333-3333-4333-8333-333333333333' },
+    ])
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(409)
+    expect(mockTx.vault.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 and not log when the transaction loses a race', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+    })
+    mockTx.document.findMany.mockResolvedValue([{ id: docId1 }, { id: docId2 }])
+    mockTx.vault.updateMany.mockResolvedValue({ count: 0 })
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(409)
+    expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 if user has no vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: null,
+      teamMemberships: [],
+    })
+
+    const response = await POST(buildRequest(validBody))
+    expect(response.status).toBe(404)
+  })
+
+  describe('co-owner', () => {
+    const coOwnerBody = { ...validBody, encryptedPrivateKey: 'new-private-key-wrap' }
+
+    function mockCoOwner(membership: Record<string, unknown> = {}) {
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-456',
+        vault: null,
+        teamMemberships: [
+          {
+            id: 'membership-1',
+            vaultId: 'vault-123',
+            userId: 'profile-456',
+            role: 'owner',
+            kdfSalt: 'b2xkLXNhbHQ=',
+            kdfParams: { memory: 65536, time: 3, parallelism: 4 },
+            ...membership,
+          },
+        ],
+      })
+    }
+
+    it('should swap only their own keys, DEK copies and LSK copies', async () => {
+      mockAuthenticatedUser()
+      mockCoOwner()
+      mockTx.documentOwnerKey.findMany.mockResolvedValue([
+        { documentId: docId1 },
+        { documentId: docId2 },
+      ])
+
+      const response = await POST(buildRequest(coOwnerBody))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.id).toBe('vault-123')
+      expect(mockTx.teamMembership.updateMany).toHaveBeenCalledWith({
+        where: { id: 'membership-1', role: 'owner', kdfSalt: 'b2xkLXNhbHQ=' },
+        data: {
+          kdfSalt: 'bmV3LXNhbHQ=',
+          kdfParams: validBody.kdfParams,
+          kekVerifier: 'new-kek-verifier',
+          encryptedPrivateKey: 'new-private-key-wrap',
+        },
+      })
+      expect(mockTx.documentOwnerKey.updateMany).toHaveBeenCalledWith({
+        where: { documentId: docId1, membershipId: 'membership-1', dekNonce: { not: null } },
+        data: { encryptedDekForOwner: 'new-dek-1', dekNonce: 'nonce-1' },
+      })
+      expect(mockTx.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', approvedById: 'profile-456', id: { notIn: [] } },
+        data: { encryptedLskForOwner: null },
+      })
+      // The creating owner's wraps and passkeys stay as they are
+      expect(mockTx.vault.updateMany).not.toHaveBeenCalled()
+      expect(mockTx.document.updateMany).not.toHaveBeenCalled()
+      expect(mockTx.vaultPasskey.deleteMany).not.toHaveBeenCalled()
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ vaultId: 'vault-123', eventType: 'vault_password_changed' })
+      )
+    })
+
+    it('should return 400 if the private key was not re-wrapped', async () => {
+      mockAuthenticatedUser()
+      mockCoOwner()
+
+      const response = await POST(buildRequest(validBody))
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if their salt no longer matches', async () => {
+      mockAuthenticatedUser()
+      mockCoOwner({ kdfSalt: 'b3RoZXItc2FsdA==' })
+
+      const response = await POST(buildRequest(coOwnerBody))
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if not every DEK copy was re-wrapped', async () => {
+      mockAuthenticatedUser()
+      mockCoOwner()
+      mockTx.documentOwnerKey.findMany.mockResolvedValue([
+        { documentId: docId1 },
+        { documentId: docId2 },
+        { documentId: '33333333-3333-4333-8333-333333333333' },
+      ])
+
+      const response = await POST(buildRequest(coOwnerBody))
+
+      expect(response.status).toBe(409)
+      expect(mockTx.teamMembership.updateMany).not.toHaveBeenCalled()
+      expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 before they chose a vault password', async () => {
+      mockAuthenticatedUser()
+      mockCoOwner({ kdfSalt: null, kdfParams: null })
+
+      const response = await POST(buildRequest(coOwnerBody))
+      expect(response.status).toBe(404)
+    })
+  })
+
+  it('should return 401 if user is not authenticated', async () => {
+    mockedCreateServerClient.mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: null },
+          error: new Error('Not authenticated'),
+        }),
+      },
+    } as any)
+
+    const response = await POST(buildRequest(validBody))
+    expect(response.status).toBe(401)
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for co-owner key material API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/vault/co-owner/route'
+import { POST as CLAIM } from '@/app/api/vault/co-owner/claim/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    teamMembership: {
+      updateMany: vi.fn(),
+    },
+    documentOwnerKey: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-456' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockCoOwnerMembership() {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-456',
+    teamMemberships: [{ id: 'membership-1', vaultId: 'vault-123', role: 'owner' }],
+  })
+}
+
+function buildRequest(url: string, body: unknown) {
+  return new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const validKeys = {
+  kdfSalt: 'Y28tb3duZXItc2FsdA==',
+  kdfParams: { memory: 65536, time: 3, parallelism: 4 },
+  kekVerifier: 'dmVyaWZpZXI=',
+  publicKey: 'cHVibGljLWtleQ==',
+  encryptedPrivateKey: 'cHJpdmF0ZS1rZXk=',
+}
+
+describe('/api/vault/co-owner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST', () => {
+    it("should store the co-owner's key material once", async () => {
+      mockAuthenticatedUser()
+      mockCoOwnerMembership()
+      ;(mockedPrisma.teamMembership.updateMany as any).mockResolvedValue({ count: 1 })
+
+      const response = await POST(buildRequest('http://localhost/api/vault/co-owner', validKeys))
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.teamMembership.updateMany).toHaveBeenCalledWith({
+        where: { id: 'membership-1', publicKey: null },
+        data: expect.objectContaining({ publicKey: 'cHVibGljLWtleQ==' }),
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vaultId: 'vault-123',
+          actorId: 'profile-456',
+          eventType: 'co_owner_keys_created',
+        })
+      )
+    })
+
+    it('should return 409 if the co-owner already set a password', async () => {
+      mockAuthenticatedUser()
+      mockCoOwnerMembership()
+      ;(mockedPrisma.teamMembership.updateMany as any).mockResolvedValue({ count: 0 })
+
+      const response = await POST(buildRequest('http://localhost/api/vault/co-owner', validKeys))
+
+      expect(response.status).toBe(409)
+      expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 without a co-owner membership', async () => {
+      mockAuthenticatedUser()
+      ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+        id: 'profile-456',
+        teamMemberships: [],
+      })
+
+      const response = await POST(buildRequest('http://localhost/api/vault/co-owner', validKeys))
+
+      expect(response.status).toBe(404)
+      expect(mockedPrisma.teamMembership.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET', () => {
+    it('should list only DEKs still sealed to the co-owner', async () => {
+      mockAuthenticatedUser()
+      mockCoOwnerMembership()
+      ;(mockedPrisma.documentOwnerKey.findMany as any).mockResolvedValue([
+        {
+          id: 'key-1',
+          documentId: 'doc-1',
+          encryptedDekForOwner: 'c2VhbGVk',
+          document: { docType: 'ID' },
+        },
+      ])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.sealedDeks).toEqual([
+        { keyId: 'key-1', documentId: 'doc-1', docType: 'ID', sealedDek: 'c2VhbGVk' },
+      ])
+      expect(mockedPrisma.documentOwnerKey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { membershipId: 'membership-1', dekNonce: null } })
+      )
+    })
+  })
+
+  describe('POST /claim', () => {
+    it('should only replace copies that are still sealed', async () => {
+      mockAuthenticatedUser()
+      mockCoOwnerMembership()
+      ;(mockedPrisma.documentOwnerKey.updateMany as any)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      const response = await CLAIM(
+        buildRequest('http://localhost/api/vault/co-owner/claim', {
+          keys: [
+            {
+              keyId: '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b',
+              encryptedDekForOwner: 'd3JhcHBlZA==',
+              dekNonce: 'bm9uY2U=',
+            },
+            {
+              keyId: '5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9',
+              encryptedDekForOwner: 'd3JhcHBlZDI=',
+              dekNonce: 'bm9uY2Uy',
+            },
+          ],
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.keysClaimed).toBe(1)
+      expect(mockedPrisma.documentOwnerKey.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b',
+          membershipId: 'membership-1',
+          dekNonce: null,
+        },
+        data: { encryptedDekForOwner: 'd3JhcHBlZA==', dekNonce: 'bm9uY2U=' },
+      })
+    })
+  })
+})
@@ -0,0 +1,354 @@
+/**
+ * Unit tests for the document type catalog API
+ * Tests: listing the catalog, adding custom types, relabelling and removing types
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/vault/document-types/route'
+import { PATCH, DELETE } from '@/app/api/vault/document-types/[key]/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { requireVaultAccess } from '@/lib/auth/authorization'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    documentTypeDefinition: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    document: {
+      count: vi.fn(),
+    },
+    teamMembership: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    teamInvite: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    shareRequest: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/auth/authorization', () => ({
+  requireVaultAccess: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedRequireVaultAccess = vi.mocked(requireVaultAccess)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault(documentTypes: { key: string; label: string }[] = []) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', documentTypes },
+  })
+}
+
+function buildRequest(url: string, method: string, body?: unknown) {
+  return new NextRequest(url, {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+}
+
+function keyParams(key: string) {
+  return { params: Promise.resolve({ key }) }
+}
+
+describe('/api/vault/document-types', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockedPrisma))
+    ;(mockedPrisma.teamMembership.findMany as any).mockResolvedValue([])
+    ;(mockedPrisma.teamInvite.findMany as any).mockResolvedValue([])
+    ;(mockedPrisma.shareRequest.findMany as any).mockResolvedValue([])
+  })
+
+  describe('GET', () => {
+    it('should return the system types followed by custom types', async () => {
+      mockAuthenticatedUser()
+      mockedRequireVaultAccess.mockResolvedValue({ vaultId: 'vault-123', role: 'delegate' } as any)
+      ;(mockedPrisma.documentTypeDefinition.findMany as any).mockResolvedValue([
+        { key: 'ProofOfAddress', label: 'Utility bill' },
+        { key: 'BoardResolution', label: 'Board resolution' },
+      ])
+
+      const response = await GET(
+        buildRequest('http://localhost/api/vault/document-types?vaultId=vault-123', 'GET')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.documentTypes).toHaveLength(9)
+      expect(data.documentTypes[0]).toEqual({ key: 'ID', label: 'ID', system: true })
+      expect(data.documentTypes[1]).toEqual({
+        key: 'ProofOfAddress',
+        label: 'Utility bill',
+        system: true,
+      })
+      expect(data.documentTypes[8]).toEqual({
+        key: 'BoardResolution',
+        label: 'Board resolution',
+        system: false,
+      })
+    })
+
+    it('should return 403 without access to the vault', async () => {
+      mockAuthenticatedUser()
+      mockedRequireVaultAccess.mockRejectedValue(new Error('Unauthorized: No access to vault'))
+
+      const response = await GET(
+        buildRequest('http://localhost/api/vault/document-types?vaultId=vault-456', 'GET')
+      )
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('POST', () => {
+    it('should add a custom type with a key derived from its label', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.documentTypeDefinition.create as any).mockResolvedValue({
+        key: 'BoardResolution',
+        label: 'Board resolution',
+      })
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/document-types', 'POST', {
+          label: 'Board resolution',
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ key: 'BoardResolution', label: 'Board resolution', system: false })
+      expect(mockedPrisma.documentTypeDefinition.create).toHaveBeenCalledWith({
+        data: { vaultId: 'vault-123', key: 'BoardResolution', label: 'Board resolution' },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'document_type_added', docType: 'BoardResolution' })
+      )
+    })
+
+    it('should return 409 if the key is already in the catalog', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/document-types', 'POST', {
+          label: 'Bank reference',
+        })
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.documentTypeDefinition.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for a key that is not letters and digits', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/document-types', 'POST', {
+          label: 'Board resolution',
+          key: '../Board',
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('PATCH', () => {
+    it('should store a label for a system type', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+
+      const response = await PATCH(
+        buildRequest('http://localhost/api/vault/document-types/ID', 'PATCH', {
+          label: 'Passport',
+        }),
+        keyParams('ID')
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.documentTypeDefinition.upsert).toHaveBeenCalledWith({
+        where: { vaultId_key: { vaultId: 'vault-123', key: 'ID' } },
+        create: { vaultId: 'vault-123', key: 'ID', label: 'Passport' },
+        update: { label: 'Passport' },
+      })
+    })
+
+    it('should return 404 for an unknown custom type', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.documentTypeDefinition.updateMany as any).mockResolvedValue({ count: 0 })
+
+      const response = await PATCH(
+        buildRequest('http://localhost/api/vault/document-types/Payslip', 'PATCH', {
+          label: 'Payslip',
+        }),
+        keyParams('Payslip')
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('DELETE', () => {
+    it('should remove an unused custom type', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+      ;(mockedPrisma.documentTypeDefinition.deleteMany as any).mockResolvedValue({ count: 1 })
+
+      const response = await DELETE(
+        buildRequest('http://localhost/api/vault/document-types/BoardResolution', 'DELETE'),
+        keyParams('BoardResolution')
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'document_type_removed', docType: 'BoardResolution' })
+      )
+    })
+
+    it('should return 409 while a document of the type exists', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.count as any).mockResolvedValue(1)
+
+      const response = await DELETE(
+        buildRequest('http://localhost/api/vault/document-types/BoardResolution', 'DELETE'),
+        keyParams('BoardResolution')
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.documentTypeDefinition.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it("should remove the type from delegates' permissions and pending invites", async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+      ;(mockedPrisma.documentTypeDefinition.deleteMany as any).mockResolvedValue({ count: 1 })
+      ;(mockedPrisma.teamMembership.findMany as any).mockResolvedValue([
+        {
+          id: 'membership-123',
+          permissionsJson: { allowedDocTypes: ['Passport', 'BoardResolution'] },
+        },
+      ])
+      ;(mockedPrisma.teamInvite.findMany as any).mockResolvedValue([
+        { id: 'invite-123', permissionsJson: { allowedDocTypes: ['BoardResolution'] } },
+      ])
+
+      const response = await DELETE(
+        buildRequest('http://localhost/api/vault/document-types/BoardResolution', 'DELETE'),
+        keyParams('BoardResolution')
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.teamMembership.findMany).toHaveBeenCalledWith({
+        where: {
+          vaultId: 'vault-123',
+          role: 'delegate',
+          permissionsJson: { path: ['allowedDocTypes'], array_contains: ['BoardResolution'] },
+        },
+        select: { id: true, permissionsJson: true },
+      })
+      expect(mockedPrisma.teamMembership.update).toHaveBeenCalledWith({
+        where: { id: 'membership-123' },
+        data: { permissionsJson: { allowedDocTypes: ['Passport'] } },
+      })
+      expect(mockedPrisma.teamInvite.update).toHaveBeenCalledWith({
+        where: { id: 'invite-123' },
+        data: { permissionsJson: { allowedDocTypes: [] } },
+      })
+    })
+
+    it('should remove the type from pending share requests and cancel those left empty', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+      ;(mockedPrisma.documentTypeDefinition.deleteMany as any).mockResolvedValue({ count: 1 })
+      ;(mockedPrisma.shareRequest.findMany as any).mockResolvedValue([
+        { id: 'request-123', requestedDocTypes: ['Passport', 'BoardResolution'] },
+        { id: 'request-456', requestedDocTypes: ['BoardResolution'] },
+      ])
+
+      const response = await DELETE(
+        buildRequest('http://localhost/api/vault/document-types/BoardResolution', 'DELETE'),
+        keyParams('BoardResolution')
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.shareRequest.findMany).toHaveBeenCalledWith({
+        where: {
+          vaultId: 'vault-123',
+          status: 'pending',
+          requestedDocTypes: { has: 'BoardResolution' },
+        },
+        select: { id: true, requestedDocTypes: true },
+      })
+      expect(mockedPrisma.shareRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-123' },
+        data: { requestedDocTypes: ['Passport'] },
+      })
+      expect(mockedPrisma.shareRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-456' },
+        data: { status: 'cancelled' },
+      })
+    })
+
+    it('should leave references alone for an unknown custom type', async () => {
+      mockAuthenticatedUser()
+      mockVault()
+      ;(mockedPrisma.document.count as any).mockResolvedValue(0)
+      ;(mockedPrisma.documentTypeDefinition.deleteMany as any).mockResolvedValue({ count: 0 })
+
+      const response = await DELETE(
+        buildRequest('http://localhost/api/vault/document-types/BoardResolution', 'DELETE'),
+        keyParams('BoardResolution')
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockedPrisma.teamMembership.findMany).not.toHaveBeenCalled()
+      expect(mockedPrisma.shareRequest.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
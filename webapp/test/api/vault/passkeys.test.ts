@@ -0,0 +1,202 @@
+/**
+ * Unit tests for vault passkey API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/vault/passkeys/route'
+import { DELETE } from '@/app/api/vault/passkeys/[id]/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    vaultPasskey: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockOwnerVault() {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', kdfSalt: 'dmF1bHQtc2FsdA==' },
+  })
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/vault/passkeys', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const validBody = {
+  credentialId: 'Y3JlZGVudGlhbC0x',
+  label: 'Work laptop',
+  prfSalt: 'cHJmLXNhbHQ=',
+  encryptedKek: 'd3JhcHBlZC1rZWs=',
+  kdfSalt: 'dmF1bHQtc2FsdA==',
+}
+
+describe('/api/vault/passkeys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET', () => {
+    it('should only list passkeys wrapping the current KEK', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+      ;(mockedPrisma.vaultPasskey.findMany as any).mockResolvedValue([
+        { id: 'passkey-1', credentialId: 'Y3JlZGVudGlhbC0x', label: 'Work laptop' },
+      ])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.passkeys).toHaveLength(1)
+      expect(mockedPrisma.vaultPasskey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { vaultId: 'vault-123', kdfSalt: 'dmF1bHQtc2FsdA==' },
+        })
+      )
+    })
+
+    it('should return 401 if not authenticated', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({ data: { user: null }, error: null }),
+        },
+      } as any)
+
+      const response = await GET()
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('POST', () => {
+    it('should store the wrapped KEK and audit the enrolment', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+      ;(mockedPrisma.vaultPasskey.findUnique as any).mockResolvedValue(null)
+      ;(mockedPrisma.vaultPasskey.create as any).mockResolvedValue({
+        id: 'passkey-1',
+        credentialId: validBody.credentialId,
+        label: validBody.label,
+        createdAt: new Date(),
+      })
+
+      const response = await POST(buildRequest(validBody))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.id).toBe('passkey-1')
+      expect(data.encryptedKek).toBeUndefined()
+      expect(mockedPrisma.vaultPasskey.create).toHaveBeenCalledWith({
+        data: { vaultId: 'vault-123', ...validBody },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'passkey_enrolled', actorId: 'profile-123' })
+      )
+    })
+
+    it('should return 409 if the vault password changed since unlock', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+
+      const response = await POST(buildRequest({ ...validBody, kdfSalt: 'b2xkLXNhbHQ=' }))
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.vaultPasskey.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if the credential is already enrolled', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+      ;(mockedPrisma.vaultPasskey.findUnique as any).mockResolvedValue({ id: 'passkey-1' })
+
+      const response = await POST(buildRequest(validBody))
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.vaultPasskey.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for an empty label', async () => {
+      mockAuthenticatedUser()
+
+      const response = await POST(buildRequest({ ...validBody, label: '   ' }))
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('DELETE', () => {
+    const params = { params: Promise.resolve({ id: 'passkey-1' }) }
+
+    it('should remove a passkey from the owner vault', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+      ;(mockedPrisma.vaultPasskey.deleteMany as any).mockResolvedValue({ count: 1 })
+
+      const response = await DELETE(
+        new NextRequest('http://localhost/api/vault/passkeys/passkey-1', { method: 'DELETE' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.vaultPasskey.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'passkey-1', vaultId: 'vault-123' },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'passkey_removed' })
+      )
+    })
+
+    it('should return 404 for a passkey of another vault', async () => {
+      mockAuthenticatedUser()
+      mockOwnerVault()
+      ;(mockedPrisma.vaultPasskey.deleteMany as any).mockResolvedValue({ count: 0 })
+
+      const response = await DELETE(
+        new NextRequest('http://localhost/api/vault/passkeys/passkey-1', { method: 'DELETE' }),
+        params
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockedLogAuditEvent).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,272 @@
+/**
+ * Unit tests for vault recovery kit API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET, POST } from '@/app/api/vault/recovery/route'
+import { POST as RESET } from '@/app/api/vault/recovery/reset/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  vault: {
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  document: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  vaultPasskey: {
+    deleteMany: vi.fn(),
+  },
+  shareLink: {
+    updateMany: vi.fn(),
+  },
+  recoveryContact: {
+    updateMany: vi.fn(),
+  },
+  recoveryRequest: {
+    updateMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId1 = '11111111-1111-4111-8111-111111111111'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault(vault: Record<string, unknown>) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=', ...vault },
+  })
+}
+
+function buildRequest(url: string, body: unknown) {
+  return new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const kitBody = {
+  recoverySalt: 'cmVjb3Zlcnk=',
+  encryptedRecoveryKeyForOwner: 'wrapped-recovery-key',
+  recoveryKeyNonce: 'recovery-nonce',
+  documents: [{ id: docId1, encryptedDekForRecovery: 'recovery-dek-1', dekForRecoveryNonce: 'nonce-1' }],
+}
+
+const resetBody = {
+  recoverySalt: 'cmVjb3Zlcnk=',
+  kdfSalt: 'bmV3LXNhbHQ=',
+  kdfParams: { algorithm: 'argon2id', version: 1, memory: 65536, time: 12, parallelism: 4 },
+  kekVerifier: 'new-kek-verifier',
+  encryptedRecoveryKeyForOwner: 'rewrapped-recovery-key',
+  recoveryKeyNonce: 'new-recovery-nonce',
+  documents: [{ id: docId1, encryptedDekForOwner: 'new-dek-1', dekNonce: 'nonce-1' }],
+}
+
+describe('/api/vault/recovery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    mockTx.vault.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.document.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.shareLink.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  describe('GET', () => {
+    it('should report recovery disabled when no kit exists', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: null })
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ recoveryEnabled: false })
+      expect(mockedPrisma.document.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should return recovery-wrapped DEKs when a kit exists', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: 'cmVjb3Zlcnk=' })
+      ;(mockedPrisma.document.findMany as any).mockResolvedValue(kitBody.documents)
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(data.recoveryEnabled).toBe(true)
+      expect(data.recoverySalt).toBe('cmVjb3Zlcnk=')
+      expect(data.documents).toEqual(kitBody.documents)
+    })
+  })
+
+  describe('POST', () => {
+    it('should store the kit and every recovery wrap in one transaction', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: null })
+      mockTx.document.findMany.mockResolvedValue([{ id: docId1 }])
+
+      const response = await POST(buildRequest('http://localhost/api/vault/recovery', kitBody))
+
+      expect(response.status).toBe(200)
+      expect(mockTx.vault.update).toHaveBeenCalledWith({
+        where: { id: 'vault-123' },
+        data: expect.objectContaining({
+          recoverySalt: kitBody.recoverySalt,
+          encryptedRecoveryKeyForOwner: kitBody.encryptedRecoveryKeyForOwner,
+        }),
+      })
+      expect(mockTx.document.updateMany).toHaveBeenCalledWith({
+        where: { id: docId1, vaultId: 'vault-123' },
+        data: { encryptedDekForRecovery: 'recovery-dek-1', dekForRecoveryNonce: 'nonce-1' },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'recovery_kit_created' })
+      )
+    })
+
+    it("should drop the contacts' shares of the replaced recovery key", async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: 'b2xkLWtpdA==', socialRecoveryThreshold: 2 })
+      mockTx.document.findMany.mockResolvedValue([{ id: docId1 }])
+
+      const response = await POST(buildRequest('http://localhost/api/vault/recovery', kitBody))
+
+      expect(response.status).toBe(200)
+      expect(mockTx.vault.update).toHaveBeenCalledWith({
+        where: { id: 'vault-123' },
+        data: expect.objectContaining({
+          socialRecoveryThreshold: null,
+          socialRecoveryVerifier: null,
+        }),
+      })
+      expect(mockTx.recoveryContact.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123' },
+        data: { sealedShare: null },
+      })
+      expect(mockTx.recoveryRequest.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', completedAt: null, cancelledAt: null },
+        data: { cancelledAt: expect.any(Date) },
+      })
+    })
+
+    it('should return 409 if a document is missing its recovery wrap', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: null })
+      mockTx.document.findMany.mockResolvedValue([
+        { id: docId1 },
+        { id: '22222222-2222-4222-8222-222222222222' },
+      ])
+
+      const response = await POST(buildRequest('http://localhost/api/vault/recovery', kitBody))
+
+      expect(response.status).toBe(409)
+      expect(mockTx.vault.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /reset', () => {
+    it('should swap password params and owner wraps guarded on the recovery salt', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: 'cmVjb3Zlcnk=' })
+      mockTx.document.findMany.mockResolvedValue([{ id: docId1 }])
+
+      const response = await RESET(buildRequest('http://localhost/api/vault/recovery/reset', resetBody))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.id).toBe('vault-123')
+      expect(mockTx.vault.updateMany).toHaveBeenCalledWith({
+        where: { id: 'vault-123', recoverySalt: 'cmVjb3Zlcnk=' },
+        data: {
+          kdfSalt: resetBody.kdfSalt,
+          kdfParams: resetBody.kdfParams,
+          kekVerifier: resetBody.kekVerifier,
+          encryptedRecoveryKeyForOwner: resetBody.encryptedRecoveryKeyForOwner,
+          recoveryKeyNonce: resetBody.recoveryKeyNonce,
+        },
+      })
+      // The owner's LSK copies were under the lost KEK
+      expect(mockTx.shareLink.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', approvedById: 'profile-123' },
+        data: { encryptedLskForOwner: null },
+      })
+      expect(mockTx.recoveryRequest.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', completedAt: null, cancelledAt: null },
+        data: { completedAt: expect.any(Date) },
+      })
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'vault_recovered' })
+      )
+    })
+
+    it('should return 400 if the vault has no recovery kit', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: null })
+
+      const response = await RESET(buildRequest('http://localhost/api/vault/recovery/reset', resetBody))
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 409 if the recovery kit was replaced', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: 'bmV3ZXIta2l0' })
+
+      const response = await RESET(buildRequest('http://localhost/api/vault/recovery/reset', resetBody))
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 if user is not authenticated', async () => {
+      mockedCreateServerClient.mockResolvedValue({
+        auth: {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: null },
+            error: new Error('Not authenticated'),
+          }),
+        },
+      } as any)
+
+      const response = await RESET(buildRequest('http://localhost/api/vault/recovery/reset', resetBody))
+      expect(response.status).toBe(401)
+    })
+  })
+})
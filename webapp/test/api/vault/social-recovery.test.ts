@@ -0,0 +1,262 @@
+/**
+ * Unit tests for social recovery API
+ * Tests: storing a K-of-N split, opening a recovery request, returning approvals
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/vault/social-recovery/route'
+import {
+  GET as GET_REQUEST,
+  POST as CREATE_REQUEST,
+} from '@/app/api/vault/social-recovery/requests/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+import { sendRecoveryRequestEmail } from '@/lib/email/mailtrap'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  vault: {
+    updateMany: vi.fn(),
+  },
+  recoveryContact: {
+    updateMany: vi.fn(),
+  },
+  recoveryRequest: {
+    updateMany: vi.fn(),
+    create: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    recoveryContact: {
+      findMany: vi.fn(),
+    },
+    recoveryRequest: {
+      findFirst: vi.fn(),
+    },
+    recoveryApproval: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/email/mailtrap', () => ({
+  sendRecoveryRequestEmail: vi.fn(),
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+const mockedSendRecoveryRequestEmail = vi.mocked(sendRecoveryRequestEmail)
+
+const contactId1 = '11111111-1111-4111-8111-111111111111'
+const contactId2 = '22222222-2222-4222-8222-222222222222'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123', email: 'owner@example.com' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault(vault: Record<string, unknown>) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: { id: 'vault-123', recoverySalt: 'cmVjb3Zlcnk=', ...vault },
+  })
+}
+
+function buildRequest(url: string, body: unknown) {
+  return new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const splitBody = {
+  recoverySalt: 'cmVjb3Zlcnk=',
+  threshold: 2,
+  verifier: 'recovery-key-verifier',
+  shares: [
+    { contactId: contactId1, publicKey: 'a2V5LTE=', sealedShare: 'c2hhcmUtMQ==' },
+    { contactId: contactId2, publicKey: 'a2V5LTI=', sealedShare: 'c2hhcmUtMg==' },
+  ],
+}
+
+describe('/api/vault/social-recovery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    mockTx.vault.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.recoveryContact.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  describe('POST', () => {
+    it('should replace the split guarded on the recovery salt and contact keys', async () => {
+      mockAuthenticatedUser()
+      mockVault({})
+      ;(mockedPrisma.recoveryContact.findMany as any).mockResolvedValue([
+        { id: contactId1, publicKey: 'a2V5LTE=' },
+        { id: contactId2, publicKey: 'a2V5LTI=' },
+      ])
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/social-recovery', splitBody)
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockTx.vault.updateMany).toHaveBeenCalledWith({
+        where: { id: 'vault-123', recoverySalt: 'cmVjb3Zlcnk=' },
+        data: { socialRecoveryThreshold: 2, socialRecoveryVerifier: 'recovery-key-verifier' },
+      })
+      // Earlier shares are dropped before the new ones are stored
+      expect(mockTx.recoveryContact.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { vaultId: 'vault-123' },
+        data: { sealedShare: null },
+      })
+      expect(mockTx.recoveryContact.updateMany).toHaveBeenCalledWith({
+        where: { id: contactId2, vaultId: 'vault-123', publicKey: 'a2V5LTI=' },
+        data: { sealedShare: 'c2hhcmUtMg==' },
+      })
+      expect(mockTx.recoveryRequest.updateMany).toHaveBeenCalled()
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'social_recovery_configured' })
+      )
+    })
+
+    it('should return 409 if a contact registered a different key', async () => {
+      mockAuthenticatedUser()
+      mockVault({})
+      ;(mockedPrisma.recoveryContact.findMany as any).mockResolvedValue([
+        { id: contactId1, publicKey: 'a2V5LTE=' },
+        { id: contactId2, publicKey: 'bmV3LWtleQ==' },
+      ])
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/social-recovery', splitBody)
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if the recovery kit was replaced', async () => {
+      mockAuthenticatedUser()
+      mockVault({ recoverySalt: 'bmV3ZXIta2l0' })
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/social-recovery', splitBody)
+      )
+
+      expect(response.status).toBe(409)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 if the threshold exceeds the number of shares', async () => {
+      mockAuthenticatedUser()
+      mockVault({})
+
+      const response = await POST(
+        buildRequest('http://localhost/api/vault/social-recovery', { ...splitBody, threshold: 3 })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requests', () => {
+    it('should open a request and email every contact holding a share', async () => {
+      mockAuthenticatedUser()
+      mockVault({ socialRecoveryThreshold: 2 })
+      ;(mockedPrisma.recoveryContact.findMany as any).mockResolvedValue([
+        { email: 'lawyer@example.com' },
+        { email: 'cofounder@example.com' },
+      ])
+      mockTx.recoveryRequest.create.mockResolvedValue({
+        id: 'request-123',
+        expiresAt: new Date('2027-01-08'),
+      })
+
+      const response = await CREATE_REQUEST(
+        buildRequest('http://localhost/api/vault/social-recovery/requests', {
+          publicKey: 'cmVxdWVzdC1rZXk=',
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockedPrisma.recoveryContact.findMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', sealedShare: { not: null } },
+        select: { email: true },
+      })
+      // Any request still open is cancelled first
+      expect(mockTx.recoveryRequest.updateMany).toHaveBeenCalledWith({
+        where: { vaultId: 'vault-123', completedAt: null, cancelledAt: null },
+        data: { cancelledAt: expect.any(Date) },
+      })
+      expect(mockTx.recoveryRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ vaultId: 'vault-123', publicKey: 'cmVxdWVzdC1rZXk=' }),
+      })
+      expect(mockedSendRecoveryRequestEmail).toHaveBeenCalledTimes(2)
+      expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'social_recovery_requested' })
+      )
+    })
+
+    it('should return 400 if too few contacts hold a share', async () => {
+      mockAuthenticatedUser()
+      mockVault({ socialRecoveryThreshold: 2 })
+      ;(mockedPrisma.recoveryContact.findMany as any).mockResolvedValue([
+        { email: 'lawyer@example.com' },
+      ])
+
+      const response = await CREATE_REQUEST(
+        buildRequest('http://localhost/api/vault/social-recovery/requests', {
+          publicKey: 'cmVxdWVzdC1rZXk=',
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should return the open request with its approvals', async () => {
+      mockAuthenticatedUser()
+      mockVault({ socialRecoveryThreshold: 2, socialRecoveryVerifier: 'recovery-key-verifier' })
+      ;(mockedPrisma.recoveryRequest.findFirst as any).mockResolvedValue({
+        id: 'request-123',
+        publicKey: 'cmVxdWVzdC1rZXk=',
+        expiresAt: new Date('2027-01-08'),
+      })
+      ;(mockedPrisma.recoveryApproval.findMany as any).mockResolvedValue([
+        { contactId: contactId1, resealedShare: 'cmVzZWFsZWQ=', createdAt: new Date() },
+      ])
+
+      const response = await GET_REQUEST()
+      const data = await response.json()
+
+      expect(data.threshold).toBe(2)
+      expect(data.verifier).toBe('recovery-key-verifier')
+      expect(data.request.id).toBe('request-123')
+      expect(data.request.approvals).toHaveLength(1)
+    })
+  })
+})
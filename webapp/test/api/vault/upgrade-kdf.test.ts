@@ -0,0 +1,248 @@
+/**
+ * Unit tests for vault KDF upgrade API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/vault/upgrade-kdf/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+import { logAuditEvent } from '@/lib/audit/audit-log'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+const mockTx = {
+  vault: {
+    updateMany: vi.fn(),
+  },
+  document: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  vaultPasskey: {
+    deleteMany: vi.fn(),
+  },
+  shareLink: {
+    updateMany: vi.fn(),
+  },
+  teamMembership: {
+    updateMany: vi.fn(),
+  },
+  documentOwnerKey: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/audit/audit-log', () => ({
+  logAuditEvent: vi.fn(),
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+const mockedLogAuditEvent = vi.mocked(logAuditEvent)
+
+const docId1 = '11111111-1111-4111-8111-111111111111'
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function mockVault(vault: Record<string, unknown>) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-123',
+    vault: {
+      id: 'vault-123',
+      kdfSalt: 'b2xkLXNhbHQ=',
+      kdfParams: { memory: 65536, time: 3, parallelism: 4 },
+      recoverySalt: null,
+      ...vault,
+    },
+  })
+}
+
+function mockCoOwner(membership: Record<string, unknown>) {
+  ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+    id: 'profile-456',
+    vault: null,
+    teamMemberships: [
+      {
+        id: 'membership-1',
+        vaultId: 'vault-123',
+        userId: 'profile-456',
+        role: 'owner',
+        kdfSalt: 'b2xkLXNhbHQ=',
+        kdfParams: { memory: 65536, time: 3, parallelism: 4 },
+        ...membership,
+      },
+    ],
+  })
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/vault/upgrade-kdf', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const validBody = {
+  currentKdfSalt: 'b2xkLXNhbHQ=',
+  kdfSalt: 'bmV3LXNhbHQ=',
+  kdfParams: { algorithm: 'argon2id', version: 1, memory: 65536, time: 12, parallelism: 4 },
+  kekVerifier: 'new-kek-verifier',
+  documents: [{ id: docId1, encryptedDekForOwner: 'new-dek-1', dekNonce: 'nonce-1' }],
+}
+
+describe('/api/vault/upgrade-kdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockedPrisma.$transaction as any).mockImplementation(async (fn: any) => fn(mockTx))
+    mockTx.vault.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.document.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.shareLink.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.teamMembership.updateMany.mockResolvedValue({ count: 1 })
+    mockTx.documentOwnerKey.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should store the stronger descriptor and re-wrapped DEKs', async () => {
+    mockAuthenticatedUser()
+    mockVault({})
+    mockTx.document.findMany.mockResolvedValue([{ id: docId1 }])
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(200)
+    expect(mockTx.vault.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vault-123', kdfSalt: 'b2xkLXNhbHQ=' },
+      data: {
+        kdfSalt: 'bmV3LXNhbHQ=',
+        kdfParams: validBody.kdfParams,
+        kekVerifier: 'new-kek-verifier',
+      },
+    })
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'vault_kdf_upgraded' })
+    )
+  })
+
+  it('should fill in the descriptor for bare Argon2id params', async () => {
+    mockAuthenticatedUser()
+    mockVault({})
+    mockTx.document.findMany.mockResolvedValue([{ id: docId1 }])
+
+    const response = await POST(
+      buildRequest({ ...validBody, kdfParams: { memory: 65536, time: 12, parallelism: 4 } })
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.kdfParams).toEqual(validBody.kdfParams)
+  })
+
+  it('should return 400 when the policy version would go down', async () => {
+    mockAuthenticatedUser()
+    mockVault({ kdfParams: { algorithm: 'argon2id', version: 2, memory: 65536, time: 12, parallelism: 4 } })
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 when a cost is below the current policy', async () => {
+    mockAuthenticatedUser()
+    mockVault({})
+
+    const response = await POST(
+      buildRequest({ ...validBody, kdfParams: { ...validBody.kdfParams, time: 3 } })
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it("should return 400 when a cost is below the vault's stored one", async () => {
+    mockAuthenticatedUser()
+    mockVault({
+      kdfParams: { algorithm: 'argon2id', version: 1, memory: 131072, time: 12, parallelism: 8 },
+    })
+
+    const response = await POST(
+      buildRequest({ ...validBody, kdfParams: { ...validBody.kdfParams, memory: 131072 } })
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 409 if the vault salt no longer matches', async () => {
+    mockAuthenticatedUser()
+    mockVault({ kdfSalt: 'b3RoZXItc2FsdA==' })
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(409)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 if a recovery kit exists but its key was not re-wrapped', async () => {
+    mockAuthenticatedUser()
+    mockVault({ recoverySalt: 'cmVjb3Zlcnk=' })
+
+    const response = await POST(buildRequest(validBody))
+    expect(response.status).toBe(400)
+  })
+
+  it("should upgrade a co-owner's own key material", async () => {
+    mockAuthenticatedUser()
+    mockCoOwner({})
+    mockTx.documentOwnerKey.findMany.mockResolvedValue([{ documentId: docId1 }])
+
+    const response = await POST(
+      buildRequest({ ...validBody, encryptedPrivateKey: 'new-private-key-wrap' })
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockTx.teamMembership.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'membership-1', role: 'owner', kdfSalt: 'b2xkLXNhbHQ=' },
+      })
+    )
+    expect(mockTx.documentOwnerKey.updateMany).toHaveBeenCalledTimes(1)
+    expect(mockTx.vault.updateMany).not.toHaveBeenCalled()
+    expect(mockedLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ vaultId: 'vault-123', eventType: 'vault_kdf_upgraded' })
+    )
+  })
+
+  it("should return 400 when a cost is below the co-owner's stored one", async () => {
+    mockAuthenticatedUser()
+    mockCoOwner({ kdfParams: { ...validBody.kdfParams, time: 16 } })
+
+    const response = await POST(
+      buildRequest({ ...validBody, encryptedPrivateKey: 'new-private-key-wrap' })
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the vault usage API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { GET } from '@/app/api/vault/usage/route'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    document: {
+      aggregate: vi.fn(),
+    },
+  },
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+describe('/api/vault/usage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("should return the bytes stored and the vault's own limits", async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: {
+        id: 'vault-123',
+        storageQuotaBytes: BigInt(5 * 1024 * 1024 * 1024),
+        maxFileBytes: 100 * 1024 * 1024,
+        maxDocumentVersions: null,
+      },
+    })
+    ;(mockedPrisma.document.aggregate as any).mockResolvedValue({ _sum: { size: 123456 } })
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({
+      usedBytes: 123456,
+      quotas: {
+        storageBytes: 5 * 1024 * 1024 * 1024,
+        maxFileBytes: 100 * 1024 * 1024,
+        maxVersions: 20,
+      },
+    })
+    expect(mockedPrisma.document.aggregate).toHaveBeenCalledWith({
+      where: { vaultId: 'vault-123' },
+      _sum: { size: true },
+    })
+  })
+
+  it('should report no usage for an empty vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: {
+        id: 'vault-123',
+        storageQuotaBytes: null,
+        maxFileBytes: null,
+        maxDocumentVersions: null,
+      },
+    })
+    ;(mockedPrisma.document.aggregate as any).mockResolvedValue({ _sum: { size: null } })
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(data.usedBytes).toBe(0)
+    expect(data.quotas.storageBytes).toBe(1024 * 1024 * 1024)
+  })
+
+  it('should return 404 without a vault', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({ id: 'profile-123' })
+
+    const response = await GET()
+
+    expect(response.status).toBe(404)
+  })
+})
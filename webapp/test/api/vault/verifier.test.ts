@@ -0,0 +1,103 @@
+/**
+ * Unit tests for vault key-check value API
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { POST } from '@/app/api/vault/verifier/route'
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { createServerClient } from '@/lib/supabase/server'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userProfile: {
+      findUnique: vi.fn(),
+    },
+    vault: {
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+const mockedCreateServerClient = vi.mocked(createServerClient)
+const mockedPrisma = vi.mocked(prisma)
+
+function mockAuthenticatedUser() {
+  mockedCreateServerClient.mockResolvedValue({
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      }),
+    },
+  } as any)
+}
+
+function buildRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/vault/verifier', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+const validBody = { kdfSalt: 'c2FsdA==', kekVerifier: 'kek-verifier' }
+
+describe('/api/vault/verifier', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should set the verifier only on a legacy vault with a matching salt', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'c2FsdA==', kekVerifier: null },
+    })
+    ;(mockedPrisma.vault.updateMany as any).mockResolvedValue({ count: 1 })
+
+    const response = await POST(buildRequest(validBody))
+
+    expect(response.status).toBe(200)
+    expect(mockedPrisma.vault.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vault-123', kdfSalt: 'c2FsdA==', kekVerifier: null },
+      data: { kekVerifier: 'kek-verifier' },
+    })
+  })
+
+  it('should return 409 if the vault already has a verifier', async () => {
+    mockAuthenticatedUser()
+    ;(mockedPrisma.userProfile.findUnique as any).mockResolvedValue({
+      id: 'profile-123',
+      vault: { id: 'vault-123', kdfSalt: 'c2FsdA==', kekVerifier: 'existing' },
+    })
+    ;(mockedPrisma.vault.updateMany as any).mockResolvedValue({ count: 0 })
+
+    const response = await POST(buildRequest(validBody))
+    expect(response.status).toBe(409)
+  })
+
+  it('should return 400 for an invalid body', async () => {
+    mockAuthenticatedUser()
+
+    const response = await POST(buildRequest({ kdfSalt: 'c2FsdA==' }))
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 401 if user is not authenticated', async () => {
+    mockedCreateServerClient.mockResolvedValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: null },
+          error: new Error('Not authenticated'),
+        }),
+      },
+    } as any)
+
+    const response = await POST(buildRequest(validBody))
+    expect(response.status).toBe(401)
+  })
+})
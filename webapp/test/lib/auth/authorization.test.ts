@@ -26,6 +26,7 @@ describe('Authorization Helpers', () => {
         userId: 'user-123',
         vault: {
           id: 'vault-123',
+          documentTypes: [],
         },
         teamMemberships: [],
       }
@@ -39,11 +40,43 @@ describe('Authorization Helpers', () => {
         vaultId: 'vault-123',
         role: 'owner',
         permissions: {
-          allowedDocTypes: ['ID', 'ProofOfAddress', 'SourceOfWealth'],
+          allowedDocTypes: [
+            'ID',
+            'ProofOfAddress',
+            'SourceOfWealth',
+            'CertificateOfIncorporation',
+            'ShareholderRegister',
+            'UboDeclaration',
+            'TaxResidencySelfCertification',
+            'BankReference',
+          ],
         },
       })
     })
 
+    it('should include custom document types for the owner', async () => {
+      const mockUserProfile = {
+        id: 'profile-123',
+        userId: 'user-123',
+        vault: {
+          id: 'vault-123',
+          documentTypes: [
+            { key: 'ID', label: 'Passport' },
+            { key: 'BoardResolution', label: 'Board resolution' },
+          ],
+        },
+        teamMemberships: [],
+      }
+
+      ;(prisma.userProfile.findUnique as any).mockResolvedValue(mockUserProfile)
+
+      const access = await getUserVaultAccess('user-123')
+
+      // A relabelled system type is listed once
+      expect(access[0].permissions.allowedDocTypes).toHaveLength(9)
+      expect(access[0].permissions.allowedDocTypes.at(-1)).toBe('BoardResolution')
+    })
+
     it('should return delegate access from team membership', async () => {
       const mockUserProfile = {
         id: 'profile-123',
@@ -72,6 +105,37 @@ describe('Authorization Helpers', () => {
       })
     })
 
+    it('should return owner access with every doc type for a co-owner membership', async () => {
+      const mockUserProfile = {
+        id: 'profile-123',
+        userId: 'user-123',
+        vault: null,
+        teamMemberships: [
+          {
+            id: 'membership-789',
+            vaultId: 'vault-456',
+            role: 'owner',
+            permissionsJson: {},
+            vault: { documentTypes: [] },
+          },
+        ],
+      }
+
+      ;(prisma.userProfile.findUnique as any).mockResolvedValue(mockUserProfile)
+
+      const access = await getUserVaultAccess('user-123')
+
+      expect(access).toHaveLength(1)
+      expect(access[0]).toMatchObject({
+        vaultId: 'vault-456',
+        role: 'owner',
+        permissions: {
+          allowedDocTypes: expect.arrayContaining(['ID', 'BankReference']),
+        },
+        membershipId: 'membership-789',
+      })
+    })
+
     it('should return empty array if user profile not found', async () => {
       ;(prisma.userProfile.findUnique as any).mockResolvedValue(null)
 
@@ -88,6 +152,7 @@ describe('Authorization Helpers', () => {
         userId: 'user-123',
         vault: {
           id: 'vault-123',
+          documentTypes: [],
         },
         teamMemberships: [],
       }
@@ -142,6 +207,7 @@ describe('Authorization Helpers', () => {
         userId: 'user-123',
         vault: {
           id: 'vault-123',
+          documentTypes: [],
         },
         teamMemberships: [],
       }
@@ -182,6 +248,7 @@ describe('Authorization Helpers', () => {
         userId: 'user-123',
         vault: {
           id: 'vault-123',
+          documentTypes: [],
         },
         teamMemberships: [],
       }
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the encrypted vault backup archive format
+ * Tests: build/read round trip, magic and version checks, truncation, checksum verification,
+ * reading format version 1 archives
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildBackupArchive,
+  readBackupArchive,
+  verifyBackupCiphertexts,
+  checksumBlob,
+  InvalidBackupArchiveError,
+  type BackupManifest,
+} from '@/lib/crypto/backup-archive'
+import { computeChecksum } from '@/lib/crypto/vault-crypto'
+
+// The front and back of an ID, then a one-page proof of address
+const ciphertextBytes = [
+  new Uint8Array([1, 2, 3, 4, 5]),
+  new Uint8Array([9, 10]),
+  new Uint8Array([6, 7, 8]),
+]
+
+const backupVault: BackupManifest['vault'] = {
+  kdfSalt: 'c2FsdA==',
+  kdfParams: { algorithm: 'argon2id', version: 1, memory: 65536, time: 3, parallelism: 4 },
+  kekVerifier: 'dmVyaWZpZXI=',
+  recoverySalt: null,
+  encryptedRecoveryKeyForOwner: null,
+  recoveryKeyNonce: null,
+  documentTypes: [],
+}
+
+async function archivedPart(bytes: Uint8Array) {
+  return {
+    id: crypto.randomUUID(),
+    size: 1024,
+    ciphertextChecksum: await computeChecksum(bytes),
+    encryptedMetadata: null,
+    ciphertextLength: bytes.length,
+  }
+}
+
+async function buildManifest(): Promise<BackupManifest> {
+  const documentParts = [ciphertextBytes.slice(0, 2), ciphertextBytes.slice(2)]
+  const docTypes = ['ID', 'ProofOfAddress'] as const
+  return {
+    version: 2,
+    exportedAt: '2026-01-15T10:00:00.000Z',
+    vault: backupVault,
+    documents: await Promise.all(
+      documentParts.map(async (parts, i) => ({
+        id: crypto.randomUUID(),
+        docType: docTypes[i],
+        version: 1,
+        current: true,
+        size: 1024 * parts.length,
+        uploadedAt: '2026-01-15T10:00:00.000Z',
+        parts: await Promise.all(parts.map(archivedPart)),
+        encryptedDekForOwner: 'd3JhcHBlZA==',
+        dekNonce: 'bm9uY2U=',
+        encryptedDekForRecovery: null,
+        dekForRecoveryNonce: null,
+        issuedOn: '2026-01-02',
+        expiresOn: null,
+        encryptedDates: null,
+      }))
+    ),
+  }
+}
+
+function ciphertextBlobs(): Blob[] {
+  return ciphertextBytes.map((bytes) => new Blob([bytes]))
+}
+
+describe('backup-archive', () => {
+  it('should read back the manifest and ciphertexts it was built from', async () => {
+    const manifest = await buildManifest()
+    const archive = buildBackupArchive(manifest, ciphertextBlobs())
+
+    const read = await readBackupArchive(archive)
+
+    expect(read.manifest).toEqual(manifest)
+    expect(read.ciphertexts).toHaveLength(3)
+    expect(new Uint8Array(await read.ciphertexts[1].arrayBuffer())).toEqual(ciphertextBytes[1])
+    await expect(verifyBackupCiphertexts(read.manifest, read.ciphertexts)).resolves.toBeUndefined()
+  })
+
+  it('should match the checksum computed on upload', async () => {
+    expect(await checksumBlob(new Blob([ciphertextBytes[0]]))).toBe(
+      await computeChecksum(ciphertextBytes[0])
+    )
+  })
+
+  it('should refuse ciphertexts that do not match the manifest', async () => {
+    const manifest = await buildManifest()
+
+    expect(() => buildBackupArchive(manifest, ciphertextBlobs().slice(0, 2))).toThrow()
+  })
+
+  it('should read a format version 1 backup as documents of one part', async () => {
+    const bytes = ciphertextBytes[2]
+    const docId = crypto.randomUUID()
+    const manifestBytes = new TextEncoder().encode(
+      JSON.stringify({
+        version: 1,
+        exportedAt: '2026-01-15T10:00:00.000Z',
+        vault: backupVault,
+        documents: [
+          {
+            id: docId,
+            docType: 'ProofOfAddress',
+            size: 1024,
+            uploadedAt: '2026-01-15T10:00:00.000Z',
+            ciphertextChecksum: await computeChecksum(bytes),
+            encryptedMetadata: 'bWV0YWRhdGE=',
+            encryptedDekForOwner: 'd3JhcHBlZA==',
+            dekNonce: 'bm9uY2U=',
+            encryptedDekForRecovery: null,
+            dekForRecoveryNonce: null,
+            ciphertextLength: bytes.length,
+          },
+        ],
+      })
+    )
+    const header = new Uint8Array(9)
+    header.set(new TextEncoder().encode('UBGB'))
+    header[4] = 1
+    new DataView(header.buffer).setUint32(5, manifestBytes.length)
+
+    const { manifest, ciphertexts } = await readBackupArchive(
+      new Blob([header, manifestBytes, bytes])
+    )
+
+    expect(manifest.version).toBe(2)
+    expect(manifest.documents[0].parts).toEqual([
+      {
+        id: docId,
+        size: 1024,
+        ciphertextChecksum: await computeChecksum(bytes),
+        encryptedMetadata: 'bWV0YWRhdGE=',
+        ciphertextLength: bytes.length,
+      },
+    ])
+    await expect(verifyBackupCiphertexts(manifest, ciphertexts)).resolves.toBeUndefined()
+  })
+
+  it('should reject a file that is not a backup', async () => {
+    await expect(readBackupArchive(new Blob(['not a backup at all']))).rejects.toThrow(
+      InvalidBackupArchiveError
+    )
+    await expect(readBackupArchive(new Blob([]))).rejects.toThrow(InvalidBackupArchiveError)
+  })
+
+  it('should reject a backup from a newer format version', async () => {
+    const archive = buildBackupArchive(await buildManifest(), ciphertextBlobs())
+    const bytes = new Uint8Array(await archive.arrayBuffer())
+    bytes[4] = 3
+
+    await expect(readBackupArchive(new Blob([bytes]))).rejects.toThrow(/newer version/)
+  })
+
+  it('should reject a truncated backup', async () => {
+    const archive = buildBackupArchive(await buildManifest(), ciphertextBlobs())
+
+    await expect(readBackupArchive(archive.slice(0, archive.size - 1))).rejects.toThrow(
+      /truncated/
+    )
+  })
+
+  it('should detect a damaged ciphertext', async () => {
+    const archive = buildBackupArchive(await buildManifest(), ciphertextBlobs())
+    const bytes = new Uint8Array(await archive.arrayBuffer())
+    bytes[bytes.length - 1] ^= 0xff
+
+    const { manifest, ciphertexts } = await readBackupArchive(new Blob([bytes]))
+
+    await expect(verifyBackupCiphertexts(manifest, ciphertexts)).rejects.toThrow(
+      'The ProofOfAddress document in this backup is damaged'
+    )
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the chunked streaming AEAD format
+ * Tests: multi-segment round trip, truncation/reordering/tampering detection, document binding,
+ * legacy header support, format sniffing
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  encryptBlobChunked,
+  decryptStreamChunked,
+  isChunkedCiphertext,
+  sniffCiphertextStream,
+  readStreamToBytes,
+  chunkedCiphertextSize,
+  CHUNKED_HEADER_LENGTH,
+} from '@/lib/crypto/chunked-aead'
+import { documentContext } from '@/lib/crypto/envelope'
+import { generateDek, computeChecksum } from '@/lib/crypto/vault-crypto'
+
+// Small segments so a few hundred bytes span several of them
+const SEGMENT_SIZE = 64
+const ENCRYPTED_SEGMENT_SIZE = SEGMENT_SIZE + 16
+const context = documentContext({ docId: 'doc-1', docType: 'ID' })
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * Stream bytes in uneven pieces, like a network response body
+ */
+function streamOf(bytes: Uint8Array, pieceSize = 37): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+        return
+      }
+      controller.enqueue(bytes.slice(offset, offset + pieceSize))
+      offset += pieceSize
+    },
+  })
+}
+
+async function encryptToBytes(plaintext: Uint8Array, dek: Uint8Array) {
+  const { ciphertext, ciphertextChecksum } = await encryptBlobChunked(
+    new Blob([new Uint8Array(plaintext)]),
+    dek,
+    context,
+    {},
+    SEGMENT_SIZE,
+  )
+  return {
+    bytes: new Uint8Array(await ciphertext.arrayBuffer()),
+    ciphertextChecksum,
+  }
+}
+
+async function decryptToBytes(
+  ciphertext: Uint8Array,
+  dek: Uint8Array,
+  aad: Uint8Array = context,
+): Promise<Uint8Array> {
+  const plaintext = await decryptStreamChunked(streamOf(ciphertext), dek, aad)
+  return new Uint8Array(await plaintext.arrayBuffer())
+}
+
+describe('chunked-aead', () => {
+  it('should round-trip a document spanning several segments', async () => {
+    const dek = generateDek()
+    const plaintext = randomBytes(SEGMENT_SIZE * 3 + 5)
+    const { bytes } = await encryptToBytes(plaintext, dek)
+
+    expect(isChunkedCiphertext(bytes)).toBe(true)
+    expect(bytes.length).toBe(CHUNKED_HEADER_LENGTH + plaintext.length + 4 * 16)
+    expect(await decryptToBytes(bytes, dek)).toEqual(plaintext)
+  })
+
+  it('should round-trip exact multiples of the segment size and empty files', async () => {
+    const dek = generateDek()
+    for (const length of [0, SEGMENT_SIZE, SEGMENT_SIZE * 2]) {
+      const plaintext = randomBytes(length)
+      const { bytes } = await encryptToBytes(plaintext, dek)
+      expect(bytes.length).toBe(chunkedCiphertextSize(length, SEGMENT_SIZE))
+      expect(await decryptToBytes(bytes, dek)).toEqual(plaintext)
+    }
+  })
+
+  it('should checksum the ciphertext like computeChecksum', async () => {
+    const { bytes, ciphertextChecksum } = await encryptToBytes(randomBytes(200), generateDek())
+    expect(ciphertextChecksum).toBe(await computeChecksum(bytes))
+  })
+
+  it('should report progress and honour an abort signal', async () => {
+    const progress: number[] = []
+    await encryptBlobChunked(
+      new Blob([new Uint8Array(SEGMENT_SIZE * 2)]),
+      generateDek(),
+      context,
+      {
+        onProgress: (p) => progress.push(p),
+      },
+      SEGMENT_SIZE,
+    )
+    expect(progress).toEqual([0.5, 1])
+
+    const controller = new AbortController()
+    controller.abort()
+    await expect(
+      encryptBlobChunked(new Blob([new Uint8Array(8)]), generateDek(), context, {
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('should reject a ciphertext truncated at a segment boundary', async () => {
+    const dek = generateDek()
+    const { bytes } = await encryptToBytes(randomBytes(SEGMENT_SIZE * 3), dek)
+
+    // Dropping the final segment leaves a valid non-final segment last
+    const truncated = bytes.slice(0, bytes.length - ENCRYPTED_SEGMENT_SIZE)
+    await expect(decryptToBytes(truncated, dek)).rejects.toThrow()
+    await expect(decryptToBytes(bytes.slice(0, CHUNKED_HEADER_LENGTH), dek)).rejects.toThrow(
+      'truncated',
+    )
+  })
+
+  it('should reject reordered segments', async () => {
+    const dek = generateDek()
+    const { bytes } = await encryptToBytes(randomBytes(SEGMENT_SIZE * 3), dek)
+
+    const first = CHUNKED_HEADER_LENGTH
+    const second = first + ENCRYPTED_SEGMENT_SIZE
+    const reordered = new Uint8Array([
+      ...bytes.slice(0, first),
+      ...bytes.slice(second, second + ENCRYPTED_SEGMENT_SIZE),
+      ...bytes.slice(first, second),
+      ...bytes.slice(second + ENCRYPTED_SEGMENT_SIZE),
+    ])
+    await expect(decryptToBytes(reordered, dek)).rejects.toThrow()
+  })
+
+  it('should reject tampered headers, segments and trailing data', async () => {
+    const dek = generateDek()
+    const { bytes } = await encryptToBytes(randomBytes(SEGMENT_SIZE * 2), dek)
+
+    const tamperedSegment = bytes.slice()
+    tamperedSegment[CHUNKED_HEADER_LENGTH + 3] ^= 1
+    await expect(decryptToBytes(tamperedSegment, dek)).rejects.toThrow()
+
+    const tamperedHeader = bytes.slice()
+    tamperedHeader[CHUNKED_HEADER_LENGTH - 1] ^= 1 // nonce prefix
+    await expect(decryptToBytes(tamperedHeader, dek)).rejects.toThrow()
+
+    const extended = new Uint8Array([...bytes, ...randomBytes(ENCRYPTED_SEGMENT_SIZE)])
+    await expect(decryptToBytes(extended, dek)).rejects.toThrow()
+
+    await expect(decryptToBytes(bytes, generateDek())).rejects.toThrow()
+  })
+
+  it('should reject a ciphertext opened as another document', async () => {
+    const dek = generateDek()
+    const { bytes } = await encryptToBytes(randomBytes(SEGMENT_SIZE + 1), dek)
+
+    await expect(
+      decryptToBytes(bytes, dek, documentContext({ docId: 'doc-2', docType: 'ID' })),
+    ).rejects.toThrow()
+    await expect(
+      decryptToBytes(bytes, dek, documentContext({ docId: 'doc-1', docType: 'SourceOfWealth' })),
+    ).rejects.toThrow()
+  })
+
+  it('should reject an envelope with an unknown version', async () => {
+    const dek = generateDek()
+    const { bytes } = await encryptToBytes(randomBytes(10), dek)
+    bytes[4] = 99
+    await expect(decryptToBytes(bytes, dek)).rejects.toThrow('Unsupported ciphertext envelope version')
+  })
+
+  it('should still decrypt pre-envelope "UBGS" chunked ciphertext', async () => {
+    const dek = generateDek()
+    const plaintext = randomBytes(SEGMENT_SIZE + 10)
+
+    // Legacy header: magic (4) | version 1 (1) | segment size (4) | nonce prefix (7)
+    // Every segment was authenticated with the header alone as AAD
+    const header = new Uint8Array(16)
+    header.set(new TextEncoder().encode('UBGS'))
+    header[4] = 1
+    new DataView(header.buffer).setUint32(5, SEGMENT_SIZE)
+    const noncePrefix = randomBytes(7)
+    header.set(noncePrefix, 9)
+
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(dek), 'AES-GCM', false, [
+      'encrypt',
+    ])
+    const segments: Uint8Array[] = []
+    for (const [index, start] of [0, SEGMENT_SIZE].entries()) {
+      const nonce = new Uint8Array(12)
+      nonce.set(noncePrefix)
+      new DataView(nonce.buffer).setUint32(7, index)
+      nonce[11] = index === 1 ? 1 : 0
+      const segment = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData: header },
+        key,
+        new Uint8Array(plaintext.slice(start, start + SEGMENT_SIZE)),
+      )
+      segments.push(new Uint8Array(segment))
+    }
+
+    const legacy = new Uint8Array([...header, ...segments[0], ...segments[1]])
+    expect(isChunkedCiphertext(legacy)).toBe(true)
+    expect(await decryptToBytes(legacy, dek)).toEqual(plaintext)
+  })
+
+  it('should tell legacy single-blob ciphertext apart and replay consumed bytes', async () => {
+    const legacy = randomBytes(100)
+    legacy[0] = 0 // Can't start with the magic
+    const sniffedLegacy = await sniffCiphertextStream(streamOf(legacy, 3))
+    expect(sniffedLegacy.chunked).toBe(false)
+    expect(await readStreamToBytes(sniffedLegacy.stream)).toEqual(legacy)
+
+    const { bytes } = await encryptToBytes(randomBytes(10), generateDek())
+    const sniffedChunked = await sniffCiphertextStream(streamOf(bytes, 3))
+    expect(sniffedChunked.chunked).toBe(true)
+    expect(await readStreamToBytes(sniffedChunked.stream)).toEqual(bytes)
+  })
+})
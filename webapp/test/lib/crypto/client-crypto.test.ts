@@ -7,12 +7,63 @@ import {
   unlockVault,
   encryptFileForUpload,
   decryptFileForDownload,
+  decryptFileStreamForDownload,
+  rewrapDeksForNewKek,
+  decryptDocumentDetailsForOwner,
+  encryptDocumentDetailsForOwner,
+  encryptDocumentDatesForOwner,
+  decryptDocumentDatesForOwner,
+  wrapDekForOwner,
+  unwrapDekForOwner,
+  createRecoveryKit,
+  rewrapDeksFromRecoveryKey,
+  rewrapDeksFromRecoveryWrapKey,
+  unwrapRecoveryKeyForOwner,
+  splitRecoveryKeyForContacts,
+  resealRecoveryShare,
+  combineRecoveryShares,
+  createKekVerifier,
+  verifyKek,
+  wrapKekForPasskey,
+  unwrapKekWithPasskey,
+  createCoOwnerKeys,
+  sealDeksForCoOwner,
+  rewrapSealedDeks,
+  kdfNeedsUpgrade,
+  rewrapVaultForNewKek,
+  openBackupWithPassword,
+  rotateDocumentKey,
+  wrapDekForLinks,
+  wrapLskForOwner,
+  unwrapLskForOwner,
+  sealLskForVendorKey,
+  openLskWithVendorKey,
+  publicKeyFingerprint,
+  decryptDocumentStreamForVendor,
+  WrongVaultPasswordError,
+  CiphertextIntegrityError,
+  KDF_POLICY_VERSION,
   DEFAULT_KDF_PARAMS,
 } from '@/lib/crypto/client-crypto'
-import { uint8ArrayToBase64 } from '@/lib/crypto/vault-crypto'
+import {
+  uint8ArrayToBase64,
+  generateDek,
+  generateLsk,
+  generateSalt,
+  generateBrowserKeyPair,
+} from '@/lib/crypto/vault-crypto'
+import { InvalidBackupArchiveError, type BackupManifest } from '@/lib/crypto/backup-archive'
 
 describe('client-crypto', () => {
   const testPassword = 'test-password-12345'
+  const context = { docId: 'doc-1', docType: 'ID' }
+
+  // A document of one part, which keeps the document's id; the part is spread over the keys
+  async function encryptSinglePart(file: File, kek: Uint8Array) {
+    const files = [{ id: context.docId, file }]
+    const { parts, ...keys } = await encryptFileForUpload(files, kek, context)
+    return { ...keys, ...parts[0] }
+  }
 
   describe('initializeVault', () => {
     it('should return kdfSalt and kdfParams', async () => {
@@ -64,7 +115,7 @@ describe('client-crypto', () => {
       // Encrypt
       let encrypted
       try {
-        encrypted = await encryptFileForUpload(file, kek)
+        encrypted = await encryptSinglePart(file, kek)
       } catch (error) {
         console.error('Encryption error:', error)
         throw error
@@ -76,14 +127,16 @@ describe('client-crypto', () => {
       expect(encrypted.ciphertextChecksum).toBeDefined()
 
       // Decrypt - use the base64 conversion utility from the library
-      const ciphertextBase64 = uint8ArrayToBase64(encrypted.ciphertext)
+      const ciphertextBase64 = uint8ArrayToBase64(new Uint8Array(await encrypted.ciphertext.arrayBuffer()))
       let decrypted
       try {
         decrypted = await decryptFileForDownload(
           ciphertextBase64,
           encrypted.encryptedDekForOwner,
           encrypted.dekNonce,
-          kek
+          kek,
+          context,
+          encrypted
         )
       } catch (error) {
         console.error('Decryption error:', error)
@@ -101,13 +154,787 @@ describe('client-crypto', () => {
       const kek2 = await unlockVault('wrong-password', kdfSalt, DEFAULT_KDF_PARAMS)
 
       const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
-      const encrypted = await encryptFileForUpload(file, kek1)
+      const encrypted = await encryptSinglePart(file, kek1)
+
+      const ciphertextBase64 = uint8ArrayToBase64(new Uint8Array(await encrypted.ciphertext.arrayBuffer()))
+      await expect(
+        decryptFileForDownload(
+          ciphertextBase64,
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek2,
+          context,
+          encrypted
+        )
+      ).rejects.toThrow()
+    })
+
+    it('should fail to decrypt under another document id or doc type', async () => {
+      const kek = generateDek()
+      const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
+      const encrypted = await encryptSinglePart(file, kek)
+
+      const ciphertextBase64 = uint8ArrayToBase64(new Uint8Array(await encrypted.ciphertext.arrayBuffer()))
+      for (const other of [{ ...context, docId: 'doc-2' }, { ...context, docType: 'SourceOfWealth' }]) {
+        await expect(
+          decryptFileForDownload(
+            ciphertextBase64,
+            encrypted.encryptedDekForOwner,
+            encrypted.dekNonce,
+            kek,
+            other,
+            encrypted
+          )
+        ).rejects.toThrow()
+      }
+    })
+
+    it('should reject ciphertext that does not match its checksum', async () => {
+      const kek = generateDek()
+      const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
+      const encrypted = await encryptSinglePart(file, kek)
+      const ciphertext = new Uint8Array(await encrypted.ciphertext.arrayBuffer())
+      ciphertext[ciphertext.length - 1] ^= 0xff
+
+      await expect(
+        decryptFileForDownload(
+          uint8ArrayToBase64(ciphertext),
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          context,
+          encrypted
+        )
+      ).rejects.toThrow(CiphertextIntegrityError)
+    })
+
+    it('should reject a checksum that does not match its tag', async () => {
+      const kek = generateDek()
+      const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
+      const encrypted = await encryptSinglePart(file, kek)
+      const other = await encryptSinglePart(
+        new File(['other content'], 'other.txt', { type: 'text/plain' }),
+        kek
+      )
+
+      // Storage and checksum both swapped, but the tag can't be forged without the DEK
+      await expect(
+        decryptFileForDownload(
+          uint8ArrayToBase64(new Uint8Array(await other.ciphertext.arrayBuffer())),
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          context,
+          { ...encrypted, ciphertextChecksum: other.ciphertextChecksum }
+        )
+      ).rejects.toThrow(CiphertextIntegrityError)
+    })
+
+    it('should stream-decrypt and check the checksum of documents without a tag', async () => {
+      const kek = generateDek()
+      const file = new File(['test content'], 'test.txt', { type: 'text/plain' })
+      const encrypted = await encryptSinglePart(file, kek)
+      const expected = { ciphertextChecksum: encrypted.ciphertextChecksum }
+
+      const plaintext = await decryptFileStreamForDownload(
+        encrypted.ciphertext.stream(),
+        encrypted.encryptedDekForOwner,
+        encrypted.dekNonce,
+        kek,
+        context,
+        expected
+      )
+      expect(await plaintext.text()).toBe('test content')
 
-      const ciphertextBase64 = uint8ArrayToBase64(encrypted.ciphertext)
       await expect(
-        decryptFileForDownload(ciphertextBase64, encrypted.encryptedDekForOwner, encrypted.dekNonce, kek2)
+        decryptFileStreamForDownload(
+          encrypted.ciphertext.stream(),
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          context,
+          { ciphertextChecksum: '0'.repeat(64) }
+        )
+      ).rejects.toThrow(CiphertextIntegrityError)
+    })
+
+    it('should seal the filename and MIME type under the DEK', async () => {
+      const kek = generateDek()
+      const file = new File(['test content'], 'passport_john_smith.jpg', { type: 'image/jpeg' })
+      const encrypted = await encryptSinglePart(file, kek)
+
+      expect(atob(encrypted.encryptedMetadata)).not.toContain('passport')
+      expect(
+        await decryptDocumentDetailsForOwner(
+          encrypted.encryptedMetadata,
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          context
+        )
+      ).toEqual({ filename: 'passport_john_smith.jpg', mimeType: 'image/jpeg' })
+
+      await expect(
+        decryptDocumentDetailsForOwner(
+          encrypted.encryptedMetadata,
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          { ...context, docId: 'doc-2' }
+        )
       ).rejects.toThrow()
     })
+
+    it('should encrypt every part under one DEK, each bound to its own part id', async () => {
+      const kek = generateDek()
+      const files = [
+        { id: 'part-front', file: new File(['front'], 'front.jpg', { type: 'image/jpeg' }) },
+        { id: 'part-back', file: new File(['back'], 'back.jpg', { type: 'image/jpeg' }) },
+      ]
+      const progress: number[] = []
+
+      const encrypted = await encryptFileForUpload(files, kek, context, null, [], {
+        onProgress: (p) => progress.push(p),
+      })
+
+      expect(encrypted.parts.map((part) => part.id)).toEqual(['part-front', 'part-back'])
+      expect(progress.every((p, i) => i === 0 || p >= progress[i - 1])).toBe(true)
+      const [front, back] = encrypted.parts
+      const backContext = { ...context, docId: 'part-back' }
+      const plaintext = await decryptFileStreamForDownload(
+        back.ciphertext.stream(),
+        encrypted.encryptedDekForOwner,
+        encrypted.dekNonce,
+        kek,
+        backContext,
+        back
+      )
+      expect(await plaintext.text()).toBe('back')
+      expect(
+        await decryptDocumentDetailsForOwner(
+          back.encryptedMetadata,
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          backContext
+        )
+      ).toEqual({ filename: 'back.jpg', mimeType: 'image/jpeg' })
+
+      // Swapping parts in storage is caught: the front is not bound to the back's id
+      await expect(
+        decryptFileStreamForDownload(
+          front.ciphertext.stream(),
+          encrypted.encryptedDekForOwner,
+          encrypted.dekNonce,
+          kek,
+          backContext,
+          front
+        )
+      ).rejects.toThrow()
+    })
+
+    it('should encrypt metadata for a legacy document with its existing DEK', async () => {
+      const kek = generateDek()
+      const wrapped = await wrapDekForOwner(generateDek(), kek)
+      const details = { filename: 'id.pdf', mimeType: 'application/octet-stream' }
+
+      const encryptedMetadata = await encryptDocumentDetailsForOwner(
+        details,
+        wrapped.encryptedDekForOwner,
+        wrapped.dekNonce,
+        kek,
+        context
+      )
+
+      expect(
+        await decryptDocumentDetailsForOwner(
+          encryptedMetadata,
+          wrapped.encryptedDekForOwner,
+          wrapped.dekNonce,
+          kek,
+          context
+        )
+      ).toEqual(details)
+    })
   }, 30000)
-})
 
+  describe('encryptDocumentDatesForOwner / decryptDocumentDatesForOwner', () => {
+    it('should open private dates only for the same DEK and document', async () => {
+      const kek = generateDek()
+      const wrapped = await wrapDekForOwner(generateDek(), kek)
+      const dates = { issuedOn: '2024-03-01', expiresOn: null }
+
+      const encryptedDates = await encryptDocumentDatesForOwner(
+        dates,
+        wrapped.encryptedDekForOwner,
+        wrapped.dekNonce,
+        kek,
+        context
+      )
+
+      expect(
+        await decryptDocumentDatesForOwner(
+          encryptedDates,
+          wrapped.encryptedDekForOwner,
+          wrapped.dekNonce,
+          kek,
+          context
+        )
+      ).toEqual(dates)
+      await expect(
+        decryptDocumentDatesForOwner(
+          encryptedDates,
+          wrapped.encryptedDekForOwner,
+          wrapped.dekNonce,
+          kek,
+          { ...context, docType: 'Passport' }
+        )
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('rotateDocumentKey', () => {
+    it('should re-encrypt under a new DEK and re-wrap it for kept links', async () => {
+      const kek = generateDek()
+      const lsk = generateDek()
+      const previous = await encryptSinglePart(new File(['old'], 'id.pdf'), kek)
+      const file = new File(['test content'], 'id.pdf', { type: 'application/pdf' })
+
+      const rotated = await rotateDocumentKey([{ id: context.docId, file }], kek, context, [
+        { id: 'link-1', encryptedLskForOwner: await wrapLskForOwner(lsk, kek) },
+      ])
+
+      expect(rotated.encryptedDekForOwner).not.toBe(previous.encryptedDekForOwner)
+      const [linkDek] = rotated.linkDeks
+      expect(linkDek.shareLinkId).toBe('link-1')
+      const plaintext = await decryptDocumentStreamForVendor(
+        rotated.parts[0].ciphertext.stream(),
+        linkDek.encryptedDekForLink,
+        linkDek.dekForLinkNonce,
+        lsk,
+        context,
+        rotated.parts[0]
+      )
+      expect(await plaintext.text()).toBe('test content')
+    })
+
+    it("should fail before encrypting if a kept link's LSK can't be recovered", async () => {
+      const file = new File(['test content'], 'id.pdf')
+      const staleWrap = await wrapLskForOwner(generateDek(), generateDek())
+
+      await expect(
+        rotateDocumentKey([{ id: context.docId, file }], generateDek(), context, [
+          { id: 'link-1', encryptedLskForOwner: staleWrap },
+        ])
+      ).rejects.toThrow()
+    })
+  }, 30000)
+
+  describe('wrapDekForLinks', () => {
+    it("should wrap a document's DEK with each link's recovered LSK", async () => {
+      const kek = generateDek()
+      const lsk = generateDek()
+      const file = new File(['new version'], 'id.pdf')
+      const encrypted = await encryptSinglePart(file, kek)
+
+      const [linkDek] = await wrapDekForLinks(
+        encrypted.encryptedDekForOwner,
+        encrypted.dekNonce,
+        kek,
+        [{ id: 'link-1', encryptedLskForOwner: await wrapLskForOwner(lsk, kek) }]
+      )
+
+      expect(linkDek.shareLinkId).toBe('link-1')
+      const plaintext = await decryptDocumentStreamForVendor(
+        encrypted.ciphertext.stream(),
+        linkDek.encryptedDekForLink,
+        linkDek.dekForLinkNonce,
+        lsk,
+        context,
+        encrypted
+      )
+      expect(await plaintext.text()).toBe('new version')
+    })
+
+    it("should fail if a link's LSK can't be recovered", async () => {
+      const kek = generateDek()
+      const encrypted = await encryptSinglePart(new File(['new version'], 'id.pdf'), kek)
+      const staleWrap = await wrapLskForOwner(generateDek(), generateDek())
+
+      await expect(
+        wrapDekForLinks(encrypted.encryptedDekForOwner, encrypted.dekNonce, kek, [
+          { id: 'link-1', encryptedLskForOwner: staleWrap },
+        ])
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('rewrapDeksForNewKek', () => {
+    // Random keys stand in for Argon2id-derived KEKs to keep these tests fast
+    it('should re-wrap every DEK so only the new KEK unwraps it', async () => {
+      const oldKek = generateDek()
+      const newKek = generateDek()
+      const dek = generateDek()
+      const wrapped = await wrapDekForOwner(dek, oldKek)
+
+      const [rewrapped] = await rewrapDeksForNewKek([{ id: 'doc-1', ...wrapped }], oldKek, newKek)
+
+      expect(rewrapped.id).toBe('doc-1')
+      expect(await unwrapDekForOwner(rewrapped.encryptedDekForOwner, rewrapped.dekNonce, newKek)).toEqual(dek)
+      await expect(
+        unwrapDekForOwner(rewrapped.encryptedDekForOwner, rewrapped.dekNonce, oldKek)
+      ).rejects.toThrow()
+    })
+
+    it('should fail without output if the current KEK is wrong', async () => {
+      const wrapped = await wrapDekForOwner(generateDek(), generateDek())
+      await expect(
+        rewrapDeksForNewKek([{ id: 'doc-1', ...wrapped }], generateDek(), generateDek())
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('kdfNeedsUpgrade', () => {
+    it('should accept the current policy', () => {
+      expect(kdfNeedsUpgrade(DEFAULT_KDF_PARAMS)).toBe(false)
+    })
+
+    it('should not upgrade bare legacy params that already meet current policy', () => {
+      const { memory, time, parallelism } = DEFAULT_KDF_PARAMS
+      expect(kdfNeedsUpgrade({ memory, time, parallelism })).toBe(false)
+    })
+
+    it('should flag params below current cost or policy version', () => {
+      expect(kdfNeedsUpgrade({ ...DEFAULT_KDF_PARAMS, time: 3 })).toBe(true)
+      expect(kdfNeedsUpgrade({ ...DEFAULT_KDF_PARAMS, memory: 19456 })).toBe(true)
+      expect(kdfNeedsUpgrade({ ...DEFAULT_KDF_PARAMS, version: KDF_POLICY_VERSION - 1 })).toBe(true)
+    })
+  })
+
+  describe('rewrapVaultForNewKek', () => {
+    it('should move DEKs, key-check value and recovery key to the new KEK', async () => {
+      const oldKek = generateDek()
+      const newKek = generateDek()
+      const dek = generateDek()
+      const recoveryWrapKey = generateDek()
+      const wrapped = await wrapDekForOwner(dek, oldKek)
+      const wrappedRecovery = await wrapDekForOwner(recoveryWrapKey, oldKek)
+
+      const rewrap = await rewrapVaultForNewKek([{ id: 'doc-1', ...wrapped }], oldKek, newKek, {
+        encryptedRecoveryKeyForOwner: wrappedRecovery.encryptedDekForOwner,
+        recoveryKeyNonce: wrappedRecovery.dekNonce,
+      })
+
+      expect(await verifyKek(newKek, rewrap.kekVerifier)).toBe(true)
+      const [doc] = rewrap.documents
+      expect(await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, newKek)).toEqual(dek)
+      expect(
+        await unwrapRecoveryKeyForOwner(rewrap.encryptedRecoveryKeyForOwner!, rewrap.recoveryKeyNonce!, newKek)
+      ).toEqual(recoveryWrapKey)
+    })
+
+    it("should move the owner's LSK copies to the new KEK", async () => {
+      const oldKek = generateDek()
+      const newKek = generateDek()
+      const lsk = generateDek()
+
+      const rewrap = await rewrapVaultForNewKek([], oldKek, newKek, undefined, [
+        { id: 'link-1', encryptedLskForOwner: await wrapLskForOwner(lsk, oldKek) },
+      ])
+
+      const [link] = rewrap.shareLinks
+      expect(link.id).toBe('link-1')
+      expect(await unwrapLskForOwner(link.encryptedLskForOwner, newKek)).toEqual(lsk)
+    })
+
+    it("should move a co-owner's private key to the new KEK", async () => {
+      const ownerKek = generateDek()
+      const oldKek = generateDek()
+      const newKek = generateDek()
+      const dek = generateDek()
+      const { encryptedDekForOwner, dekNonce } = await wrapDekForOwner(dek, ownerKek)
+      const { publicKey, encryptedPrivateKey } = await createCoOwnerKeys(oldKek)
+
+      const rewrap = await rewrapVaultForNewKek([], oldKek, newKek, { encryptedPrivateKey })
+
+      // DEKs sealed to the unchanged public key open with the re-wrapped private key
+      const [sealed] = await sealDeksForCoOwner(
+        [{ id: 'doc-1', docType: 'ID', encryptedDekForOwner, dekNonce }],
+        ownerKek,
+        publicKey
+      )
+      const [claimed] = await rewrapSealedDeks(
+        [{ keyId: 'key-1', documentId: 'doc-1', docType: 'ID', sealedDek: sealed.sealedDek }],
+        rewrap.encryptedPrivateKey!,
+        newKek
+      )
+      expect(
+        await unwrapDekForOwner(claimed.encryptedDekForOwner, claimed.dekNonce, newKek)
+      ).toEqual(dek)
+    })
+
+    it('should leave recovery fields out when the vault has no recovery kit', async () => {
+      const rewrap = await rewrapVaultForNewKek([], generateDek(), generateDek())
+      expect(rewrap.encryptedRecoveryKeyForOwner).toBeUndefined()
+      expect(rewrap.encryptedPrivateKey).toBeUndefined()
+      expect(rewrap.documents).toEqual([])
+    })
+  })
+
+  describe('createKekVerifier / verifyKek', () => {
+    it('should accept only the KEK the verifier was created with', async () => {
+      const kek = generateDek()
+      const verifier = await createKekVerifier(kek)
+
+      expect(await verifyKek(kek, verifier)).toBe(true)
+      expect(await verifyKek(generateDek(), verifier)).toBe(false)
+    })
+
+    it('should return false for a malformed verifier', async () => {
+      expect(await verifyKek(generateDek(), 'bm90LWEtdmVyaWZpZXI=')).toBe(false)
+    })
+  })
+
+  describe('wrapKekForPasskey / unwrapKekWithPasskey', () => {
+    const prfOutput = crypto.getRandomValues(new Uint8Array(32))
+
+    it('should recover the KEK from the PRF output', async () => {
+      const kek = generateDek()
+      const encryptedKek = await wrapKekForPasskey(kek, prfOutput, 'credential-1')
+
+      expect(await unwrapKekWithPasskey(encryptedKek, prfOutput, 'credential-1')).toEqual(kek)
+    })
+
+    it('should fail with another PRF output or credential', async () => {
+      const encryptedKek = await wrapKekForPasskey(generateDek(), prfOutput, 'credential-1')
+
+      await expect(
+        unwrapKekWithPasskey(encryptedKek, crypto.getRandomValues(new Uint8Array(32)), 'credential-1')
+      ).rejects.toThrow()
+      await expect(unwrapKekWithPasskey(encryptedKek, prfOutput, 'credential-2')).rejects.toThrow()
+    })
+  })
+
+  describe('createCoOwnerKeys / sealDeksForCoOwner / rewrapSealedDeks', () => {
+    it("should move a DEK from one owner's KEK to a co-owner's KEK", async () => {
+      const ownerKek = generateDek()
+      const coOwnerKek = generateDek()
+      const dek = generateDek()
+      const { encryptedDekForOwner, dekNonce } = await wrapDekForOwner(dek, ownerKek)
+      const { publicKey, encryptedPrivateKey } = await createCoOwnerKeys(coOwnerKek)
+
+      const [sealed] = await sealDeksForCoOwner(
+        [{ id: 'doc-1', docType: 'ID', encryptedDekForOwner, dekNonce }],
+        ownerKek,
+        publicKey
+      )
+      const [claimed] = await rewrapSealedDeks(
+        [{ keyId: 'key-1', documentId: 'doc-1', docType: 'ID', sealedDek: sealed.sealedDek }],
+        encryptedPrivateKey,
+        coOwnerKek
+      )
+
+      expect(claimed.keyId).toBe('key-1')
+      expect(
+        await unwrapDekForOwner(claimed.encryptedDekForOwner, claimed.dekNonce, coOwnerKek)
+      ).toEqual(dek)
+    })
+
+    it('should fail for another document or another KEK', async () => {
+      const ownerKek = generateDek()
+      const coOwnerKek = generateDek()
+      const { encryptedDekForOwner, dekNonce } = await wrapDekForOwner(generateDek(), ownerKek)
+      const { publicKey, encryptedPrivateKey } = await createCoOwnerKeys(coOwnerKek)
+      const [sealed] = await sealDeksForCoOwner(
+        [{ id: 'doc-1', docType: 'ID', encryptedDekForOwner, dekNonce }],
+        ownerKek,
+        publicKey
+      )
+
+      await expect(
+        rewrapSealedDeks(
+          [{ keyId: 'key-1', documentId: 'doc-2', docType: 'ID', sealedDek: sealed.sealedDek }],
+          encryptedPrivateKey,
+          coOwnerKek
+        )
+      ).rejects.toThrow()
+      await expect(
+        rewrapSealedDeks(
+          [{ keyId: 'key-1', documentId: 'doc-1', docType: 'ID', sealedDek: sealed.sealedDek }],
+          encryptedPrivateKey,
+          generateDek()
+        )
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('sealLskForVendorKey / openLskWithVendorKey', () => {
+    it("should open an LSK sealed to the vendor's public key with their private key", async () => {
+      const lsk = generateLsk()
+      const lskSalt = generateSalt()
+      const { publicKey, privateKey } = await generateBrowserKeyPair()
+
+      const { encryptedLskForVendor } = await sealLskForVendorKey(
+        lsk,
+        uint8ArrayToBase64(publicKey),
+        lskSalt
+      )
+
+      expect(
+        await openLskWithVendorKey(encryptedLskForVendor, uint8ArrayToBase64(lskSalt), privateKey)
+      ).toEqual(lsk)
+    })
+
+    it("should fail with another vendor's key or another link's salt", async () => {
+      const lskSalt = generateSalt()
+      const { publicKey, privateKey } = await generateBrowserKeyPair()
+      const other = await generateBrowserKeyPair()
+      const { encryptedLskForVendor } = await sealLskForVendorKey(
+        generateLsk(),
+        uint8ArrayToBase64(publicKey),
+        lskSalt
+      )
+
+      await expect(
+        openLskWithVendorKey(encryptedLskForVendor, uint8ArrayToBase64(lskSalt), other.privateKey)
+      ).rejects.toThrow()
+      await expect(
+        openLskWithVendorKey(encryptedLskForVendor, uint8ArrayToBase64(generateSalt()), privateKey)
+      ).rejects.toThrow()
+    })
+
+    it('should give a stable fingerprint per public key', async () => {
+      const { publicKey } = await generateBrowserKeyPair()
+      const other = await generateBrowserKeyPair()
+
+      const fingerprint = await publicKeyFingerprint(uint8ArrayToBase64(publicKey))
+
+      expect(fingerprint).toMatch(/^([0-9a-f]{4} ){7}[0-9a-f]{4}$/)
+      expect(await publicKeyFingerprint(uint8ArrayToBase64(publicKey))).toBe(fingerprint)
+      expect(await publicKeyFingerprint(uint8ArrayToBase64(other.publicKey))).not.toBe(
+        fingerprint
+      )
+    })
+  })
+
+  describe('createRecoveryKit / rewrapDeksFromRecoveryKey', () => {
+    it('should reset the owner wraps from the recovery key alone', async () => {
+      const kek = generateDek()
+      const newKek = generateDek()
+      const dek = generateDek()
+      const wrapped = await wrapDekForOwner(dek, kek)
+
+      const kit = await createRecoveryKit([{ id: 'doc-1', ...wrapped }], kek)
+      expect(kit.documents).toHaveLength(1)
+
+      const reset = await rewrapDeksFromRecoveryKey(
+        kit.recoveryKey,
+        kit.recoverySalt,
+        kit.documents,
+        newKek
+      )
+
+      const [doc] = reset.documents
+      expect(doc.id).toBe('doc-1')
+      expect(await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, newKek)).toEqual(dek)
+
+      // The recovery wrapping key stays the same, now wrapped under the new KEK
+      expect(
+        await unwrapRecoveryKeyForOwner(reset.encryptedRecoveryKeyForOwner, reset.recoveryKeyNonce, newKek)
+      ).toEqual(
+        await unwrapRecoveryKeyForOwner(kit.encryptedRecoveryKeyForOwner, kit.recoveryKeyNonce, kek)
+      )
+    })
+
+    it('should reject a different recovery key', async () => {
+      const kek = generateDek()
+      const wrapped = await wrapDekForOwner(generateDek(), kek)
+      const kit = await createRecoveryKit([{ id: 'doc-1', ...wrapped }], kek)
+      const otherKit = await createRecoveryKit([], kek)
+
+      await expect(
+        rewrapDeksFromRecoveryKey(otherKit.recoveryKey, kit.recoverySalt, kit.documents, generateDek())
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('splitRecoveryKeyForContacts / resealRecoveryShare / combineRecoveryShares', () => {
+    async function setUpSplit(contactCount: number, threshold: number) {
+      const kek = generateDek()
+      const dek = generateDek()
+      const wrapped = await wrapDekForOwner(dek, kek)
+      const kit = await createRecoveryKit([{ id: 'doc-1', ...wrapped }], kek)
+      const contacts = await Promise.all(
+        Array.from({ length: contactCount }, async (_, i) => ({
+          id: `contact-${i}`,
+          ...(await generateBrowserKeyPair()),
+        }))
+      )
+      const split = await splitRecoveryKeyForContacts(
+        kit.encryptedRecoveryKeyForOwner,
+        kit.recoveryKeyNonce,
+        kit.recoverySalt,
+        kek,
+        contacts.map((c) => ({ id: c.id, publicKey: uint8ArrayToBase64(c.publicKey) })),
+        threshold
+      )
+      const requestKeys = await generateBrowserKeyPair()
+      const request = { id: 'request-1', publicKey: uint8ArrayToBase64(requestKeys.publicKey) }
+
+      async function approve(i: number) {
+        return {
+          contactId: contacts[i].id,
+          resealedShare: await resealRecoveryShare(
+            split.shares[i].sealedShare,
+            contacts[i].id,
+            kit.recoverySalt,
+            contacts[i].privateKey,
+            request
+          ),
+        }
+      }
+
+      return { kek, dek, kit, contacts, split, request, requestKeys, approve }
+    }
+
+    it('should reset the owner wraps once threshold contacts approve', async () => {
+      const { kek, dek, kit, split, request, requestKeys, approve } = await setUpSplit(3, 2)
+
+      const recoveryWrapKey = await combineRecoveryShares(
+        [await approve(0), await approve(2)],
+        request.id,
+        requestKeys.privateKey,
+        2,
+        split.verifier
+      )
+      expect(recoveryWrapKey).toEqual(
+        await unwrapRecoveryKeyForOwner(kit.encryptedRecoveryKeyForOwner, kit.recoveryKeyNonce, kek)
+      )
+
+      const newKek = generateDek()
+      const reset = await rewrapDeksFromRecoveryWrapKey(recoveryWrapKey, kit.documents, newKek)
+      const [doc] = reset.documents
+      expect(await unwrapDekForOwner(doc.encryptedDekForOwner, doc.dekNonce, newKek)).toEqual(dek)
+    })
+
+    it('should reject fewer than threshold approvals', async () => {
+      const { split, request, requestKeys, approve } = await setUpSplit(3, 2)
+
+      await expect(
+        combineRecoveryShares([await approve(1)], request.id, requestKeys.privateKey, 2, split.verifier)
+      ).rejects.toThrow()
+    })
+
+    it('should skip a bad approval when enough others approved', async () => {
+      const { split, request, requestKeys, approve } = await setUpSplit(3, 2)
+      const approvals = [await approve(0), await approve(1), await approve(2)]
+      // Contact 0's share released under contact 1's id: it won't open for this request
+      approvals[0] = { ...approvals[0], contactId: 'contact-1' }
+
+      await expect(
+        combineRecoveryShares(approvals, request.id, requestKeys.privateKey, 2, split.verifier)
+      ).resolves.toHaveLength(32)
+    })
+
+    it("should not open a share with another contact's key or for another recovery kit", async () => {
+      const { kit, contacts, split, request } = await setUpSplit(2, 2)
+
+      await expect(
+        resealRecoveryShare(
+          split.shares[0].sealedShare,
+          contacts[0].id,
+          kit.recoverySalt,
+          contacts[1].privateKey,
+          request
+        )
+      ).rejects.toThrow()
+      await expect(
+        resealRecoveryShare(
+          split.shares[0].sealedShare,
+          contacts[0].id,
+          uint8ArrayToBase64(generateSalt()),
+          contacts[0].privateKey,
+          request
+        )
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('openBackupWithPassword', () => {
+    // Cheap Argon2 settings so each unlock stays fast
+    const kdfParams = { memory: 1024, time: 1, parallelism: 1 }
+    const docId = '3f2b8c1e-4a5d-4e6f-8a7b-9c0d1e2f3a4b'
+
+    async function buildManifest(docContext = { docId, docType: 'ID' }): Promise<BackupManifest> {
+      const { kdfSalt } = await initializeVault()
+      const kek = await unlockVault(testPassword, kdfSalt, kdfParams)
+      const wrapped = await wrapDekForOwner(generateDek(), kek)
+      const encryptedMetadata = await encryptDocumentDetailsForOwner(
+        { filename: 'id.pdf', mimeType: 'application/pdf' },
+        wrapped.encryptedDekForOwner,
+        wrapped.dekNonce,
+        kek,
+        docContext
+      )
+
+      return {
+        version: 2,
+        exportedAt: '2026-01-15T10:00:00.000Z',
+        vault: {
+          kdfSalt,
+          kdfParams,
+          kekVerifier: await createKekVerifier(kek),
+          recoverySalt: null,
+          encryptedRecoveryKeyForOwner: null,
+          recoveryKeyNonce: null,
+        },
+        documents: [
+          {
+            id: docId,
+            docType: 'ID',
+            size: 1024,
+            uploadedAt: '2026-01-15T10:00:00.000Z',
+            parts: [
+              {
+                id: docId,
+                size: 1024,
+                ciphertextChecksum: 'abc123',
+                encryptedMetadata,
+                ciphertextLength: 1052,
+              },
+            ],
+            ...wrapped,
+            encryptedDekForRecovery: null,
+            dekForRecoveryNonce: null,
+          },
+        ],
+      }
+    }
+
+    it('should open a backup with its vault password and keep every wrap', async () => {
+      const manifest = await buildManifest()
+
+      const opened = await openBackupWithPassword(manifest, testPassword)
+
+      expect(opened.vault).toEqual(manifest.vault)
+      expect(opened.documents).toEqual(manifest.documents)
+      expect(await verifyKek(opened.kek, manifest.vault.kekVerifier!)).toBe(true)
+    })
+
+    it('should reject a wrong password', async () => {
+      const manifest = await buildManifest()
+
+      await expect(openBackupWithPassword(manifest, 'wrong-password-12345')).rejects.toThrow(
+        WrongVaultPasswordError
+      )
+    })
+
+    it('should reject a DEK that belongs to another document', async () => {
+      const manifest = await buildManifest({ docId: 'doc-2', docType: 'ID' })
+
+      await expect(openBackupWithPassword(manifest, testPassword)).rejects.toThrow(
+        InvalidBackupArchiveError
+      )
+    })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the worker-backed crypto service
+ * Tests: inline fallback, byte-identical output, progress, cancellation
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { runCryptoTask } from '@/lib/crypto/crypto-service'
+import { executeCryptoTask, type CryptoTask } from '@/lib/crypto/crypto-tasks'
+import { isChunkedCiphertext } from '@/lib/crypto/chunked-aead'
+import {
+  deriveKek,
+  generateSalt,
+  encryptDocument,
+  computeChecksum,
+  uint8ArrayToBase64,
+  generateDek,
+} from '@/lib/crypto/vault-crypto'
+
+// Small Argon2id cost so these tests stay fast; production params are tested elsewhere
+const fastKdfParams = { memory: 256, time: 1, parallelism: 1 }
+const context = { docId: 'doc-1', docType: 'ID' }
+
+/**
+ * Minimal Worker stand-in that runs the task inline and speaks the worker protocol
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: ((event: { message: string }) => void) | null = null
+  terminated = false
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(task: CryptoTask) {
+    setTimeout(async () => {
+      const emit = (data: unknown) => {
+        if (!this.terminated) this.onmessage?.({ data })
+      }
+      try {
+        const result = await executeCryptoTask(task, (progress) => emit({ type: 'progress', progress }))
+        emit({ type: 'result', result })
+      } catch (error) {
+        emit({ type: 'error', message: (error as Error).message })
+      }
+    }, 0)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+}
+
+describe('crypto-service', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    FakeWorker.instances = []
+  })
+
+  describe('inline fallback (no Worker)', () => {
+    it('should derive the same KEK as deriveKek', async () => {
+      const salt = generateSalt()
+      const kek = await runCryptoTask({ type: 'deriveKek', password: 'pw', salt, params: fastKdfParams })
+      expect(kek).toEqual(await deriveKek('pw', salt, fastKdfParams))
+    })
+
+    it('should produce chunked ciphertext with a matching checksum', async () => {
+      const plaintext = new TextEncoder().encode('Hello, worker!')
+      const { ciphertext, dek, ciphertextChecksum } = await runCryptoTask({
+        type: 'encryptDocument',
+        file: new Blob([plaintext]),
+        context,
+      })
+
+      const ciphertextBytes = new Uint8Array(await ciphertext.arrayBuffer())
+      expect(isChunkedCiphertext(ciphertextBytes)).toBe(true)
+      expect(ciphertextBytes.length).toBe(17 + plaintext.length + 16) // header + one segment + tag
+      expect(ciphertextChecksum).toBe(await computeChecksum(ciphertextBytes))
+
+      const roundTrip = await runCryptoTask({
+        type: 'decryptDocument',
+        ciphertext: uint8ArrayToBase64(ciphertextBytes),
+        dek,
+        context,
+      })
+      expect(roundTrip).toEqual(plaintext)
+    })
+
+    it('should still decrypt legacy [ct][nonce][tag] ciphertext', async () => {
+      const plaintext = new TextEncoder().encode('Hello, legacy!')
+      const dek = generateDek()
+      const encrypted = await encryptDocument(plaintext, dek)
+      const legacy = new Uint8Array([...encrypted.ciphertext, ...encrypted.nonce, ...encrypted.authTag])
+
+      const roundTrip = await runCryptoTask({ type: 'decryptDocument', ciphertext: legacy, dek, context })
+      expect(roundTrip).toEqual(plaintext)
+    })
+
+    it('should reject before starting if already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        runCryptoTask(
+          { type: 'encryptDocument', file: new Blob([new Uint8Array(4)]), context },
+          { signal: controller.signal }
+        )
+      ).rejects.toMatchObject({ name: 'AbortError' })
+    })
+  })
+
+  describe('worker path', () => {
+    it('should forward progress and terminate the worker after the result', async () => {
+      vi.stubGlobal('Worker', FakeWorker)
+      const onProgress = vi.fn()
+
+      const kek = await runCryptoTask(
+        { type: 'deriveKek', password: 'pw', salt: generateSalt(), params: fastKdfParams },
+        { onProgress }
+      )
+
+      expect(kek).toHaveLength(32)
+      expect(onProgress).toHaveBeenCalled()
+      expect(onProgress.mock.calls.at(-1)?.[0]).toBe(1)
+      expect(FakeWorker.instances[0].terminated).toBe(true)
+    })
+
+    it('should surface task errors', async () => {
+      vi.stubGlobal('Worker', FakeWorker)
+      const ciphertext = uint8ArrayToBase64(new Uint8Array(64))
+
+      await expect(
+        runCryptoTask({ type: 'decryptDocument', ciphertext, dek: generateDek(), context })
+      ).rejects.toThrow()
+      expect(FakeWorker.instances[0].terminated).toBe(true)
+    })
+
+    it('should terminate the worker and reject when aborted', async () => {
+      vi.stubGlobal('Worker', FakeWorker)
+      const controller = new AbortController()
+
+      const pending = runCryptoTask(
+        { type: 'deriveKek', password: 'pw', salt: generateSalt(), params: fastKdfParams },
+        { signal: controller.signal }
+      )
+      controller.abort()
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+      expect(FakeWorker.instances[0].terminated).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the versioned ciphertext envelope
+ * Tests: layout parsing, seal/open round trip, context binding, legacy [ct][nonce][tag] blobs
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  EnvelopeAlgorithm,
+  ENVELOPE_HEADER_LENGTH,
+  documentContext,
+  envelopePrefix,
+  parseCiphertextLayout,
+  sealAesGcm,
+  openAesGcm,
+} from '@/lib/crypto/envelope'
+import { encryptDocument, generateDek } from '@/lib/crypto/vault-crypto'
+
+const context = documentContext({ docId: 'doc-1', docType: 'ID' })
+
+describe('envelope', () => {
+  describe('parseCiphertextLayout', () => {
+    it('should recognise each envelope algorithm', () => {
+      expect(parseCiphertextLayout(envelopePrefix(EnvelopeAlgorithm.AES_256_GCM))).toEqual({
+        format: 'envelope',
+        algorithm: EnvelopeAlgorithm.AES_256_GCM,
+        headerLength: ENVELOPE_HEADER_LENGTH[EnvelopeAlgorithm.AES_256_GCM],
+      })
+      expect(parseCiphertextLayout(envelopePrefix(EnvelopeAlgorithm.AES_256_GCM_STREAM))).toEqual({
+        format: 'envelope',
+        algorithm: EnvelopeAlgorithm.AES_256_GCM_STREAM,
+        headerLength: ENVELOPE_HEADER_LENGTH[EnvelopeAlgorithm.AES_256_GCM_STREAM],
+      })
+    })
+
+    it('should recognise pre-envelope layouts', () => {
+      const chunkedV1 = new Uint8Array(16)
+      chunkedV1.set(new TextEncoder().encode('UBGS'))
+      chunkedV1[4] = 1
+      expect(parseCiphertextLayout(chunkedV1)).toEqual({ format: 'chunked-v1', headerLength: 16 })
+      expect(parseCiphertextLayout(new Uint8Array(40))).toEqual({ format: 'legacy' })
+    })
+
+    it('should reject unknown versions and algorithms', () => {
+      const prefix = envelopePrefix(EnvelopeAlgorithm.AES_256_GCM)
+
+      const futureVersion = prefix.slice()
+      futureVersion[4] = 2
+      expect(() => parseCiphertextLayout(futureVersion)).toThrow('Unsupported ciphertext envelope version')
+
+      const unknownAlgorithm = prefix.slice()
+      unknownAlgorithm[5] = 42
+      expect(() => parseCiphertextLayout(unknownAlgorithm)).toThrow(
+        'Unsupported ciphertext envelope algorithm'
+      )
+    })
+  })
+
+  describe('sealAesGcm / openAesGcm', () => {
+    it('should round-trip with and without a context', async () => {
+      const key = generateDek()
+      const plaintext = new TextEncoder().encode('sealed value')
+
+      const { envelope, nonce } = await sealAesGcm(plaintext, key, context)
+      expect(parseCiphertextLayout(envelope)).toMatchObject({ format: 'envelope' })
+      expect(envelope.slice(6, 18)).toEqual(nonce)
+      expect(await openAesGcm(envelope, key, context)).toEqual(plaintext)
+
+      const withoutContext = await sealAesGcm(plaintext, key)
+      expect(await openAesGcm(withoutContext.envelope, key)).toEqual(plaintext)
+    })
+
+    it('should reject the wrong key, context or a tampered header', async () => {
+      const key = generateDek()
+      const { envelope } = await sealAesGcm(new Uint8Array([1, 2, 3]), key, context)
+
+      await expect(openAesGcm(envelope, generateDek(), context)).rejects.toThrow()
+      await expect(
+        openAesGcm(envelope, key, documentContext({ docId: 'doc-2', docType: 'ID' }))
+      ).rejects.toThrow()
+      await expect(openAesGcm(envelope, key)).rejects.toThrow()
+
+      const tampered = envelope.slice()
+      tampered[10] ^= 1 // nonce
+      await expect(openAesGcm(tampered, key, context)).rejects.toThrow()
+    })
+
+    it('should open legacy [ciphertext][nonce][authTag] blobs', async () => {
+      const key = generateDek()
+      const plaintext = new TextEncoder().encode('written before the envelope')
+      const encrypted = await encryptDocument(plaintext, key)
+      const legacy = new Uint8Array([...encrypted.ciphertext, ...encrypted.nonce, ...encrypted.authTag])
+
+      // Legacy blobs carry no AAD, so the context is ignored for them
+      expect(await openAesGcm(legacy, key, context)).toEqual(plaintext)
+    })
+
+    it('should refuse segmented ciphertext', async () => {
+      const streamHeader = new Uint8Array(64)
+      streamHeader.set(envelopePrefix(EnvelopeAlgorithm.AES_256_GCM_STREAM))
+      await expect(openAesGcm(streamHeader, generateDek())).rejects.toThrow('decrypted as a stream')
+    })
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for ciphertext integrity checks
+ * Tests: checksum tag binding (DEK, document, checksum), expected-checksum verification,
+ * stream hashing
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createChecksumTag,
+  verifyChecksumTag,
+  verifyExpectedCiphertext,
+  checksumStream,
+  CiphertextIntegrityError,
+} from '@/lib/crypto/integrity'
+import { generateDek, computeChecksum } from '@/lib/crypto/vault-crypto'
+
+const context = { docId: 'doc-1', docType: 'ID' }
+
+describe('integrity', () => {
+  it('should verify a tag only for the same checksum, DEK and document', async () => {
+    const dek = generateDek()
+    const checksum = await computeChecksum(new TextEncoder().encode('ciphertext'))
+    const tag = await createChecksumTag(checksum, dek, context)
+
+    expect(await verifyChecksumTag(checksum, tag, dek, context)).toBe(true)
+    expect(await verifyChecksumTag('0'.repeat(64), tag, dek, context)).toBe(false)
+    expect(await verifyChecksumTag(checksum, tag, generateDek(), context)).toBe(false)
+    expect(await verifyChecksumTag(checksum, tag, dek, { ...context, docId: 'doc-2' })).toBe(false)
+    expect(await verifyChecksumTag(checksum, 'not-base64!', dek, context)).toBe(false)
+  })
+
+  it('should reject an expected checksum whose tag does not verify', async () => {
+    const dek = generateDek()
+    const tag = await createChecksumTag('a'.repeat(64), dek, context)
+
+    const expected = (ciphertextChecksum: string, ciphertextChecksumTag: string | null) =>
+      verifyExpectedCiphertext({ ciphertextChecksum, ciphertextChecksumTag }, dek, context)
+
+    await expect(expected('a'.repeat(64), tag)).resolves.toBeUndefined()
+    await expect(expected('b'.repeat(64), tag)).rejects.toThrow(CiphertextIntegrityError)
+
+    // Documents uploaded before tags existed only have the checksum to go on
+    await expect(expected('b'.repeat(64), null)).resolves.toBeUndefined()
+  })
+
+  it('should reject a missing tag once the vault requires tags', async () => {
+    const dek = generateDek()
+    const tag = await createChecksumTag('a'.repeat(64), dek, context)
+
+    await expect(
+      verifyExpectedCiphertext(
+        { ciphertextChecksum: 'a'.repeat(64), ciphertextChecksumTag: null, checksumTagRequired: true },
+        dek,
+        context
+      )
+    ).rejects.toThrow(CiphertextIntegrityError)
+    await expect(
+      verifyExpectedCiphertext(
+        { ciphertextChecksum: 'a'.repeat(64), ciphertextChecksumTag: tag, checksumTagRequired: true },
+        dek,
+        context
+      )
+    ).resolves.toBeUndefined()
+  })
+
+  it('should hash a stream while passing it through unchanged', async () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(1000))
+    const hashed = checksumStream(new Blob([bytes]).stream())
+
+    const passedThrough = new Uint8Array(await new Response(hashed.stream).arrayBuffer())
+
+    expect(passedThrough).toEqual(bytes)
+    expect(hashed.checksum()).toBe(await computeChecksum(bytes))
+  })
+})
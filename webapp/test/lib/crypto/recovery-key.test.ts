@@ -0,0 +1,72 @@
+/**
+ * Unit tests for recovery key utilities
+ * Tests: generation, validation, byte round trip, formatting
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  generateRecoveryKey,
+  validateAndNormalizeRecoveryKey,
+  recoveryKeyToBytes,
+  formatRecoveryKeyForDisplay,
+} from '@/lib/crypto/recovery-key'
+
+describe('Recovery Key Utilities', () => {
+  describe('generateRecoveryKey', () => {
+    it('should return 8 groups of 4 chars plus a checksum char', () => {
+      const parts = generateRecoveryKey().split('-')
+      expect(parts).toHaveLength(9)
+      for (const part of parts.slice(0, 8)) {
+        expect(part).toHaveLength(4)
+      }
+      expect(parts[8]).toHaveLength(1)
+    })
+
+    it('should generate keys that pass validation', () => {
+      const key = generateRecoveryKey()
+      expect(() => validateAndNormalizeRecoveryKey(key)).not.toThrow()
+    })
+
+    it('should generate different keys each time', () => {
+      expect(generateRecoveryKey()).not.toBe(generateRecoveryKey())
+    })
+  })
+
+  describe('validateAndNormalizeRecoveryKey', () => {
+    it('should accept lowercase input without separators', () => {
+      const key = generateRecoveryKey()
+      const sloppy = key.replace(/-/g, ' ').toLowerCase()
+      expect(validateAndNormalizeRecoveryKey(sloppy)).toBe(key.replace(/-/g, ''))
+    })
+
+    it('should reject a wrong checksum', () => {
+      const normalized = validateAndNormalizeRecoveryKey(generateRecoveryKey())
+      const checksum = normalized[32]
+      const wrongChecksum = checksum === '0' ? '1' : '0'
+      expect(() => validateAndNormalizeRecoveryKey(normalized.slice(0, 32) + wrongChecksum)).toThrow(
+        'checksum'
+      )
+    })
+
+    it('should reject wrong length and invalid characters', () => {
+      expect(() => validateAndNormalizeRecoveryKey('ABCD-EFGH')).toThrow('33 characters')
+      expect(() => validateAndNormalizeRecoveryKey('U'.repeat(33))).toThrow('Invalid character')
+    })
+  })
+
+  describe('recoveryKeyToBytes', () => {
+    it('should decode to 20 bytes deterministically', () => {
+      const key = generateRecoveryKey()
+      const bytes = recoveryKeyToBytes(key)
+      expect(bytes).toHaveLength(20)
+      expect(recoveryKeyToBytes(key.toLowerCase())).toEqual(bytes)
+    })
+  })
+
+  describe('formatRecoveryKeyForDisplay', () => {
+    it('should round trip with normalization', () => {
+      const key = generateRecoveryKey()
+      expect(formatRecoveryKeyForDisplay(validateAndNormalizeRecoveryKey(key))).toBe(key)
+    })
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for Shamir secret sharing
+ * Tests: K-of-N reconstruction from any subset, too few shares, malformed shares
+ */
+
+import { describe, it, expect } from 'vitest'
+import { splitSecret, combineShares } from '@/lib/crypto/shamir'
+import { generateDek } from '@/lib/crypto/vault-crypto'
+
+describe('shamir', () => {
+  it('should reconstruct the secret from every subset of threshold shares', () => {
+    const secret = generateDek()
+    const shares = splitSecret(secret, 5, 3)
+
+    for (let a = 0; a < 5; a++) {
+      for (let b = a + 1; b < 5; b++) {
+        for (let c = b + 1; c < 5; c++) {
+          expect(combineShares([shares[a], shares[b], shares[c]])).toEqual(secret)
+        }
+      }
+    }
+    expect(combineShares(shares)).toEqual(secret)
+  })
+
+  it('should not reconstruct the secret from fewer than threshold shares', () => {
+    const secret = generateDek()
+    const shares = splitSecret(secret, 3, 3)
+
+    expect(combineShares([shares[0], shares[1]])).not.toEqual(secret)
+  })
+
+  it('should produce different shares for each split of the same secret', () => {
+    const secret = generateDek()
+
+    expect(splitSecret(secret, 2, 2)[0]).not.toEqual(splitSecret(secret, 2, 2)[0])
+  })
+
+  it('should reject a threshold below 2 or more shares than allowed', () => {
+    const secret = generateDek()
+
+    expect(() => splitSecret(secret, 3, 1)).toThrow()
+    expect(() => splitSecret(secret, 2, 3)).toThrow()
+    expect(() => splitSecret(secret, 256, 2)).toThrow()
+  })
+
+  it('should reject duplicate or mismatched shares', () => {
+    const shares = splitSecret(generateDek(), 3, 2)
+
+    expect(() => combineShares([shares[0], shares[0]])).toThrow()
+    expect(() => combineShares([shares[0], shares[1].slice(0, 10)])).toThrow()
+    expect(() => combineShares([shares[0]])).toThrow()
+  })
+})
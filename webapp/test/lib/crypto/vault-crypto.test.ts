@@ -79,6 +79,12 @@ describe('vault-crypto', () => {
       const kek2 = await deriveKek(testPassword, salt2, testKdfParams)
       expect(kek1).not.toEqual(kek2)
     })
+
+    it('should reject an unknown KDF algorithm', async () => {
+      await expect(
+        deriveKek(testPassword, generateSalt(), { ...testKdfParams, algorithm: 'scrypt' } as any)
+      ).rejects.toThrow('Unsupported KDF algorithm')
+    })
   }, 30000) // Argon2id can be slow
 
   describe('encryptDocument / decryptDocument', () => {
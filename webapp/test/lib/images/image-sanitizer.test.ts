@@ -0,0 +1,130 @@
+/**
+ * Unit tests for image sanitizing utilities
+ * Tests: metadata detection in JPEG, PNG and WebP files, downscaled dimensions, image type checks
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findImageMetadata,
+  isSanitizableImage,
+  scaledDimensions,
+} from '@/lib/images/image-sanitizer'
+
+function ascii(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0))
+}
+
+// A JPEG segment: marker, big-endian length (counting itself), payload
+function jpegSegment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2
+  return [0xff, marker, length >> 8, length & 0xff, ...payload]
+}
+
+function jpeg(...segments: number[][]): Uint8Array {
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9])
+}
+
+// A PNG chunk: big-endian length, type, data, CRC (not checked)
+function pngChunk(type: string, data: number[]): number[] {
+  const length = data.length
+  return [length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]
+    .concat(ascii(type), data, [0, 0, 0, 0])
+}
+
+function png(...chunks: number[][]): Uint8Array {
+  return new Uint8Array([
+    ...[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    ...pngChunk('IHDR', new Array(13).fill(0)),
+    ...chunks.flat(),
+    ...pngChunk('IEND', []),
+  ])
+}
+
+// A WebP chunk: type, little-endian length, data padded to an even length
+function webpChunk(type: string, data: number[]): number[] {
+  const length = data.length
+  return ascii(type).concat(
+    [length & 0xff, (length >> 8) & 0xff, 0, 0],
+    data,
+    length % 2 ? [0] : []
+  )
+}
+
+function webp(...chunks: number[][]): Uint8Array {
+  return new Uint8Array([...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WEBP'), ...chunks.flat()])
+}
+
+describe('findImageMetadata', () => {
+  it('should find EXIF, XMP and IPTC segments in a JPEG', () => {
+    const bytes = jpeg(
+      jpegSegment(0xe0, ascii('JFIF\0')),
+      jpegSegment(0xe1, ascii('Exif\0\0MM')),
+      jpegSegment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>')),
+      jpegSegment(0xed, ascii('Photoshop 3.0\0' + '8BIM')),
+      jpegSegment(0xda, [0, 0, 0])
+    )
+
+    expect(findImageMetadata(bytes)).toEqual(['EXIF', 'XMP', 'IPTC'])
+  })
+
+  it('should find nothing in a JPEG without metadata', () => {
+    const bytes = jpeg(jpegSegment(0xe0, ascii('JFIF\0')), jpegSegment(0xdb, new Array(65).fill(1)))
+
+    expect(findImageMetadata(bytes)).toEqual([])
+  })
+
+  it('should stop at the start of the scan', () => {
+    const bytes = jpeg(jpegSegment(0xda, [0, 0, 0]), jpegSegment(0xe1, ascii('Exif\0\0MM')))
+
+    expect(findImageMetadata(bytes)).toEqual([])
+  })
+
+  it('should find EXIF, XMP and text chunks in a PNG', () => {
+    const bytes = png(
+      pngChunk('eXIf', ascii('MM\0*')),
+      pngChunk('iTXt', ascii('XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>')),
+      pngChunk('tEXt', ascii('Software\0Camera'))
+    )
+
+    expect(findImageMetadata(bytes)).toEqual(['EXIF', 'XMP', 'text'])
+    expect(findImageMetadata(png(pngChunk('IDAT', [1, 2, 3])))).toEqual([])
+  })
+
+  it('should find EXIF and XMP chunks in a WebP', () => {
+    const bytes = webp(
+      webpChunk('VP8X', new Array(10).fill(0)),
+      webpChunk('EXIF', ascii('MM\0*\0')),
+      webpChunk('XMP ', ascii('<x:xmpmeta/>'))
+    )
+
+    expect(findImageMetadata(bytes)).toEqual(['EXIF', 'XMP'])
+  })
+
+  it('should find nothing in other formats', () => {
+    expect(findImageMetadata(new Uint8Array(ascii('%PDF-1.7 /Author (Exif)')))).toEqual([])
+    expect(findImageMetadata(new Uint8Array())).toEqual([])
+  })
+})
+
+describe('scaledDimensions', () => {
+  it('should fit the longest side within the maximum, keeping the aspect ratio', () => {
+    expect(scaledDimensions(4032, 3024, 2000)).toEqual({ width: 2000, height: 1500 })
+    expect(scaledDimensions(3024, 4032, 2000)).toEqual({ width: 1500, height: 2000 })
+  })
+
+  it('should never scale up, or scale without a maximum', () => {
+    expect(scaledDimensions(800, 600, 2000)).toEqual({ width: 800, height: 600 })
+    expect(scaledDimensions(4032, 3024, null)).toEqual({ width: 4032, height: 3024 })
+  })
+})
+
+describe('isSanitizableImage', () => {
+  it('should accept JPEG, PNG and WebP images only', () => {
+    expect(isSanitizableImage({ type: 'image/jpeg' })).toBe(true)
+    expect(isSanitizableImage({ type: 'image/png' })).toBe(true)
+    expect(isSanitizableImage({ type: 'image/webp' })).toBe(true)
+    expect(isSanitizableImage({ type: 'image/gif' })).toBe(false)
+    expect(isSanitizableImage({ type: 'image/heic' })).toBe(false)
+    expect(isSanitizableImage({ type: 'application/pdf' })).toBe(false)
+  })
+})
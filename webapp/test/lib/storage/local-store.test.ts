@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the local-filesystem storage driver
+ * Tests: write-once files, path containment, listing, signed URL expiry, tampering and size limits
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { CiphertextStore } from '@/lib/storage/ciphertext-store'
+import {
+  createLocalStore,
+  localUrlMaxBytes,
+  signedLocalUrl,
+  verifyLocalUrl,
+} from '@/lib/storage/local-store'
+
+const originalEnv = process.env
+const ciphertext = new Uint8Array([1, 2, 3, 4])
+const path = 'vaults/vault-123/ID/doc-1.bin'
+
+describe('local store', () => {
+  let root: string
+  let store: CiphertextStore
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, LOCAL_STORAGE_SECRET: 'test-local-secret' }
+    root = await mkdtemp(join(tmpdir(), 'ciphertext-'))
+    store = createLocalStore(root)
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should store, download and delete a blob', async () => {
+    await store.upload(path, ciphertext)
+
+    expect(await store.download(path)).toEqual(ciphertext)
+
+    await store.delete(path)
+    await expect(store.download(path)).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('should not overwrite an existing blob', async () => {
+    await store.upload(path, ciphertext)
+
+    await expect(store.upload(path, new Uint8Array([9]))).rejects.toMatchObject({
+      code: 'EEXIST',
+    })
+    expect(await store.download(path)).toEqual(ciphertext)
+  })
+
+  it('should refuse paths outside the storage directory', async () => {
+    await expect(store.upload('../escaped.bin', ciphertext)).rejects.toThrow(
+      'Invalid storage path'
+    )
+    await expect(store.download('vaults/../../escaped.bin')).rejects.toThrow(
+      'Invalid storage path'
+    )
+  })
+
+  it('should list every blob under a prefix', async () => {
+    await store.upload(path, ciphertext)
+    await store.upload('vaults/vault-456/Passport/doc-2.bin', ciphertext)
+
+    const blobs = await store.list('vaults')
+
+    expect(blobs.map((blob) => blob.path).sort()).toEqual([
+      path,
+      'vaults/vault-456/Passport/doc-2.bin',
+    ])
+    expect(blobs[0].createdAt).toBeInstanceOf(Date)
+    expect(await store.list('missing')).toEqual([])
+  })
+
+  it('should accept a signed URL until it expires', () => {
+    const now = new Date('2026-10-19T08:00:00Z')
+    const url = new URL(signedLocalUrl('GET', path, 300, { now }), 'http://localhost')
+
+    expect(url.pathname).toBe(`/api/storage/local/${path}`)
+    expect(verifyLocalUrl('GET', path, url.searchParams, now)).toBe(true)
+    expect(
+      verifyLocalUrl('GET', path, url.searchParams, new Date('2026-10-19T08:05:00Z'))
+    ).toBe(false)
+  })
+
+  it('should reject a signed URL used for another path or method, or tampered with', () => {
+    const now = new Date('2026-10-19T08:00:00Z')
+    const url = new URL(signedLocalUrl('GET', path, 300, { now }), 'http://localhost')
+
+    expect(verifyLocalUrl('GET', 'vaults/vault-123/ID/doc-2.bin', url.searchParams, now)).toBe(
+      false
+    )
+    expect(verifyLocalUrl('PUT', path, url.searchParams, now)).toBe(false)
+
+    const extended = new URLSearchParams(url.searchParams)
+    extended.set('expires', String(Number(extended.get('expires')) + 3600))
+    expect(verifyLocalUrl('GET', path, extended, now)).toBe(false)
+  })
+
+  it('should only accept an upload URL with the size limit it was signed with', () => {
+    const now = new Date('2026-10-19T08:00:00Z')
+    const url = new URL(
+      signedLocalUrl('PUT', path, 300, { maxBytes: 1024, now }),
+      'http://localhost'
+    )
+
+    expect(verifyLocalUrl('PUT', path, url.searchParams, now)).toBe(true)
+    expect(localUrlMaxBytes(url.searchParams)).toBe(1024)
+
+    const raised = new URLSearchParams(url.searchParams)
+    raised.set('maxBytes', '1048576')
+    expect(verifyLocalUrl('PUT', path, raised, now)).toBe(false)
+
+    const unlimited = new URL(signedLocalUrl('PUT', path, 300, { now }), 'http://localhost')
+    expect(verifyLocalUrl('PUT', path, unlimited.searchParams, now)).toBe(false)
+  })
+})
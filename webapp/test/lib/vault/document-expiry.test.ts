@@ -0,0 +1,58 @@
+/**
+ * Unit tests for document expiry
+ * Tests: when a document is accepted until, expiring soon and stale statuses, date validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  documentExpiryStatus,
+  documentValidUntil,
+  storedDocumentDatesSchema,
+} from '@/lib/vault/document-expiry'
+
+const today = new Date('2026-10-19T12:00:00Z')
+
+describe('document expiry', () => {
+  it('should accept a document until its expiry date', () => {
+    expect(
+      documentValidUntil('Passport', { issuedOn: '2020-01-01', expiresOn: '2030-01-01' })
+    ).toBe('2030-01-01')
+    expect(documentValidUntil('Passport', { issuedOn: '2020-01-01', expiresOn: null })).toBeNull()
+  })
+
+  it('should accept proof of address for three months after it was issued', () => {
+    expect(documentValidUntil('ProofOfAddress', { issuedOn: '2026-05-31', expiresOn: null })).toBe(
+      '2026-08-31'
+    )
+    expect(documentValidUntil('ProofOfAddress', { issuedOn: '2026-11-30', expiresOn: null })).toBe(
+      '2027-02-28'
+    )
+    expect(
+      documentValidUntil('ProofOfAddress', { issuedOn: '2026-09-01', expiresOn: '2026-10-01' })
+    ).toBe('2026-10-01')
+  })
+
+  it('should be expiring soon within 30 days and stale after the last accepted day', () => {
+    const status = (expiresOn: string) =>
+      documentExpiryStatus('Passport', { issuedOn: null, expiresOn }, today)
+
+    expect(status('2026-11-19')).toBeNull()
+    expect(status('2026-11-18')).toBe('expiring_soon')
+    expect(status('2026-10-19')).toBe('expiring_soon')
+    expect(status('2026-10-18')).toBe('stale')
+    expect(documentExpiryStatus('Passport', { issuedOn: null, expiresOn: null }, today)).toBeNull()
+  })
+
+  it('should reject dates that are both plaintext and encrypted, or out of order', () => {
+    expect(storedDocumentDatesSchema.safeParse({ expiresOn: '2027-01-01' }).success).toBe(true)
+    expect(
+      storedDocumentDatesSchema.safeParse({ expiresOn: '2027-01-01', encryptedDates: 'ZGF0ZXM=' })
+        .success
+    ).toBe(false)
+    expect(
+      storedDocumentDatesSchema.safeParse({ issuedOn: '2027-01-02', expiresOn: '2027-01-01' })
+        .success
+    ).toBe(false)
+    expect(storedDocumentDatesSchema.safeParse({ issuedOn: '2027-02-29' }).success).toBe(false)
+  })
+})